@@ -0,0 +1,89 @@
+/**
+ * Hashes a message which is too large for a single circuit, by hashing it in chunks across recursive proofs.
+ *
+ * Every step of `IncrementalSHA256` hashes one chunk into the intermediate SHA256 state, which is its public output.
+ * `FinalizeSHA256` hashes the remaining bytes, which can have any length up to the chunk size, and outputs the digest.
+ */
+import {
+  Bytes,
+  DynamicBytes,
+  Empty,
+  Gadgets,
+  SelfProof,
+  ZkProgram,
+} from '@circularise/cir-o1js';
+
+const CHUNK_SIZE = 1024;
+
+class Chunk extends Bytes(CHUNK_SIZE) {}
+class Rest extends DynamicBytes(CHUNK_SIZE) {}
+
+const State = Gadgets.SHA256.State;
+type State = Gadgets.SHA256.State;
+
+let IncrementalSHA256 = ZkProgram({
+  name: 'incremental-sha256',
+  publicOutput: State,
+
+  methods: {
+    first: {
+      privateInputs: [Chunk.provable],
+      method(chunk: Chunk) {
+        return Gadgets.SHA256.update(Gadgets.SHA256.init(), chunk);
+      },
+    },
+
+    next: {
+      privateInputs: [SelfProof, Chunk.provable],
+      method(earlierProof: SelfProof<Empty, State>, chunk: Chunk) {
+        earlierProof.verify();
+        return Gadgets.SHA256.update(earlierProof.publicOutput, chunk);
+      },
+    },
+  },
+});
+
+class IncrementalSHA256Proof extends ZkProgram.Proof(IncrementalSHA256) {}
+
+let FinalizeSHA256 = ZkProgram({
+  name: 'finalize-sha256',
+  publicOutput: Bytes(32).provable,
+
+  methods: {
+    finalize: {
+      privateInputs: [IncrementalSHA256Proof, Rest.provable],
+      method(proof: IncrementalSHA256Proof, rest: Rest) {
+        proof.verify();
+        return Gadgets.SHA256.finalize(proof.publicOutput, rest);
+      },
+    },
+  },
+});
+
+let message = Bytes.fromString('a'.repeat(3000)).bytes;
+let chunks = [0, 1].map((i) =>
+  Chunk.from(message.slice(CHUNK_SIZE * i, CHUNK_SIZE * (i + 1)))
+);
+let rest = Rest.from(message.slice(2 * CHUNK_SIZE));
+
+console.time('compile');
+await IncrementalSHA256.compile();
+await FinalizeSHA256.compile();
+console.timeEnd('compile');
+
+console.time('prove');
+let proof = await IncrementalSHA256.first(chunks[0]);
+proof = await IncrementalSHA256.next(proof, chunks[1]);
+let digestProof = await FinalizeSHA256.finalize(proof, rest);
+console.timeEnd('prove');
+
+let isValid = await FinalizeSHA256.verify(digestProof);
+
+console.log('digest:', digestProof.publicOutput.toHex());
+
+if (
+  digestProof.publicOutput.toHex() !==
+  '556ac82f23f64d2f41b3fb3b9a171791364021aa95c0af6df9e2b5e1d88c8038'
+)
+  throw new Error('Invalid sha256 digest!');
+if (!isValid) throw new Error('Invalid proof');
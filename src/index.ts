@@ -9,6 +9,18 @@ export {
 } from './lib/foreign-field.js';
 export { createForeignCurve, ForeignCurve } from './lib/foreign-curve.js';
 export { createEcdsa, EcdsaSignature } from './lib/foreign-ecdsa.js';
+export {
+  createForeignEdwardsCurve,
+  ForeignEdwardsCurve,
+} from './lib/foreign-edwards-curve.js';
+export { createEddsa, EddsaSignature } from './lib/foreign-eddsa.js';
+export { createSchnorr, SchnorrSignature } from './lib/foreign-schnorr.js';
+export { WebAuthn } from './lib/webauthn.js';
+export { createProvableBigInt, ProvableBigInt } from './lib/big-int.js';
+export { Rsa } from './lib/rsa.js';
+export { Jwt } from './lib/jwt.js';
+export { Json } from './lib/json.js';
+export { Regex } from './lib/regex.js';
 export { Poseidon, TokenSymbol, ProvableHashable } from './lib/hash.js';
 export {
   fieldArrayToBigIntArray,
@@ -38,9 +50,20 @@ export {
 } from './lib/circuit-value.js';
 export { Provable } from './lib/provable.js';
 export { Circuit, Keypair, public_, circuitMain } from './lib/circuit.js';
-export { UInt32, UInt64, Int64, Sign, UInt8 } from './lib/int.js';
-export { Bytes } from './lib/provable-types/provable-types.js';
+export { UInt32, UInt64, Int64, Sign, UInt8, UInt16 } from './lib/int.js';
+export { Int8, Int16, Int32 } from './lib/signed-int.js';
+export { UInt128, UInt256 } from './lib/wide-int.js';
+export {
+  Bytes,
+  DynamicBytes,
+  UFixed,
+  Fixed,
+  DynamicArray,
+} from './lib/provable-types/provable-types.js';
+export type { RoundingMode } from './lib/provable-types/fixed.js';
 export { Packed, Hashed } from './lib/provable-types/packed.js';
+export { Option } from './lib/provable-types/option.js';
+export { Enum } from './lib/provable-types/enum.js';
 export { Gadgets } from './lib/gadgets/gadgets.js';
 export { Types } from './bindings/mina-transaction/types.js';
 
@@ -127,7 +150,26 @@ export { setNumberOfWorkers } from './lib/proof-system/workers.js';
 import { memoizeWitness } from './lib/provable.js';
 export { Experimental };
 
-export { commit, verifyCommitment } from './lib/pedersen.js';
+export {
+  commit,
+  verifyCommitment,
+  addCommitments,
+  subCommitments,
+  scaleCommitment,
+  deriveGenerator,
+  verifyGenerator,
+  encodePoint,
+  decodePoint,
+  PedersenCommitment,
+} from './lib/pedersen.js';
+export type { PedersenGenerators } from './lib/pedersen.js';
+export {
+  SchnorrProof,
+  PedersenOpeningProof,
+  CommitmentEqualityProof,
+  OrProof,
+} from './lib/sigma-protocol.js';
+export { RangeProof } from './lib/range-proof.js';
 
 const Experimental_ = {
   memoizeWitness,
@@ -0,0 +1,203 @@
+import { provableFromClass } from '../bindings/lib/provable-snarky.js';
+import { ProvablePureExtended } from './circuit-value.js';
+import { Bool } from './bool.js';
+import { Field } from './field.js';
+import { UInt8 } from './int.js';
+import { BigIntN, FieldN } from './gadgets/big-int.js';
+import { assert } from './gadgets/common.js';
+import { Provable } from './provable.js';
+import { Bytes } from './provable-types/provable-types.js';
+
+// external API
+export { createProvableBigInt, ProvableBigInt };
+
+/**
+ * Provable big integer of a fixed bit length, with modular arithmetic for a variable modulus.
+ *
+ * This is designed for RSA, where moduli are 2048 or 4096 bits long and are part of the input.
+ * See {@link createProvableBigInt} to create a class for a given bit length.
+ */
+class ProvableBigInt {
+  /**
+   * The internal representation of the big integer, as an array of 88-bit limbs in little-endian order.
+   */
+  value: FieldN;
+
+  constructor(x: FieldN | bigint | number) {
+    let limbs = this.Constructor.limbs;
+    if (Array.isArray(x)) {
+      assert(
+        x.length === limbs,
+        `ProvableBigInt: expected ${limbs} limbs, got ${x.length}`
+      );
+      this.value = x;
+      return;
+    }
+    let x_ = BigInt(x);
+    assert(
+      x_ >= 0n && x_ < 1n << BigInt(this.Constructor.bits),
+      `ProvableBigInt: expected a non-negative integer of at most ${this.Constructor.bits} bits`
+    );
+    this.value = FieldN.from(x_, limbs);
+  }
+
+  /**
+   * Coerce the input to a {@link ProvableBigInt}.
+   */
+  static from(x: ProvableBigInt | bigint | number) {
+    if (x instanceof this) return x;
+    return new this(x);
+  }
+
+  /**
+   * Checks whether this big integer is a constant.
+   */
+  isConstant() {
+    return FieldN.isConstant(this.value);
+  }
+
+  /**
+   * Convert this big integer to a bigint.
+   *
+   * Note: This method is not provable.
+   */
+  toBigInt() {
+    return FieldN.toBigint(this.value);
+  }
+
+  /**
+   * Modular multiplication `this * y mod modulus`.
+   *
+   * The result is not necessarily reduced, i.e. it could be larger than the modulus, but it is always congruent to the product.
+   * Use {@link ProvableBigInt.assertLessThan} if you need a canonical result.
+   */
+  mulMod(y: ProvableBigInt | bigint, modulus: ProvableBigInt | bigint) {
+    let Constructor = this.Constructor;
+    return new Constructor(
+      BigIntN.multiply(
+        this.value,
+        Constructor.from(y).value,
+        Constructor.from(modulus).value
+      )
+    );
+  }
+
+  /**
+   * Modular exponentiation `this^exponent mod modulus`, for a constant exponent.
+   *
+   * The result is not necessarily reduced, see {@link ProvableBigInt.mulMod}.
+   */
+  powMod(exponent: bigint, modulus: ProvableBigInt | bigint) {
+    let Constructor = this.Constructor;
+    return new Constructor(
+      BigIntN.power(this.value, exponent, Constructor.from(modulus).value)
+    );
+  }
+
+  /**
+   * Assert that this big integer is less than y.
+   */
+  assertLessThan(y: ProvableBigInt | bigint, message?: string) {
+    BigIntN.assertLessThan(this.value, this.Constructor.from(y).value, message);
+  }
+
+  /**
+   * Check whether this big integer equals y.
+   *
+   * Note: This compares the limbs, so it only returns a meaningful result if both inputs are reduced in the same way.
+   */
+  equals(y: ProvableBigInt | bigint): Bool {
+    let Constructor = this.Constructor;
+    return Provable.equal(
+      FieldN.provable(Constructor.limbs),
+      this.value,
+      Constructor.from(y).value
+    );
+  }
+
+  /**
+   * Assert that this big integer equals y.
+   */
+  assertEquals(y: ProvableBigInt | bigint, message?: string) {
+    this.equals(y).assertTrue(message);
+  }
+
+  /**
+   * Encode this big integer as big-endian bytes, with the byte length of the bit size.
+   *
+   * This method is provable.
+   */
+  toBytes(): UInt8[] {
+    let length = Math.ceil(this.Constructor.bits / 8);
+    return BigIntN.toBytes(this.value, length);
+  }
+
+  /**
+   * Decode big-endian bytes to a {@link ProvableBigInt}.
+   *
+   * This method is provable.
+   */
+  static fromBytes(bytes: Bytes | Uint8Array) {
+    let bytes_ = Bytes.from(bytes).bytes;
+    let length = Math.ceil(this.bits / 8);
+    assert(
+      bytes_.length <= length,
+      `ProvableBigInt: expected at most ${length} bytes, got ${bytes_.length}`
+    );
+    return new this(BigIntN.fromBytes(bytes_, this.limbs));
+  }
+
+  static check(x: ProvableBigInt) {
+    BigIntN.rangeCheck(x.value);
+  }
+
+  // dynamic subclassing infra
+  get Constructor() {
+    return this.constructor as typeof ProvableBigInt;
+  }
+  static _bits?: number;
+  static _provable?: ProvablePureExtended<ProvableBigInt, { value: string[] }>;
+
+  /**
+   * The maximal bit length of this big integer.
+   */
+  static get bits() {
+    assert(this._bits !== undefined, 'ProvableBigInt not initialized');
+    return this._bits;
+  }
+  /**
+   * The number of 88-bit limbs in the internal representation.
+   */
+  static get limbs() {
+    return FieldN.limbs(this.bits);
+  }
+  /**
+   * `Provable<ProvableBigInt>`
+   */
+  static get provable() {
+    assert(this._provable !== undefined, 'ProvableBigInt not initialized');
+    return this._provable;
+  }
+}
+
+/**
+ * Create a class {@link ProvableBigInt} for big integers of the given bit length, like 2048 or 4096 for RSA.
+ *
+ * ```ts
+ * class Bigint2048 extends createProvableBigInt(2048) {}
+ *
+ * let x = Bigint2048.from(123n);
+ * let y = x.mulMod(x, modulus);
+ * ```
+ */
+function createProvableBigInt(bits: number): typeof ProvableBigInt {
+  assert(bits > 0, `bit length must be positive, got ${bits}`);
+
+  class BigInt_ extends ProvableBigInt {
+    static _bits = bits;
+    static _provable = provableFromClass(BigInt_, {
+      value: Provable.Array(Field, FieldN.limbs(bits)),
+    });
+  }
+  return BigInt_;
+}
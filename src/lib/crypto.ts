@@ -1,8 +1,28 @@
 import { CurveParams as CurveParams_ } from '../bindings/crypto/elliptic-curve-examples.js';
 import {
   CurveAffine,
+  CurveParams as CurveParamsType,
   createCurveAffine,
 } from '../bindings/crypto/elliptic-curve.js';
+import { TwistedCurveParams as TwistedCurveParams_ } from './gadgets/twisted-edwards.js';
+
+/**
+ * The NIST P-256 curve, also known as secp256r1 or prime256v1, which is used by WebAuthn passkeys and ES256 JWTs.
+ *
+ * See https://www.secg.org/sec2-v2.pdf, section 2.4.2
+ */
+const Secp256r1: CurveParamsType = {
+  name: 'secp256r1',
+  modulus: 0xffffffff00000001000000000000000000000000ffffffffffffffffffffffffn,
+  order: 0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551n,
+  cofactor: 1n,
+  generator: {
+    x: 0x6b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296n,
+    y: 0x4fe342e2fe1a7f9b8ee7eb4a7c0f9e162bce33576b315ececbb6406837bf51f5n,
+  },
+  a: 0xffffffff00000001000000000000000000000000fffffffffffffffffffffffcn,
+  b: 0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604bn,
+};
 
 // crypto namespace
 const Crypto = {
@@ -16,7 +36,12 @@ const Crypto = {
    * Parameters defining an elliptic curve in short Weierstraß form
    * y^2 = x^3 + ax + b
    */
-  CurveParams: CurveParams_,
+  CurveParams: { ...CurveParams_, Secp256r1 },
+  /**
+   * Parameters defining an elliptic curve in twisted Edwards form
+   * a*x^2 + y^2 = 1 + d*x^2*y^2
+   */
+  TwistedCurveParams: TwistedCurveParams_,
 };
 
 namespace Crypto {
@@ -27,5 +52,11 @@ namespace Crypto {
   export type CurveParams = CurveParams_;
 
   export type Curve = CurveAffine;
+
+  /**
+   * Parameters defining an elliptic curve in twisted Edwards form
+   * a*x^2 + y^2 = 1 + d*x^2*y^2
+   */
+  export type TwistedCurveParams = TwistedCurveParams_;
 }
 export { Crypto };
@@ -8,17 +8,23 @@ import {
   toPoint,
 } from './foreign-curve.js';
 import { AlmostForeignField } from './foreign-field.js';
+import { Bool, Field } from './core.js';
+import { bytesToField3, field3ToBytes } from './gadgets/bit-slices.js';
 import { assert } from './gadgets/common.js';
-import { Field3 } from './gadgets/foreign-field.js';
+import { Field3, ForeignField } from './gadgets/foreign-field.js';
 import { Ecdsa } from './gadgets/elliptic-curve.js';
 import { l } from './gadgets/range-check.js';
 import { Keccak } from './keccak.js';
+import { Provable } from './provable.js';
 import { Bytes } from './provable-types/provable-types.js';
 import { UInt8 } from './int.js';
 
 // external API
 export { createEcdsa, EcdsaSignature };
 
+// internal API
+export { hashOutputToScalar };
+
 type FlexibleSignature =
   | EcdsaSignature
   | {
@@ -59,6 +65,32 @@ class EcdsaSignature {
     return new this(s);
   }
 
+  /**
+   * Create an {@link EcdsaSignature} from its DER encoding, as used in X.509 certificates and WebAuthn:
+   * an ASN.1 sequence of the two integers r and s.
+   *
+   * Note: This method is not provable.
+   */
+  static fromDER(der: Uint8Array): EcdsaSignature {
+    let fail = () =>
+      assert(false, 'EcdsaSignature.fromDER(): invalid encoding');
+    if (der[0] !== 0x30 || der[1] !== der.length - 2) fail();
+
+    let offset = 2;
+    let readInteger = () => {
+      if (der[offset] !== 0x02) fail();
+      let length = der[offset + 1];
+      let bytes = der.slice(offset + 2, offset + 2 + length);
+      if (length === 0 || bytes.length !== length) fail();
+      offset += 2 + length;
+      return bytes.reduce((x, byte) => (x << 8n) | BigInt(byte), 0n);
+    };
+    let r = readInteger();
+    let s = readInteger();
+    if (offset !== der.length) fail();
+    return new this({ r, s });
+  }
+
   /**
    * Convert this signature to an object with bigint fields.
    */
@@ -102,7 +134,7 @@ class EcdsaSignature {
    */
   verify(message: Bytes, publicKey: FlexiblePoint) {
     let msgHashBytes = Keccak.ethereum(message);
-    let msgHash = keccakOutputToScalar(msgHashBytes, this.Constructor.Curve);
+    let msgHash = hashOutputToScalar(msgHashBytes, this.Constructor.Curve);
     return this.verifySignedHash(msgHash, publicKey);
   }
 
@@ -127,6 +159,134 @@ class EcdsaSignature {
     );
   }
 
+  /**
+   * Recover the public key (a {@link Curve} point) from the signature, given the message (an array of bytes)
+   * and the recovery id `v`, which is 0 or 1.
+   *
+   * Like {@link EcdsaSignature.verify}, this hashes the message with Keccak-256, so it is equivalent to Ethereum's `ecrecover`.
+   * Note that Ethereum signatures usually encode the recovery id as `v + 27`.
+   *
+   * @throws if the signature is invalid, so that no public key can be recovered.
+   *
+   * @example
+   * ```ts
+   * // in provable code
+   * let publicKey = sig.recoverPublicKey(msg, v);
+   * publicKey.assertEquals(expectedPublicKey);
+   * ```
+   */
+  recoverPublicKey(message: Bytes, v: Field | bigint | number) {
+    let msgHashBytes = Keccak.ethereum(message);
+    let msgHash = hashOutputToScalar(msgHashBytes, this.Constructor.Curve);
+    return this.recoverPublicKeyFromHash(msgHash, v);
+  }
+
+  /**
+   * Recover the public key (a {@link Curve} point) from the signature, given the message hash (a {@link Scalar})
+   * and the recovery id `v`, which is 0 or 1.
+   *
+   * This is a building block of {@link EcdsaSignature.recoverPublicKey}, where the input message is also hashed.
+   *
+   * @throws if the signature is invalid, so that no public key can be recovered.
+   */
+  recoverPublicKeyFromHash(
+    msgHash: AlmostForeignField | bigint,
+    v: Field | bigint | number
+  ) {
+    let Curve = this.Constructor.Curve;
+    let msgHash_ = Curve.Scalar.from(msgHash);
+    let publicKey = Ecdsa.recover(
+      Curve.Bigint,
+      toObject(this),
+      msgHash_.value,
+      Field(v)
+    );
+    return new Curve(publicKey);
+  }
+
+  /**
+   * Provable method to derive the Ethereum address of a public key (a {@link Curve} point),
+   * which consists of the last 20 bytes of the Keccak-256 hash of its 64-byte uncompressed encoding.
+   */
+  static ethereumAddress(publicKey: FlexiblePoint): Bytes {
+    let Curve = this.Curve;
+    assert(
+      Curve.Field.sizeInBits <= 256,
+      'Ethereum addresses are only supported on curves with fields of at most 256 bits'
+    );
+    let { x, y } = toPoint(Curve.from(publicKey));
+
+    // the encoding must be canonical, otherwise the prover could choose a different address
+    ForeignField.assertLessThan(x, Curve.modulus);
+    ForeignField.assertLessThan(y, Curve.modulus);
+
+    let hash = Keccak.ethereum(
+      Bytes.from([...field3ToBytes(x), ...field3ToBytes(y)])
+    );
+    return Bytes.from(hash.bytes.slice(12));
+  }
+
+  /**
+   * Verify an Ethereum `personal_sign` signature, as created by wallets like MetaMask,
+   * given the message, the 65-byte signature `r || s || v` and the 20-byte address of the signer.
+   *
+   * The signed hash is the Keccak-256 hash of `"\x19Ethereum Signed Message:\n" + message.length + message`.
+   * This recovers the public key from the signature and compares its address to `address`,
+   * so that you don't need to know the signer's public key.
+   *
+   * **Important:** This method returns a {@link Bool} which indicates whether the signature was created by `address`.
+   * So, to actually prove validity of a signature, you need to assert that the result is true.
+   *
+   * @throws if the signature is invalid, so that no public key can be recovered.
+   *
+   * @example
+   * ```ts
+   * class Secp256k1 extends createForeignCurve(Crypto.CurveParams.Secp256k1) {}
+   * class Ecdsa extends createEcdsa(Secp256k1) {}
+   *
+   * // in provable code
+   * let isValid = Ecdsa.verifyEthereumPersonalSign(
+   *   message, // Bytes
+   *   signature, // Bytes(65)
+   *   address // Bytes(20)
+   * );
+   * isValid.assertTrue('signed by address');
+   * ```
+   */
+  static verifyEthereumPersonalSign(
+    message: Bytes,
+    signature: Bytes,
+    address: Bytes
+  ): Bool {
+    assert(
+      signature.length === 65,
+      `Ethereum signature must be 65 bytes, got ${signature.length}`
+    );
+    assert(
+      address.length === 20,
+      `Ethereum address must be 20 bytes, got ${address.length}`
+    );
+    let sigBytes = signature.bytes;
+    let r = bytesToField3(sigBytes.slice(0, 32));
+    let s = bytesToField3(sigBytes.slice(32, 64));
+    let v = sigBytes[64].value.sub(27);
+
+    let prefix = Bytes.fromString(
+      `\x19Ethereum Signed Message:\n${message.length}`
+    );
+    let msgHash = hashOutputToScalar(
+      Keccak.ethereum(Bytes.from([...prefix.bytes, ...message.bytes])),
+      this.Curve
+    );
+    let publicKey = new this({ r, s }).recoverPublicKeyFromHash(msgHash, v);
+
+    return Provable.equal(
+      Bytes(20).provable,
+      this.ethereumAddress(publicKey),
+      address
+    );
+  }
+
   /**
    * Create an {@link EcdsaSignature} by signing a message with a private key.
    *
@@ -134,7 +294,7 @@ class EcdsaSignature {
    */
   static sign(message: (bigint | number)[] | Uint8Array, privateKey: bigint) {
     let msgHashBytes = Keccak.ethereum(message);
-    let msgHash = keccakOutputToScalar(msgHashBytes, this.Curve);
+    let msgHash = hashOutputToScalar(msgHashBytes, this.Curve);
     return this.signHash(msgHash.toBigInt(), privateKey);
   }
 
@@ -209,7 +369,7 @@ function toObject(signature: EcdsaSignature) {
 }
 
 /**
- * Provable method to convert keccak256 hash output to ECDSA scalar = "message hash"
+ * Provable method to convert a 32-byte hash output, like keccak256 or SHA-256, to ECDSA scalar = "message hash"
  *
  * Spec from [Wikipedia](https://en.wikipedia.org/wiki/Elliptic_Curve_Digital_Signature_Algorithm):
  *
@@ -228,7 +388,7 @@ function toObject(signature: EcdsaSignature) {
  * - takes a 32 bytes hash
  * - converts them to 3 limbs which collectively have L_n <= 256 bits
  */
-function keccakOutputToScalar(hash: Bytes, Curve: typeof ForeignCurve) {
+function hashOutputToScalar(hash: Bytes, Curve: typeof ForeignCurve) {
   const L_n = Curve.Scalar.sizeInBits;
   // keep it simple for now, avoid dealing with dropping bits
   // TODO: what does "leftmost bits" mean? big-endian or little-endian?
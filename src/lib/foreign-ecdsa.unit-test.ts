@@ -0,0 +1,77 @@
+import { Crypto } from './crypto.js';
+import { createForeignCurve } from './foreign-curve.js';
+import { createEcdsa } from './foreign-ecdsa.js';
+import { Provable } from './provable.js';
+import { Bytes } from './provable-types/provable-types.js';
+import { expect } from 'expect';
+
+class Secp256k1 extends createForeignCurve(Crypto.CurveParams.Secp256k1) {}
+class Ecdsa extends createEcdsa(Secp256k1) {}
+
+// Ethereum addresses
+expect(Ecdsa.ethereumAddress(Secp256k1.generator).toHex()).toEqual(
+  '7e5f4552091a69125d5dfcb7b8c2659029395bdf'
+);
+
+// personal_sign signature, created with the private key 0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318
+let message = Bytes.fromString('hello o1js');
+let address = '2c7536e3605d9c16a7a3d7b1898e529396a65c23';
+let signature =
+  'bb50e2d89a4ed70663d080659fe0ad4b9bc3e06c17a227433966cb59ceee020d596015bc5f829e860c56fbaf6291901e0632fcc87e1d4c66d0194f270750e9521b';
+
+// constant
+expect(
+  Ecdsa.verifyEthereumPersonalSign(
+    message,
+    Bytes.fromHex(signature),
+    Bytes.fromHex(address)
+  ).toBoolean()
+).toEqual(true);
+
+// provable
+Provable.runAndCheck(() => {
+  let msg = Provable.witness(Bytes(message.length).provable, () => message);
+  let sig = Provable.witness(Bytes(65).provable, () =>
+    Bytes.fromHex(signature)
+  );
+  let addr = Provable.witness(Bytes(20).provable, () => Bytes.fromHex(address));
+  Ecdsa.verifyEthereumPersonalSign(msg, sig, addr).assertTrue(
+    'signed by address'
+  );
+
+  // a different address doesn't verify
+  let otherAddress = Bytes.fromHex('7e5f4552091a69125d5dfcb7b8c2659029395bdf');
+  Ecdsa.verifyEthereumPersonalSign(msg, sig, otherAddress).assertFalse(
+    'not signed by other address'
+  );
+});
+
+// ecrecover on the prefixed message gives us the signer's public key
+let privateKey =
+  0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318n;
+let publicKey = Secp256k1.generator.scale(privateKey);
+let prefixedMessage = Bytes.fromString(
+  '\x19Ethereum Signed Message:\n10hello o1js'
+);
+
+Provable.runAndCheck(() => {
+  let sig = Provable.witness(Ecdsa.provable, () =>
+    Ecdsa.fromHex('0x' + signature)
+  );
+  let msg = Provable.witness(
+    Bytes(prefixedMessage.length).provable,
+    () => prefixedMessage
+  );
+  let recovered = sig.recoverPublicKey(msg, 0);
+  Provable.assertEqual(Secp256k1.provable, recovered, publicKey);
+});
+
+// the recovery id must be 0 or 1
+expect(() =>
+  Provable.runAndCheck(() => {
+    let sig = Provable.witness(Ecdsa.provable, () =>
+      Ecdsa.fromHex('0x' + signature)
+    );
+    sig.recoverPublicKey(prefixedMessage, 2);
+  })
+).toThrow();
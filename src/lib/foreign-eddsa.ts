@@ -0,0 +1,227 @@
+import { provableFromClass } from '../bindings/lib/provable-snarky.js';
+import { bytesToBigInt } from '../bindings/crypto/bigint-helpers.js';
+import { ProvablePureExtended } from './circuit-value.js';
+import {
+  FlexiblePoint,
+  ForeignEdwardsCurve,
+  createForeignEdwardsCurve,
+  toPoint,
+} from './foreign-edwards-curve.js';
+import { AlmostForeignField } from './foreign-field.js';
+import { assert } from './gadgets/common.js';
+import { Field3 } from './gadgets/foreign-field.js';
+import { bytesToWord } from './gadgets/bit-slices.js';
+import { Eddsa, TwistedCurveParams } from './gadgets/twisted-edwards.js';
+import { Bytes } from './provable-types/provable-types.js';
+
+// external API
+export { createEddsa, EddsaSignature };
+
+type FlexibleSignature =
+  | EddsaSignature
+  | {
+      R: ForeignEdwardsCurve | FlexiblePoint;
+      s: AlmostForeignField | Field3 | bigint | number;
+    };
+
+class EddsaSignature {
+  R: ForeignEdwardsCurve;
+  s: AlmostForeignField;
+
+  /**
+   * Create a new {@link EddsaSignature} from an object containing the curve point R and the scalar s.
+   */
+  constructor(signature: {
+    R: ForeignEdwardsCurve | FlexiblePoint;
+    s: AlmostForeignField | Field3 | bigint | number;
+  }) {
+    this.R = this.Constructor.Curve.from(signature.R);
+    this.s = new this.Constructor.Curve.Scalar(signature.s);
+  }
+
+  /**
+   * Coerce the input to a {@link EddsaSignature}.
+   */
+  static from(signature: FlexibleSignature): EddsaSignature {
+    if (signature instanceof this) return signature;
+    return new this(signature);
+  }
+
+  /**
+   * Decode an {@link EddsaSignature} from its 64-byte encoding `R || s`, as specified in
+   * [RFC 8032](https://www.rfc-editor.org/rfc/rfc8032#section-5.1.6).
+   *
+   * This method is provable. It proves that R is the canonical encoding of a curve point,
+   * while the range of s is checked during {@link EddsaSignature.verify}.
+   *
+   * @throws if the first 32 bytes are not the encoding of a curve point.
+   */
+  static fromBytes(bytes: Bytes | Uint8Array) {
+    let bytes_ = Bytes.from(bytes).bytes;
+    assert(
+      bytes_.length === 64,
+      `EdDSA signature must be 64 bytes, got ${bytes_.length}`
+    );
+    let R = this.Curve.fromBytes(Bytes.from(bytes_.slice(0, 32)));
+
+    // s is little endian, so the limbs consist of bytes 32-42, 43-53 and 54-63
+    let sBytes = bytes_.slice(32);
+    let s: Field3 = [
+      bytesToWord(sBytes.slice(0, 11)),
+      bytesToWord(sBytes.slice(11, 22)),
+      bytesToWord(sBytes.slice(22)),
+    ];
+    return new this({ R, s });
+  }
+
+  /**
+   * Create an {@link EddsaSignature} from a 128-char hex string.
+   */
+  static fromHex(signature: string) {
+    if (signature.startsWith('0x')) signature = signature.slice(2);
+    assert(
+      signature.length === 128,
+      `EdDSA signature must be 128 hex characters, got ${signature.length}`
+    );
+    let bytes = Bytes.fromHex(signature).toBytes();
+    let R = Eddsa.decodeConstant(bytes.slice(0, 32), this.Curve.Bigint);
+    assert(R !== undefined, 'EdDSA signature: invalid point encoding');
+    let s = bytesToBigInt(bytes.slice(32));
+    return new this({ R, s });
+  }
+
+  /**
+   * Convert this signature to an object with bigint fields.
+   */
+  toBigInt() {
+    return { R: this.R.toBigint(), s: this.s.toBigInt() };
+  }
+
+  /**
+   * Verify the EdDSA signature given the message (an array of bytes) and public key (a {@link ForeignEdwardsCurve} point).
+   *
+   * The message is hashed with SHA-512, as specified for Ed25519.
+   *
+   * **Important:** This method returns a {@link Bool} which indicates whether the signature is valid.
+   * So, to actually prove validity of a signature, you need to assert that the result is true.
+   *
+   * @example
+   * ```ts
+   * // create classes for your curve
+   * class Ed25519 extends createForeignEdwardsCurve(Crypto.TwistedCurveParams.Ed25519) {}
+   * class Eddsa extends createEddsa(Ed25519) {}
+   *
+   * let message = Bytes32.fromString('my message');
+   *
+   * // outside provable code: create inputs
+   * let privateKey = crypto.getRandomValues(new Uint8Array(32));
+   * let publicKey = Eddsa.derivePublicKey(privateKey);
+   * let signature = Eddsa.sign(message.toBytes(), privateKey);
+   *
+   * // ...
+   * // in provable code: create input witnesses (or use method inputs, or constants)
+   * let pk = Provable.witness(Ed25519.provable, () => publicKey);
+   * let msg = Provable.witness(Bytes32.provable, () => message);
+   * let sig = Provable.witness(Eddsa.provable, () => signature);
+   *
+   * // verify signature
+   * let isValid = sig.verify(msg, pk);
+   * isValid.assertTrue('signature verifies');
+   * ```
+   */
+  verify(message: Bytes, publicKey: ForeignEdwardsCurve | FlexiblePoint) {
+    let Curve = this.Constructor.Curve;
+    let publicKey_ = Curve.from(publicKey);
+    return Eddsa.verify(
+      Curve.Bigint,
+      { R: toPoint(this.R), s: this.s.value },
+      message.bytes,
+      toPoint(publicKey_)
+    );
+  }
+
+  /**
+   * Create an {@link EddsaSignature} by signing a message with a 32-byte private key.
+   *
+   * Note: This method is not provable, and only takes constant bytes as input.
+   */
+  static sign(
+    message: (bigint | number)[] | Uint8Array,
+    privateKey: Uint8Array
+  ) {
+    let { R, s } = Eddsa.sign(
+      this.Curve.Bigint,
+      Uint8Array.from(message.map(Number)),
+      privateKey
+    );
+    return new this({ R, s });
+  }
+
+  /**
+   * Derive the public key (a {@link ForeignEdwardsCurve} point) from a 32-byte private key.
+   *
+   * Note: This method is not provable.
+   */
+  static derivePublicKey(privateKey: Uint8Array) {
+    return new this.Curve(Eddsa.publicKey(this.Curve.Bigint, privateKey));
+  }
+
+  static check(signature: EddsaSignature) {
+    this.Curve.check(signature.R);
+    this.Curve.Scalar.check(signature.s);
+  }
+
+  // dynamic subclassing infra
+  get Constructor() {
+    return this.constructor as typeof EddsaSignature;
+  }
+  static _Curve?: typeof ForeignEdwardsCurve;
+  static _provable?: ProvablePureExtended<
+    EddsaSignature,
+    { R: { x: string; y: string }; s: string }
+  >;
+
+  /**
+   * The {@link ForeignEdwardsCurve} on which the EdDSA signature is defined.
+   */
+  static get Curve() {
+    assert(this._Curve !== undefined, 'EddsaSignature not initialized');
+    return this._Curve;
+  }
+  /**
+   * `Provable<EddsaSignature>`
+   */
+  static get provable() {
+    assert(this._provable !== undefined, 'EddsaSignature not initialized');
+    return this._provable;
+  }
+}
+
+/**
+ * Create a class {@link EddsaSignature} for verifying EdDSA signatures on the given curve.
+ *
+ * Signatures are hashed with SHA-512 and points are encoded as in Ed25519,
+ * so the curve must be Ed25519 or have the same size.
+ *
+ * ```ts
+ * class Ed25519 extends createForeignEdwardsCurve(Crypto.TwistedCurveParams.Ed25519) {}
+ * class Eddsa extends createEddsa(Ed25519) {}
+ * ```
+ */
+function createEddsa(
+  curve: TwistedCurveParams | typeof ForeignEdwardsCurve
+): typeof EddsaSignature {
+  let Curve0: typeof ForeignEdwardsCurve =
+    'd' in curve ? createForeignEdwardsCurve(curve) : curve;
+  class Curve extends Curve0 {}
+
+  class Signature extends EddsaSignature {
+    static _Curve = Curve;
+    static _provable = provableFromClass(Signature, {
+      R: Curve.provable,
+      s: Curve.Scalar.provable,
+    });
+  }
+
+  return Signature;
+}
@@ -0,0 +1,318 @@
+import { ProvablePureExtended } from './circuit-value.js';
+import { AlmostForeignField, createForeignField } from './foreign-field.js';
+import { Point } from './gadgets/elliptic-curve.js';
+import { Field3 } from './gadgets/foreign-field.js';
+import {
+  Eddsa,
+  TwistedCurve,
+  TwistedCurveParams,
+  TwistedEdwards,
+  createTwistedCurve,
+} from './gadgets/twisted-edwards.js';
+import { assert } from './gadgets/common.js';
+import { Provable } from './provable.js';
+import { Bytes } from './provable-types/provable-types.js';
+import { provableFromClass } from '../bindings/lib/provable-snarky.js';
+
+// external API
+export { createForeignEdwardsCurve, ForeignEdwardsCurve };
+
+// internal API
+export { toPoint, FlexiblePoint };
+
+type FlexiblePoint = {
+  x: AlmostForeignField | Field3 | bigint | number;
+  y: AlmostForeignField | Field3 | bigint | number;
+};
+function toPoint({ x, y }: ForeignEdwardsCurve): Point {
+  return { x: x.value, y: y.value };
+}
+
+class ForeignEdwardsCurve {
+  x: AlmostForeignField;
+  y: AlmostForeignField;
+
+  /**
+   * Create a new {@link ForeignEdwardsCurve} from an object representing the (affine) x and y coordinates.
+   *
+   * @example
+   * ```ts
+   * let p = new Ed25519({ x: 0n, y: 1n }); // the zero point
+   * ```
+   *
+   * In contrast to {@link ForeignCurve}, the zero point of a twisted Edwards curve has the affine coordinates (0, 1),
+   * so every point can be represented.
+   *
+   * **Warning**: This fails for a constant input which does not represent an actual point on the curve.
+   */
+  constructor(g: {
+    x: AlmostForeignField | Field3 | bigint | number;
+    y: AlmostForeignField | Field3 | bigint | number;
+  }) {
+    this.x = new this.Constructor.Field(g.x);
+    this.y = new this.Constructor.Field(g.y);
+    // don't allow constants that aren't on the curve
+    if (this.isConstant()) {
+      this.assertOnCurve();
+    }
+  }
+
+  /**
+   * Coerce the input to a {@link ForeignEdwardsCurve}.
+   */
+  static from(g: ForeignEdwardsCurve | FlexiblePoint) {
+    if (g instanceof this) return g;
+    return new this(g);
+  }
+
+  /**
+   * The constant generator point.
+   */
+  static get generator() {
+    return new this(this.Bigint.one);
+  }
+  /**
+   * The constant zero point, with coordinates (0, 1).
+   */
+  static get zero() {
+    return new this(this.Bigint.zero);
+  }
+  /**
+   * The size of the curve's base field.
+   */
+  static get modulus() {
+    return this.Bigint.modulus;
+  }
+  /**
+   * The size of the curve's base field.
+   */
+  get modulus() {
+    return this.Constructor.Bigint.modulus;
+  }
+
+  /**
+   * Checks whether this curve point is constant.
+   *
+   * See {@link FieldVar} to understand constants vs variables.
+   */
+  isConstant() {
+    return Provable.isConstant(this.Constructor.provable, this);
+  }
+
+  /**
+   * Convert this curve point to a point with bigint coordinates.
+   */
+  toBigint() {
+    return { x: this.x.toBigInt(), y: this.y.toBigInt() };
+  }
+
+  /**
+   * Encode this point as 32 bytes, as specified for Ed25519 in [RFC 8032](https://www.rfc-editor.org/rfc/rfc8032#section-5.1.2):
+   * the y coordinate in little-endian order, with the lowest bit of x as the highest bit.
+   *
+   * This method is provable, and proves that the encoding is canonical.
+   */
+  toBytes() {
+    let Curve = this.Constructor.Bigint;
+    return Bytes.from(Eddsa.encode(toPoint(this), Curve.modulus));
+  }
+
+  /**
+   * Decode a point from its 32-byte encoding, see {@link ForeignEdwardsCurve.toBytes}.
+   *
+   * This method is provable.
+   *
+   * @throws if the bytes are not the canonical encoding of a curve point.
+   */
+  static fromBytes(bytes: Bytes | Uint8Array) {
+    let bytes_ = Bytes.from(bytes);
+    return new this(Eddsa.decode(bytes_.bytes, this.Bigint));
+  }
+
+  /**
+   * Elliptic curve addition.
+   *
+   * ```ts
+   * let r = p.add(q); // r = p + q
+   * ```
+   *
+   * In contrast to {@link ForeignCurve.add}, this is _complete addition_: it is sound for all inputs on the curve,
+   * including equal points, inverse points and the zero point.
+   */
+  add(h: ForeignEdwardsCurve | FlexiblePoint) {
+    let Curve = this.Constructor.Bigint;
+    let h_ = this.Constructor.from(h);
+    let p = TwistedEdwards.add(toPoint(this), toPoint(h_), Curve);
+    return new this.Constructor(p);
+  }
+
+  /**
+   * Elliptic curve doubling.
+   *
+   * @example
+   * ```ts
+   * let r = p.double(); // r = 2 * p
+   * ```
+   */
+  double() {
+    let Curve = this.Constructor.Bigint;
+    let p = TwistedEdwards.double(toPoint(this), Curve);
+    return new this.Constructor(p);
+  }
+
+  /**
+   * Elliptic curve negation.
+   *
+   * @example
+   * ```ts
+   * let r = p.negate(); // r = -p
+   * ```
+   */
+  negate(): ForeignEdwardsCurve {
+    return new this.Constructor({ x: this.x.neg(), y: this.y });
+  }
+
+  /**
+   * Elliptic curve scalar multiplication, where the scalar is represented as a {@link ForeignField} element.
+   *
+   * @example
+   * ```ts
+   * let r = p.scale(s); // r = s * p
+   * ```
+   */
+  scale(scalar: AlmostForeignField | bigint | number) {
+    let Curve = this.Constructor.Bigint;
+    let scalar_ = this.Constructor.Scalar.from(scalar);
+    let p = TwistedEdwards.scale(scalar_.value, toPoint(this), Curve);
+    return new this.Constructor(p);
+  }
+
+  /**
+   * Checks whether this point is equal to another point.
+   */
+  equals(h: ForeignEdwardsCurve | FlexiblePoint) {
+    let h_ = this.Constructor.from(h);
+    return TwistedEdwards.equals(toPoint(this), toPoint(h_), this.modulus);
+  }
+
+  static assertOnCurve(g: ForeignEdwardsCurve) {
+    TwistedEdwards.assertOnCurve(toPoint(g), this.Bigint);
+  }
+
+  /**
+   * Assert that this point lies on the elliptic curve, which means it satisfies the equation
+   * `a*x^2 + y^2 = 1 + d*x^2*y^2`
+   */
+  assertOnCurve() {
+    this.Constructor.assertOnCurve(this);
+  }
+
+  static assertInSubgroup(g: ForeignEdwardsCurve) {
+    TwistedEdwards.assertInSubgroup(toPoint(g), this.Bigint);
+  }
+
+  /**
+   * Assert that this point lies in the subgroup defined by `order*P = 0`.
+   *
+   * Note: this is a no-op if the curve has cofactor equal to 1. Otherwise
+   * it performs the full scalar multiplication `order*P` and is expensive.
+   */
+  assertInSubgroup() {
+    this.Constructor.assertInSubgroup(this);
+  }
+
+  /**
+   * Check that this is a valid point on the curve:
+   * - Check that the coordinates are valid field elements
+   * - Use {@link assertOnCurve()} to check that the point lies on the curve
+   *
+   * Note: Unlike {@link ForeignCurve.check}, this does not check that the point lies in the prime order subgroup,
+   * since twisted Edwards curves always have a cofactor and protocols like Ed25519 are defined for all curve points.
+   * Use {@link assertInSubgroup()} if you need that.
+   */
+  static check(g: ForeignEdwardsCurve) {
+    // more efficient than the automatic check, which would do this for each field separately
+    this.Field.assertAlmostReduced(g.x, g.y);
+    this.assertOnCurve(g);
+  }
+
+  // dynamic subclassing infra
+  get Constructor() {
+    return this.constructor as typeof ForeignEdwardsCurve;
+  }
+  static _Bigint?: TwistedCurve;
+  static _Field?: typeof AlmostForeignField;
+  static _Scalar?: typeof AlmostForeignField;
+  static _provable?: ProvablePureExtended<
+    ForeignEdwardsCurve,
+    { x: string; y: string }
+  >;
+
+  /**
+   * Curve arithmetic on JS bigints.
+   */
+  static get Bigint() {
+    assert(this._Bigint !== undefined, 'ForeignEdwardsCurve not initialized');
+    return this._Bigint;
+  }
+  /**
+   * The base field of this curve as a {@link ForeignField}.
+   */
+  static get Field() {
+    assert(this._Field !== undefined, 'ForeignEdwardsCurve not initialized');
+    return this._Field;
+  }
+  /**
+   * The scalar field of this curve as a {@link ForeignField}.
+   */
+  static get Scalar() {
+    assert(this._Scalar !== undefined, 'ForeignEdwardsCurve not initialized');
+    return this._Scalar;
+  }
+  /**
+   * `Provable<ForeignEdwardsCurve>`
+   */
+  static get provable() {
+    assert(this._provable !== undefined, 'ForeignEdwardsCurve not initialized');
+    return this._provable;
+  }
+}
+
+/**
+ * Create a class representing a twisted Edwards curve group `a*x^2 + y^2 = 1 + d*x^2*y^2`,
+ * like the Ed25519 curve.
+ *
+ * ```ts
+ * const Ed25519 = createForeignEdwardsCurve(Crypto.TwistedCurveParams.Ed25519);
+ * ```
+ *
+ * `createForeignEdwardsCurve(params)` takes curve parameters {@link TwistedCurveParams} as input.
+ * We support `modulus` and `order` to be prime numbers up to 259 bits.
+ *
+ * The returned {@link ForeignEdwardsCurve} class represents a curve point and supports standard
+ * elliptic curve operations like point addition and scalar multiplication.
+ *
+ * {@link ForeignEdwardsCurve} also includes to associated foreign fields: `ForeignEdwardsCurve.Field` and `ForeignEdwardsCurve.Scalar`, see {@link createForeignField}.
+ */
+function createForeignEdwardsCurve(
+  params: TwistedCurveParams
+): typeof ForeignEdwardsCurve {
+  const FieldUnreduced = createForeignField(params.modulus);
+  const ScalarUnreduced = createForeignField(params.order);
+  class Field extends FieldUnreduced.AlmostReduced {}
+  class Scalar extends ScalarUnreduced.AlmostReduced {}
+
+  const BigintCurve = createTwistedCurve(params);
+
+  class Curve extends ForeignEdwardsCurve {
+    static _Bigint = BigintCurve;
+    static _Field = Field;
+    static _Scalar = Scalar;
+    static _provable = provableFromClass(Curve, {
+      x: Field.provable,
+      y: Field.provable,
+    });
+  }
+
+  return Curve;
+}
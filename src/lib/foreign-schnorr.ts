@@ -0,0 +1,255 @@
+import { provableFromClass } from '../bindings/lib/provable-snarky.js';
+import { CurveParams } from '../bindings/crypto/elliptic-curve.js';
+import { ProvablePureExtended } from './circuit-value.js';
+import {
+  FlexiblePoint,
+  ForeignCurve,
+  createForeignCurve,
+  toPoint,
+} from './foreign-curve.js';
+import { AlmostForeignField } from './foreign-field.js';
+import { assert } from './gadgets/common.js';
+import { Field3 } from './gadgets/foreign-field.js';
+import { Schnorr } from './gadgets/schnorr.js';
+import { Bytes } from './provable-types/provable-types.js';
+
+// external API
+export { createSchnorr, SchnorrSignature };
+
+type FlexibleSignature =
+  | SchnorrSignature
+  | {
+      r: AlmostForeignField | Field3 | bigint | number;
+      s: AlmostForeignField | Field3 | bigint | number;
+    };
+
+class SchnorrSignature {
+  r: AlmostForeignField;
+  s: AlmostForeignField;
+
+  /**
+   * Create a new {@link SchnorrSignature} from an object containing the x coordinate r of the nonce point and the scalar s.
+   */
+  constructor(signature: {
+    r: AlmostForeignField | Field3 | bigint | number;
+    s: AlmostForeignField | Field3 | bigint | number;
+  }) {
+    this.r = new this.Constructor.Curve.Field(signature.r);
+    this.s = new this.Constructor.Curve.Scalar(signature.s);
+  }
+
+  /**
+   * Coerce the input to a {@link SchnorrSignature}.
+   */
+  static from(signature: FlexibleSignature): SchnorrSignature {
+    if (signature instanceof this) return signature;
+    return new this(signature);
+  }
+
+  /**
+   * Decode a {@link SchnorrSignature} from its 64-byte encoding `bytes(r) || bytes(s)`, as specified in BIP-340.
+   *
+   * This method is provable. The range of r and s is checked during {@link SchnorrSignature.verify}.
+   */
+  static fromBytes(bytes: Bytes | Uint8Array) {
+    let bytes_ = Bytes.from(bytes).bytes;
+    assert(
+      bytes_.length === 64,
+      `Schnorr signature must be 64 bytes, got ${bytes_.length}`
+    );
+    let r = Schnorr.fromBytes(bytes_.slice(0, 32));
+    let s = Schnorr.fromBytes(bytes_.slice(32));
+    return new this({ r, s });
+  }
+
+  /**
+   * Create a {@link SchnorrSignature} from a 128-char hex string.
+   */
+  static fromHex(signature: string) {
+    if (signature.startsWith('0x')) signature = signature.slice(2);
+    assert(
+      signature.length === 128,
+      `Schnorr signature must be 128 hex characters, got ${signature.length}`
+    );
+    let r = BigInt('0x' + signature.slice(0, 64));
+    let s = BigInt('0x' + signature.slice(64));
+    return new this({ r, s });
+  }
+
+  /**
+   * Convert this signature to an object with bigint fields.
+   */
+  toBigInt() {
+    return { r: this.r.toBigInt(), s: this.s.toBigInt() };
+  }
+
+  /**
+   * Verify the BIP-340 Schnorr signature given the message (an array of bytes) and public key (a {@link Curve} point).
+   *
+   * BIP-340 public keys are x-only: the public key must be the curve point with even y coordinate.
+   * Use {@link SchnorrSignature.publicKeyFromBytes} to create it from a 32-byte public key.
+   *
+   * **Important:** This method returns a {@link Bool} which indicates whether the signature is valid.
+   * So, to actually prove validity of a signature, you need to assert that the result is true.
+   *
+   * @throws if the public key doesn't have an even y coordinate.
+   *
+   * @example
+   * ```ts
+   * // create classes for your curve
+   * class Secp256k1 extends createForeignCurve(Crypto.CurveParams.Secp256k1) {}
+   * class Schnorr extends createSchnorr(Secp256k1) {}
+   *
+   * let message = Bytes32.fromString('my message');
+   *
+   * // outside provable code: create inputs
+   * let privateKey = Secp256k1.Scalar.random().toBigInt();
+   * let publicKey = Schnorr.derivePublicKey(privateKey);
+   * let signature = Schnorr.sign(message.toBytes(), privateKey);
+   *
+   * // ...
+   * // in provable code: create input witnesses (or use method inputs, or constants)
+   * let pk = Provable.witness(Secp256k1.provable, () => publicKey);
+   * let msg = Provable.witness(Bytes32.provable, () => message);
+   * let sig = Provable.witness(Schnorr.provable, () => signature);
+   *
+   * // verify signature
+   * let isValid = sig.verify(msg, pk);
+   * isValid.assertTrue('signature verifies');
+   * ```
+   */
+  verify(message: Bytes, publicKey: FlexiblePoint) {
+    let Curve = this.Constructor.Curve;
+    let publicKey_ = Curve.from(publicKey);
+    return Schnorr.verify(
+      Curve.Bigint,
+      { r: this.r.value, s: this.s.value },
+      message.bytes,
+      toPoint(publicKey_)
+    );
+  }
+
+  /**
+   * Create a {@link SchnorrSignature} by signing a message with a private key, following BIP-340.
+   *
+   * `auxRand` are 32 bytes of auxiliary randomness, which are chosen randomly if not provided.
+   *
+   * Note: This method is not provable, and only takes JS bigints and bytes as input.
+   */
+  static sign(
+    message: (bigint | number)[] | Uint8Array,
+    privateKey: bigint,
+    auxRand?: Uint8Array
+  ) {
+    let { r, s } = Schnorr.sign(
+      this.Curve.Bigint,
+      Uint8Array.from(message.map(Number)),
+      privateKey,
+      auxRand
+    );
+    return new this({ r, s });
+  }
+
+  /**
+   * Derive the public key from a private key, as the {@link Curve} point with even y coordinate.
+   *
+   * Note: This method is not provable.
+   */
+  static derivePublicKey(privateKey: bigint) {
+    let x = Schnorr.publicKey(this.Curve.Bigint, privateKey);
+    return this.publicKeyFromX(x);
+  }
+
+  /**
+   * Create the public key from its x coordinate, as the {@link Curve} point with even y coordinate.
+   *
+   * This method is provable.
+   *
+   * @throws if x is not the x coordinate of a curve point.
+   */
+  static publicKeyFromX(x: AlmostForeignField | bigint) {
+    let x_ = this.Curve.Field.from(x);
+    return new this.Curve(Schnorr.liftX(this.Curve.Bigint, x_.value));
+  }
+
+  /**
+   * Decode a 32-byte BIP-340 public key, as the {@link Curve} point with even y coordinate.
+   *
+   * This method is provable.
+   *
+   * @throws if the bytes don't encode the x coordinate of a curve point.
+   */
+  static publicKeyFromBytes(bytes: Bytes | Uint8Array) {
+    let bytes_ = Bytes.from(bytes).bytes;
+    assert(
+      bytes_.length === 32,
+      `Schnorr public key must be 32 bytes, got ${bytes_.length}`
+    );
+    let x = Schnorr.fromBytes(bytes_);
+    return new this.Curve(Schnorr.liftX(this.Curve.Bigint, x));
+  }
+
+  static check(signature: SchnorrSignature) {
+    // more efficient than the automatic check, which would do this for each field separately
+    this.Curve.Field.assertAlmostReduced(signature.r);
+    this.Curve.Scalar.assertAlmostReduced(signature.s);
+  }
+
+  // dynamic subclassing infra
+  get Constructor() {
+    return this.constructor as typeof SchnorrSignature;
+  }
+  static _Curve?: typeof ForeignCurve;
+  static _provable?: ProvablePureExtended<
+    SchnorrSignature,
+    { r: string; s: string }
+  >;
+
+  /**
+   * The {@link ForeignCurve} on which the Schnorr signature is defined.
+   */
+  static get Curve() {
+    assert(this._Curve !== undefined, 'SchnorrSignature not initialized');
+    return this._Curve;
+  }
+  /**
+   * `Provable<SchnorrSignature>`
+   */
+  static get provable() {
+    assert(this._provable !== undefined, 'SchnorrSignature not initialized');
+    return this._provable;
+  }
+}
+
+/**
+ * Create a class {@link SchnorrSignature} for verifying BIP-340 Schnorr signatures on the given curve.
+ *
+ * BIP-340 is defined for secp256k1, and uses tagged SHA-256 hashes and 32-byte encodings of field elements,
+ * so the curve's base field and scalar field must fit in 256 bits.
+ *
+ * ```ts
+ * class Secp256k1 extends createForeignCurve(Crypto.CurveParams.Secp256k1) {}
+ * class Schnorr extends createSchnorr(Secp256k1) {}
+ * ```
+ */
+function createSchnorr(
+  curve: CurveParams | typeof ForeignCurve
+): typeof SchnorrSignature {
+  let Curve0: typeof ForeignCurve =
+    'b' in curve ? createForeignCurve(curve) : curve;
+  class Curve extends Curve0 {}
+  assert(
+    Curve.Field.sizeInBits <= 256 && Curve.Scalar.sizeInBits <= 256,
+    'Schnorr signatures are only supported on curves with fields of at most 256 bits'
+  );
+
+  class Signature extends SchnorrSignature {
+    static _Curve = Curve;
+    static _provable = provableFromClass(Signature, {
+      r: Curve.Field.provable,
+      s: Curve.Scalar.provable,
+    });
+  }
+
+  return Signature;
+}
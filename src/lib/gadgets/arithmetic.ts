@@ -3,9 +3,21 @@ import { provableTuple } from '../circuit-value.js';
 import { Field } from '../core.js';
 import { assert } from '../errors.js';
 import { Provable } from '../provable.js';
-import { rangeCheck32, rangeCheckN } from './range-check.js';
+import {
+  rangeCheck16,
+  rangeCheck32,
+  rangeCheck64,
+  rangeCheckN,
+} from './range-check.js';
 
-export { divMod32, addMod32 };
+export {
+  divMod32,
+  addMod32,
+  divMod64,
+  addMod64,
+  quotientMask,
+  assertQuotientMask,
+};
 
 function divMod32(n: Field, quotientBits = 32) {
   if (n.isConstant()) {
@@ -51,3 +63,97 @@ function divMod32(n: Field, quotientBits = 32) {
 function addMod32(x: Field, y: Field) {
   return divMod32(x.add(y), 1).remainder;
 }
+
+function divMod64(n: Field, quotientBits = 64) {
+  if (n.isConstant()) {
+    assert(
+      n.toBigInt() < 1n << 128n,
+      `n needs to fit into 128 bit, but got ${n.toBigInt()}`
+    );
+
+    let nBigInt = n.toBigInt();
+    let q = nBigInt >> 64n;
+    let r = nBigInt - (q << 64n);
+    return {
+      remainder: new Field(r),
+      quotient: new Field(q),
+    };
+  }
+
+  let [quotient, remainder] = Provable.witness(
+    provableTuple([Field, Field]),
+    () => {
+      let nBigInt = n.toBigInt();
+      let q = nBigInt >> 64n;
+      let r = nBigInt - (q << 64n);
+      return [new Field(q), new Field(r)];
+    }
+  );
+
+  if (quotientBits === 1) {
+    Bool.check(Bool.Unsafe.ofField(quotient));
+  } else {
+    rangeCheckN(quotientBits, quotient);
+  }
+  rangeCheck64(remainder);
+
+  n.assertEquals(quotient.mul(1n << 64n).add(remainder));
+
+  return {
+    remainder,
+    quotient,
+  };
+}
+
+function addMod64(x: Field, y: Field) {
+  return divMod64(x.add(y), 1).remainder;
+}
+
+/**
+ * Returns a mask of the given length which is true at index floor(n / divisor), and false everywhere else.
+ *
+ * @throws if floor(n / divisor) is not less than the length.
+ */
+function quotientMask(n: Field, divisor: number, length: number): Bool[] {
+  let [quotient, remainder] = Provable.witness(
+    provableTuple([Field, Field]),
+    () => {
+      let nBigInt = n.toBigInt();
+      let d = BigInt(divisor);
+      return [new Field(nBigInt / d), new Field(nBigInt % d)];
+    }
+  );
+  return assertQuotientMask(n, divisor, length, { quotient, remainder });
+}
+
+/**
+ * Asserts that `quotient` and `remainder` are the result of dividing n by the divisor,
+ * and returns the mask of {@link quotientMask}.
+ */
+function assertQuotientMask(
+  n: Field,
+  divisor: number,
+  length: number,
+  { quotient, remainder }: { quotient: Field; remainder: Field }
+): Bool[] {
+  assert(
+    divisor > 0 && divisor <= 1 << 16,
+    `divisor needs to be in [1, 2^16], but got ${divisor}`
+  );
+
+  // with a 32-bit quotient and a remainder less than the divisor, the division is exact
+  rangeCheck32(quotient);
+  rangeCheck16(remainder);
+  rangeCheck16(
+    Field(divisor - 1)
+      .sub(remainder)
+      .seal()
+  );
+  n.assertEquals(quotient.mul(divisor).add(remainder));
+
+  let mask = Array.from({ length }, (_, k) => quotient.equals(k));
+  mask
+    .reduce((sum, b) => sum.add(b.toField()), Field(0))
+    .assertEquals(1, `quotient needs to be less than ${length}`);
+  return mask;
+}
@@ -9,6 +9,10 @@ import { Field } from '../core.js';
 import { Gadgets } from './gadgets.js';
 import { provable } from '../circuit-value.js';
 import { assert } from './common.js';
+import { assertQuotientMask } from './arithmetic.js';
+import { Provable } from '../provable.js';
+import { Fp } from '../../bindings/crypto/finite-field.js';
+import { expect } from 'expect';
 
 let Arithmetic = ZkProgram({
   name: 'arithmetic',
@@ -48,6 +52,25 @@ equivalent({
   }
 );
 
+const divMod64Helper = (x: bigint) => {
+  let quotient = x >> 64n;
+  let remainder = x - (quotient << 64n);
+  return { remainder, quotient };
+};
+
+equivalent({
+  from: [field],
+  to: divMod32Output,
+})(
+  (x) => {
+    assert(x < 1n << 128n, `x needs to fit in 128bit, but got ${x}`);
+    return divMod64Helper(x);
+  },
+  (x) => {
+    return Gadgets.divMod64(x);
+  }
+);
+
 await equivalentAsync({ from: [field], to: divMod32Output }, { runs: 3 })(
   (x) => {
     assert(x < 1n << 64n, `x needs to fit in 64bit, but got ${x}`);
@@ -57,3 +80,30 @@ await equivalentAsync({ from: [field], to: divMod32Output }, { runs: 3 })(
     return (await Arithmetic.divMod32(x)).publicOutput;
   }
 );
+
+// quotientMask() only accepts the exact quotient and remainder
+function quotientMask(n: bigint, quotient: bigint, remainder: bigint) {
+  let mask: boolean[] = [];
+  Provable.runAndCheck(() => {
+    let [n_, q, r] = [n, quotient, remainder].map((x) =>
+      Provable.witness(Field, () => Field(x))
+    );
+    let bits = assertQuotientMask(n_, 64, 3, { quotient: q, remainder: r });
+    Provable.asProver(() => {
+      mask = bits.map((b) => b.toBoolean());
+    });
+  });
+  return mask;
+}
+
+expect(quotientMask(100n, 1n, 36n)).toEqual([false, true, false]);
+expect(quotientMask(63n, 0n, 63n)).toEqual([true, false, false]);
+
+// a wrong remainder makes the quotient a huge field element
+expect(() => quotientMask(100n, Fp.div(63n, 64n)!, 37n)).toThrow();
+// the remainder must be less than the divisor
+expect(() => quotientMask(100n, 0n, 100n)).toThrow();
+// the quotient must be less than the length of the mask
+expect(() => quotientMask(200n, 3n, 8n)).toThrow(
+  'quotient needs to be less than 3'
+);
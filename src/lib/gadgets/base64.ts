@@ -0,0 +1,157 @@
+// https://www.rfc-editor.org/rfc/rfc4648
+import { Field } from '../core.js';
+import { UInt8 } from '../int.js';
+import { Provable } from '../provable.js';
+import { mapRanges, Ranges } from './basic.js';
+import { assert, exists } from './common.js';
+import { rangeCheck8 } from './range-check.js';
+
+export { Base64 };
+
+// the base64 alphabet, as ranges of characters that map to ranges of sextets
+const CHARS_TO_SEXTETS: Ranges = [
+  ['A'.charCodeAt(0), 26, 0],
+  ['a'.charCodeAt(0), 26, 26],
+  ['0'.charCodeAt(0), 10, 52],
+  ['+'.charCodeAt(0), 1, 62],
+  ['/'.charCodeAt(0), 1, 63],
+];
+const CHARS_TO_SEXTETS_URL: Ranges = [
+  ...CHARS_TO_SEXTETS.slice(0, 3),
+  ['-'.charCodeAt(0), 1, 62],
+  ['_'.charCodeAt(0), 1, 63],
+];
+const invert = (ranges: Ranges): Ranges =>
+  ranges.map(([first, length, image]) => [image, length, first]);
+const SEXTETS_TO_CHARS = invert(CHARS_TO_SEXTETS);
+const SEXTETS_TO_CHARS_URL = invert(CHARS_TO_SEXTETS_URL);
+
+const PADDING = '='.charCodeAt(0);
+
+const Base64 = {
+  /**
+   * Provable base64 encoding of a fixed number of bytes.
+   *
+   * With `url: true`, this uses the URL-safe alphabet of base64url and omits the `=` padding, as in JWTs and WebAuthn.
+   */
+  encode(bytes: UInt8[], { url = false } = {}): UInt8[] {
+    let ranges = url ? SEXTETS_TO_CHARS_URL : SEXTETS_TO_CHARS;
+    let n = bytes.length;
+    let chars: UInt8[] = [];
+
+    // every group of 3 bytes is encoded as 4 characters
+    for (let i = 0; i < n; i += 3) {
+      let group = bytes.slice(i, i + 3);
+      let sextets = toSextets(group);
+
+      // a partial group of k bytes is encoded as k + 1 characters
+      for (let s of sextets.slice(0, group.length + 1)) {
+        let char = mapRanges(s, ranges, 'Base64.encode(): invalid sextet');
+        chars.push(UInt8.Unsafe.fromField(char));
+      }
+      if (!url) {
+        for (let j = group.length; j < 3; j++) chars.push(UInt8.from(PADDING));
+      }
+    }
+    return chars;
+  },
+
+  /**
+   * Provable base64 decoding of unpadded input, as in base64url.
+   *
+   * Returns `floor(3 * chars.length / 4)` bytes. An input length of the form `4k + 1` is invalid.
+   * The unused bits of the last character must be zero, so that every byte string has a unique encoding.
+   *
+   * @throws if one of the decoded characters is not in the alphabet, or if the encoding is not canonical.
+   */
+  decode(chars: UInt8[], { url = false } = {}): UInt8[] {
+    let ranges = url ? CHARS_TO_SEXTETS_URL : CHARS_TO_SEXTETS;
+    let n = chars.length;
+    assert(n % 4 !== 1, `Base64.decode(): invalid input length ${n}`);
+
+    let sextets = chars.map((c) =>
+      mapRanges(c.value, ranges, 'Base64.decode(): invalid character')
+    );
+
+    let bytes: UInt8[] = [];
+    for (let i = 0; i < n; i += 4) {
+      let group = sextets.slice(i, i + 4);
+      // a partial group of k characters is decoded to k - 1 bytes, the remaining bits must be zero
+      let groupBytes = fromSextets(group);
+      groupBytes
+        .slice(group.length - 1)
+        .forEach((b) =>
+          b.value.assertEquals(0, 'Base64.decode(): non-canonical encoding')
+        );
+
+      bytes.push(...groupBytes.slice(0, group.length - 1));
+    }
+    return bytes;
+  },
+};
+
+/**
+ * Combines up to 4 sextets to 3 bytes, where missing sextets are treated as zero.
+ */
+function fromSextets(group: Field[]): UInt8[] {
+  let word = group.reduce(
+    (acc, s, i) => acc.add(s.mul(1 << (6 * (3 - i)))),
+    Field(0)
+  );
+
+  // constant case
+  if (word.isConstant()) {
+    let w = word.toBigInt();
+    return [16n, 8n, 0n].map((shift) => UInt8.from((w >> shift) & 0xffn));
+  }
+
+  let bytes = Provable.witness(Provable.Array(UInt8, 3), () => {
+    let w = word.toBigInt();
+    return [16n, 8n, 0n].map((shift) => UInt8.from((w >> shift) & 0xffn));
+  });
+  let [b0, b1, b2] = bytes.map((b) => b.value);
+  b0.mul(1 << 16)
+    .add(b1.mul(1 << 8))
+    .add(b2)
+    .assertEquals(word);
+  return bytes;
+}
+
+/**
+ * Splits up to 3 bytes into 4 sextets, where missing bytes are treated as zero.
+ */
+function toSextets(group: UInt8[]): Field[] {
+  let word = group.reduce(
+    (acc, byte, i) => acc.add(byte.value.mul(1 << (8 * (2 - i)))),
+    Field(0)
+  );
+
+  // constant case
+  if (word.isConstant()) {
+    let w = word.toBigInt();
+    return [18n, 12n, 6n, 0n].map((shift) => Field((w >> shift) & 0x3fn));
+  }
+
+  let sextets = exists(4, () => {
+    let w = word.toBigInt();
+    return [
+      (w >> 18n) & 0x3fn,
+      (w >> 12n) & 0x3fn,
+      (w >> 6n) & 0x3fn,
+      w & 0x3fn,
+    ];
+  });
+
+  // prove that every sextet is less than 2^6
+  for (let s of sextets) {
+    rangeCheck8(s);
+    rangeCheck8(s.mul(1 << 2).seal());
+  }
+  let [s0, s1, s2, s3] = sextets;
+  s0.mul(1 << 18)
+    .add(s1.mul(1 << 12))
+    .add(s2.mul(1 << 6))
+    .add(s3)
+    .assertEquals(word);
+  return sextets;
+}
@@ -0,0 +1,71 @@
+import { Base64 } from './base64.js';
+import { UInt8 } from '../int.js';
+import { Provable } from '../provable.js';
+import { expect } from 'expect';
+
+let inputs = [
+  '',
+  'f',
+  'fo',
+  'foo',
+  'foob',
+  'fooba',
+  'foobar',
+  '\xff\xfe\xfd?>',
+];
+
+for (let input of inputs) {
+  let bytes = Buffer.from(input, 'latin1');
+  let toString = (chars: UInt8[]) =>
+    String.fromCharCode(...chars.map((c) => c.toNumber()));
+
+  for (let url of [false, true]) {
+    let expected = bytes.toString(url ? 'base64url' : 'base64');
+
+    // constant
+    let chars = Base64.encode(
+      [...bytes].map((b) => UInt8.from(b)),
+      { url }
+    );
+    expect(toString(chars)).toEqual(expected);
+
+    // provable
+    Provable.runAndCheck(() => {
+      let witnesses = [...bytes].map((b) =>
+        Provable.witness(UInt8, () => UInt8.from(b))
+      );
+      let chars = Base64.encode(witnesses, { url });
+      Provable.asProver(() => {
+        expect(toString(chars)).toEqual(expected);
+      });
+    });
+
+    // decoding, without padding
+    let encoded = [...Buffer.from(expected.replace(/=+$/, ''), 'latin1')];
+    let decoded = Base64.decode(
+      encoded.map((c) => UInt8.from(c)),
+      { url }
+    );
+    expect(decoded.map((b) => b.toNumber())).toEqual([...bytes]);
+
+    Provable.runAndCheck(() => {
+      let witnesses = encoded.map((c) =>
+        Provable.witness(UInt8, () => UInt8.from(c))
+      );
+      let decoded = Base64.decode(witnesses, { url });
+      Provable.asProver(() => {
+        expect(decoded.map((b) => b.toNumber())).toEqual([...bytes]);
+      });
+    });
+  }
+}
+
+// invalid characters are rejected
+expect(() =>
+  Provable.runAndCheck(() => {
+    let chars = [...Buffer.from('ab+d')].map((c) =>
+      Provable.witness(UInt8, () => UInt8.from(c))
+    );
+    Base64.decode(chars, { url: true });
+  })
+).toThrow('invalid character');
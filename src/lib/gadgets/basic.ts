@@ -1,14 +1,24 @@
 /**
- * Basic gadgets that only use generic gates
+ * Basic gadgets that mostly use generic gates
  */
 import { Fp } from '../../bindings/crypto/finite-field.js';
-import type { Field, VarField } from '../field.js';
-import { existsOne, toVar } from './common.js';
+import { Field } from '../field.js';
+import type { VarField } from '../field.js';
+import { assert, exists, existsOne, toVar } from './common.js';
+import { rangeCheck8 } from './range-check.js';
 import { Gates } from '../gates.js';
 import { TupleN } from '../util/types.js';
 import { Snarky } from '../../snarky.js';
 
-export { assertBoolean, arrayGet, assertOneOf };
+export {
+  assertBoolean,
+  arrayGet,
+  assertOneOf,
+  shiftLeft,
+  mapRanges,
+  rangeOneHot,
+  Ranges,
+};
 
 /**
  * Assert that x is either 0 or 1.
@@ -61,6 +71,95 @@ function arrayGet(array: Field[], index: Field) {
   return a;
 }
 
+/**
+ * Shift an array to the left by a variable amount, filling in zeros.
+ *
+ * Costs O(n log n) rows, by composing shifts by powers of two.
+ */
+function shiftLeft(array: Field[], shift: Field): Field[] {
+  let n = array.length;
+  let bits = shift.toBits(Math.max(n.toString(2).length, 1));
+  let result = array;
+  bits.forEach((bit, k) => {
+    let s = 1 << k;
+    let b = bit.toField();
+    result = result.map((x, i) => {
+      let y = i + s < n ? result[i + s] : Field.from(0n);
+      // b ? y : x
+      return b.mul(y.sub(x)).add(x).seal();
+    });
+  });
+  return result;
+}
+
+/**
+ * A piecewise map on integers, given by disjoint ranges `[first, length, image]`,
+ * which map `first + i` to `image + i` for `0 <= i < length`.
+ */
+type Ranges = [first: number, length: number, image: number][];
+
+/**
+ * Applies the piecewise map given by `ranges` to x, proving that x is in one of the ranges.
+ *
+ * The ranges must have lengths of at most 256.
+ */
+function mapRanges(x: Field, ranges: Ranges, message: string): Field {
+  let isInRange = rangeOneHot(x, ranges, message);
+  let select = (f: (range: Ranges[number]) => number) =>
+    isInRange.reduce(
+      (sum, b, i) => sum.add(b.mul(f(ranges[i]))),
+      Field.from(0)
+    );
+  return x
+    .sub(select(([first]) => first))
+    .add(select(([, , image]) => image))
+    .seal();
+}
+
+/**
+ * Proves that x is in one of the given ranges `[first, length]`, and returns a one-hot vector that indicates which one.
+ *
+ * We witness the one-hot vector and range-check the offset of x within the selected range.
+ * The ranges must have lengths of at most 256.
+ */
+function rangeOneHot(
+  x: Field,
+  ranges: [first: number, length: number, ...rest: number[]][],
+  message: string
+): Field[] {
+  // constant case
+  if (x.isConstant()) {
+    let x0 = Number(x.toBigInt());
+    let i = ranges.findIndex(([first, n]) => x0 >= first && x0 < first + n);
+    assert(i !== -1, `${message}: ${x0}`);
+    return ranges.map((_, j) => Field.from(i === j ? 1 : 0));
+  }
+
+  let isInRange = exists(ranges.length, () => {
+    let x0 = Number(x.toBigInt());
+    return ranges.map(([first, n]) =>
+      x0 >= first && x0 < first + n ? 1n : 0n
+    );
+  });
+  isInRange.forEach((b) => assertBoolean(b));
+  isInRange
+    .reduce((sum, b) => sum.add(b), Field.from(0))
+    .assertEquals(1, message);
+
+  let select = (f: (first: number, length: number) => number) =>
+    isInRange.reduce(
+      (sum, b, i) => sum.add(b.mul(f(ranges[i][0], ranges[i][1]))),
+      Field.from(0)
+    );
+  let first = select((first) => first);
+  let last = select((first, n) => first + n - 1);
+
+  // first <= x <= last
+  rangeCheck8(x.sub(first).seal());
+  rangeCheck8(last.sub(x).seal());
+  return isInRange;
+}
+
 /**
  * Assert that a value equals one of a finite list of constants:
  * `(x - c1)*(x - c2)*...*(x - cn) === 0`
@@ -0,0 +1,289 @@
+/**
+ * Provable arithmetic on big integers with a variable modulus, as needed for RSA.
+ *
+ * Big integers are represented by an array of 88-bit limbs, in little-endian order,
+ * just like the three limbs of foreign field elements.
+ * In contrast to foreign field arithmetic, the modulus is not a constant but part of the input.
+ */
+import { Field } from '../field.js';
+import { UInt8 } from '../int.js';
+import { Provable } from '../provable.js';
+import { assertBoolean } from './basic.js';
+import { bytesToWord } from './bit-slices.js';
+import { assert, exists } from './common.js';
+import { l, lMask, multiRangeCheck, rangeCheckN } from './range-check.js';
+
+export { FieldN, BigIntN };
+
+/**
+ * A big integer represented by an array of 88-bit limbs, in little-endian order.
+ */
+type FieldN = Field[];
+
+const FieldN = {
+  /**
+   * Create a constant big integer with n limbs.
+   */
+  from(x: bigint, n: number): FieldN {
+    return split(x, n).map((xi) => Field.from(xi));
+  },
+  toBigint(x: FieldN): bigint {
+    return combine(x.map((xi) => xi.toBigInt()));
+  },
+  isConstant(x: FieldN) {
+    return x.every((xi) => xi.isConstant());
+  },
+
+  /**
+   * Number of limbs needed to represent integers of the given bit length.
+   */
+  limbs(bits: number) {
+    return Math.ceil(bits / Number(l));
+  },
+
+  /**
+   * `Provable<FieldN>`, for big integers with n limbs.
+   *
+   * Note that this doesn't range-check the limbs, see {@link BigIntN.rangeCheck}.
+   */
+  provable(n: number) {
+    return Provable.Array(Field, n);
+  },
+};
+
+const BigIntN = {
+  rangeCheck,
+  multiply,
+  power,
+  assertLessThan,
+  toBytes,
+  fromBytes,
+};
+
+/**
+ * Asserts that all limbs are in [0, 2^88).
+ */
+function rangeCheck(x: FieldN) {
+  let zero = Field.from(0n);
+  for (let i = 0; i < x.length; i += 3) {
+    let [x0, x1 = zero, x2 = zero] = x.slice(i, i + 3);
+    multiRangeCheck([x0, x1, x2]);
+  }
+}
+
+/**
+ * Provable modular multiplication `x * y mod n`, where all inputs are big integers with the same number of limbs.
+ *
+ * We witness the quotient q and remainder r and prove that `x * y = q * n + r` as integers,
+ * by comparing the two sides limb by limb and carrying the difference to the next limb.
+ *
+ * The inputs are assumed to be range-checked.
+ * The remainder is range-checked, but it is not proved to be less than n. Use {@link assertLessThan} for that.
+ */
+function multiply(x: FieldN, y: FieldN, n: FieldN): FieldN {
+  let L = n.length;
+  assert(
+    x.length === L && y.length === L,
+    'multiply(): inputs must have the same number of limbs'
+  );
+
+  // constant case
+  if (FieldN.isConstant(x) && FieldN.isConstant(y) && FieldN.isConstant(n)) {
+    let n_ = FieldN.toBigint(n);
+    assert(n_ !== 0n, 'multiply(): modulus must be non-zero');
+    return FieldN.from((FieldN.toBigint(x) * FieldN.toBigint(y)) % n_, L);
+  }
+
+  // witness q, r and the carries
+  let witnesses = exists(4 * L - 2, () => {
+    let x_ = x.map((xi) => xi.toBigInt());
+    let y_ = y.map((yi) => yi.toBigInt());
+    let n_ = n.map((ni) => ni.toBigInt());
+    let xy = combine(x_) * combine(y_);
+    let nBig = combine(n_);
+    let q = split(xy / nBig, L);
+    let r = split(xy % nBig, L);
+
+    let carries: bigint[] = [];
+    let carry = 0n;
+    for (let i = 0; i < 2 * L - 2; i++) {
+      let sum = carry - (i < L ? r[i] : 0n);
+      for (let [j, k] of columnIndices(i, L)) {
+        sum += x_[j] * y_[k] - q[j] * n_[k];
+      }
+      carry = sum >> l;
+      carries.push(carry);
+    }
+    return [...q, ...r, ...carries];
+  });
+  let q = witnesses.slice(0, L);
+  let r = witnesses.slice(L, 2 * L);
+  let carries = witnesses.slice(2 * L);
+
+  rangeCheck(q);
+  rangeCheck(r);
+
+  // every column is bounded by L * 2^176 in absolute value, so the carries are bounded by L * 2^88 + 1
+  let carryBits = 16 * Math.ceil((Number(l) + Math.log2(L) + 2) / 16);
+  let carryOffset = 1n << BigInt(carryBits - 1);
+
+  // prove that x*y - q*n - r = 0
+  let carry = Field.from(0n);
+  for (let i = 0; i < 2 * L - 1; i++) {
+    let sum = i < L ? carry.sub(r[i]) : carry;
+    for (let [j, k] of columnIndices(i, L)) {
+      sum = sum.add(x[j].mul(y[k])).sub(q[j].mul(n[k]));
+    }
+
+    if (i === 2 * L - 2) {
+      sum.assertEquals(0n, 'multiply(): invalid quotient or remainder');
+      break;
+    }
+    carry = carries[i];
+    rangeCheckN(carryBits, carry.add(carryOffset).seal());
+    sum.assertEquals(carry.mul(1n << l));
+  }
+  return r;
+}
+
+/**
+ * Provable modular exponentiation `x^e mod n`, for a constant exponent e >= 1.
+ *
+ * The result is range-checked, but it is not proved to be less than n.
+ */
+function power(x: FieldN, e: bigint, n: FieldN): FieldN {
+  assert(e >= 1n, 'power(): exponent must be positive');
+  let bits = e.toString(2);
+  let result = x;
+  for (let bit of bits.slice(1)) {
+    result = multiply(result, result, n);
+    if (bit === '1') result = multiply(result, x, n);
+  }
+  return result;
+}
+
+/**
+ * Asserts that x < y, where x and y are range-checked big integers with the same number of limbs.
+ *
+ * We witness `d = y - x - 1` and prove that `x + d + 1 = y` for range-checked d.
+ */
+function assertLessThan(x: FieldN, y: FieldN, message?: string) {
+  let L = y.length;
+  assert(
+    x.length === L,
+    'assertLessThan(): inputs must have the same number of limbs'
+  );
+
+  // constant case
+  if (FieldN.isConstant(x) && FieldN.isConstant(y)) {
+    assert(
+      FieldN.toBigint(x) < FieldN.toBigint(y),
+      message ?? 'assertLessThan(): got x >= y'
+    );
+    return;
+  }
+
+  let witnesses = exists(2 * L - 1, () => {
+    let x_ = x.map((xi) => xi.toBigInt());
+    let y_ = y.map((yi) => yi.toBigInt());
+    let d = combine(y_) - combine(x_) - 1n;
+    // if x >= y, the witness is invalid and the constraints below fail
+    let d_ = split(d < 0n ? 0n : d, L);
+
+    let carries: bigint[] = [];
+    let carry = 1n;
+    for (let i = 0; i < L - 1; i++) {
+      carry = (x_[i] + d_[i] + carry - y_[i]) >> l;
+      carries.push(carry);
+    }
+    return [...d_, ...carries];
+  });
+  let d = witnesses.slice(0, L);
+  let carries = witnesses.slice(L);
+
+  rangeCheck(d);
+
+  // the carries can be 0 or 1, the last carry must be 0
+  let carry = Field.from(1n);
+  for (let i = 0; i < L; i++) {
+    let sum = x[i].add(d[i]).add(carry).sub(y[i]);
+    if (i === L - 1) {
+      sum.assertEquals(0n, message);
+      break;
+    }
+    assertBoolean(carries[i]);
+    carry = carries[i];
+    sum.assertEquals(carry.mul(1n << l), message);
+  }
+}
+
+/**
+ * Provable method to encode a big integer as `length` big-endian bytes.
+ *
+ * This proves that the input is less than 2^(8*length).
+ */
+function toBytes(x: FieldN, length: number): UInt8[] {
+  let L = x.length;
+  let bytesPerLimb = Number(l) / 8;
+  assert(
+    length <= L * bytesPerLimb,
+    `toBytes(): ${length} bytes don't fit in ${L} limbs`
+  );
+
+  let bytes = Provable.witness(Provable.Array(UInt8, length), () => {
+    let x_ = FieldN.toBigint(x);
+    return Array.from({ length }, (_, i) =>
+      UInt8.from((x_ >> BigInt(8 * (length - 1 - i))) & 0xffn)
+    );
+  });
+  let limbs = fromBytes(bytes, L);
+  for (let i = 0; i < L; i++) {
+    limbs[i].assertEquals(x[i]);
+  }
+  return bytes;
+}
+
+/**
+ * Provable method to decode big-endian bytes to a big integer with L limbs.
+ *
+ * The limbs are range-checked if the bytes are.
+ */
+function fromBytes(bytes: UInt8[], L: number): FieldN {
+  let bytesPerLimb = Number(l) / 8;
+  assert(
+    bytes.length <= L * bytesPerLimb,
+    `fromBytes(): ${bytes.length} bytes don't fit in ${L} limbs`
+  );
+  let le = [...bytes].reverse();
+  return Array.from({ length: L }, (_, i) =>
+    bytesToWord(le.slice(i * bytesPerLimb, (i + 1) * bytesPerLimb))
+  );
+}
+
+// helpers
+
+/**
+ * Index pairs (j, k) with j + k = i, of limbs that contribute to the i-th limb of a product
+ */
+function columnIndices(i: number, L: number) {
+  let indices: [number, number][] = [];
+  for (let j = Math.max(0, i - L + 1); j <= Math.min(i, L - 1); j++) {
+    indices.push([j, i - j]);
+  }
+  return indices;
+}
+
+function split(x: bigint, n: number) {
+  assert(x >= 0n, 'split(): expected a non-negative integer');
+  let limbs: bigint[] = [];
+  for (let i = 0; i < n; i++) {
+    limbs.push(x & lMask);
+    x >>= l;
+  }
+  assert(x === 0n, `split(): expected an integer of at most ${n} limbs`);
+  return limbs;
+}
+
+function combine(limbs: bigint[]) {
+  return limbs.reduceRight((acc, xi) => (acc << l) | xi, 0n);
+}
@@ -0,0 +1,54 @@
+import { BigIntN, FieldN } from './big-int.js';
+import { assert } from './common.js';
+import { equivalentProvable, spec, unit } from '../testing/equivalent.js';
+import { Random } from '../testing/random.js';
+
+const bits = 512;
+const L = FieldN.limbs(bits);
+
+let bigint = (rng: Random<bigint>) =>
+  spec({
+    rng,
+    there: (x: bigint) => FieldN.from(x, L),
+    back: FieldN.toBigint,
+    provable: FieldN.provable(L),
+  });
+
+let x = bigint(Random.biguint(bits));
+// modulus of full bit length, so that the quotient fits
+let n = bigint(
+  Random.map(Random.biguint(bits - 1), (n) => n | (1n << BigInt(bits - 1)))
+);
+
+equivalentProvable({ from: [x, x, n], to: x, verbose: true })(
+  (x, y, n) => (x * y) % n,
+  BigIntN.multiply,
+  'multiply'
+);
+
+equivalentProvable({ from: [x, n], to: x, verbose: true })(
+  (x, n) => modPow(x, 65537n, n),
+  (x, n) => BigIntN.power(x, 65537n, n),
+  'power'
+);
+
+equivalentProvable({ from: [x, x], to: unit, verbose: true })(
+  (x, y) => assert(x < y, 'x < y'),
+  (x, y) => BigIntN.assertLessThan(x, y),
+  'assertLessThan'
+);
+
+equivalentProvable({ from: [x], to: x, verbose: true })(
+  (x) => x,
+  (x) => BigIntN.fromBytes(BigIntN.toBytes(x, bits / 8), L),
+  'bytes roundtrip'
+);
+
+function modPow(x: bigint, e: bigint, n: bigint) {
+  let result = 1n;
+  for (x %= n; e > 0n; e >>= 1n) {
+    if (e & 1n) result = (result * x) % n;
+    x = (x * x) % n;
+  }
+  return result;
+}
@@ -1,17 +1,28 @@
 /**
  * Gadgets for converting between field elements and bit slices of various lengths
  */
-import { bigIntToBits } from '../../bindings/crypto/bigint-helpers.js';
+import {
+  bigIntToBits,
+  bigIntToBytes,
+} from '../../bindings/crypto/bigint-helpers.js';
 import { Bool } from '../bool.js';
 import { Field } from '../field.js';
 import { UInt8 } from '../int.js';
 import { Provable } from '../provable.js';
 import { chunk } from '../util/arrays.js';
 import { assert, exists } from './common.js';
-import type { Field3 } from './foreign-field.js';
+import { Field3 } from './foreign-field.js';
 import { l } from './range-check.js';
 
-export { bytesToWord, wordToBytes, wordsToBytes, bytesToWords, sliceField3 };
+export {
+  bytesToWord,
+  wordToBytes,
+  wordsToBytes,
+  bytesToWords,
+  field3ToBytes,
+  bytesToField3,
+  sliceField3,
+};
 
 // conversion between bytes and multi-byte words
 
@@ -58,6 +69,43 @@ function bytesToWords(bytes: UInt8[], bytesPerWord = 8): Field[] {
   return chunk(bytes, bytesPerWord).map(bytesToWord);
 }
 
+// conversion between 3-limb foreign fields and bytes
+
+/**
+ * Provable method to encode a canonical 256-bit foreign field element as 32 big-endian bytes.
+ */
+function field3ToBytes(x: Field3): UInt8[] {
+  let toBytes = (x: Field3) =>
+    bigIntToBytes(Field3.toBigint(x), 32)
+      .reverse()
+      .map((b) => UInt8.from(b));
+
+  // constant case
+  if (Field3.isConstant(x)) return toBytes(x);
+
+  let bytes = Provable.witness(Provable.Array(UInt8, 32), () => toBytes(x));
+  let [x0, x1, x2] = bytesToField3(bytes);
+  x0.assertEquals(x[0]);
+  x1.assertEquals(x[1]);
+  x2.assertEquals(x[2]);
+  return bytes;
+}
+
+/**
+ * Provable method to decode 32 big-endian bytes to a foreign field element.
+ *
+ * The limbs consist of 11, 11 and 10 bytes, so the result is range-checked if the bytes are.
+ */
+function bytesToField3(bytes: UInt8[]): Field3 {
+  assert(bytes.length === 32, `expected 32 bytes, got ${bytes.length}`);
+  let le = [...bytes].reverse();
+  return [
+    bytesToWord(le.slice(0, 11)),
+    bytesToWord(le.slice(11, 22)),
+    bytesToWord(le.slice(22)),
+  ];
+}
+
 // conversion between 3-limb foreign fields and arbitrary bit slices
 
 /**
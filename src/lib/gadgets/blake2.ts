@@ -0,0 +1,186 @@
+// https://www.rfc-editor.org/rfc/rfc7693
+import { Field } from '../core.js';
+import { UInt8 } from '../int.js';
+import { FlexibleBytes } from '../provable-types/bytes.js';
+import { Bytes } from '../provable-types/provable-types.js';
+import { chunk } from '../util/arrays.js';
+import { divMod32, divMod64 } from './arithmetic.js';
+import { bytesToWord, wordToBytes } from './bit-slices.js';
+import { rotate32, rotate64, xor } from './bitwise.js';
+import { assert } from './common.js';
+
+export { BLAKE2B, BLAKE2S };
+
+type Parameters = {
+  wordBits: 32 | 64;
+  rounds: number;
+  rotations: [number, number, number, number];
+  IV: bigint[];
+};
+
+// message word permutations §2.7
+const SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0],
+];
+
+// parameters §2.1 and initialization vectors §2.6, which are the SHA2 initial hash values
+const BLAKE2bParameters: Parameters = {
+  wordBits: 64,
+  rounds: 12,
+  rotations: [32, 24, 16, 63],
+  IV: [
+    0x6a09e667f3bcc908n,
+    0xbb67ae8584caa73bn,
+    0x3c6ef372fe94f82bn,
+    0xa54ff53a5f1d36f1n,
+    0x510e527fade682d1n,
+    0x9b05688c2b3e6c1fn,
+    0x1f83d9abfb41bd6bn,
+    0x5be0cd19137e2179n,
+  ],
+};
+
+const BLAKE2sParameters: Parameters = {
+  wordBits: 32,
+  rounds: 10,
+  rotations: [16, 12, 8, 7],
+  IV: [
+    0x6a09e667n,
+    0xbb67ae85n,
+    0x3c6ef372n,
+    0xa54ff53an,
+    0x510e527fn,
+    0x9b05688cn,
+    0x1f83d9abn,
+    0x5be0cd19n,
+  ],
+};
+
+const BLAKE2B = {
+  hash(data: FlexibleBytes, outputLength = 64) {
+    return hash(data, BLAKE2bParameters, outputLength);
+  },
+};
+
+const BLAKE2S = {
+  hash(data: FlexibleBytes, outputLength = 32) {
+    return hash(data, BLAKE2sParameters, outputLength);
+  },
+};
+
+function hash(
+  data: FlexibleBytes,
+  parameters: Parameters,
+  outputLength: number
+) {
+  let { wordBits, IV } = parameters;
+  let wordBytes = wordBits / 8;
+  let blockBytes = 16 * wordBytes;
+  let maxOutputLength = 8 * wordBytes;
+  assert(
+    Number.isInteger(outputLength) &&
+      outputLength > 0 &&
+      outputLength <= maxOutputLength,
+    `Expected an output length between 1 and ${maxOutputLength}, got ${outputLength}`
+  );
+
+  let message = Bytes.from(data);
+  let length = message.length;
+
+  // pad the message with zeros to a multiple of the block size, with at least one block
+  let nBlocks = Math.max(1, Math.ceil(length / blockBytes));
+  let padding = Array.from(
+    { length: nBlocks * blockBytes - length },
+    () => new UInt8(0)
+  );
+  let paddedMessage = message.bytes.concat(padding);
+
+  // words are little endian
+  let words: Field[] = [];
+  for (let i = 0; i < paddedMessage.length; i += wordBytes) {
+    words.push(bytesToWord(paddedMessage.slice(i, i + wordBytes)));
+  }
+  let messageBlocks = chunk(words, 16);
+
+  // the parameter block only sets the output length, and fan-out and depth to 1 (no key, salt or personalization)
+  let H = IV.map((x, i) =>
+    Field(i === 0 ? x ^ 0x01010000n ^ BigInt(outputLength) : x)
+  );
+
+  messageBlocks.forEach((block, i) => {
+    // the number of message bytes processed so far, including this block
+    let counter = BigInt(Math.min((i + 1) * blockBytes, length));
+    let isLast = i === nBlocks - 1;
+    H = compression(H, block, counter, isLast, parameters);
+  });
+
+  return Bytes.from(
+    H.map((x) => wordToBytes(x, wordBytes))
+      .flat()
+      .slice(0, outputLength)
+  );
+}
+
+// compression function F §3.2
+function compression(
+  H: Field[],
+  M: Field[],
+  counter: bigint,
+  isLast: boolean,
+  { wordBits, rounds, rotations, IV }: Parameters
+) {
+  let w = BigInt(wordBits);
+  let mask = (1n << w) - 1n;
+
+  // the counter and the final block flag are known at compile time, so the last half of the working vector is constant
+  let v = [...H, ...IV.map((x) => Field(x))];
+  v[12] = Field(IV[4] ^ (counter & mask));
+  v[13] = Field(IV[5] ^ (counter >> w));
+  if (isLast) v[14] = Field(IV[6] ^ mask);
+
+  let add = (...xs: Field[]) => {
+    let sum = xs.reduce((x, y) => x.add(y));
+    return wordBits === 32
+      ? divMod32(sum, 16).remainder
+      : divMod64(sum, 16).remainder;
+  };
+  let rotate = (x: Field, bits: number) =>
+    wordBits === 32 ? rotate32(x, bits, 'right') : rotate64(x, bits, 'right');
+
+  let [r1, r2, r3, r4] = rotations;
+
+  // mixing function G §3.1
+  function G(a: number, b: number, c: number, d: number, x: Field, y: Field) {
+    v[a] = add(v[a], v[b], x);
+    v[d] = rotate(xor(v[d], v[a], wordBits), r1);
+    v[c] = add(v[c], v[d]);
+    v[b] = rotate(xor(v[b], v[c], wordBits), r2);
+    v[a] = add(v[a], v[b], y);
+    v[d] = rotate(xor(v[d], v[a], wordBits), r3);
+    v[c] = add(v[c], v[d]);
+    v[b] = rotate(xor(v[b], v[c], wordBits), r4);
+  }
+
+  for (let i = 0; i < rounds; i++) {
+    let s = SIGMA[i % 10];
+    G(0, 4, 8, 12, M[s[0]], M[s[1]]);
+    G(1, 5, 9, 13, M[s[2]], M[s[3]]);
+    G(2, 6, 10, 14, M[s[4]], M[s[5]]);
+    G(3, 7, 11, 15, M[s[6]], M[s[7]]);
+    G(0, 5, 10, 15, M[s[8]], M[s[9]]);
+    G(1, 6, 11, 12, M[s[10]], M[s[11]]);
+    G(2, 7, 8, 13, M[s[12]], M[s[13]]);
+    G(3, 4, 9, 14, M[s[14]], M[s[15]]);
+  }
+
+  return H.map((h, i) => xor(xor(h, v[i], wordBits), v[i + 8], wordBits));
+}
@@ -0,0 +1,65 @@
+import { Gadgets } from './gadgets.js';
+import { blake2b as nobleBlake2b } from '@noble/hashes/blake2b';
+import { blake2s as nobleBlake2s } from '@noble/hashes/blake2s';
+import { bytes } from './test-utils.js';
+import { equivalentProvable } from '../testing/equivalent.js';
+import { Random, sample } from '../testing/random.js';
+import { Bytes } from '../provable-types/provable-types.js';
+import { expect } from 'expect';
+
+sample(Random.nat(300), 3).forEach((preimageLength) => {
+  let inputBytes = bytes(preimageLength);
+
+  equivalentProvable({ from: [inputBytes], to: bytes(64), verbose: true })(
+    (x) => nobleBlake2b(x),
+    (x) => Gadgets.BLAKE2B.hash(x),
+    `blake2b preimage length ${preimageLength}`
+  );
+
+  equivalentProvable({ from: [inputBytes], to: bytes(32), verbose: true })(
+    (x) => nobleBlake2s(x),
+    (x) => Gadgets.BLAKE2S.hash(x),
+    `blake2s preimage length ${preimageLength}`
+  );
+
+  // shorter outputs change the parameter block, so they are not truncations of the full output
+  equivalentProvable({ from: [inputBytes], to: bytes(32), verbose: true })(
+    (x) => nobleBlake2b(x, { dkLen: 32 }),
+    (x) => Gadgets.BLAKE2B.hash(x, 32),
+    `blake2b-256 preimage length ${preimageLength}`
+  );
+});
+
+for (let { preimage, blake2b, blake2s, blake2b256 } of testVectors()) {
+  let input = Bytes.fromString(preimage);
+  expect(Gadgets.BLAKE2B.hash(input).toHex()).toEqual(blake2b);
+  expect(Gadgets.BLAKE2S.hash(input).toHex()).toEqual(blake2s);
+  expect(Gadgets.BLAKE2B.hash(input, 32).toHex()).toEqual(blake2b256);
+}
+
+expect(() => Gadgets.BLAKE2S.hash(Bytes.fromString('abc'), 33)).toThrow(
+  'output length'
+);
+
+function testVectors() {
+  return [
+    {
+      preimage: 'abc',
+      blake2b:
+        'ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d17d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923',
+      blake2s:
+        '508c5e8c327c14e2e1a72ba34eeb452f37458b209ed63a294d999b4c86675982',
+      blake2b256:
+        'bddd813c634239723171ef3fee98579b94964e3bb1cb3e427262c8c068d52319',
+    },
+    {
+      preimage: '',
+      blake2b:
+        '786a02f742015903c6c6fd852552d272912f4740e15847618a86e217f71f5419d25e1031afee585313896444934eb04b903a685b1448b755d56f701afe9be2ce',
+      blake2s:
+        '69217a3079908094e11121d042354a7c1f55b6482ca1a51e1b250dfd1ed0eef9',
+      blake2b256:
+        '0e5751c026e543b2e8ab2eb06099daa1d1e5df47778f7787faab45cdf12fe3a8',
+    },
+  ];
+}
@@ -4,11 +4,13 @@ import {
   EllipticCurve,
   Point,
   initialAggregator,
+  recoverEcdsaConstant,
   verifyEcdsaConstant,
 } from './elliptic-curve.js';
 import { Field3 } from './foreign-field.js';
 import { CurveParams } from '../../bindings/crypto/elliptic-curve-examples.js';
 import { Provable } from '../provable.js';
+import { Crypto } from '../crypto.js';
 import { ZkProgram } from '../proof-system.js';
 import { assert } from './common.js';
 import { foreignField, uniformForeignField } from './test-utils.js';
@@ -23,13 +25,15 @@ import {
   record,
 } from '../testing/equivalent.js';
 import { Bool } from '../bool.js';
+import { Field } from '../core.js';
 import { Random } from '../testing/random.js';
 
 // quick tests
 const Secp256k1 = createCurveAffine(CurveParams.Secp256k1);
 const Pallas = createCurveAffine(CurveParams.Pallas);
 const Vesta = createCurveAffine(CurveParams.Vesta);
-let curves = [Secp256k1, Pallas, Vesta];
+const Secp256r1 = createCurveAffine(Crypto.CurveParams.Secp256r1);
+let curves = [Secp256k1, Pallas, Vesta, Secp256r1];
 
 for (let Curve of curves) {
   // prepare test inputs
@@ -121,6 +125,35 @@ for (let Curve of curves) {
   );
 }
 
+// public key recovery
+
+for (let Curve of curves) {
+  let privateKey = Curve.Scalar.random();
+  let publicKey = Curve.scale(Curve.one, privateKey);
+  let msgHash = Curve.Scalar.random();
+  let signature = Ecdsa.sign(Curve, msgHash, privateKey);
+
+  // one of the recovery ids gives us the public key
+  let v = [0n, 1n].findIndex((v) => {
+    let P = recoverEcdsaConstant(Curve, signature, msgHash, v);
+    return P !== undefined && Curve.equal(P, publicKey);
+  });
+  assert(v !== -1, `${Curve.name}: recovers public key`);
+
+  Provable.runAndCheck(() => {
+    let signature_ = Provable.witness(Ecdsa.Signature.provable, () =>
+      Ecdsa.Signature.from(signature)
+    );
+    let msgHash_ = Provable.witness(Field3.provable, () =>
+      Field3.from(msgHash)
+    );
+    let v_ = Provable.witness(Field, () => Field(v));
+
+    let P = Ecdsa.recover(Curve, signature_, msgHash_, v_);
+    Provable.assertEqual(Point.provable, P, Point.from(publicKey));
+  });
+}
+
 // full end-to-end test with proving
 
 let publicKey = Point.from({
@@ -137,6 +170,13 @@ let msgHash =
     0x3e91cd8bd233b3df4e4762b329e2922381da770df1b31276ec77d0557be7fcefn
   );
 
+// this is an Ethereum signature with v = 27, i.e. recovery id 0
+Provable.assertEqual(
+  Point.provable,
+  Ecdsa.recover(Secp256k1, signature, msgHash, Field(0)),
+  publicKey
+);
+
 const ia = initialAggregator(Secp256k1);
 const config = { G: { windowSize: 4 }, P: { windowSize: 4 }, ia };
 
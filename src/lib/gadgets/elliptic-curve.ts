@@ -2,7 +2,13 @@ import { inverse, mod } from '../../bindings/crypto/finite-field.js';
 import { Field } from '../field.js';
 import { Provable } from '../provable.js';
 import { assert, exists } from './common.js';
-import { Field3, ForeignField, split, weakBound } from './foreign-field.js';
+import {
+  Field3,
+  ForeignField,
+  lowestBit,
+  split,
+  weakBound,
+} from './foreign-field.js';
 import { l2, multiRangeCheck } from './range-check.js';
 import { sha256 } from 'js-sha256';
 import {
@@ -25,7 +31,13 @@ import { Hashed } from '../provable-types/packed.js';
 export { EllipticCurve, Point, Ecdsa };
 
 // internal API
-export { verifyEcdsaConstant, initialAggregator, simpleMapToCurve };
+export {
+  verifyEcdsaConstant,
+  recoverEcdsaConstant,
+  initialAggregator,
+  simpleMapToCurve,
+  arrayGetGeneric,
+};
 
 const EllipticCurve = {
   add,
@@ -302,6 +314,116 @@ function verifyEcdsaConstant(
   return Curve.Scalar.equal(R.x, r);
 }
 
+/**
+ * Recover the public key from an ECDSA signature and message hash, like Ethereum's `ecrecover`.
+ *
+ * The recovery id `v` is the parity of the y coordinate of the nonce point `R`, whose x coordinate is `r`.
+ * Recovery ids 2 and 3, which stand for an x coordinate `r + n`, are not supported.
+ *
+ * We witness the public key `P` and prove that `u1*G + u2*P = R`, with `u1` and `u2` as in ECDSA verification.
+ * Since `u2 != 0`, this determines `P` uniquely.
+ *
+ * @throws if the signature is invalid, i.e. if r or s are not in [1, n), or if there is no point R with x coordinate r.
+ */
+function recoverEcdsa(
+  Curve: CurveAffine,
+  signature: Ecdsa.Signature,
+  msgHash: Field3,
+  v: Field
+): Point {
+  // constant case
+  if (
+    EcdsaSignature.isConstant(signature) &&
+    Field3.isConstant(msgHash) &&
+    v.isConstant()
+  ) {
+    let P = recoverEcdsaConstant(
+      Curve,
+      EcdsaSignature.toBigint(signature),
+      Field3.toBigint(msgHash),
+      v.toBigInt()
+    );
+    assert(P !== undefined, 'ecrecover(): invalid signature');
+    return Point.from(P);
+  }
+
+  // provable case
+  v.assertBool('ecrecover(): recovery id must be 0 or 1');
+  let { r, s } = signature;
+  let { modulus: p, order: n } = Curve;
+
+  // r and s must be canonical, like in the Ethereum precompile
+  ForeignField.assertLessThan(r, n);
+  ForeignField.assertLessThan(s, n);
+  ForeignField.inv(r, n); // proves r != 0
+  let sInv = ForeignField.inv(s, n); // proves s != 0
+  let u1 = ForeignField.mul(msgHash, sInv, n);
+  let u2 = ForeignField.mul(r, sInv, n);
+
+  // witness the public key and prove that it is a valid curve point
+  let P = Provable.witness(Point.provable, () => {
+    let P = recoverEcdsaConstant(
+      Curve,
+      EcdsaSignature.toBigint(signature),
+      Field3.toBigint(msgHash),
+      v.toBigInt()
+    );
+    return Point.from(P ?? Curve.one);
+  });
+  ForeignField.assertAlmostReduced([P.x, P.y], p);
+  assertOnCurve(P, Curve);
+  if (Curve.hasCofactor) assertInSubgroup(P, Curve);
+
+  let G = Point.from(Curve.one);
+  let R = multiScalarMul(
+    [u1, u2],
+    [G, P],
+    Curve,
+    [{ windowSize: 4 }, { windowSize: 4 }],
+    'assert-nonzero'
+  );
+
+  // R = (r, y) where y has parity v
+  // since r is canonical, comparing the limbs exactly also proves that R.x is canonical
+  Provable.assertEqual(Field3.provable, R.x, r);
+  ForeignField.assertLessThan(R.y, p);
+  lowestBit(R.y).assertEquals(v, 'ecrecover(): invalid recovery id');
+
+  return P;
+}
+
+/**
+ * Bigint implementation of ECDSA public key recovery
+ */
+function recoverEcdsaConstant(
+  Curve: CurveAffine,
+  { r, s }: Ecdsa.signature,
+  msgHash: bigint,
+  v: bigint
+) {
+  let { Field: F, Scalar } = Curve;
+  if (v !== 0n && v !== 1n) return undefined;
+  if (r < 1n || r >= Curve.order) return undefined;
+  if (s < 1n || s >= Curve.order) return undefined;
+
+  // solve y^2 = x^3 + ax + b for x = r
+  let y2 = F.add(F.mul(F.square(r), r), F.add(F.mul(Curve.a, r), Curve.b));
+  let y = F.sqrt(y2);
+  if (y === undefined) return undefined;
+  if ((y & 1n) !== v) y = F.negate(y);
+  let R = Curve.fromNonzero({ x: r, y });
+  if (Curve.hasCofactor && !Curve.isInSubgroup(R)) return undefined;
+
+  // P = r^(-1) * (s*R - msgHash*G)
+  let rInv = Scalar.inverse(r);
+  assert(rInv !== undefined);
+  let u1 = Scalar.negate(Scalar.mul(msgHash, rInv));
+  let u2 = Scalar.mul(s, rInv);
+  let P = Curve.add(Curve.scale(Curve.one, u1), Curve.scale(R, u2));
+  if (Curve.equal(P, Curve.zero)) return undefined;
+  return P;
+}
+
 /**
  * Multi-scalar multiplication:
  *
@@ -713,6 +835,7 @@ const EcdsaSignature = {
 const Ecdsa = {
   sign: signEcdsa,
   verify: verifyEcdsa,
+  recover: recoverEcdsa,
   Signature: EcdsaSignature,
 };
 
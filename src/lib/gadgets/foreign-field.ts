@@ -12,7 +12,7 @@ import { Field } from '../field.js';
 import { Gates, foreignFieldAdd } from '../gates.js';
 import { modifiedField } from '../provable-types/fields.js';
 import { Tuple, TupleN } from '../util/types.js';
-import { assertOneOf } from './basic.js';
+import { assertBoolean, assertOneOf } from './basic.js';
 import { assert, bitSlice, exists, toVar, toVars } from './common.js';
 import {
   l,
@@ -22,13 +22,14 @@ import {
   l2Mask,
   l3,
   compactMultiRangeCheck,
+  rangeCheckN,
 } from './range-check.js';
 
 // external API
 export { ForeignField, Field3 };
 
 // internal API
-export { bigint3, Sign, split, combine, weakBound, Sum, assertMul };
+export { bigint3, Sign, split, combine, weakBound, Sum, assertMul, lowestBit };
 
 /**
  * A 3-tuple of Fields, representing a 3-limb bigint.
@@ -428,6 +429,19 @@ function equals(x: Field3, c: bigint, f: bigint) {
   }
 }
 
+// returns the lowest bit of the canonical foreign field element x
+function lowestBit(x: Field3) {
+  let [q, bit] = exists(2, () => {
+    let x0 = x[0].toBigInt();
+    return [x0 >> 1n, x0 & 1n];
+  });
+  assertBoolean(bit);
+  // x[0] < 2^88 and q < 2^96, so x[0] = 2q + bit holds over the integers
+  rangeCheckN(96, q);
+  q.mul(2n).add(bit).assertEquals(x[0]);
+  return bit;
+}
+
 const provableLimb = modifiedField({
   toInput(x) {
     return { packed: [[x, Number(l)]] };
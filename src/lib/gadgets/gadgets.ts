@@ -23,8 +23,11 @@ import {
 } from './bitwise.js';
 import { Field } from '../core.js';
 import { ForeignField, Field3, Sum } from './foreign-field.js';
-import { divMod32, addMod32 } from './arithmetic.js';
-import { SHA256 } from './sha256.js';
+import { divMod32, addMod32, divMod64, addMod64 } from './arithmetic.js';
+import { SHA256, SHA256State } from './sha256.js';
+import { SHA384, SHA512 } from './sha512.js';
+import { BLAKE2B, BLAKE2S } from './blake2.js';
+import { RIPEMD160 } from './ripemd160.js';
 
 export { Gadgets };
 
@@ -798,6 +801,44 @@ const Gadgets = {
    *    */
   addMod32,
 
+  /**
+   * Division modulo 2^64. The operation decomposes a {@link Field} element in the range [0, 2^128) into two 64-bit limbs, `remainder` and `quotient`, using the following equation: `n = quotient * 2^64 + remainder`.
+   *
+   * **Note:** The gadget acts as a proof that the input is in the range [0, 2^(64 + quotientBits)). If the input exceeds this range, the gadget fails.
+   * `quotientBits` must be 1 or a multiple of 16, and defaults to 64.
+   *
+   * Asserts that `remainder` is in the range [0, 2^64) using {@link Gadgets.rangeCheck64}, and that `quotient` is in the range [0, 2^quotientBits).
+   *
+   * @example
+   * ```ts
+   * let n = Field((1n << 64n) + 8n)
+   * let { remainder, quotient } = Gadgets.divMod64(n);
+   * // remainder = 8, quotient = 1
+   *
+   * n.assertEquals(quotient.mul(1n << 64n).add(remainder));
+   * ```
+   */
+  divMod64,
+
+  /**
+   * Addition modulo 2^64. The operation adds two {@link Field} elements in the range [0, 2^64) and returns the result modulo 2^64.
+   *
+   * Asserts that the result is in the range [0, 2^64) using {@link Gadgets.rangeCheck64}.
+   *
+   * It uses {@link Gadgets.divMod64} internally by adding the two {@link Field} elements and then decomposing the result into `remainder` and `quotient` and returning the `remainder`.
+   *
+   * **Note:** The gadget assumes both inputs to be in the range [0, 2^64). When called with non-range-checked inputs, the gadget can succeed but return an invalid result.
+   *
+   * @example
+   * ```ts
+   * let a = Field(8n);
+   * let b = Field((1n << 64n) - 1n);
+   *
+   * Gadgets.addMod64(a, b).assertEquals(Field(7n));
+   * ```
+   */
+  addMod64,
+
   /**
    * Implementation of the [SHA256 hash function.](https://en.wikipedia.org/wiki/SHA-2) Hash function with 256bit output.
    *
@@ -805,6 +846,8 @@ const Gadgets = {
    *
    * The function accepts {@link Bytes} as the input message, which is a type that represents a static-length list of byte-sized field elements (range-checked using {@link Gadgets.rangeCheck8}).
    * Alternatively, you can pass plain `number[]`, `bigint[]` or `Uint8Array` to perform a hash outside provable code.
+   * To hash a message whose length is only known at runtime, pass {@link DynamicBytes}: only the bytes up to its `length` are hashed,
+   * and the padding is computed in the circuit.
    *
    * Produces an output of {@link Bytes} that conforms to the chosen bit length.
    *
@@ -815,8 +858,114 @@ const Gadgets = {
    * let digest = Gadgets.SHA256.hash(preimage);
    * ```
    *
+   * Messages which are too large for a single circuit can be hashed incrementally, with `init()`, `update()` and `finalize()`.
+   * The intermediate state is a provable type, {@link Gadgets.SHA256.State}, so it can be passed between the steps of a recursive `ZkProgram`.
+   * `update()` takes data whose length is a multiple of the 64 byte block size, and `finalize()` takes the remaining data of any length.
+   *
+   * ```ts
+   * let state = Gadgets.SHA256.init();
+   * state = Gadgets.SHA256.update(state, firstChunk); // e.g. Bytes(1024)
+   * state = Gadgets.SHA256.update(state, secondChunk);
+   * let digest = Gadgets.SHA256.finalize(state, rest);
+   * ```
+   *
    */
   SHA256: SHA256,
+
+  /**
+   * Implementation of the [SHA512 hash function.](https://en.wikipedia.org/wiki/SHA-2) Hash function with 512bit output.
+   *
+   * Applies the SHA2-512 hash function to a list of byte-sized elements, using 64-bit word operations.
+   *
+   * The function accepts {@link Bytes} as the input message, which is a type that represents a static-length list of byte-sized field elements (range-checked using {@link Gadgets.rangeCheck8}).
+   * Alternatively, you can pass plain `number[]`, `bigint[]` or `Uint8Array` to perform a hash outside provable code.
+   *
+   * Produces an output of {@link Bytes} of length 64.
+   *
+   * @param data - {@link Bytes} representing the message to hash.
+   *
+   * ```ts
+   * let preimage = Bytes.fromString("hello world");
+   * let digest = Gadgets.SHA512.hash(preimage);
+   * ```
+   *
+   */
+  SHA512: SHA512,
+
+  /**
+   * Implementation of the [SHA384 hash function.](https://en.wikipedia.org/wiki/SHA-2) Hash function with 384bit output.
+   *
+   * SHA2-384 is SHA2-512 with different initial hash values and an output truncated to 384 bits.
+   * See {@link Gadgets.SHA512} for details.
+   *
+   * Produces an output of {@link Bytes} of length 48.
+   *
+   * ```ts
+   * let preimage = Bytes.fromString("hello world");
+   * let digest = Gadgets.SHA384.hash(preimage);
+   * ```
+   *
+   */
+  SHA384: SHA384,
+
+  /**
+   * Implementation of the [BLAKE2b hash function.](https://www.rfc-editor.org/rfc/rfc7693) Hash function with up to 512bit output.
+   *
+   * Applies the unkeyed BLAKE2b hash function to a list of byte-sized elements, using 64-bit word operations.
+   *
+   * The function accepts {@link Bytes} as the input message, which is a type that represents a static-length list of byte-sized field elements (range-checked using {@link Gadgets.rangeCheck8}).
+   * Alternatively, you can pass plain `number[]`, `bigint[]` or `Uint8Array` to perform a hash outside provable code.
+   *
+   * Produces an output of {@link Bytes} of length `outputLength`, which is between 1 and 64 and defaults to 64.
+   *
+   * @param data - {@link Bytes} representing the message to hash.
+   * @param outputLength - The length of the digest in bytes.
+   *
+   * ```ts
+   * let preimage = Bytes.fromString("hello world");
+   * let digest = Gadgets.BLAKE2B.hash(preimage);
+   * let digest256 = Gadgets.BLAKE2B.hash(preimage, 32);
+   * ```
+   *
+   */
+  BLAKE2B: BLAKE2B,
+
+  /**
+   * Implementation of the [BLAKE2s hash function.](https://www.rfc-editor.org/rfc/rfc7693) Hash function with up to 256bit output.
+   *
+   * BLAKE2s is the variant of BLAKE2 which uses 32-bit word operations.
+   * See {@link Gadgets.BLAKE2B} for details.
+   *
+   * Produces an output of {@link Bytes} of length `outputLength`, which is between 1 and 32 and defaults to 32.
+   *
+   * ```ts
+   * let preimage = Bytes.fromString("hello world");
+   * let digest = Gadgets.BLAKE2S.hash(preimage);
+   * ```
+   *
+   */
+  BLAKE2S: BLAKE2S,
+
+  /**
+   * Implementation of the [RIPEMD-160 hash function.](https://homes.esat.kuleuven.be/~bosselae/ripemd160.html) Hash function with 160bit output.
+   *
+   * Applies the RIPEMD-160 hash function to a list of byte-sized elements, using 32-bit word operations.
+   * It is used, together with SHA256, to derive Bitcoin addresses.
+   *
+   * The function accepts {@link Bytes} as the input message, which is a type that represents a static-length list of byte-sized field elements (range-checked using {@link Gadgets.rangeCheck8}).
+   * Alternatively, you can pass plain `number[]`, `bigint[]` or `Uint8Array` to perform a hash outside provable code.
+   *
+   * Produces an output of {@link Bytes} of length 20.
+   *
+   * @param data - {@link Bytes} representing the message to hash.
+   *
+   * ```ts
+   * let preimage = Bytes.fromString("hello world");
+   * let digest = Gadgets.RIPEMD160.hash(preimage);
+   * ```
+   *
+   */
+  RIPEMD160: RIPEMD160,
 };
 
 export namespace Gadgets {
@@ -831,5 +980,13 @@ export namespace Gadgets {
      */
     export type Sum = Sum_;
   }
+
+  export namespace SHA256 {
+    /**
+     * The intermediate state of an incremental SHA256 hash, see {@link Gadgets.SHA256.init}.
+     */
+    export type State = SHA256State_;
+  }
 }
 type Sum_ = Sum;
+type SHA256State_ = SHA256State;
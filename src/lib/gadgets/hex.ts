@@ -0,0 +1,85 @@
+import { Field } from '../core.js';
+import { UInt8 } from '../int.js';
+import { mapRanges, Ranges } from './basic.js';
+import { assert, exists } from './common.js';
+import { rangeCheck8 } from './range-check.js';
+
+export { Hex };
+
+// hex digits, as ranges of characters that map to ranges of nibbles
+const NIBBLES_TO_CHARS: Ranges = [
+  [0, 10, '0'.charCodeAt(0)],
+  [10, 6, 'a'.charCodeAt(0)],
+];
+const CHARS_TO_NIBBLES: Ranges = [
+  ['0'.charCodeAt(0), 10, 0],
+  ['a'.charCodeAt(0), 6, 10],
+  ['A'.charCodeAt(0), 6, 10],
+];
+
+const Hex = {
+  /**
+   * Provable hex encoding, which returns two lowercase characters for every byte.
+   */
+  encode(bytes: UInt8[]): UInt8[] {
+    return bytes.flatMap((byte) =>
+      toNibbles(byte.value).map((nibble) =>
+        UInt8.Unsafe.fromField(
+          mapRanges(nibble, NIBBLES_TO_CHARS, 'Hex.encode(): invalid nibble')
+        )
+      )
+    );
+  },
+
+  /**
+   * Provable hex decoding, which accepts both lowercase and uppercase characters.
+   *
+   * @throws if the number of characters is odd, or if one of them is not a hex digit.
+   */
+  decode(chars: UInt8[]): UInt8[] {
+    assert(
+      chars.length % 2 === 0,
+      `Hex.decode(): expected an even number of characters, got ${chars.length}`
+    );
+    let nibbles = chars.map((c) =>
+      mapRanges(c.value, CHARS_TO_NIBBLES, 'Hex.decode(): invalid character')
+    );
+    let bytes: UInt8[] = [];
+    for (let i = 0; i < nibbles.length; i += 2) {
+      // the nibbles are less than 16, so the result fits in 8 bits
+      let byte = nibbles[i]
+        .mul(16)
+        .add(nibbles[i + 1])
+        .seal();
+      bytes.push(UInt8.Unsafe.fromField(byte));
+    }
+    return bytes;
+  },
+};
+
+/**
+ * Splits a byte into its high and low nibble.
+ */
+function toNibbles(byte: Field): [Field, Field] {
+  // constant case
+  if (byte.isConstant()) {
+    let b = byte.toBigInt();
+    return [Field(b >> 4n), Field(b & 0xfn)];
+  }
+
+  let [high, low] = exists(2, () => {
+    let b = byte.toBigInt();
+    return [b >> 4n, b & 0xfn];
+  });
+
+  // prove that both nibbles are less than 2^4
+  for (let nibble of [high, low]) {
+    rangeCheck8(nibble);
+    rangeCheck8(nibble.mul(1 << 4).seal());
+  }
+  high
+    .mul(1 << 4)
+    .add(low)
+    .assertEquals(byte);
+  return [high, low];
+}
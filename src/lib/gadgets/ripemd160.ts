@@ -0,0 +1,183 @@
+// https://homes.esat.kuleuven.be/~bosselae/ripemd160.html
+import { mod } from '../../bindings/crypto/finite-field.js';
+import { Field } from '../core.js';
+import { UInt8 } from '../int.js';
+import { FlexibleBytes } from '../provable-types/bytes.js';
+import { Bytes } from '../provable-types/provable-types.js';
+import { chunk } from '../util/arrays.js';
+import { addMod32, divMod32 } from './arithmetic.js';
+import { bytesToWord, wordToBytes } from './bit-slices.js';
+import { and, not, rotate32, xor } from './bitwise.js';
+
+export { RIPEMD160 };
+
+const RIPEMD160Constants = {
+  // message word selection, for the left and the right line
+  R: [
+    [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+    [7, 4, 13, 1, 10, 6, 15, 3, 12, 0, 9, 5, 2, 14, 11, 8],
+    [3, 10, 14, 4, 9, 15, 8, 1, 2, 7, 0, 6, 13, 11, 5, 12],
+    [1, 9, 11, 10, 0, 8, 12, 4, 13, 3, 7, 15, 14, 5, 6, 2],
+    [4, 0, 5, 9, 7, 12, 2, 10, 14, 1, 3, 8, 11, 6, 15, 13],
+  ],
+  RPrime: [
+    [5, 14, 7, 0, 9, 2, 11, 4, 13, 6, 15, 8, 1, 10, 3, 12],
+    [6, 11, 3, 7, 0, 13, 5, 10, 14, 15, 8, 12, 4, 9, 1, 2],
+    [15, 5, 1, 3, 7, 14, 6, 9, 11, 8, 12, 2, 10, 0, 4, 13],
+    [8, 6, 4, 1, 3, 11, 15, 0, 5, 12, 2, 13, 9, 7, 10, 14],
+    [12, 15, 10, 4, 1, 5, 8, 7, 6, 2, 13, 14, 0, 3, 9, 11],
+  ],
+  // rotation amounts, for the left and the right line
+  S: [
+    [11, 14, 15, 12, 5, 8, 7, 9, 11, 13, 14, 15, 6, 7, 9, 8],
+    [7, 6, 8, 13, 11, 9, 7, 15, 7, 12, 15, 9, 11, 7, 13, 12],
+    [11, 13, 6, 7, 14, 9, 13, 15, 14, 8, 13, 6, 5, 12, 7, 5],
+    [11, 12, 14, 15, 14, 15, 9, 8, 9, 14, 5, 6, 8, 6, 5, 12],
+    [9, 15, 5, 11, 6, 8, 13, 12, 5, 12, 13, 14, 11, 8, 5, 6],
+  ],
+  SPrime: [
+    [8, 9, 9, 11, 13, 15, 15, 5, 7, 7, 8, 11, 14, 14, 12, 6],
+    [9, 13, 15, 7, 12, 8, 9, 11, 7, 7, 12, 7, 6, 15, 13, 11],
+    [9, 7, 15, 11, 8, 6, 6, 14, 12, 13, 5, 14, 13, 13, 7, 5],
+    [15, 5, 8, 11, 14, 14, 6, 14, 6, 9, 12, 9, 12, 5, 15, 8],
+    [8, 5, 12, 9, 12, 5, 14, 6, 8, 13, 6, 5, 15, 13, 11, 11],
+  ],
+  // round constants, for the left and the right line
+  K: [0x00000000, 0x5a827999, 0x6ed9eba1, 0x8f1bbcdc, 0xa953fd4e],
+  KPrime: [0x50a28be6, 0x5c4dd124, 0x6d703ef3, 0x7a6d76e9, 0x00000000],
+  // initial hash values
+  H: [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0],
+};
+
+function padding(data: FlexibleBytes): Field[][] {
+  let message = Bytes.from(data);
+
+  // the padding is the same as for SHA256, except that the 64bit length is little endian:
+  // pad 1 bit, followed by k zero bits where k is the smallest non-negative solution to
+  // l + 1 + k = 448 mod 512
+  let l = message.length * 8; // length in bits
+  let k = Number(mod(448n - (BigInt(l) + 1n), 512n));
+
+  let padding = [
+    UInt8.from(0x80), // append 1 bit, followed by 7 zero bits
+    ...Array.from({ length: (k - 7) / 8 }, () => UInt8.from(0)), // append k - 7 zero bits
+    // append 64bit containing the length of the original message
+    ...Array.from({ length: 8 }, (_, i) =>
+      UInt8.from((BigInt(l) >> BigInt(8 * i)) & 0xffn)
+    ),
+  ];
+
+  let paddedMessage = message.bytes.concat(padding);
+
+  // split the message into little endian 32bit words, and the words into message blocks of 16 words
+  let chunks: Field[] = [];
+  for (let i = 0; i < paddedMessage.length; i += 4) {
+    chunks.push(bytesToWord(paddedMessage.slice(i, i + 4)));
+  }
+  return chunk(chunks, 16);
+}
+
+const RIPEMD160 = {
+  hash(data: FlexibleBytes) {
+    let messageBlocks = padding(data);
+
+    let H = RIPEMD160Constants.H.map((x) => Field(x));
+
+    for (let block of messageBlocks) {
+      H = compression(H, block);
+    }
+
+    // the output words are little endian
+    return Bytes.from(H.map((x) => wordToBytes(x, 4)).flat());
+  },
+};
+
+function compression(H: Field[], X: Field[]) {
+  let { R, RPrime, S, SPrime, K, KPrime } = RIPEMD160Constants;
+
+  let [A, B, C, D, E] = H;
+  let [APrime, BPrime, CPrime, DPrime, EPrime] = H;
+
+  // the two lines run in parallel, and each consists of 5 rounds of 16 steps
+  for (let round = 0; round < 5; round++) {
+    for (let j = 0; j < 16; j++) {
+      let T = step(
+        A,
+        f(round, B, C, D),
+        X[R[round][j]],
+        K[round],
+        S[round][j],
+        E
+      );
+      [A, E, D, C, B] = [E, D, rotate32(C, 10), B, T];
+
+      // the right line uses the boolean functions in reverse order
+      T = step(
+        APrime,
+        f(4 - round, BPrime, CPrime, DPrime),
+        X[RPrime[round][j]],
+        KPrime[round],
+        SPrime[round][j],
+        EPrime
+      );
+      [APrime, EPrime, DPrime, CPrime, BPrime] = [
+        EPrime,
+        DPrime,
+        rotate32(CPrime, 10),
+        BPrime,
+        T,
+      ];
+    }
+  }
+
+  // combine both lines with the intermediate hash value
+  return [
+    add3(H[1], C, DPrime),
+    add3(H[2], D, EPrime),
+    add3(H[3], E, APrime),
+    add3(H[4], A, BPrime),
+    add3(H[0], B, CPrime),
+  ];
+}
+
+// computes rotl(a + f + x + k mod 2^32, s) + e mod 2^32
+function step(a: Field, f: Field, x: Field, k: number, s: number, e: Field) {
+  // the sum is unreduced, we reduce it once mod 2^32 to save constraints
+  let unreduced = a.add(f).add(x).add(k).seal();
+  let rotated = rotate32(divMod32(unreduced, 16).remainder, s, 'left');
+  return addMod32(rotated, e);
+}
+
+function add3(x: Field, y: Field, z: Field) {
+  return divMod32(x.add(y).add(z), 16).remainder;
+}
+
+// the boolean functions f1, ..., f5
+function f(round: number, x: Field, y: Field, z: Field) {
+  switch (round) {
+    case 0:
+      // x ^ y ^ z
+      return xor(xor(x, y, 32), z, 32);
+    case 1:
+      // (x & y) | (~x & z) = (x & y) + (~x & z) (since x & ~x = 0)
+      return and(x, y, 32)
+        .add(and(not(x, 32), z, 32))
+        .seal();
+    case 2:
+      // (x | ~y) ^ z
+      return xor(or(x, not(y, 32)), z, 32);
+    case 3:
+      // (x & z) | (y & ~z) = (x & z) + (y & ~z) (since z & ~z = 0)
+      return and(x, z, 32)
+        .add(and(y, not(z, 32), 32))
+        .seal();
+    default:
+      // x ^ (y | ~z)
+      return xor(x, or(y, not(z, 32)), 32);
+  }
+}
+
+// x | y = x + y - (x & y)
+function or(x: Field, y: Field) {
+  return x.add(y).sub(and(x, y, 32)).seal();
+}
@@ -0,0 +1,38 @@
+import { Gadgets } from './gadgets.js';
+import { ripemd160 as nobleRipemd160 } from '@noble/hashes/ripemd160';
+import { bytes } from './test-utils.js';
+import { equivalentProvable } from '../testing/equivalent.js';
+import { Random, sample } from '../testing/random.js';
+import { Bytes } from '../provable-types/provable-types.js';
+import { expect } from 'expect';
+
+sample(Random.nat(300), 3).forEach((preimageLength) => {
+  let inputBytes = bytes(preimageLength);
+
+  equivalentProvable({ from: [inputBytes], to: bytes(20), verbose: true })(
+    (x) => nobleRipemd160(x),
+    (x) => Gadgets.RIPEMD160.hash(x),
+    `ripemd160 preimage length ${preimageLength}`
+  );
+});
+
+for (let { preimage, hash } of testVectors()) {
+  let digest = Gadgets.RIPEMD160.hash(Bytes.fromString(preimage));
+  expect(digest.toHex()).toEqual(hash);
+}
+
+function testVectors() {
+  return [
+    { preimage: '', hash: '9c1185a5c5e9fc54612808977ee8f548b2258d31' },
+    { preimage: 'abc', hash: '8eb208f7e05d987a9b044a8e98c6b087f15a0bfc' },
+    {
+      preimage: 'message digest',
+      hash: '5d0689ef49d2fae572b881b123a85ffa21595f36',
+    },
+    {
+      // two blocks
+      preimage: 'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq',
+      hash: '12a053384a9c0c88e405a06c27dcf49ada62eb2b',
+    },
+  ];
+}
@@ -0,0 +1,237 @@
+// https://www.rfc-editor.org/rfc/rfc8017
+import { sha256 } from 'js-sha256';
+import { Bool } from '../bool.js';
+import { Field } from '../field.js';
+import { UInt8 } from '../int.js';
+import { Provable } from '../provable.js';
+import { Bytes } from '../provable-types/provable-types.js';
+import { BigIntN, FieldN } from './big-int.js';
+import { and, xor } from './bitwise.js';
+import { assert } from './common.js';
+import { SHA256 } from './sha256.js';
+
+export { Rsa };
+
+namespace Rsa {
+  /**
+   * RSA public key consisting of the modulus and the public exponent.
+   *
+   * The exponent is a constant, which is 65537 for almost all keys in practice.
+   */
+  export type PublicKey = { modulus: FieldN; exponent: bigint };
+
+  /**
+   * RSA private key consisting of the modulus and the private exponent.
+   */
+  export type privateKey = { modulus: bigint; exponent: bigint };
+}
+
+// DER encoding of the DigestInfo prefix for SHA-256, see RFC 8017, section 9.2
+const SHA256_DIGEST_INFO = [
+  0x30, 0x31, 0x30, 0x0d, 0x06, 0x09, 0x60, 0x86, 0x48, 0x01, 0x65, 0x03, 0x04,
+  0x02, 0x01, 0x05, 0x00, 0x04, 0x20,
+];
+const HASH_LENGTH = 32;
+
+/**
+ * Verify an RSASSA-PKCS1-v1_5 signature with SHA-256, given the SHA-256 hash of the message.
+ *
+ * `keySize` is the bit length of the modulus, which has to be a multiple of 8.
+ *
+ * We prove that `signature^e mod n` equals the encoded message `0x00 || 0x01 || 0xff...ff || 0x00 || DigestInfo || hash`.
+ *
+ * @throws if the signature is not less than the modulus.
+ */
+function verifyPkcs1v15(
+  hash: UInt8[],
+  signature: FieldN,
+  publicKey: Rsa.PublicKey,
+  keySize: number
+): Bool {
+  let k = keyLength(keySize);
+  assert(hash.length === HASH_LENGTH, 'expected a SHA-256 hash');
+  let psLength = k - 3 - SHA256_DIGEST_INFO.length - HASH_LENGTH;
+  assert(psLength >= 8, `RSA key size ${keySize} is too small`);
+
+  let m = signatureToMessage(signature, publicKey);
+
+  let encodedMessage = [
+    ...[0x00, 0x01, ...Array(psLength).fill(0xff), 0x00],
+    ...SHA256_DIGEST_INFO,
+  ].map((b) => UInt8.from(b));
+  let expected = BigIntN.fromBytes(
+    [...encodedMessage, ...hash],
+    publicKey.modulus.length
+  );
+  return Provable.equal(FieldN.provable(m.length), m, expected);
+}
+
+/**
+ * Verify an RSASSA-PSS signature with SHA-256 and MGF1 with SHA-256, given the SHA-256 hash of the message.
+ *
+ * `keySize` is the bit length of the modulus, which has to be a multiple of 8.
+ * `saltLength` is the length of the salt in bytes, which is 32 by default.
+ *
+ * @throws if the signature is not less than the modulus.
+ */
+function verifyPss(
+  hash: UInt8[],
+  signature: FieldN,
+  publicKey: Rsa.PublicKey,
+  keySize: number,
+  saltLength = HASH_LENGTH
+): Bool {
+  // since the key size is a multiple of 8, emBits = keySize - 1 and emLen = k
+  let emLength = keyLength(keySize);
+  assert(hash.length === HASH_LENGTH, 'expected a SHA-256 hash');
+  assert(
+    emLength >= HASH_LENGTH + saltLength + 2,
+    `RSA key size ${keySize} is too small for salt length ${saltLength}`
+  );
+
+  // the encoded message EM = maskedDB || H || 0xbc
+  let m = signatureToMessage(signature, publicKey);
+  let em = BigIntN.toBytes(m, emLength);
+  let dbLength = emLength - HASH_LENGTH - 1;
+  let maskedDB = em.slice(0, dbLength);
+  let H = em.slice(dbLength, dbLength + HASH_LENGTH);
+
+  let isValid = em[emLength - 1].value.equals(0xbc);
+
+  // the leftmost bit of EM must be zero
+  isValid = isValid.and(and(em[0].value, Field.from(0x80n), 8).equals(0));
+
+  // DB = maskedDB xor MGF1(H), with the leftmost bit set to zero
+  let dbMask = mgf1(H, dbLength);
+  let db = maskedDB.map((x, i) => xor(x.value, dbMask[i].value, 8));
+  db[0] = and(db[0], Field.from(0x7fn), 8);
+
+  // DB = 0x00 ... 0x00 || 0x01 || salt
+  let psLength = dbLength - saltLength - 1;
+  for (let i = 0; i < psLength; i++) {
+    isValid = isValid.and(db[i].equals(0));
+  }
+  isValid = isValid.and(db[psLength].equals(1));
+  let salt = db.slice(psLength + 1).map((x) => UInt8.Unsafe.fromField(x));
+
+  // H = SHA256(0x00 x 8 || hash || salt)
+  let zeros = Array.from({ length: 8 }, () => UInt8.from(0));
+  let H_ = SHA256.hash(Bytes.from([...zeros, ...hash, ...salt])).bytes;
+  for (let i = 0; i < HASH_LENGTH; i++) {
+    isValid = isValid.and(H[i].value.equals(H_[i].value));
+  }
+  return isValid;
+}
+
+/**
+ * Computes `signature^e mod n`, which is proved to be less than n.
+ */
+function signatureToMessage(signature: FieldN, publicKey: Rsa.PublicKey) {
+  let { modulus, exponent } = publicKey;
+  assert(
+    signature.length === modulus.length,
+    'RSA signature and modulus must have the same number of limbs'
+  );
+  BigIntN.assertLessThan(
+    signature,
+    modulus,
+    'RSA signature must be less than the modulus'
+  );
+  let m = BigIntN.power(signature, exponent, modulus);
+
+  // the result has to be canonical, otherwise the prover could make verification fail on a valid signature
+  BigIntN.assertLessThan(m, modulus);
+  return m;
+}
+
+/**
+ * MGF1 mask generation function with SHA-256, see RFC 8017, appendix B.2.1
+ */
+function mgf1(seed: UInt8[], length: number) {
+  let mask: UInt8[] = [];
+  for (let counter = 0; mask.length < length; counter++) {
+    let c = [24, 16, 8, 0].map((shift) =>
+      UInt8.from((counter >> shift) & 0xff)
+    );
+    mask.push(...SHA256.hash(Bytes.from([...seed, ...c])).bytes);
+  }
+  return mask.slice(0, length);
+}
+
+function keyLength(keySize: number) {
+  assert(keySize % 8 === 0, `RSA key size must be a multiple of 8`);
+  return keySize / 8;
+}
+
+// out-of-circuit signing, mainly for testing
+
+/**
+ * Sign a message with RSASSA-PKCS1-v1_5 and SHA-256.
+ */
+function signPkcs1v15(
+  message: Uint8Array,
+  privateKey: Rsa.privateKey,
+  keySize: number
+) {
+  let k = keyLength(keySize);
+  let psLength = k - 3 - SHA256_DIGEST_INFO.length - HASH_LENGTH;
+  let encodedMessage = [
+    ...[0x00, 0x01, ...Array(psLength).fill(0xff), 0x00],
+    ...SHA256_DIGEST_INFO,
+    ...sha256.array(message),
+  ];
+  return modPow(bytesToBigIntBE(encodedMessage), privateKey);
+}
+
+/**
+ * Sign a message with RSASSA-PSS, using SHA-256 and MGF1 with SHA-256.
+ */
+function signPss(
+  message: Uint8Array,
+  privateKey: Rsa.privateKey,
+  keySize: number,
+  salt: Uint8Array
+) {
+  let emLength = keyLength(keySize);
+  let dbLength = emLength - HASH_LENGTH - 1;
+  let H = sha256.array([
+    ...Array(8).fill(0),
+    ...sha256.array(message),
+    ...salt,
+  ]);
+  let db = [...Array(dbLength - salt.length - 1).fill(0), 0x01, ...salt];
+  let dbMask = mgf1Constant(H, dbLength);
+  let maskedDB = db.map((x, i) => x ^ dbMask[i]);
+  maskedDB[0] &= 0x7f;
+  return modPow(bytesToBigIntBE([...maskedDB, ...H, 0xbc]), privateKey);
+}
+
+function mgf1Constant(seed: number[], length: number) {
+  let mask: number[] = [];
+  for (let counter = 0; mask.length < length; counter++) {
+    let c = [24, 16, 8, 0].map((shift) => (counter >> shift) & 0xff);
+    mask.push(...sha256.array([...seed, ...c]));
+  }
+  return mask.slice(0, length);
+}
+
+function modPow(x: bigint, { modulus, exponent }: Rsa.privateKey) {
+  let result = 1n;
+  x %= modulus;
+  for (; exponent > 0n; exponent >>= 1n) {
+    if (exponent & 1n) result = (result * x) % modulus;
+    x = (x * x) % modulus;
+  }
+  return result;
+}
+
+function bytesToBigIntBE(bytes: number[]) {
+  return bytes.reduce((acc, b) => (acc << 8n) | BigInt(b), 0n);
+}
+
+const Rsa = {
+  verifyPkcs1v15,
+  verifyPss,
+  signPkcs1v15,
+  signPss,
+};
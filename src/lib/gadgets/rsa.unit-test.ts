@@ -0,0 +1,101 @@
+import { Rsa } from './rsa.js';
+import { createProvableBigInt } from '../big-int.js';
+import { Rsa as RsaProvable } from '../rsa.js';
+import { Provable } from '../provable.js';
+import { Bytes } from '../provable-types/provable-types.js';
+import { expect } from 'expect';
+
+class Bigint2048 extends createProvableBigInt(2048) {}
+
+// test vectors created with openssl, for a random 2048-bit key
+let modulus = BigInt(
+  '0x' +
+    '998ef443b27ac49e0a56e2063ed512276d0b2b5344e8491420aebfecc8438feb373b8e8d9ecce21d47b98da732c1d957abe816e2476141bf5de772e2cff2b19f7fba8be754aeb740c0c53fcf8e251d5c225a0370f0cb3d7bbb5161ab4e4858d11d8063c8e72a5553f13c81a1e43ed866afe80ccd6ed38934cad0360e0c8d4067e05fbafc7b375a66d731c9c44fca97b1d1543e1bea4be2061ac71540389c09cb2b34edbfff811fc909f1dc9c003de3d24c1509a60a04322fcb8b5e6586f8f585bc8a2f7ebb96a29498a9194a6bf41fef49ed6ca91cd2183da0ab5adf132ce10af987fd5543a34cd17d87d17720c72e447e76eda37a021546a78703b808ca48bb'
+);
+let privateExponent = BigInt(
+  '0x' +
+    '7d6c4ce4ac2e8389d26cb259be6aaa54bbd9cf0bb6acb183ea928822ea0b575f8a1b38d6af25099437b5e296abfc497e34bfba7141330399d1b712f3f3aa2e0a7b3037ec3d37dc1f2554d290c04bcbbf4e7d44dffd16baecc0955f01139688997be1847abad588fc60592491e6abd2be68619a0116391191a6564119aad006ec1fd3475beee315f01f51e0d33abee0bc38c7558ad599838f44f0075f3b645368fad9640e1392fbb18591f9b920e6579f08997ab213bae8d80182b9785ab4650b46ad46fb6bed26863395cdfb728029d9e0df3dc56eed90a30fdbd17a3cbda2d35b14c524b5ba860c604419daaa611b1804d6113ec16f96c40a7a34efae834b1'
+);
+let message = new TextEncoder().encode('hello RSA');
+
+// `openssl dgst -sha256 -sign key.pem`
+let signaturePkcs1v15 = BigInt(
+  '0x' +
+    '682e2037d5f16f643d5bb1cf27ee600d8d29faecee8ae7e2be22c845b24da4a62f468fbb7ce6a88aba681a66d57d33d3d73a167d17d4e2ad94ab0181388de0d64df635b71db2e5871eee8c86ae3f35916c45b923bebed0888d9cfb38889ad584b42b99030c6fdface8054331751c4a9402a57fbb68bfe2bed726daf6ad82566d33a9734a6fe01622aab7616dcb717ebbe7947dc5c2bca5d27928c20d02167c3f5f82252582de760376caebf0d87bb0a0a9d7278020c0e31cd4d6f2de71f067b8292b3cc18677544a7d6fc2d1c7087a70301cac4f09baa74186bd2a6b98c59edbbb6ff18667c3d186b7cbead7a7ea326bf8492e6eb5e69a80b25f4fd13f958987'
+);
+// `openssl dgst -sha256 -sign key.pem -sigopt rsa_padding_mode:pss -sigopt rsa_pss_saltlen:32`
+let signaturePss = BigInt(
+  '0x' +
+    '70748256c8008eb3a967794250a90473faf0c9d7f887f6299bf39d480c96e4542cabfbbe7a8fa53ef7a33bfaffb27c1794371c7bb59d93d1951dc55084ee3b22c1724d3431c3190a4de6deec83ae79b4f3304d4bb937fd8de202d6a7b1bedc5764a40cb93c0f07d34b0a61a44afbf7dfd8694f71d67525e3d5d1b932f517a843fc120213c5d2190a6e6c72392997d8ec661ae6ea7be522662c4ccd26897cf9843f3369c97cff801876c13e9493a2edf76d3fc3e4dd7a34695eb9cc8acf43e8cf388219e7c6b8d4f078cb91f82ea5ffadf6a9ec363debcc67d00400ba52c519a769c52bdf7d9671bd4e3adab109ca8d9f43e83350adbe3a34b63e3e275152bdf9'
+);
+let salt = Bytes.fromHex(
+  '8382cb2d0e3720b4afbdbe2d33458ca9752f8b11e6cb928495653727c338ae8f'
+).toBytes();
+
+// bigint signing
+let privateKey = { modulus, exponent: privateExponent };
+expect(Rsa.signPkcs1v15(message, privateKey, 2048)).toEqual(signaturePkcs1v15);
+expect(Rsa.signPss(message, privateKey, 2048, salt)).toEqual(signaturePss);
+
+// constant verification
+let modulus_ = Bigint2048.from(modulus);
+expect(
+  RsaProvable.verifyPkcs1v15(
+    Bytes.from(message),
+    Bigint2048.from(signaturePkcs1v15),
+    modulus_
+  ).toBoolean()
+).toEqual(true);
+expect(
+  RsaProvable.verifyPss(
+    Bytes.from(message),
+    Bigint2048.from(signaturePss),
+    modulus_
+  ).toBoolean()
+).toEqual(true);
+
+// the two paddings are not interchangeable
+expect(
+  RsaProvable.verifyPss(
+    Bytes.from(message),
+    Bigint2048.from(signaturePkcs1v15),
+    modulus_
+  ).toBoolean()
+).toEqual(false);
+
+// provable verification
+Provable.runAndCheck(() => {
+  let msg = Provable.witness(Bytes(message.length).provable, () =>
+    Bytes.from(message)
+  );
+  let n = Provable.witness(Bigint2048.provable, () => Bigint2048.from(modulus));
+  let sigPkcs1v15 = Provable.witness(Bigint2048.provable, () =>
+    Bigint2048.from(signaturePkcs1v15)
+  );
+  let sigPss = Provable.witness(Bigint2048.provable, () =>
+    Bigint2048.from(signaturePss)
+  );
+
+  RsaProvable.verifyPkcs1v15(msg, sigPkcs1v15, n).assertTrue(
+    'PKCS#1 v1.5 signature verifies'
+  );
+  RsaProvable.verifyPss(msg, sigPss, n).assertTrue('PSS signature verifies');
+
+  // a different message doesn't verify
+  let otherMessage = Bytes.from([...msg.bytes].reverse());
+  RsaProvable.verifyPkcs1v15(otherMessage, sigPkcs1v15, n).assertFalse();
+  RsaProvable.verifyPss(otherMessage, sigPss, n).assertFalse();
+});
+
+// signatures must be less than the modulus
+expect(() =>
+  Provable.runAndCheck(() => {
+    let n = Provable.witness(Bigint2048.provable, () =>
+      Bigint2048.from(modulus)
+    );
+    let sig = Provable.witness(Bigint2048.provable, () =>
+      Bigint2048.from(modulus)
+    );
+    RsaProvable.verifyPkcs1v15(Bytes.from(message), sig, n);
+  })
+).toThrow();
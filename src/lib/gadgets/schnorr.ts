@@ -0,0 +1,272 @@
+// https://github.com/bitcoin/bips/blob/master/bip-0340.mediawiki
+import { sha256 } from 'js-sha256';
+import {
+  bigIntToBytes,
+  bytesToBigInt,
+} from '../../bindings/crypto/bigint-helpers.js';
+import { CurveAffine } from '../../bindings/crypto/elliptic-curve.js';
+import { Bool } from '../bool.js';
+import { UInt8 } from '../int.js';
+import { Provable } from '../provable.js';
+import { Bytes } from '../provable-types/provable-types.js';
+import { assert, exists } from './common.js';
+import { bytesToField3, field3ToBytes } from './bit-slices.js';
+import { EllipticCurve, Point } from './elliptic-curve.js';
+import { Field3, ForeignField, lowestBit, split } from './foreign-field.js';
+import { SHA256 } from './sha256.js';
+
+// external API
+export { Schnorr };
+
+// internal API
+export { verifySchnorrConstant };
+
+namespace Schnorr {
+  /**
+   * BIP-340 Schnorr signature consisting of the x coordinate r of the nonce point, and a curve scalar s.
+   */
+  export type Signature = { r: Field3; s: Field3 };
+  export type signature = { r: bigint; s: bigint };
+}
+
+/**
+ * Verify a BIP-340 Schnorr signature, by checking that `R = s*G - e*P` has an even y coordinate and x coordinate `r`,
+ * where `e = hash_BIP0340/challenge(r || x(P) || message)` reduced modulo the curve order.
+ *
+ * The public key P is assumed to be a valid curve point.
+ * Since BIP-340 public keys only consist of the x coordinate, we prove that P is the point with even y coordinate,
+ * see {@link liftX} to create it from an x coordinate.
+ *
+ * @throws if the public key doesn't have an even y coordinate, or if `R` is zero.
+ */
+function verifySchnorr(
+  Curve: CurveAffine,
+  signature: Schnorr.Signature,
+  message: UInt8[],
+  publicKey: Point
+) {
+  // constant case
+  if (
+    Field3.isConstant(signature.r) &&
+    Field3.isConstant(signature.s) &&
+    message.every((x) => x.isConstant()) &&
+    Point.isConstant(publicKey)
+  ) {
+    let pk = Point.toBigint(publicKey);
+    assert(
+      pk.y % 2n === 0n,
+      'Schnorr public key must have an even y coordinate'
+    );
+    let isValid = verifySchnorrConstant(
+      Curve,
+      { r: Field3.toBigint(signature.r), s: Field3.toBigint(signature.s) },
+      Uint8Array.from(message.map((x) => x.toNumber())),
+      pk.x
+    );
+    return new Bool(isValid);
+  }
+
+  // provable case
+  let { r, s } = signature;
+  let { modulus: p, order: n } = Curve;
+
+  // r and s must be canonical, otherwise signatures would be malleable
+  ForeignField.assertLessThan(r, p);
+  ForeignField.assertLessThan(s, n);
+
+  // the public key is the point with even y coordinate
+  ForeignField.assertLessThan(publicKey.x, p);
+  ForeignField.assertLessThan(publicKey.y, p);
+  lowestBit(publicKey.y).assertEquals(
+    0,
+    'Schnorr public key must have an even y coordinate'
+  );
+
+  let hash = taggedHash('BIP0340/challenge', [
+    ...field3ToBytes(r),
+    ...field3ToBytes(publicKey.x),
+    ...message,
+  ]);
+
+  // reduce the hash modulo the curve order, which is needed for the scalar multiplication
+  let e = ForeignField.mul(bytesToField3(hash.bytes), Field3.from(1n), n);
+  ForeignField.assertLessThan(e, n);
+
+  // R = s*G - e*P
+  let G = Point.from(Curve.one);
+  let R = EllipticCurve.multiScalarMul(
+    [s, e],
+    [G, EllipticCurve.negate(publicKey, Curve)],
+    Curve,
+    [{ windowSize: 4 }, { windowSize: 3 }],
+    'assert-nonzero'
+  );
+  // this ^ already proves that R != 0 (part of Schnorr verification)
+
+  // we have to prove that the coordinates of R are canonical, because we check the parity of y and compare x exactly.
+  // otherwise, the prover could make verify() return false on a valid signature
+  ForeignField.assertLessThan(R.x, p);
+  ForeignField.assertLessThan(R.y, p);
+
+  let hasEvenY = lowestBit(R.y).equals(0);
+  return hasEvenY.and(Provable.equal(Field3.provable, R.x, r));
+}
+
+/**
+ * Bigint implementation of BIP-340 Schnorr verify
+ */
+function verifySchnorrConstant(
+  Curve: CurveAffine,
+  { r, s }: Schnorr.signature,
+  message: Uint8Array,
+  publicKey: bigint
+) {
+  let P = liftXConstant(Curve, publicKey);
+  if (P === undefined) return false;
+  if (r >= Curve.modulus || s >= Curve.order) return false;
+
+  let e = challenge(Curve, r, publicKey, message);
+  let R = Curve.add(Curve.scale(Curve.one, s), Curve.negate(Curve.scale(P, e)));
+  if (R.infinity) return false;
+  return R.y % 2n === 0n && R.x === r;
+}
+
+/**
+ * Sign a message using BIP-340 Schnorr signatures.
+ *
+ * `auxRand` is 32 bytes of auxiliary randomness, which is mixed into the nonce.
+ */
+function signSchnorr(
+  Curve: CurveAffine,
+  message: Uint8Array,
+  privateKey: bigint,
+  auxRand = Uint8Array.from(bigIntToBytes(Curve.Scalar.random(), 32))
+): Schnorr.signature {
+  let { Scalar } = Curve;
+  assert(
+    privateKey > 0n && privateKey < Curve.order,
+    'Schnorr private key must be in [1, order)'
+  );
+  assert(auxRand.length === 32, 'auxiliary randomness must be 32 bytes');
+
+  // negate the private key if necessary, so that the public key has an even y coordinate
+  let P = Curve.scale(Curve.one, privateKey);
+  let d = P.y % 2n === 0n ? privateKey : Scalar.negate(privateKey);
+
+  let auxHash = taggedHashConstant('BIP0340/aux', auxRand);
+  let t = toBytesConstant(d).map((x, i) => x ^ auxHash[i]);
+  let nonceHash = taggedHashConstant(
+    'BIP0340/nonce',
+    concatBytes(t, toBytesConstant(P.x), message)
+  );
+  let k0 = Scalar.mod(bytesToBigIntBE(nonceHash));
+  assert(k0 !== 0n, 'Schnorr nonce is zero');
+
+  let R = Curve.scale(Curve.one, k0);
+  let k = R.y % 2n === 0n ? k0 : Scalar.negate(k0);
+  let e = challenge(Curve, R.x, P.x, message);
+  let s = Scalar.add(k, Scalar.mul(e, d));
+  return { r: R.x, s };
+}
+
+/**
+ * Derive the x-only public key from a private key.
+ */
+function publicKeySchnorr(Curve: CurveAffine, privateKey: bigint) {
+  return Curve.scale(Curve.one, privateKey).x;
+}
+
+/**
+ * Provable method to compute the curve point with even y coordinate for a given x coordinate,
+ * as in the `lift_x` function of BIP-340.
+ *
+ * @throws if x is not the x coordinate of a curve point.
+ */
+function liftX(Curve: CurveAffine, x: Field3): Point {
+  // constant case
+  if (Field3.isConstant(x)) {
+    let P = liftXConstant(Curve, Field3.toBigint(x));
+    assert(P !== undefined, 'liftX(): not the x coordinate of a curve point');
+    return Point.from(P);
+  }
+
+  let p = Curve.modulus;
+  ForeignField.assertLessThan(x, p);
+
+  // witness y and prove that (x, y) is on the curve, with an even y coordinate
+  let y = exists(3, () => {
+    let P = liftXConstant(Curve, Field3.toBigint(x));
+    return split(P?.y ?? 0n);
+  });
+  ForeignField.assertAlmostReduced([y], p);
+  EllipticCurve.assertOnCurve({ x, y }, Curve);
+  ForeignField.assertLessThan(y, p);
+  lowestBit(y).assertEquals(0);
+
+  return { x, y };
+}
+
+function liftXConstant(Curve: CurveAffine, x: bigint) {
+  let { Field: F } = Curve;
+  if (x >= Curve.modulus) return undefined;
+  // solve y^2 = x^3 + ax + b
+  let x3 = F.mul(F.square(x), x);
+  let y2 = F.add(x3, F.add(F.mul(Curve.a, x), Curve.b));
+  let y = F.sqrt(y2);
+  if (y === undefined) return undefined;
+  if (y % 2n !== 0n) y = F.negate(y);
+  return { x, y, infinity: false };
+}
+
+/**
+ * Provable method to compute the tagged hash `SHA256(SHA256(tag) || SHA256(tag) || data)` defined by BIP-340.
+ */
+function taggedHash(tag: string, data: UInt8[]) {
+  // the tag hash is constant, so the first block of the hash doesn't create constraints
+  let tagHash = sha256.array(tag);
+  return SHA256.hash(Bytes.from([...tagHash, ...tagHash, ...data]));
+}
+
+function taggedHashConstant(tag: string, data: Uint8Array) {
+  let tagHash = sha256.array(tag);
+  return Uint8Array.from(
+    sha256.array(
+      concatBytes(Uint8Array.from(tagHash), Uint8Array.from(tagHash), data)
+    )
+  );
+}
+
+function challenge(
+  Curve: CurveAffine,
+  r: bigint,
+  publicKey: bigint,
+  message: Uint8Array
+) {
+  let hash = taggedHashConstant(
+    'BIP0340/challenge',
+    concatBytes(toBytesConstant(r), toBytesConstant(publicKey), message)
+  );
+  return Curve.Scalar.mod(bytesToBigIntBE(hash));
+}
+
+function toBytesConstant(x: bigint) {
+  return Uint8Array.from(bigIntToBytes(x, 32).reverse());
+}
+
+function bytesToBigIntBE(bytes: Uint8Array) {
+  return bytesToBigInt([...bytes].reverse());
+}
+
+function concatBytes(...arrays: Uint8Array[]) {
+  return Uint8Array.from(arrays.flatMap((x) => [...x]));
+}
+
+const Schnorr = {
+  sign: signSchnorr,
+  verify: verifySchnorr,
+  publicKey: publicKeySchnorr,
+  liftX,
+  taggedHash,
+  toBytes: field3ToBytes,
+  fromBytes: bytesToField3,
+};
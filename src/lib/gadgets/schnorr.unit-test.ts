@@ -0,0 +1,134 @@
+import { createCurveAffine } from '../../bindings/crypto/elliptic-curve.js';
+import { CurveParams } from '../../bindings/crypto/elliptic-curve-examples.js';
+import { Schnorr, verifySchnorrConstant } from './schnorr.js';
+import { createForeignCurve } from '../foreign-curve.js';
+import { createSchnorr } from '../foreign-schnorr.js';
+import { Provable } from '../provable.js';
+import { Bytes } from '../provable-types/provable-types.js';
+import { expect } from 'expect';
+
+const Curve = createCurveAffine(CurveParams.Secp256k1);
+
+class Secp256k1 extends createForeignCurve(CurveParams.Secp256k1) {}
+class SchnorrSignature extends createSchnorr(Secp256k1) {}
+
+// test vectors from https://github.com/bitcoin/bips/blob/master/bip-0340/test-vectors.csv
+let testVectors = [
+  {
+    privateKey:
+      '0000000000000000000000000000000000000000000000000000000000000003',
+    publicKey:
+      'f9308a019258c31049344f85f89d5229b531c845836f99b08601f113bce036f9',
+    auxRand: '0000000000000000000000000000000000000000000000000000000000000000',
+    message: '0000000000000000000000000000000000000000000000000000000000000000',
+    signature:
+      'e907831f80848d1069a5371b402410364bdf1c5f8307b0084c55f1ce2dca821525f66a4a85ea8b71e482a74f382d2ce5ebeee8fdb2172f477df4900d310536c0',
+  },
+  {
+    privateKey:
+      'b7e151628aed2a6abf7158809cf4f3c762e7160f38b4da56a784d9045190cfef',
+    publicKey:
+      'dff1d77f2a671c5f36183726db2341be58feae1da2deced843240f7b502ba659',
+    auxRand: '0000000000000000000000000000000000000000000000000000000000000001',
+    message: '243f6a8885a308d313198a2e03707344a4093822299f31d0082efa98ec4e6c89',
+    signature:
+      '6896bd60eeae296db48a229ff71dfe071bde413e6d43f917dc8dcf8c78de33418906d11ac976abccb20b091292bff4ea897efcb639ea871cfa95f6de339e4b0a',
+  },
+];
+
+for (let {
+  privateKey,
+  publicKey,
+  auxRand,
+  message,
+  signature,
+} of testVectors) {
+  let privateKey_ = BigInt('0x' + privateKey);
+  let message_ = Bytes.fromHex(message).toBytes();
+  let auxRand_ = Bytes.fromHex(auxRand).toBytes();
+
+  // bigint signing and verification
+  expect(Schnorr.publicKey(Curve, privateKey_)).toEqual(
+    BigInt('0x' + publicKey)
+  );
+  let sig = Schnorr.sign(Curve, message_, privateKey_, auxRand_);
+  expect(sig).toEqual(SchnorrSignature.fromHex(signature).toBigInt());
+  expect(
+    verifySchnorrConstant(Curve, sig, message_, BigInt('0x' + publicKey))
+  ).toEqual(true);
+  expect(
+    verifySchnorrConstant(
+      Curve,
+      { r: sig.r, s: Curve.Scalar.add(sig.s, 1n) },
+      message_,
+      BigInt('0x' + publicKey)
+    )
+  ).toEqual(false);
+
+  // class API, constant verification
+  let signature_ = SchnorrSignature.sign(message_, privateKey_, auxRand_);
+  let publicKey_ = SchnorrSignature.derivePublicKey(privateKey_);
+  expect(signature_.toBigInt()).toEqual(sig);
+  expect(
+    signature_.verify(Bytes.from(message_), publicKey_).toBoolean()
+  ).toEqual(true);
+
+  // provable verification, decoding the public key and signature from bytes
+  Provable.runAndCheck(() => {
+    let pkBytes = Provable.witness(Bytes(32).provable, () =>
+      Bytes.fromHex(publicKey)
+    );
+    let sigBytes = Provable.witness(Bytes(64).provable, () =>
+      Bytes.fromHex(signature)
+    );
+    let msg = Provable.witness(Bytes(32).provable, () => Bytes.from(message_));
+
+    let pk = SchnorrSignature.publicKeyFromBytes(pkBytes);
+    let sig = SchnorrSignature.fromBytes(sigBytes);
+
+    sig.verify(msg, pk).assertTrue('signature verifies');
+
+    // a different message doesn't verify
+    let otherMessage = Bytes.from([...msg.bytes].reverse());
+    sig.verify(otherMessage, pk).assertFalse('signature does not verify');
+  });
+}
+
+// random signatures, with an arbitrary message length
+let privateKey = Curve.Scalar.random();
+let message = Bytes.fromString('hello Taproot').toBytes();
+let signature = SchnorrSignature.sign(message, privateKey);
+let publicKey = SchnorrSignature.derivePublicKey(privateKey);
+
+Provable.runAndCheck(() => {
+  let pk = Provable.witness(Secp256k1.provable, () => publicKey);
+  let sig = Provable.witness(SchnorrSignature.provable, () => signature);
+  let msg = Provable.witness(Bytes(message.length).provable, () =>
+    Bytes.from(message)
+  );
+  sig.verify(msg, pk).assertTrue('signature verifies');
+});
+
+// the public key must have an even y coordinate
+expect(() =>
+  Provable.runAndCheck(() => {
+    let pk = Provable.witness(Secp256k1.provable, () => publicKey.negate());
+    let sig = Provable.witness(SchnorrSignature.provable, () => signature);
+    sig.verify(Bytes.from(message), pk);
+  })
+).toThrow();
+
+// public keys which are not on the curve are rejected
+let notOnCurve =
+  'eefdea4cdb677750a420fee807eacf21eb9898ae79b9768766e4faa04a2d4a34';
+expect(() =>
+  SchnorrSignature.publicKeyFromBytes(Bytes.fromHex(notOnCurve))
+).toThrow('not the x coordinate of a curve point');
+expect(() =>
+  Provable.runAndCheck(() => {
+    let bytes = Provable.witness(Bytes(32).provable, () =>
+      Bytes.fromHex(notOnCurve)
+    );
+    SchnorrSignature.publicKeyFromBytes(bytes);
+  })
+).toThrow();
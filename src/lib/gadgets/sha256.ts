@@ -1,17 +1,20 @@
 // https://csrc.nist.gov/pubs/fips/180-4/upd1/final
 import { mod } from '../../bindings/crypto/finite-field.js';
 import { Field } from '../core.js';
-import { UInt32, UInt8 } from '../int.js';
+import { Struct } from '../circuit-value.js';
+import { UInt32, UInt64, UInt8 } from '../int.js';
 import { FlexibleBytes } from '../provable-types/bytes.js';
 import { Bytes } from '../provable-types/provable-types.js';
+import { DynamicBytes } from '../provable-types/dynamic-bytes.js';
+import { Provable } from '../provable.js';
 import { chunk } from '../util/arrays.js';
 import { TupleN } from '../util/types.js';
-import { divMod32 } from './arithmetic.js';
+import { divMod32, quotientMask } from './arithmetic.js';
 import { bytesToWord, wordToBytes } from './bit-slices.js';
-import { bitSlice, exists } from './common.js';
+import { assert, bitSlice, exists } from './common.js';
 import { rangeCheck16 } from './range-check.js';
 
-export { SHA256 };
+export { SHA256, SHA256State };
 
 const SHA256Constants = {
   // constants §4.2.2
@@ -35,7 +38,7 @@ const SHA256Constants = {
   ],
 };
 
-function padding(data: FlexibleBytes): UInt32[][] {
+function padding(data: FlexibleBytes, processedLength?: Field): UInt32[][] {
   // create a provable Bytes instance from the input data
   // the Bytes class will be static sized according to the length of the input data
   let message = Bytes.from(data);
@@ -60,18 +63,29 @@ function padding(data: FlexibleBytes): UInt32[][] {
   // map the padding bit string to UInt8 elements
   let padding = paddingBits.map((x) => UInt8.from(BigInt('0b' + x)));
 
+  // if earlier blocks were hashed with `update()`, the length in the padding is the total length, which is only known in the circuit
+  if (processedLength !== undefined) {
+    padding.splice(
+      -8,
+      8,
+      ...lengthToBytes(processedLength.add(message.length))
+    );
+  }
+
   // concatenate the padding with the original padded data
   let paddedMessage = message.bytes.concat(padding);
 
+  return toMessageBlocks(paddedMessage);
+}
+
+function toMessageBlocks(bytes: UInt8[]): UInt32[][] {
   // split the message into 32bit chunks
   let chunks: UInt32[] = [];
 
-  for (let i = 0; i < paddedMessage.length; i += 4) {
+  for (let i = 0; i < bytes.length; i += 4) {
     // chunk 4 bytes into one UInt32, as expected by SHA256
     // bytesToWord expects little endian, so we reverse the bytes
-    chunks.push(
-      UInt32.from(bytesToWord(paddedMessage.slice(i, i + 4).reverse()))
-    );
+    chunks.push(UInt32.from(bytesToWord(bytes.slice(i, i + 4).reverse())));
   }
 
   // split message into 16 element sized message blocks
@@ -79,84 +93,222 @@ function padding(data: FlexibleBytes): UInt32[][] {
   return chunk(chunks, 16);
 }
 
+// the length in bits as 64bit big endian integer
+function lengthToBytes(length: Field) {
+  return wordToBytes(length.mul(8), 8).reverse();
+}
+
+/**
+ * Pads a message of variable length, where the padding is computed in the circuit.
+ *
+ * Returns the maximum number of message blocks, and a mask which marks the block that ends the padded message.
+ */
+function paddingDynamic(data: DynamicBytes, processedLength = Field(0)) {
+  let maxLength = data.Constructor.maxLength;
+  let length = data.length;
+  let nBlocks = Math.floor((maxLength + 8) / 64) + 1;
+
+  // the padded message ends with the block of index floor((length + 8) / 64),
+  // so that it has room for the 1 bit and the 64bit length
+  let isLastBlock = quotientMask(length.add(8), 64, nBlocks);
+
+  // the length includes the bytes hashed by earlier calls to `update()`
+  let lengthBytes = lengthToBytes(processedLength.add(length));
+
+  // padded message = message || 0x80 || 0x00 ... 0x00 || length, where the length ends the last block
+  let message = data.maskedBytes();
+  let paddedMessage: UInt8[] = [];
+
+  for (let i = 0; i < 64 * nBlocks; i++) {
+    let byte = i < maxLength ? message[i].value : Field(0);
+    if (i <= maxLength) {
+      byte = byte.add(length.equals(i).toField().mul(0x80));
+    }
+    let j = i % 64;
+    if (j >= 56) {
+      let isLast = isLastBlock[Math.floor(i / 64)].toField();
+      byte = byte.add(isLast.mul(lengthBytes[j - 56].value));
+    }
+    paddedMessage.push(UInt8.Unsafe.fromField(byte.seal()));
+  }
+
+  return { messageBlocks: toMessageBlocks(paddedMessage), isLastBlock };
+}
+
+/**
+ * The intermediate state of an incremental SHA256 hash: the intermediate hash value, and the number of bytes hashed so far.
+ */
+class SHA256State extends Struct({
+  H: Provable.Array(UInt32, 8),
+  length: UInt64,
+}) {}
+
 const SHA256 = {
-  hash(data: FlexibleBytes) {
+  hash(data: FlexibleBytes | DynamicBytes) {
+    if (data instanceof DynamicBytes) return hashDynamic(data);
+
     // preprocessing §6.2
     // padding the message $5.1.1 into blocks that are a multiple of 512
     let messageBlocks = padding(data);
 
-    const H = SHA256Constants.H.map((x) => UInt32.from(x));
-    const K = SHA256Constants.K.map((x) => UInt32.from(x));
-
-    const N = messageBlocks.length;
-
-    for (let i = 0; i < N; i++) {
-      const M = messageBlocks[i];
-      // for each message block of 16 x 32bit do:
-      const W: UInt32[] = [];
-
-      // prepare message block
-      for (let t = 0; t <= 15; t++) W[t] = M[t];
-      for (let t = 16; t <= 63; t++) {
-        // the field element is unreduced and not proven to be 32bit, we will do this later to save constraints
-        let unreduced = DeltaOne(W[t - 2])
-          .value.add(W[t - 7].value)
-          .add(DeltaZero(W[t - 15]).value.add(W[t - 16].value));
-
-        // mod 32bit the unreduced field element
-        W[t] = UInt32.from(divMod32(unreduced, 16).remainder);
-      }
-
-      // initialize working variables
-      let a = H[0];
-      let b = H[1];
-      let c = H[2];
-      let d = H[3];
-      let e = H[4];
-      let f = H[5];
-      let g = H[6];
-      let h = H[7];
-
-      // main loop
-      for (let t = 0; t <= 63; t++) {
-        // T1 is unreduced and not proven to be 32bit, we will do this later to save constraints
-        const unreducedT1 = h.value
-          .add(SigmaOne(e).value)
-          .add(Ch(e, f, g).value)
-          .add(K[t].value)
-          .add(W[t].value)
-          .seal();
-
-        // T2 is also unreduced
-        const unreducedT2 = SigmaZero(a).value.add(Maj(a, b, c).value);
-
-        h = g;
-        g = f;
-        f = e;
-        e = UInt32.from(divMod32(d.value.add(unreducedT1), 16).remainder); // mod 32bit the unreduced field element
-        d = c;
-        c = b;
-        b = a;
-        a = UInt32.from(divMod32(unreducedT2.add(unreducedT1), 16).remainder); // mod 32bit
-      }
-
-      // new intermediate hash value
-      H[0] = H[0].addMod32(a);
-      H[1] = H[1].addMod32(b);
-      H[2] = H[2].addMod32(c);
-      H[3] = H[3].addMod32(d);
-      H[4] = H[4].addMod32(e);
-      H[5] = H[5].addMod32(f);
-      H[6] = H[6].addMod32(g);
-      H[7] = H[7].addMod32(h);
+    let H = SHA256Constants.H.map((x) => UInt32.from(x));
+
+    for (let block of messageBlocks) {
+      H = compression(H, block);
     }
 
-    // the working variables H[i] are 32bit, however we want to decompose them into bytes to be more compatible
-    // wordToBytes expects little endian, so we reverse the bytes
-    return Bytes.from(H.map((x) => wordToBytes(x.value, 4).reverse()).flat());
+    return toBytes(H);
   },
+
+  /**
+   * The provable type of the intermediate state of an incremental hash.
+   */
+  State: SHA256State,
+
+  /**
+   * Returns the state of an incremental hash before any data was hashed.
+   */
+  init() {
+    return new SHA256State({
+      H: SHA256Constants.H.map((x) => UInt32.from(x)),
+      length: UInt64.zero,
+    });
+  },
+
+  /**
+   * Hashes the given data into the state, and returns the new state.
+   *
+   * The data length has to be a multiple of the block size of 64 bytes, so that no padding is needed.
+   */
+  update(state: SHA256State, data: FlexibleBytes) {
+    let message = Bytes.from(data);
+    assert(
+      message.length % 64 === 0,
+      `SHA256.update(): expected a multiple of 64 bytes, got ${message.length}`
+    );
+
+    let H = state.H;
+    for (let block of toMessageBlocks(message.bytes)) {
+      H = compression(H, block);
+    }
+    return new SHA256State({ H, length: state.length.add(message.length) });
+  },
+
+  /**
+   * Hashes the remaining data into the state, and returns the digest of all data hashed with the state.
+   *
+   * The remaining data can have any length, and can be {@link DynamicBytes}.
+   */
+  finalize(state: SHA256State, data: FlexibleBytes | DynamicBytes = []) {
+    if (data instanceof DynamicBytes) return hashDynamic(data, state);
+
+    let H = state.H;
+    for (let block of padding(data, state.length.value)) {
+      H = compression(H, block);
+    }
+    return toBytes(H);
+  },
+
+  /**
+   * The SHA256 compression function, which hashes a message block of 16 32-bit words into an intermediate hash value of 8 32-bit words.
+   */
+  compression,
 };
 
+function hashDynamic(data: DynamicBytes, state?: SHA256State) {
+  let { messageBlocks, isLastBlock } = paddingDynamic(
+    data,
+    state?.length.value
+  );
+
+  // compute the intermediate hash after every block, and select the one after the last block of the message
+  let H = state?.H ?? SHA256Constants.H.map((x) => UInt32.from(x));
+  let intermediateHashes: UInt32[][] = [];
+
+  for (let block of messageBlocks) {
+    H = compression(H, block);
+    intermediateHashes.push(H);
+  }
+
+  H = Provable.switch(
+    isLastBlock,
+    Provable.Array(UInt32, 8),
+    intermediateHashes
+  );
+  return toBytes(H);
+}
+
+function compression(hashValues: UInt32[], M: UInt32[]) {
+  const H = [...hashValues];
+  const K = SHA256Constants.K.map((x) => UInt32.from(x));
+
+  // for each message block of 16 x 32bit do:
+  const W: UInt32[] = [];
+
+  // prepare message block
+  for (let t = 0; t <= 15; t++) W[t] = M[t];
+  for (let t = 16; t <= 63; t++) {
+    // the field element is unreduced and not proven to be 32bit, we will do this later to save constraints
+    let unreduced = DeltaOne(W[t - 2])
+      .value.add(W[t - 7].value)
+      .add(DeltaZero(W[t - 15]).value.add(W[t - 16].value));
+
+    // mod 32bit the unreduced field element
+    W[t] = UInt32.from(divMod32(unreduced, 16).remainder);
+  }
+
+  // initialize working variables
+  let a = H[0];
+  let b = H[1];
+  let c = H[2];
+  let d = H[3];
+  let e = H[4];
+  let f = H[5];
+  let g = H[6];
+  let h = H[7];
+
+  // main loop
+  for (let t = 0; t <= 63; t++) {
+    // T1 is unreduced and not proven to be 32bit, we will do this later to save constraints
+    const unreducedT1 = h.value
+      .add(SigmaOne(e).value)
+      .add(Ch(e, f, g).value)
+      .add(K[t].value)
+      .add(W[t].value)
+      .seal();
+
+    // T2 is also unreduced
+    const unreducedT2 = SigmaZero(a).value.add(Maj(a, b, c).value);
+
+    h = g;
+    g = f;
+    f = e;
+    e = UInt32.from(divMod32(d.value.add(unreducedT1), 16).remainder); // mod 32bit the unreduced field element
+    d = c;
+    c = b;
+    b = a;
+    a = UInt32.from(divMod32(unreducedT2.add(unreducedT1), 16).remainder); // mod 32bit
+  }
+
+  // new intermediate hash value
+  H[0] = H[0].addMod32(a);
+  H[1] = H[1].addMod32(b);
+  H[2] = H[2].addMod32(c);
+  H[3] = H[3].addMod32(d);
+  H[4] = H[4].addMod32(e);
+  H[5] = H[5].addMod32(f);
+  H[6] = H[6].addMod32(g);
+  H[7] = H[7].addMod32(h);
+
+  return H;
+}
+
+function toBytes(H: UInt32[]) {
+  // the working variables H[i] are 32bit, however we want to decompose them into bytes to be more compatible
+  // wordToBytes expects little endian, so we reverse the bytes
+  return Bytes.from(H.map((x) => wordToBytes(x.value, 4).reverse()).flat());
+}
+
 function Ch(x: UInt32, y: UInt32, z: UInt32) {
   // ch(x, y, z) = (x & y) ^ (~x & z)
   //             = (x & y) + (~x & z) (since x & ~x = 0)
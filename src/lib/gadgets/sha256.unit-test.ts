@@ -1,5 +1,6 @@
 import { ZkProgram } from '../proof-system.js';
-import { Bytes } from '../provable-types/provable-types.js';
+import { Bytes, DynamicBytes } from '../provable-types/provable-types.js';
+import { Provable } from '../provable.js';
 import { Gadgets } from './gadgets.js';
 import { sha256 as nobleSha256 } from '@noble/hashes/sha256';
 import { bytes } from './test-utils.js';
@@ -18,6 +19,57 @@ sample(Random.nat(400), 5).forEach((preimageLength) => {
   );
 });
 
+// variable-length messages, around the block boundaries of the padding
+class Bytes130 extends DynamicBytes(130) {}
+
+for (let length of [0, 1, 55, 56, 63, 64, 119, 120, 130]) {
+  let message = Random.bytes(length).create()();
+  let expected = Bytes.from(nobleSha256(Uint8Array.from(message))).toHex();
+
+  Provable.runAndCheck(() => {
+    let preimage = Provable.witness(Bytes130.provable, () =>
+      Bytes130.from(message)
+    );
+    let digest = Gadgets.SHA256.hash(preimage);
+    Provable.asProver(() => expect(digest.toHex()).toEqual(expected));
+  });
+}
+
+// incremental hashing, with static and variable-length remaining data
+for (let length of [0, 64, 100, 128, 183, 200]) {
+  let message = Uint8Array.from(Random.bytes(length).create()());
+  let expected = Bytes.from(nobleSha256(message)).toHex();
+  let nBlocks = Math.floor(length / 64);
+
+  Provable.runAndCheck(() => {
+    let state = Provable.witness(Gadgets.SHA256.State, () =>
+      Gadgets.SHA256.init()
+    );
+    for (let i = 0; i < nBlocks; i++) {
+      let block = message.slice(64 * i, 64 * (i + 1));
+      state = Gadgets.SHA256.update(
+        state,
+        Provable.witness(Bytes(64).provable, () => Bytes.from(block))
+      );
+    }
+    let rest = message.slice(64 * nBlocks);
+
+    let digest = Gadgets.SHA256.finalize(state, Bytes.from(rest));
+    let digestDynamic = Gadgets.SHA256.finalize(
+      state,
+      Provable.witness(Bytes130.provable, () => Bytes130.from(rest))
+    );
+    Provable.asProver(() => {
+      expect(digest.toHex()).toEqual(expected);
+      expect(digestDynamic.toHex()).toEqual(expected);
+    });
+  });
+}
+
+expect(() =>
+  Gadgets.SHA256.update(Gadgets.SHA256.init(), Bytes.fromString('abc'))
+).toThrow('expected a multiple of 64 bytes');
+
 const Sha256Program = ZkProgram({
   name: `sha256`,
   publicOutput: Bytes(32).provable,
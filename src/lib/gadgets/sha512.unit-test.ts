@@ -0,0 +1,60 @@
+import { Gadgets } from './gadgets.js';
+import {
+  sha384 as nobleSha384,
+  sha512 as nobleSha512,
+} from '@noble/hashes/sha512';
+import { bytes } from './test-utils.js';
+import { equivalentProvable } from '../testing/equivalent.js';
+import { Random, sample } from '../testing/random.js';
+import { Bytes } from '../provable-types/provable-types.js';
+import { expect } from 'expect';
+
+sample(Random.nat(300), 3).forEach((preimageLength) => {
+  let inputBytes = bytes(preimageLength);
+
+  equivalentProvable({ from: [inputBytes], to: bytes(64), verbose: true })(
+    (x) => nobleSha512(x),
+    (x) => Gadgets.SHA512.hash(x),
+    `sha512 preimage length ${preimageLength}`
+  );
+
+  equivalentProvable({ from: [inputBytes], to: bytes(48), verbose: true })(
+    (x) => nobleSha384(x),
+    (x) => Gadgets.SHA384.hash(x),
+    `sha384 preimage length ${preimageLength}`
+  );
+});
+
+for (let { preimage, sha512, sha384 } of testVectors()) {
+  let input = Bytes.fromString(preimage);
+  expect(Gadgets.SHA512.hash(input).toHex()).toEqual(sha512);
+  expect(Gadgets.SHA384.hash(input).toHex()).toEqual(sha384);
+}
+
+function testVectors() {
+  return [
+    {
+      preimage: 'abc',
+      sha512:
+        'ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f',
+      sha384:
+        'cb00753f45a35e8bb5a03d699ac65007272c32ab0eded1631a8b605a43ff5bed8086072ba1e7cc2358baeca134c825a7',
+    },
+    {
+      preimage: '',
+      sha512:
+        'cf83e1357eefb8bdf1542850d66d8007d620e4050b5715dc83f4a921d36ce9ce47d0d13c5d85f2b0ff8318d2877eec2f63b931bd47417a81a538327af927da3e',
+      sha384:
+        '38b060a751ac96384cd9327eb1b1e36a21fdb71114be07434c0cc7bf63f6e1da274edebfe76f65fbd51ad2f14898b95b',
+    },
+    {
+      // two blocks
+      preimage:
+        'abcdefghbcdefghicdefghijdefghijkefghijklfghijklmghijklmnhijklmnoijklmnopjklmnopqklmnopqrlmnopqrsmnopqrstnopqrstu',
+      sha512:
+        '8e959b75dae313da8cf4f72814fc143f8f7779c6eb9f7fa17299aeadb6889018501d289e4900f7e4331b99dec4b5433ac7d329eeb6dd26545e96e55b874be909',
+      sha384:
+        '09330c33f71147e83d192fc782cd1b4753111b173b3b05d22fa08086e3b0f712fcc7c71a557e2db966c3e9fa91746039',
+    },
+  ];
+}
@@ -0,0 +1,755 @@
+import {
+  createField,
+  inverse,
+  mod,
+} from '../../bindings/crypto/finite-field.js';
+import {
+  bigIntToBytes,
+  bytesToBigInt,
+} from '../../bindings/crypto/bigint-helpers.js';
+import { assertPositiveInteger } from '../../bindings/crypto/non-negative.js';
+import { Field } from '../field.js';
+import { Bool } from '../bool.js';
+import { UInt8 } from '../int.js';
+import { Provable } from '../provable.js';
+import { Bytes } from '../provable-types/provable-types.js';
+import { Hashed } from '../provable-types/packed.js';
+import { assert, exists } from './common.js';
+import { assertBoolean } from './basic.js';
+import { bytesToWord, sliceField3 } from './bit-slices.js';
+import { Point, arrayGetGeneric } from './elliptic-curve.js';
+import {
+  Field3,
+  ForeignField,
+  Sum,
+  lowestBit,
+  split,
+} from './foreign-field.js';
+import { rangeCheck8 } from './range-check.js';
+import { SHA512 } from './sha512.js';
+
+// external API
+export { TwistedEdwards, Eddsa, TwistedCurveParams };
+
+// internal API
+export { TwistedCurve, createTwistedCurve, verifyEddsaConstant };
+
+/**
+ * Parameters defining a twisted Edwards curve
+ * a*x^2 + y^2 = 1 + d*x^2*y^2
+ */
+type TwistedCurveParams = {
+  name: string;
+  modulus: bigint;
+  order: bigint;
+  cofactor: bigint;
+  generator: { x: bigint; y: bigint };
+  a: bigint;
+  d: bigint;
+};
+
+const Ed25519Params: TwistedCurveParams = {
+  name: 'edwards25519',
+  // 2^255 - 19
+  modulus: 0x7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffedn,
+  // 2^252 + 27742317777372353535851937790883648493
+  order: 0x1000000000000000000000000000000014def9dea2f79cd65812631a5cf5d3edn,
+  cofactor: 8n,
+  generator: {
+    x: 0x216936d3cd6e53fec0a4e231fdd6dc5c692cc7609525a7b2c9562d608f25d51an,
+    y: 0x6666666666666666666666666666666666666666666666666666666666666658n,
+  },
+  // -1
+  a: 0x7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffecn,
+  // -121665/121666
+  d: 0x52036cee2b6ffe738cc740797779e89800700a4d4141d8ab75eb4dca135978a3n,
+};
+
+const TwistedCurveParams = {
+  Ed25519: Ed25519Params,
+};
+
+const TwistedEdwards = {
+  add,
+  double,
+  negate,
+  assertOnCurve,
+  scale,
+  assertInSubgroup,
+  multiScalarMul,
+  equals,
+};
+
+/**
+ * Twisted Edwards curve point in affine coordinates.
+ *
+ * In contrast to short Weierstrass curves, the zero point has affine coordinates (0, 1), so every point is representable.
+ */
+type point = { x: bigint; y: bigint };
+
+namespace Eddsa {
+  /**
+   * EdDSA signature consisting of a curve point R and a scalar s.
+   */
+  export type Signature = { R: Point; s: Field3 };
+  export type signature = { R: point; s: bigint };
+}
+
+// bigint implementation
+
+type TwistedCurve = ReturnType<typeof createTwistedCurve>;
+
+/**
+ * Create twisted Edwards curve arithmetic on JS bigints.
+ */
+function createTwistedCurve(params: TwistedCurveParams) {
+  let { name, modulus: p, order, cofactor, generator, a, d } = params;
+  const Field = createField(p);
+  const Scalar = createField(order);
+  const zero: point = { x: 0n, y: 1n };
+
+  function add({ x: x1, y: y1 }: point, { x: x2, y: y2 }: point): point {
+    let x1x2 = Field.mul(x1, x2);
+    let y1y2 = Field.mul(y1, y2);
+    let dxxyy = Field.mul(d, Field.mul(x1x2, y1y2));
+
+    // the denominators are non-zero for points on the curve, since a is a square and d is not
+    let xDenom = inverse(Field.add(1n, dxxyy), p);
+    let yDenom = inverse(Field.sub(1n, dxxyy), p);
+    assert(
+      xDenom !== undefined && yDenom !== undefined,
+      'twisted Edwards addition: point not on the curve'
+    );
+    let x3 = Field.mul(Field.add(Field.mul(x1, y2), Field.mul(y1, x2)), xDenom);
+    let y3 = Field.mul(Field.sub(y1y2, Field.mul(a, x1x2)), yDenom);
+    return { x: x3, y: y3 };
+  }
+
+  function negate({ x, y }: point): point {
+    return { x: Field.negate(x), y };
+  }
+
+  function scale(g: point, s: bigint): point {
+    let result = zero;
+    for (let bit of s.toString(2)) {
+      result = add(result, result);
+      if (bit === '1') result = add(result, g);
+    }
+    return result;
+  }
+
+  function equal(g: point, h: point) {
+    return mod(g.x - h.x, p) === 0n && mod(g.y - h.y, p) === 0n;
+  }
+
+  return {
+    name,
+    modulus: p,
+    order,
+    cofactor,
+    hasCofactor: cofactor !== 1n,
+    a,
+    d,
+    Field,
+    Scalar,
+    zero,
+    one: generator,
+
+    add,
+    double: (g: point) => add(g, g),
+    negate,
+    scale,
+    equal,
+
+    isOnCurve({ x, y }: point) {
+      let x2 = Field.square(x);
+      let y2 = Field.square(y);
+      let lhs = Field.add(Field.mul(a, x2), y2);
+      let rhs = Field.add(1n, Field.mul(d, Field.mul(x2, y2)));
+      return lhs === rhs;
+    },
+    isInSubgroup(g: point) {
+      return equal(scale(g, order), zero);
+    },
+  };
+}
+
+// provable implementation
+
+function add(p1: Point, p2: Point, Curve: TwistedCurve) {
+  let { x: x1, y: y1 } = p1;
+  let { x: x2, y: y2 } = p2;
+  let { modulus: f, a, d } = Curve;
+
+  // constant case
+  if (Point.isConstant(p1) && Point.isConstant(p2)) {
+    let p3 = Curve.add(Point.toBigint(p1), Point.toBigint(p2));
+    return Point.from(p3);
+  }
+
+  // witness and range-check x3, y3
+  let witnesses = exists(6, () => {
+    let [x1_, x2_, y1_, y2_] = Field3.toBigints(x1, x2, y1, y2);
+    let p3 = Curve.add({ x: x1_, y: y1_ }, { x: x2_, y: y2_ });
+    return [...split(p3.x), ...split(p3.y)];
+  });
+  let [x30, x31, x32, y30, y31, y32] = witnesses;
+  let x3: Field3 = [x30, x31, x32];
+  let y3: Field3 = [y30, y31, y32];
+  ForeignField.assertAlmostReduced([x3, y3], f);
+
+  let x1x2 = ForeignField.mul(x1, x2, f);
+  let y1y2 = ForeignField.mul(y1, y2, f);
+  let x1y2 = ForeignField.mul(x1, y2, f);
+  let y1x2 = ForeignField.mul(y1, x2, f);
+
+  // d*x1*x2*y1*y2, where the products are bounded before they become multiplication inputs again
+  ForeignField.assertAlmostReduced([x1x2, y1y2], f, true);
+  let xxyy = ForeignField.mul(x1x2, y1y2, f);
+  ForeignField.assertAlmostReduced([xxyy], f, true);
+  let dxxyy = ForeignField.mul(xxyy, Field3.from(d), f);
+  ForeignField.assertAlmostReduced([dxxyy], f, true);
+
+  // note: for points on the curve, the denominators 1 +- d*x1*x2*y1*y2 are never zero,
+  // so x3 and y3 are uniquely determined by these equations
+
+  // x3*(1 + d*x1*x2*y1*y2) = x1*y2 + y1*x2
+  let xDenom = ForeignField.Sum(Field3.from(1n)).add(dxxyy);
+  let xNum = ForeignField.Sum(x1y2).add(y1x2);
+  ForeignField.assertMul(x3, xDenom, xNum, f);
+
+  // y3*(1 - d*x1*x2*y1*y2) = y1*y2 - a*x1*x2
+  let yDenom = ForeignField.Sum(Field3.from(1n)).sub(dxxyy);
+  let yNum = addScaled(ForeignField.Sum(y1y2), x1x2, mod(-a, f), f);
+  ForeignField.assertMul(y3, yDenom, yNum, f);
+
+  return { x: x3, y: y3 };
+}
+
+function double(p1: Point, Curve: TwistedCurve) {
+  let { x: x1, y: y1 } = p1;
+  let { modulus: f, a } = Curve;
+
+  // constant case
+  if (Point.isConstant(p1)) {
+    let p3 = Curve.double(Point.toBigint(p1));
+    return Point.from(p3);
+  }
+
+  // witness and range-check x3, y3
+  let witnesses = exists(6, () => {
+    let [x1_, y1_] = Field3.toBigints(x1, y1);
+    let p3 = Curve.double({ x: x1_, y: y1_ });
+    return [...split(p3.x), ...split(p3.y)];
+  });
+  let [x30, x31, x32, y30, y31, y32] = witnesses;
+  let x3: Field3 = [x30, x31, x32];
+  let y3: Field3 = [y30, y31, y32];
+  ForeignField.assertAlmostReduced([x3, y3], f);
+
+  let x1x1 = ForeignField.mul(x1, x1, f);
+  let y1y1 = ForeignField.mul(y1, y1, f);
+  let x1y1 = ForeignField.mul(x1, y1, f);
+  ForeignField.assertAlmostReduced([x1x1, y1y1], f, true);
+
+  // these are the addition formulas for p1 = p2, simplified with the curve equation a*x1^2 + y1^2 = 1 + d*x1^2*y1^2.
+  // for points on the curve, the denominators are never zero
+
+  // x3*(a*x1^2 + y1^2) = 2*x1*y1
+  let xDenom = addScaled(ForeignField.Sum(y1y1), x1x1, a, f);
+  let xNum = ForeignField.Sum(x1y1).add(x1y1);
+  ForeignField.assertMul(x3, xDenom, xNum, f);
+
+  // y3*(2 - a*x1^2 - y1^2) = y1^2 - a*x1^2
+  let yDenom = addScaled(
+    ForeignField.Sum(Field3.from(2n)).sub(y1y1),
+    x1x1,
+    mod(-a, f),
+    f
+  );
+  let yNum = addScaled(ForeignField.Sum(y1y1), x1x1, mod(-a, f), f);
+  ForeignField.assertMul(y3, yDenom, yNum, f);
+
+  return { x: x3, y: y3 };
+}
+
+function negate({ x, y }: Point, Curve: { modulus: bigint }) {
+  return { x: ForeignField.negate(x, Curve.modulus), y };
+}
+
+function assertOnCurve(p: Point, Curve: TwistedCurve) {
+  let { x, y } = p;
+  let { modulus: f, a, d } = Curve;
+
+  // constant case
+  if (Point.isConstant(p)) {
+    let p_ = Point.toBigint(p);
+    assert(
+      Curve.isOnCurve(p_),
+      `assertOnCurve(): (${p_.x}, ${p_.y}) is not on the curve.`
+    );
+    return;
+  }
+
+  let x2 = ForeignField.mul(x, x, f);
+  let y2 = ForeignField.mul(y, y, f);
+  ForeignField.assertAlmostReduced([x2, y2], f, true);
+  let dy2 = ForeignField.mul(y2, Field3.from(d), f);
+  ForeignField.assertAlmostReduced([dy2], f, true);
+
+  // x^2 * (a - d*y^2) = 1 - y^2
+  let aMinusDy2 = ForeignField.Sum(Field3.from(a)).sub(dy2);
+  let oneMinusY2 = ForeignField.Sum(Field3.from(1n)).sub(y2);
+  ForeignField.assertMul(x2, aMinusDy2, oneMinusY2, f);
+}
+
+/**
+ * Adds c*x to a sum, where c is a constant.
+ *
+ * For c = 1 or c = -1, which covers the `a` coefficient of most curves, this doesn't need a multiplication.
+ */
+function addScaled(sum: Sum, x: Field3, c: bigint, f: bigint) {
+  if (c === 1n) return sum.add(x);
+  if (c === f - 1n) return sum.sub(x);
+  let cx = ForeignField.mul(x, Field3.from(c), f);
+  ForeignField.assertAlmostReduced([cx], f, true);
+  return sum.add(cx);
+}
+
+/**
+ * EC scalar multiplication, `scalar*point`
+ *
+ * The scalar is assumed to be less than 2^(number of bits of the curve order).
+ */
+function scale(
+  scalar: Field3,
+  point: Point,
+  Curve: TwistedCurve,
+  windowSize = Point.isConstant(point) ? 4 : 3
+) {
+  return multiScalarMul([scalar], [point], Curve, [windowSize]);
+}
+
+// checks whether the point p is in the subgroup defined by [order]p = 0
+function assertInSubgroup(p: Point, Curve: TwistedCurve) {
+  if (!Curve.hasCofactor) return;
+  let orderP = scale(Field3.from(Curve.order), p, Curve);
+  equals(orderP, Point.from(Curve.zero), Curve.modulus).assertTrue(
+    'assertInSubgroup(): point is not in the subgroup'
+  );
+}
+
+/**
+ * Checks whether two points are equal.
+ */
+function equals(p1: Point, p2: Point, f: bigint) {
+  // the coordinates are almost reduced, so they are equal if their difference is 0 or f
+  let xEquals = ForeignField.equals(ForeignField.sub(p1.x, p2.x, f), 0n, f);
+  let yEquals = ForeignField.equals(ForeignField.sub(p1.y, p2.y, f), 0n, f);
+  return xEquals.and(yEquals);
+}
+
+/**
+ * Multi-scalar multiplication:
+ *
+ * s_0 * P_0 + ... + s_(n-1) * P_(n-1)
+ *
+ * where P_i are any points, and the scalars s_i are less than 2^(number of bits of the curve order).
+ *
+ * Implementation: We double all points together and leverage a precomputed table of size 2^c to avoid all but every cth addition.
+ *
+ * Since twisted Edwards addition is complete, we can start from the zero point and don't need to handle any degenerate cases,
+ * in contrast to the short Weierstrass version.
+ */
+function multiScalarMul(
+  scalars: Field3[],
+  points: Point[],
+  Curve: TwistedCurve,
+  windowSizes: number[] = []
+): Point {
+  let n = points.length;
+  assert(scalars.length === n, 'Points and scalars lengths must match');
+  assertPositiveInteger(n, 'Expected at least 1 point and scalar');
+
+  // constant case
+  if (scalars.every(Field3.isConstant) && points.every(Point.isConstant)) {
+    let sum = Curve.zero;
+    for (let i = 0; i < n; i++) {
+      let P = Point.toBigint(points[i]);
+      sum = Curve.add(sum, Curve.scale(P, Field3.toBigint(scalars[i])));
+    }
+    return Point.from(sum);
+  }
+
+  // build point tables
+  let windowSizes_ = points.map((_, i) => windowSizes[i] ?? 1);
+  let tables = points.map((P, i) => getPointTable(Curve, P, windowSizes_[i]));
+
+  // slice scalars
+  let maxBits = Curve.Scalar.sizeInBits;
+  let scalarChunks = scalars.map((s, i) =>
+    sliceField3(s, { maxBits, chunkSize: windowSizes_[i] })
+  );
+
+  // hash points to make array access more efficient
+  const HashedPoint = Hashed.create(Point.provable);
+
+  let hashedTables = tables.map((table) =>
+    table.map((point) => HashedPoint.hash(point))
+  );
+
+  let sum = Point.from(Curve.zero);
+
+  for (let i = maxBits - 1; i >= 0; i--) {
+    // add in multiple of each point
+    for (let j = 0; j < n; j++) {
+      let windowSize = windowSizes_[j];
+      if (i % windowSize === 0) {
+        // pick point to add based on the scalar chunk
+        // (if the chunk is 0, this is the zero point)
+        let sj = scalarChunks[j][i / windowSize];
+        let sjP = arrayGetGeneric(
+          HashedPoint.provable,
+          hashedTables[j],
+          sj
+        ).unhash();
+        sum = add(sum, sjP, Curve);
+      }
+    }
+
+    if (i === 0) break;
+
+    // jointly double all points
+    // (note: the highest couple of bits will not create any constraints because sum is constant)
+    sum = double(sum, Curve);
+  }
+
+  return sum;
+}
+
+/**
+ * Given a point P, create the list of multiples [0, P, 2P, 3P, ..., (2^windowSize-1) * P].
+ * This method is provable, but won't create any constraints given a constant point.
+ */
+function getPointTable(
+  Curve: TwistedCurve,
+  P: Point,
+  windowSize: number
+): Point[] {
+  assertPositiveInteger(windowSize, 'invalid window size');
+  let n = 1 << windowSize; // n >= 2
+
+  let table = [Point.from(Curve.zero), P];
+  if (n === 2) return table;
+
+  let Pi = double(P, Curve);
+  table.push(Pi);
+  for (let i = 3; i < n; i++) {
+    Pi = add(Pi, P, Curve);
+    table.push(Pi);
+  }
+  return table;
+}
+
+// EdDSA, as specified for Ed25519 in https://www.rfc-editor.org/rfc/rfc8032
+
+/**
+ * Verify an EdDSA signature, by checking the group equation `s*G = R + k*A`,
+ * where `A` is the public key and `k = SHA512(encode(R) || encode(A) || message)` reduced modulo the curve order.
+ *
+ * Like most implementations, we check the equation without multiplying it by the cofactor,
+ * and require the scalar `s` to be canonical.
+ *
+ * Inputs are assumed to be valid curve points, so that their encodings are well-defined.
+ */
+function verifyEddsa(
+  Curve: TwistedCurve,
+  signature: Eddsa.Signature,
+  message: UInt8[],
+  publicKey: Point
+) {
+  assertEd25519Encoding(Curve);
+
+  // constant case
+  if (
+    Point.isConstant(signature.R) &&
+    Field3.isConstant(signature.s) &&
+    message.every((x) => x.isConstant()) &&
+    Point.isConstant(publicKey)
+  ) {
+    let isValid = verifyEddsaConstant(
+      Curve,
+      { R: Point.toBigint(signature.R), s: Field3.toBigint(signature.s) },
+      Uint8Array.from(message.map((x) => x.toNumber())),
+      Point.toBigint(publicKey)
+    );
+    return new Bool(isValid);
+  }
+
+  // provable case
+  let { R, s } = signature;
+  let f = Curve.modulus;
+
+  // s must be canonical, otherwise signatures would be malleable
+  ForeignField.assertLessThan(s, Curve.order);
+
+  let hash = SHA512.hash(
+    Bytes.from([...encode(R, f), ...encode(publicKey, f), ...message])
+  );
+  let k = hashToScalar(hash.bytes, Curve.order);
+
+  // s*G - k*A = R
+  let G = Point.from(Curve.one);
+  let sGMinusKA = multiScalarMul(
+    [s, k],
+    [G, negate(publicKey, Curve)],
+    Curve,
+    [4, 3]
+  );
+  return equals(sGMinusKA, R, f);
+}
+
+/**
+ * Bigint implementation of EdDSA verify
+ */
+function verifyEddsaConstant(
+  Curve: TwistedCurve,
+  { R, s }: Eddsa.signature,
+  message: Uint8Array,
+  publicKey: point
+) {
+  if (!Curve.isOnCurve(publicKey) || !Curve.isOnCurve(R)) return false;
+  if (s < 0n || s >= Curve.order) return false;
+
+  let k = hashToScalarConstant(
+    Curve,
+    concatBytes(encodeConstant(R), encodeConstant(publicKey), message)
+  );
+  let sG = Curve.scale(Curve.one, s);
+  let kA = Curve.scale(publicKey, k);
+  return Curve.equal(sG, Curve.add(R, kA));
+}
+
+/**
+ * Sign a message using EdDSA, with a 32-byte private key.
+ */
+function signEddsa(
+  Curve: TwistedCurve,
+  message: Uint8Array,
+  privateKey: Uint8Array
+): Eddsa.signature {
+  assertEd25519Encoding(Curve);
+  let { scalar, prefix } = expandPrivateKey(privateKey);
+  let A = Curve.scale(Curve.one, scalar);
+
+  let r = hashToScalarConstant(Curve, concatBytes(prefix, message));
+  let R = Curve.scale(Curve.one, r);
+
+  let k = hashToScalarConstant(
+    Curve,
+    concatBytes(encodeConstant(R), encodeConstant(A), message)
+  );
+  let s = Curve.Scalar.add(r, Curve.Scalar.mul(k, scalar));
+  return { R, s };
+}
+
+/**
+ * Derive the public key from a 32-byte EdDSA private key.
+ */
+function publicKeyEddsa(Curve: TwistedCurve, privateKey: Uint8Array): point {
+  assertEd25519Encoding(Curve);
+  let { scalar } = expandPrivateKey(privateKey);
+  return Curve.scale(Curve.one, scalar);
+}
+
+function expandPrivateKey(privateKey: Uint8Array) {
+  assert(
+    privateKey.length === 32,
+    `EdDSA private key must be 32 bytes, got ${privateKey.length}`
+  );
+  let h = SHA512.hash(privateKey).toBytes();
+
+  // clear the lowest 3 bits and the highest bit, and set the second highest bit
+  let scalar = bytesToBigInt(h.slice(0, 32));
+  scalar &= (1n << 254n) - 8n;
+  scalar |= 1n << 254n;
+
+  return { scalar, prefix: h.slice(32) };
+}
+
+/**
+ * Provable method to encode a curve point as 32 bytes:
+ * the y coordinate in little endian, with the lowest bit of x as the highest bit.
+ */
+function encode(P: Point, f: bigint): UInt8[] {
+  // constant case
+  if (Point.isConstant(P)) {
+    return [...encodeConstant(Point.toBigint(P))].map((x) => UInt8.from(x));
+  }
+
+  // both coordinates have to be canonical for the encoding to be unique
+  let { x, y } = P;
+  ForeignField.assertLessThan(x, f);
+  ForeignField.assertLessThan(y, f);
+  let sign = lowestBit(x);
+
+  let bytes = Provable.witness(Provable.Array(UInt8, 32), () =>
+    [...encodeConstant(Point.toBigint(P))].map((x) => UInt8.from(x))
+  );
+
+  // each limb of 88 bits consists of 11 bytes.
+  // since y < 2^255, the highest limb has 79 bits, and the sign is bit 79 of the highest limb
+  bytesToWord(bytes.slice(0, 11)).assertEquals(y[0]);
+  bytesToWord(bytes.slice(11, 22)).assertEquals(y[1]);
+  bytesToWord(bytes.slice(22, 32)).assertEquals(y[2].add(sign.mul(1n << 79n)));
+
+  return bytes;
+}
+
+/**
+ * Provable method to decode a curve point from its 32-byte encoding.
+ *
+ * @throws if the bytes are not the canonical encoding of a curve point
+ */
+function decode(bytes: UInt8[], Curve: TwistedCurve): Point {
+  assertEd25519Encoding(Curve);
+  assert(bytes.length === 32, `expected 32 bytes, got ${bytes.length}`);
+  let f = Curve.modulus;
+
+  // constant case
+  if (bytes.every((x) => x.isConstant())) {
+    let P = decodeConstant(
+      Uint8Array.from(bytes.map((x) => x.toNumber())),
+      Curve
+    );
+    assert(P !== undefined, 'decode(): invalid point encoding');
+    return Point.from(P);
+  }
+
+  // split the last byte into the sign and the 7 highest bits of y
+  let [sign, high] = exists(2, () => {
+    let last = bytes[31].toBigInt();
+    return [last >> 7n, last & 0x7fn];
+  });
+  assertBoolean(sign);
+  rangeCheck8(high.mul(2).seal()); // high < 2^7
+  high.add(sign.mul(1n << 7n)).assertEquals(bytes[31].value);
+
+  let y: Field3 = [
+    bytesToWord(bytes.slice(0, 11)),
+    bytesToWord(bytes.slice(11, 22)),
+    bytesToWord(bytes.slice(22, 31))
+      .add(high.mul(1n << 72n))
+      .seal(),
+  ];
+  ForeignField.assertLessThan(y, f);
+
+  // witness x and prove that (x, y) is on the curve, with the given sign of x
+  let x = exists(3, () => {
+    let bytes_ = Uint8Array.from(bytes.map((x) => x.toNumber()));
+    return split(decodeConstant(bytes_, Curve)?.x ?? 0n);
+  });
+  ForeignField.assertAlmostReduced([x], f);
+  assertOnCurve({ x, y }, Curve);
+  ForeignField.assertLessThan(x, f);
+  lowestBit(x).assertEquals(sign);
+
+  return { x, y };
+}
+
+function encodeConstant({ x, y }: point) {
+  return Uint8Array.from(bigIntToBytes(y | ((x & 1n) << 255n), 32));
+}
+
+function decodeConstant(
+  bytes: Uint8Array,
+  Curve: TwistedCurve
+): point | undefined {
+  let { Field: F, a, d } = Curve;
+  let n = bytesToBigInt(bytes);
+  let y = n & ((1n << 255n) - 1n);
+  let sign = n >> 255n;
+  if (y >= Curve.modulus) return undefined;
+
+  // solve the curve equation for x^2 = (1 - y^2) / (a - d*y^2)
+  let y2 = F.square(y);
+  let denom = F.inverse(F.sub(a, F.mul(d, y2)));
+  if (denom === undefined) return undefined;
+  let x = F.sqrt(F.mul(F.sub(1n, y2), denom));
+  if (x === undefined) return undefined;
+  if (x === 0n && sign === 1n) return undefined;
+  if ((x & 1n) !== sign) x = F.negate(x);
+  return { x, y };
+}
+
+/**
+ * Provable method to reduce a 64-byte little endian hash modulo the curve order.
+ */
+function hashToScalar(hash: UInt8[], order: bigint): Field3 {
+  // split the hash into h0 + h1*2^248 + h2*2^496, where h0, h1 < 2^248 < order and h2 < 2^16
+  let toField3 = (bytes: UInt8[]): Field3 => [
+    bytesToWord(bytes.slice(0, 11)),
+    bytesToWord(bytes.slice(11, 22)),
+    bytesToWord(bytes.slice(22, 31)),
+  ];
+  let h0 = toField3(hash.slice(0, 31));
+  let h1 = toField3(hash.slice(31, 62));
+  let h2: Field3 = [
+    bytesToWord(hash.slice(62)),
+    Field.from(0n),
+    Field.from(0n),
+  ];
+
+  let h1Shifted = ForeignField.mul(h1, Field3.from(1n << 248n), order);
+  let h2Shifted = ForeignField.mul(
+    h2,
+    Field3.from(mod(1n << 496n, order)),
+    order
+  );
+  let k = ForeignField.sum([h0, h1Shifted, h2Shifted], [1n, 1n], order);
+
+  // k has to be canonical, so that it can be used as a scalar
+  ForeignField.assertLessThan(k, order);
+  return k;
+}
+
+function hashToScalarConstant(Curve: TwistedCurve, data: Uint8Array) {
+  let hash = SHA512.hash(data).toBytes();
+  return mod(bytesToBigInt(hash), Curve.order);
+}
+
+function concatBytes(...arrays: Uint8Array[]) {
+  return Uint8Array.from(arrays.flatMap((x) => [...x]));
+}
+
+function assertEd25519Encoding(Curve: TwistedCurve) {
+  // the encoding of points in 32 bytes requires the field elements to have at most 255 bits
+  assert(
+    Curve.modulus < 1n << 255n && Curve.order > 1n << 248n,
+    `EdDSA is only supported on curves with the size of edwards25519, got ${Curve.name}`
+  );
+}
+
+// type/conversion helpers
+
+const EddsaSignature = {
+  from({ R, s }: Eddsa.signature): Eddsa.Signature {
+    return { R: Point.from(R), s: Field3.from(s) };
+  },
+  toBigint({ R, s }: Eddsa.Signature): Eddsa.signature {
+    return { R: Point.toBigint(R), s: Field3.toBigint(s) };
+  },
+  isConstant: ({ R, s }: Eddsa.Signature) =>
+    Point.isConstant(R) && Field3.isConstant(s),
+};
+
+const Eddsa = {
+  sign: signEddsa,
+  verify: verifyEddsa,
+  publicKey: publicKeyEddsa,
+  encode,
+  decode,
+  encodeConstant,
+  decodeConstant,
+  Signature: EddsaSignature,
+};
@@ -0,0 +1,184 @@
+import {
+  Eddsa,
+  TwistedCurveParams,
+  TwistedEdwards,
+  createTwistedCurve,
+  verifyEddsaConstant,
+} from './twisted-edwards.js';
+import { Point } from './elliptic-curve.js';
+import { Field3 } from './foreign-field.js';
+import { createForeignEdwardsCurve } from '../foreign-edwards-curve.js';
+import { createEddsa } from '../foreign-eddsa.js';
+import { Provable } from '../provable.js';
+import { Bytes } from '../provable-types/provable-types.js';
+import { Random } from '../testing/random.js';
+import { expect } from 'expect';
+
+const Curve = createTwistedCurve(TwistedCurveParams.Ed25519);
+
+// bigint curve arithmetic
+expect(Curve.isOnCurve(Curve.one)).toEqual(true);
+expect(Curve.isInSubgroup(Curve.one)).toEqual(true);
+expect(
+  Curve.equal(Curve.add(Curve.one, Curve.negate(Curve.one)), Curve.zero)
+).toEqual(true);
+expect(
+  Curve.equal(
+    Curve.scale(Curve.one, 3n),
+    Curve.add(Curve.double(Curve.one), Curve.one)
+  )
+).toEqual(true);
+
+// provable curve arithmetic, compared against the bigint version
+let scalars = Random.bignat(Curve.order - 1n).create();
+
+for (let i = 0; i < 3; i++) {
+  let s = scalars();
+  let t = scalars();
+  let P = Curve.scale(Curve.one, s);
+  let Q = Curve.scale(Curve.one, t);
+
+  let sum = Curve.add(P, Q);
+  let double = Curve.double(P);
+  let zero = Curve.add(P, Curve.negate(P));
+  let msm = Curve.add(Curve.scale(P, t), Curve.scale(Q, s));
+
+  Provable.runAndCheck(() => {
+    let p = Provable.witness(Point.provable, () => Point.from(P));
+    let q = Provable.witness(Point.provable, () => Point.from(Q));
+    let s_ = Provable.witness(Field3.provable, () => Field3.from(s));
+    let t_ = Provable.witness(Field3.provable, () => Field3.from(t));
+
+    TwistedEdwards.assertOnCurve(p, Curve);
+    TwistedEdwards.assertOnCurve(q, Curve);
+
+    let sum_ = TwistedEdwards.add(p, q, Curve);
+    let double_ = TwistedEdwards.double(p, Curve);
+    let zero_ = TwistedEdwards.add(p, TwistedEdwards.negate(p, Curve), Curve);
+    let msm_ = TwistedEdwards.multiScalarMul([t_, s_], [p, q], Curve, [3, 2]);
+
+    // complete addition also works for equal inputs and the zero point
+    let doubleByAdd = TwistedEdwards.add(p, p, Curve);
+    let pPlusZero = TwistedEdwards.add(p, zero_, Curve);
+
+    Provable.asProver(() => {
+      expect(Point.toBigint(sum_)).toMatchObject(sum);
+      expect(Point.toBigint(double_)).toMatchObject(double);
+      expect(Point.toBigint(zero_)).toMatchObject(zero);
+      expect(Point.toBigint(msm_)).toMatchObject(msm);
+      expect(Point.toBigint(doubleByAdd)).toMatchObject(double);
+      expect(Point.toBigint(pPlusZero)).toMatchObject(P);
+    });
+    TwistedEdwards.equals(sum_, Point.from(sum), Curve.modulus).assertTrue();
+    TwistedEdwards.equals(sum_, p, Curve.modulus).assertFalse();
+  });
+}
+
+// points which are not on the curve are rejected
+expect(() =>
+  Provable.runAndCheck(() => {
+    let p = Provable.witness(Point.provable, () =>
+      Point.from({ x: Curve.one.x, y: Curve.one.x })
+    );
+    TwistedEdwards.assertOnCurve(p, Curve);
+  })
+).toThrow();
+
+// Ed25519 test vectors from https://www.rfc-editor.org/rfc/rfc8032#section-7.1
+
+class Ed25519 extends createForeignEdwardsCurve(TwistedCurveParams.Ed25519) {}
+class Ed25519Signature extends createEddsa(Ed25519) {}
+
+let testVectors = [
+  {
+    privateKey:
+      '9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60',
+    publicKey:
+      'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a',
+    message: '',
+    signature:
+      'e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b',
+  },
+  {
+    privateKey:
+      '4ccd089b28ff96da9db6c346ec114e0f5b8a319f35aba624da8cf6ed4fb8a6fb',
+    publicKey:
+      '3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c',
+    message: '72',
+    signature:
+      '92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00',
+  },
+];
+
+for (let { privateKey, publicKey, message, signature } of testVectors) {
+  let privateKey_ = Bytes.fromHex(privateKey).toBytes();
+  let message_ = Bytes.fromHex(message).toBytes();
+
+  // bigint signing and encoding
+  let publicKeyPoint = Eddsa.publicKey(Curve, privateKey_);
+  let sig = Eddsa.sign(Curve, message_, privateKey_);
+  expect(Bytes.from(Eddsa.encodeConstant(publicKeyPoint)).toHex()).toEqual(
+    publicKey
+  );
+  expect(Bytes.from(Eddsa.encodeConstant(sig.R)).toHex()).toEqual(
+    signature.slice(0, 64)
+  );
+  expect(verifyEddsaConstant(Curve, sig, message_, publicKeyPoint)).toEqual(
+    true
+  );
+
+  // class API
+  let signature_ = Ed25519Signature.sign(message_, privateKey_);
+  expect(signature_.toBigInt()).toEqual(
+    Ed25519Signature.fromHex(signature).toBigInt()
+  );
+  expect(Ed25519Signature.derivePublicKey(privateKey_).toBigint()).toEqual(
+    publicKeyPoint
+  );
+
+  // constant verification
+  let pk = Ed25519.fromBytes(Bytes.fromHex(publicKey));
+  expect(signature_.verify(Bytes.from(message_), pk).toBoolean()).toEqual(true);
+
+  // provable verification, decoding the public key and signature from bytes
+  Provable.runAndCheck(() => {
+    let pkBytes = Provable.witness(Bytes(32).provable, () =>
+      Bytes.fromHex(publicKey)
+    );
+    let sigBytes = Provable.witness(Bytes(64).provable, () =>
+      Bytes.fromHex(signature)
+    );
+    let msg = Provable.witness(Bytes(message_.length).provable, () =>
+      Bytes.from(message_)
+    );
+    let pk = Ed25519.fromBytes(pkBytes);
+    let sig = Ed25519Signature.fromBytes(sigBytes);
+
+    sig.verify(msg, pk).assertTrue('signature verifies');
+
+    // the encoding of the public key roundtrips
+    let pkBytesAgain = pk.toBytes();
+    Provable.asProver(() => {
+      expect(pkBytesAgain.toHex()).toEqual(publicKey);
+    });
+
+    // a different message doesn't verify
+    let otherMessage = Bytes.from([
+      ...msg.bytes,
+      ...Bytes.fromString('!').bytes,
+    ]);
+    sig.verify(otherMessage, pk).assertFalse('signature does not verify');
+  });
+}
+
+// invalid encodings are rejected
+let notOnCurve = Bytes.fromHex(
+  '0200000000000000000000000000000000000000000000000000000000000000'
+);
+expect(() => Ed25519.fromBytes(notOnCurve)).toThrow('invalid point encoding');
+expect(() =>
+  Provable.runAndCheck(() => {
+    let bytes = Provable.witness(Bytes(32).provable, () => notOnCurve);
+    Ed25519.fromBytes(bytes);
+  })
+).toThrow();
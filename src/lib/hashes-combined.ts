@@ -1,7 +1,7 @@
 import { Gadgets } from './gadgets/gadgets.js';
 import { Poseidon } from './hash.js';
 import { Keccak } from './keccak.js';
-import { Bytes } from './provable-types/provable-types.js';
+import { Bytes, DynamicBytes } from './provable-types/provable-types.js';
 
 export { Hash };
 
@@ -49,6 +49,32 @@ const Hash = {
     hash: Gadgets.SHA256.hash,
   },
 
+  /**
+   * The SHA2 hash function with an output length of 384 bits.
+   */
+  SHA2_384: {
+    /**
+     * Hashes the given bytes using SHA2-384.
+     *
+     * This is an alias for `Gadgets.SHA384.hash(bytes)`.\
+     * See {@link Gadgets.SHA384.hash} for details and usage examples.
+     */
+    hash: Gadgets.SHA384.hash,
+  },
+
+  /**
+   * The SHA2 hash function with an output length of 512 bits.
+   */
+  SHA2_512: {
+    /**
+     * Hashes the given bytes using SHA2-512.
+     *
+     * This is an alias for `Gadgets.SHA512.hash(bytes)`.\
+     * See {@link Gadgets.SHA512.hash} for details and usage examples.
+     */
+    hash: Gadgets.SHA512.hash,
+  },
+
   /**
    * The SHA3 hash function with an output length of 256 bits.
    */
@@ -59,7 +85,7 @@ const Hash = {
      * This is an alias for `Keccak.nistSha3(256, bytes)`.\
      * See {@link Keccak.nistSha3} for details and usage examples.
      */
-    hash(bytes: Bytes) {
+    hash(bytes: Bytes | DynamicBytes) {
       return Keccak.nistSha3(256, bytes);
     },
   },
@@ -74,7 +100,7 @@ const Hash = {
      * This is an alias for `Keccak.nistSha3(384, bytes)`.\
      * See {@link Keccak.nistSha3} for details and usage examples.
      */
-    hash(bytes: Bytes) {
+    hash(bytes: Bytes | DynamicBytes) {
       return Keccak.nistSha3(384, bytes);
     },
   },
@@ -89,7 +115,7 @@ const Hash = {
      * This is an alias for `Keccak.nistSha3(512, bytes)`.\
      * See {@link Keccak.nistSha3} for details and usage examples.
      */
-    hash(bytes: Bytes) {
+    hash(bytes: Bytes | DynamicBytes) {
       return Keccak.nistSha3(512, bytes);
     },
   },
@@ -104,7 +130,7 @@ const Hash = {
      * This is an alias for `Keccak.preNist(256, bytes)`.\
      * See {@link Keccak.preNist} for details and usage examples.
      */
-    hash(bytes: Bytes) {
+    hash(bytes: Bytes | DynamicBytes) {
       return Keccak.preNist(256, bytes);
     },
   },
@@ -119,7 +145,7 @@ const Hash = {
      * This is an alias for `Keccak.preNist(384, bytes)`.\
      * See {@link Keccak.preNist} for details and usage examples.
      */
-    hash(bytes: Bytes) {
+    hash(bytes: Bytes | DynamicBytes) {
       return Keccak.preNist(384, bytes);
     },
   },
@@ -134,8 +160,46 @@ const Hash = {
      * This is an alias for `Keccak.preNist(512, bytes)`.\
      * See {@link Keccak.preNist} for details and usage examples.
      */
-    hash(bytes: Bytes) {
+    hash(bytes: Bytes | DynamicBytes) {
       return Keccak.preNist(512, bytes);
     },
   },
+  /**
+   * The BLAKE2b hash function, with an output length of up to 512 bits.
+   */
+  BLAKE2b: {
+    /**
+     * Hashes the given bytes using BLAKE2b, with an output length in bytes which defaults to 64.
+     *
+     * This is an alias for `Gadgets.BLAKE2B.hash(bytes, outputLength)`.\
+     * See {@link Gadgets.BLAKE2B.hash} for details and usage examples.
+     */
+    hash: Gadgets.BLAKE2B.hash,
+  },
+
+  /**
+   * The BLAKE2s hash function, with an output length of up to 256 bits.
+   */
+  BLAKE2s: {
+    /**
+     * Hashes the given bytes using BLAKE2s, with an output length in bytes which defaults to 32.
+     *
+     * This is an alias for `Gadgets.BLAKE2S.hash(bytes, outputLength)`.\
+     * See {@link Gadgets.BLAKE2S.hash} for details and usage examples.
+     */
+    hash: Gadgets.BLAKE2S.hash,
+  },
+
+  /**
+   * The RIPEMD-160 hash function, with an output length of 160 bits.
+   */
+  RIPEMD160: {
+    /**
+     * Hashes the given bytes using RIPEMD-160.
+     *
+     * This is an alias for `Gadgets.RIPEMD160.hash(bytes)`.\
+     * See {@link Gadgets.RIPEMD160.hash} for details and usage examples.
+     */
+    hash: Gadgets.RIPEMD160.hash,
+  },
 };
@@ -4,6 +4,7 @@ import {
   UInt64,
   UInt32,
   UInt8,
+  UInt16,
   Field,
   Bool,
   Sign,
@@ -206,6 +207,104 @@ describe('int', () => {
         expect(y.mod(3).toString()).toEqual('2');
       });
     });
+
+    describe('comparisons', () => {
+      const negativeZero = new Int64(UInt64.zero, Sign.minusOne);
+      const MAX = (1n << 64n) - 1n;
+
+      it('compares signed values', () => {
+        expect(Int64.from(-5).lessThan(3).toBoolean()).toBe(true);
+        expect(Int64.from(3).lessThan(-5).toBoolean()).toBe(false);
+        expect(Int64.from(-5).lessThan(-3).toBoolean()).toBe(true);
+        expect(Int64.from(-3).lessThanOrEqual(-3).toBoolean()).toBe(true);
+        expect(Int64.from(-3).lessThan(-3).toBoolean()).toBe(false);
+        expect(Int64.from(-MAX).lessThan(MAX).toBoolean()).toBe(true);
+        expect(Int64.from(MAX).greaterThan(-MAX).toBoolean()).toBe(true);
+        expect(Int64.from(7).greaterThanOrEqual(7).toBoolean()).toBe(true);
+        expect(Int64.from(6).greaterThanOrEqual(7).toBoolean()).toBe(false);
+      });
+
+      it('treats both encodings of zero as equal', () => {
+        expect(negativeZero.lessThanOrEqual(Int64.zero).toBoolean()).toBe(true);
+        expect(negativeZero.greaterThanOrEqual(0).toBoolean()).toBe(true);
+        expect(negativeZero.lessThan(Int64.zero).toBoolean()).toBe(false);
+        expect(Int64.zero.greaterThan(negativeZero).toBoolean()).toBe(false);
+        expect(negativeZero.lessThan(1).toBoolean()).toBe(true);
+        expect(negativeZero.greaterThan(-1).toBoolean()).toBe(true);
+      });
+
+      it('abs, min and max', () => {
+        expect(Int64.from(-5).abs().toString()).toEqual('5');
+        expect(Int64.from(5).abs().toString()).toEqual('5');
+        expect(negativeZero.abs().toString()).toEqual('0');
+        expect(Int64.from(-5).min(3).toString()).toEqual('-5');
+        expect(Int64.from(-5).max(3).toString()).toEqual('3');
+        expect(Int64.from(-5).min(-8).toString()).toEqual('-8');
+      });
+
+      it('asserts signed order', () => {
+        expect(() => Int64.from(-5).assertLessThan(3)).not.toThrow();
+        expect(() => Int64.from(3).assertLessThan(-5)).toThrow(
+          'expected 3 < -5'
+        );
+        expect(() => negativeZero.assertLessThan(0)).toThrow();
+        expect(() => negativeZero.assertGreaterThanOrEqual(0)).not.toThrow();
+        expect(() => Int64.from(-1).assertGreaterThanOrEqual(0)).toThrow();
+        expect(() =>
+          Int64.from(2).assertGreaterThan(2, 'custom message')
+        ).toThrow('custom message');
+      });
+
+      it('compares signed values in a circuit', () => {
+        expect(() => {
+          Provable.runAndCheck(() => {
+            const x = Provable.witness(Int64, () => Int64.from(-MAX));
+            const y = Provable.witness(Int64, () => Int64.from(42));
+            const z = Provable.witness(Int64, () => negativeZero);
+
+            x.lessThan(y).assertTrue();
+            y.lessThan(x).assertFalse();
+            z.lessThanOrEqual(Int64.zero).assertTrue();
+            z.lessThan(Int64.zero).assertFalse();
+            x.assertLessThan(z);
+            z.assertGreaterThanOrEqual(Int64.zero);
+            y.assertGreaterThan(z);
+            x.min(y).assertEquals(x);
+            x.max(y).assertEquals(y);
+            x.abs().assertEquals(MAX);
+          });
+        }).not.toThrow();
+      });
+
+      it('fails signed assertions in a circuit', () => {
+        expect(() => {
+          Provable.runAndCheck(() => {
+            const x = Provable.witness(Int64, () => Int64.from(-1));
+            const z = Provable.witness(Int64, () => negativeZero);
+            z.assertLessThanOrEqual(x);
+          });
+        }).toThrow();
+      });
+    });
+
+    describe('fromField', () => {
+      it('range-checks variables', () => {
+        expect(() => {
+          Provable.runAndCheck(() => {
+            const x = Provable.witness(Field, () => Field(-(1n << 64n) + 1n));
+            Int64.fromField(x).assertEquals(-(1n << 64n) + 1n);
+            Int64.from(x).assertEquals(-(1n << 64n) + 1n);
+          });
+        }).not.toThrow();
+
+        expect(() => {
+          Provable.runAndCheck(() => {
+            const x = Provable.witness(Field, () => Field(1n << 64n));
+            Int64.fromField(x);
+          });
+        }).toThrow();
+      });
+    });
   });
 
   describe('UInt64', () => {
@@ -2983,4 +3082,76 @@ describe('int', () => {
       });
     });
   });
+
+  describe('UInt16', () => {
+    describe('Inside circuit', () => {
+      it('checked and wrapping arithmetic', () => {
+        expect(() => {
+          Provable.runAndCheck(() => {
+            const x = Provable.witness(UInt16, () => UInt16.from(65535));
+            const y = Provable.witness(UInt16, () => UInt16.from(2));
+            x.addMod16(y).assertEquals(1);
+            y.subMod16(x).assertEquals(3);
+            x.mulMod16(y).assertEquals(65534);
+            x.sub(y).assertEquals(65533);
+            x.divMod(y).quotient.assertEquals(32767);
+            x.divMod(y).remainder.assertEquals(1);
+          });
+        }).not.toThrow();
+      });
+
+      it('should throw on overflow', () => {
+        expect(() => {
+          Provable.runAndCheck(() => {
+            const x = Provable.witness(UInt16, () => UInt16.from(65535));
+            x.add(1);
+          });
+        }).toThrow();
+      });
+
+      it('shifts', () => {
+        expect(() => {
+          Provable.runAndCheck(() => {
+            const x = Provable.witness(UInt16, () => UInt16.from(0xff01));
+            x.leftShift(8).assertEquals(0x0100);
+            x.rightShift(8).assertEquals(0x00ff);
+            x.rightShift(15).assertEquals(1);
+            x.leftShift(0).assertEquals(0xff01);
+          });
+        }).not.toThrow();
+      });
+
+      it('comparisons', () => {
+        expect(() => {
+          Provable.runAndCheck(() => {
+            const x = Provable.witness(UInt16, () => UInt16.from(1000));
+            const y = Provable.witness(UInt16, () => UInt16.from(60000));
+            x.lessThan(y).assertTrue();
+            y.lessThan(x).assertFalse();
+            x.lessThanOrEqual(x).assertTrue();
+            y.greaterThan(x).assertTrue();
+            x.assertLessThan(y);
+            y.assertGreaterThanOrEqual(y);
+          });
+        }).not.toThrow();
+
+        expect(() => {
+          Provable.runAndCheck(() => {
+            const x = Provable.witness(UInt16, () => UInt16.from(1000));
+            x.assertGreaterThan(1000);
+          });
+        }).toThrow();
+      });
+    });
+
+    describe('Outside of circuit', () => {
+      it('checks the range of constants', () => {
+        expect(() => UInt16.from(65536)).toThrow();
+        expect(() => UInt16.from(-1)).toThrow();
+        expect(UInt16.MAXINT().toBigInt()).toEqual(65535n);
+        expect(UInt16.from(65535).addMod16(1).toBigInt()).toEqual(0n);
+        expect(() => UInt16.from(0).sub(1)).toThrow();
+      });
+    });
+  });
 });
@@ -10,7 +10,7 @@ import type { Gadgets } from './gadgets/gadgets.js';
 import { FieldVar, withMessage } from './field.js';
 
 // external API
-export { UInt8, UInt32, UInt64, Int64, Sign };
+export { UInt8, UInt16, UInt32, UInt64, Int64, Sign };
 
 /**
  * A 64 bit unsigned integer with values ranging from 0 to 18,446,744,073,709,551,615.
@@ -1124,9 +1124,9 @@ class Int64 extends CircuitValue implements BalanceChange {
   }
 
   /**
-   * Creates a new {@link Int64} from a {@link Field}.
+   * Creates a new {@link Int64} from a constant {@link Field}.
    *
-   * Does check if the {@link Field} is within range.
+   * Throws if the {@link Field} is not within range, but doesn't add any constraints.
    */
   private static fromFieldUnchecked(x: Field) {
     let TWO64 = 1n << 64n;
@@ -1150,18 +1150,17 @@ class Int64 extends CircuitValue implements BalanceChange {
     return new Int64(x instanceof UInt32 ? x.toUInt64() : x);
   }
 
-  // this checks the range if the argument is a constant
   /**
    * Creates a new {@link Int64}.
    *
-   * Check the range if the argument is a constant.
+   * A {@link Field} argument is range-checked, see {@link Int64.fromField}.
    */
   static from(x: Int64 | UInt32 | UInt64 | Field | number | string | bigint) {
     if (x instanceof Int64) return x;
     if (x instanceof UInt64 || x instanceof UInt32) {
       return Int64.fromUnsigned(x);
     }
-    return Int64.fromFieldUnchecked(Field(x));
+    return Int64.fromField(Field(x));
   }
   /**
    * Turns the {@link Int64} into a string.
@@ -1206,6 +1205,9 @@ class Int64 extends CircuitValue implements BalanceChange {
   }
   /**
    * Static method to create a {@link Int64} from a {@link Field}.
+   *
+   * Checks that the field element, interpreted as a signed integer, is in the range (-2^64, 2^64).
+   * For a constant, this throws immediately; for a variable, it adds constraints.
    */
   static fromField(x: Field): Int64 {
     // constant case - just return unchecked value
@@ -1291,10 +1293,122 @@ class Int64 extends CircuitValue implements BalanceChange {
   }
   /**
    * Checks if the value is positive.
+   *
+   * Note: This only looks at the sign, so the negative zero `new Int64(UInt64.zero, Sign.minusOne)` is not positive.
+   * Use {@link greaterThanOrEqual} to compare with zero independently of its encoding.
    */
   isPositive() {
     return this.sgn.isPositive();
   }
+
+  /**
+   * Returns the absolute value.
+   *
+   * `Int64.from(-5).abs()` will turn into `Int64.from(5)`
+   */
+  abs() {
+    return new Int64(this.magnitude);
+  }
+
+  /**
+   * Returns the smaller of the two values.
+   */
+  min(y: Int64 | number | string | bigint | UInt64 | UInt32) {
+    let y_ = Int64.from(y);
+    return Provable.if(this.lessThan(y_), Int64, this, y_);
+  }
+  /**
+   * Returns the larger of the two values.
+   */
+  max(y: Int64 | number | string | bigint | UInt64 | UInt32) {
+    let y_ = Int64.from(y);
+    return Provable.if(this.lessThan(y_), Int64, y_, this);
+  }
+
+  // signed comparisons
+  // y - x is computed on the field representation, which is the same for both encodings of zero.
+  // since |y - x| < 2^65, y - x >= 0 if and only if it fits in 80 bits (the next multiple of 16)
+
+  /**
+   * Checks if a {@link Int64} is less than or equal to another one.
+   */
+  lessThanOrEqual(y: Int64 | number | string | bigint | UInt64 | UInt32) {
+    let y_ = Int64.from(y);
+    return RangeCheck.isInRangeN(80, y_.toField().sub(this.toField()));
+  }
+  /**
+   * Asserts that a {@link Int64} is less than or equal to another one.
+   */
+  assertLessThanOrEqual(
+    y: Int64 | number | string | bigint | UInt64 | UInt32,
+    message?: string
+  ) {
+    let y_ = Int64.from(y);
+    if (this.isConstant() && y_.isConstant()) {
+      if (!this.lessThanOrEqual(y_).toBoolean()) {
+        if (message !== undefined) throw Error(message);
+        throw Error(`Int64.assertLessThanOrEqual: expected ${this} <= ${y_}`);
+      }
+      return;
+    }
+    let yMinusX = y_.toField().sub(this.toField()).seal();
+    RangeCheck.rangeCheckN(80, yMinusX, message);
+  }
+  /**
+   * Checks if a {@link Int64} is less than another one.
+   */
+  lessThan(y: Int64 | number | string | bigint | UInt64 | UInt32) {
+    let y_ = Int64.from(y);
+    return RangeCheck.isInRangeN(80, y_.toField().sub(this.toField()).sub(1));
+  }
+  /**
+   * Asserts that a {@link Int64} is less than another one.
+   */
+  assertLessThan(
+    y: Int64 | number | string | bigint | UInt64 | UInt32,
+    message?: string
+  ) {
+    let y_ = Int64.from(y);
+    if (this.isConstant() && y_.isConstant()) {
+      if (!this.lessThan(y_).toBoolean()) {
+        if (message !== undefined) throw Error(message);
+        throw Error(`Int64.assertLessThan: expected ${this} < ${y_}`);
+      }
+      return;
+    }
+    let yMinusXMinusOne = y_.toField().sub(this.toField()).sub(1).seal();
+    RangeCheck.rangeCheckN(80, yMinusXMinusOne, message);
+  }
+  /**
+   * Checks if a {@link Int64} is greater than another one.
+   */
+  greaterThan(y: Int64 | number | string | bigint | UInt64 | UInt32) {
+    return Int64.from(y).lessThan(this);
+  }
+  /**
+   * Asserts that a {@link Int64} is greater than another one.
+   */
+  assertGreaterThan(
+    y: Int64 | number | string | bigint | UInt64 | UInt32,
+    message?: string
+  ) {
+    Int64.from(y).assertLessThan(this, message);
+  }
+  /**
+   * Checks if a {@link Int64} is greater than or equal to another one.
+   */
+  greaterThanOrEqual(y: Int64 | number | string | bigint | UInt64 | UInt32) {
+    return Int64.from(y).lessThanOrEqual(this);
+  }
+  /**
+   * Asserts that a {@link Int64} is greater than or equal to another one.
+   */
+  assertGreaterThanOrEqual(
+    y: Int64 | number | string | bigint | UInt64 | UInt32,
+    message?: string
+  ) {
+    Int64.from(y).assertLessThanOrEqual(this, message);
+  }
 }
 
 /**
@@ -1680,3 +1794,496 @@ class UInt8 extends Struct({
     RangeCheck.rangeCheck8(x);
   }
 }
+
+/**
+ * A 16 bit unsigned integer with values ranging from 0 to 65535.
+ */
+class UInt16 extends Struct({
+  value: Field,
+}) {
+  static NUM_BITS = 16;
+
+  /**
+   * Create a {@link UInt16} from a bigint or number.
+   * The max value of a {@link UInt16} is `2^16 - 1 = 65535`.
+   *
+   * **Warning**: Cannot overflow past 65535, an error is thrown if the result is greater than 65535.
+   */
+  constructor(x: number | bigint | FieldVar | UInt16) {
+    if (x instanceof UInt16) x = x.value.value;
+    super({ value: Field(x) });
+    UInt16.checkConstant(this.value);
+  }
+
+  static Unsafe = {
+    /**
+     * Create a {@link UInt16} from a {@link Field} without constraining its range.
+     *
+     * **Warning**: This is unsafe, because it does not prove that the input {@link Field} actually fits in 16 bits.\
+     * Only use this if you know what you are doing, otherwise use the safe {@link UInt16.from}.
+     */
+    fromField(x: Field) {
+      return new UInt16(x.value);
+    },
+  };
+
+  /**
+   * Add a {@link UInt16} to another {@link UInt16} without allowing overflow.
+   *
+   * @example
+   * ```ts
+   * const x = UInt16.from(3);
+   * const sum = x.add(5);
+   * sum.assertEquals(8);
+   * ```
+   *
+   * @throws if the result is greater than 65535.
+   */
+  add(y: UInt16 | bigint | number) {
+    let z = this.value.add(UInt16.from(y).value);
+    RangeCheck.rangeCheck16(z);
+    return UInt16.Unsafe.fromField(z);
+  }
+
+  /**
+   * Subtract a {@link UInt16} from another {@link UInt16} without allowing underflow.
+   *
+   * @example
+   * ```ts
+   * const x = UInt16.from(8);
+   * const difference = x.sub(5);
+   * difference.assertEquals(3);
+   * ```
+   *
+   * @throws if the result is less than 0.
+   */
+  sub(y: UInt16 | bigint | number) {
+    let z = this.value.sub(UInt16.from(y).value);
+    RangeCheck.rangeCheck16(z);
+    return UInt16.Unsafe.fromField(z);
+  }
+
+  /**
+   * Multiply a {@link UInt16} by another {@link UInt16} without allowing overflow.
+   *
+   * @example
+   * ```ts
+   * const x = UInt16.from(3);
+   * const product = x.mul(5);
+   * product.assertEquals(15);
+   * ```
+   *
+   * @throws if the result is greater than 65535.
+   */
+  mul(y: UInt16 | bigint | number) {
+    let z = this.value.mul(UInt16.from(y).value);
+    RangeCheck.rangeCheck16(z);
+    return UInt16.Unsafe.fromField(z);
+  }
+
+  /**
+   * Addition modulo 2^16.
+   *
+   * @example
+   * ```ts
+   * UInt16.from(65535).addMod16(2).assertEquals(1);
+   * ```
+   */
+  addMod16(y: UInt16 | bigint | number) {
+    return UInt16.mod16(this.value.add(UInt16.from(y).value));
+  }
+
+  /**
+   * Subtraction modulo 2^16.
+   *
+   * @example
+   * ```ts
+   * UInt16.from(1).subMod16(2).assertEquals(65535);
+   * ```
+   */
+  subMod16(y: UInt16 | bigint | number) {
+    let z = this.value.sub(UInt16.from(y).value).add(1 << 16);
+    return UInt16.mod16(z);
+  }
+
+  /**
+   * Multiplication modulo 2^16.
+   *
+   * @example
+   * ```ts
+   * UInt16.from(256).mulMod16(257).assertEquals(256);
+   * ```
+   */
+  mulMod16(y: UInt16 | bigint | number) {
+    return UInt16.mod16(this.value.mul(UInt16.from(y).value));
+  }
+
+  /**
+   * Divide a {@link UInt16} by another {@link UInt16}.
+   * This is integer division that rounds down.
+   *
+   * @example
+   * ```ts
+   * const x = UInt16.from(7);
+   * const quotient = x.div(2);
+   * quotient.assertEquals(3);
+   * ```
+   */
+  div(y: UInt16 | bigint | number) {
+    return this.divMod(y).quotient;
+  }
+
+  /**
+   * Get the remainder a {@link UInt16} of division of another {@link UInt16}.
+   *
+   * @example
+   * ```ts
+   * const x = UInt16.from(50);
+   * const mod = x.mod(30);
+   * mod.assertEquals(20);
+   * ```
+   */
+  mod(y: UInt16 | bigint | number) {
+    return this.divMod(y).remainder;
+  }
+
+  /**
+   * Get the quotient and remainder of a {@link UInt16} divided by another {@link UInt16}:
+   *
+   * `x == y * q + r`, where `0 <= r < y`.
+   *
+   * @param y - a {@link UInt16} to get the quotient and remainder of another {@link UInt16}.
+   *
+   * @return The quotient `q` and remainder `r`.
+   */
+  divMod(y: UInt16 | bigint | number) {
+    let x = this.value;
+    let y_ = UInt16.from(y).value.seal();
+
+    if (this.value.isConstant() && y_.isConstant()) {
+      let xn = x.toBigInt();
+      let yn = y_.toBigInt();
+      let q = xn / yn;
+      let r = xn - q * yn;
+      return { quotient: UInt16.from(q), remainder: UInt16.from(r) };
+    }
+
+    // prove that x === q * y + r, where 0 <= r < y
+    let q = Provable.witness(Field, () => Field(x.toBigInt() / y_.toBigInt()));
+    let r = x.sub(q.mul(y_)).seal();
+
+    RangeCheck.rangeCheck16(q);
+    RangeCheck.rangeCheck16(r);
+
+    let remainder = UInt16.Unsafe.fromField(r);
+    let quotient = UInt16.Unsafe.fromField(q);
+
+    remainder.assertLessThan(y);
+    return { quotient, remainder };
+  }
+
+  /**
+   * Shift the bits of a {@link UInt16} to the left, discarding the bits shifted out of the 16 bit range.
+   *
+   * @example
+   * ```ts
+   * UInt16.from(0xff01).leftShift(8).assertEquals(0x0100);
+   * ```
+   */
+  leftShift(bits: number) {
+    UInt16.checkShift(bits);
+    return UInt16.mod16(this.value.mul(1 << bits));
+  }
+
+  /**
+   * Shift the bits of a {@link UInt16} to the right, filling in zeros from the left.
+   *
+   * @example
+   * ```ts
+   * UInt16.from(0xff01).rightShift(8).assertEquals(0x00ff);
+   * ```
+   */
+  rightShift(bits: number) {
+    UInt16.checkShift(bits);
+    let x = this.value;
+    if (x.isConstant()) return UInt16.from(x.toBigInt() >> BigInt(bits));
+
+    // x = high * 2^bits + low, where low < 2^bits
+    let [high, low] = Provable.witness(Provable.Array(Field, 2), () => {
+      let x0 = x.toBigInt();
+      return [
+        Field(x0 >> BigInt(bits)),
+        Field(x0 & ((1n << BigInt(bits)) - 1n)),
+      ];
+    });
+    // low < 2^bits  <=>  low * 2^(16 - bits) < 2^16
+    RangeCheck.rangeCheck16(high);
+    RangeCheck.rangeCheck16(low.mul(1 << (16 - bits)));
+    high
+      .mul(1 << bits)
+      .add(low)
+      .assertEquals(x);
+    return UInt16.Unsafe.fromField(high);
+  }
+
+  /**
+   * Check if this {@link UInt16} is less than or equal to another {@link UInt16} value.
+   * Returns a {@link Bool}.
+   *
+   * @example
+   * ```ts
+   * UInt16.from(3).lessThanOrEqual(UInt16.from(5));
+   * ```
+   */
+  lessThanOrEqual(y: UInt16 | bigint | number): Bool {
+    let y_ = UInt16.from(y);
+    if (this.value.isConstant() && y_.value.isConstant()) {
+      return Bool(this.toBigInt() <= y_.toBigInt());
+    }
+    // y - x is in (-2^16, 2^16), and fits in 16 bits if and only if it is non-negative
+    return RangeCheck.isInRangeN(16, y_.value.sub(this.value));
+  }
+
+  /**
+   * Check if this {@link UInt16} is less than another {@link UInt16} value.
+   * Returns a {@link Bool}.
+   *
+   * @example
+   * ```ts
+   * UInt16.from(2).lessThan(UInt16.from(3));
+   * ```
+   */
+  lessThan(y: UInt16 | bigint | number): Bool {
+    let y_ = UInt16.from(y);
+    if (this.value.isConstant() && y_.value.isConstant()) {
+      return Bool(this.toBigInt() < y_.toBigInt());
+    }
+    return RangeCheck.isInRangeN(16, y_.value.sub(this.value).sub(1));
+  }
+
+  /**
+   * Assert that this {@link UInt16} is less than another {@link UInt16} value.
+   *
+   * **Important**: If an assertion fails, the code throws an error.
+   *
+   * @param y - the {@link UInt16} value to compare & assert with this {@link UInt16}.
+   * @param message? - a string error message to print if the assertion fails, optional.
+   */
+  assertLessThan(y: UInt16 | bigint | number, message?: string) {
+    let y_ = UInt16.from(y);
+    if (this.value.isConstant() && y_.value.isConstant()) {
+      let x0 = this.toBigInt();
+      let y0 = y_.toBigInt();
+      if (x0 >= y0) {
+        if (message !== undefined) throw Error(message);
+        throw Error(`UInt16.assertLessThan: expected ${x0} < ${y0}`);
+      }
+      return;
+    }
+    // x < y  <=>  x + 1 <= y
+    let xPlus1 = new UInt16(this.value.add(1).value);
+    xPlus1.assertLessThanOrEqual(y, message);
+  }
+
+  /**
+   * Assert that this {@link UInt16} is less than or equal to another {@link UInt16} value.
+   *
+   * **Important**: If an assertion fails, the code throws an error.
+   *
+   * @param y - the {@link UInt16} value to compare & assert with this {@link UInt16}.
+   * @param message? - a string error message to print if the assertion fails, optional.
+   */
+  assertLessThanOrEqual(y: UInt16 | bigint | number, message?: string) {
+    let y_ = UInt16.from(y);
+    if (this.value.isConstant() && y_.value.isConstant()) {
+      let x0 = this.toBigInt();
+      let y0 = y_.toBigInt();
+      if (x0 > y0) {
+        if (message !== undefined) throw Error(message);
+        throw Error(`UInt16.assertLessThanOrEqual: expected ${x0} <= ${y0}`);
+      }
+      return;
+    }
+    try {
+      // x <= y  <=>  y - x >= 0  which is implied by  y - x in [0, 2^16)
+      let yMinusX = y_.value.sub(this.value).seal();
+      RangeCheck.rangeCheck16(yMinusX);
+    } catch (err) {
+      throw withMessage(err, message);
+    }
+  }
+
+  /**
+   * Check if this {@link UInt16} is greater than another {@link UInt16}.
+   * Returns a {@link Bool}.
+   *
+   * @example
+   * ```ts
+   * // 5 > 3
+   * UInt16.from(5).greaterThan(3);
+   * ```
+   */
+  greaterThan(y: UInt16 | bigint | number) {
+    return UInt16.from(y).lessThan(this);
+  }
+
+  /**
+   * Check if this {@link UInt16} is greater than or equal another {@link UInt16} value.
+   * Returns a {@link Bool}.
+   *
+   * @example
+   * ```ts
+   * // 3 >= 3
+   * UInt16.from(3).greaterThanOrEqual(3);
+   * ```
+   */
+  greaterThanOrEqual(y: UInt16 | bigint | number) {
+    return UInt16.from(y).lessThanOrEqual(this);
+  }
+
+  /**
+   * Assert that this {@link UInt16} is greater than another {@link UInt16} value.
+   *
+   * **Important**: If an assertion fails, the code throws an error.
+   *
+   * @param y - the {@link UInt16} value to compare & assert with this {@link UInt16}.
+   * @param message? - a string error message to print if the assertion fails, optional.
+   */
+  assertGreaterThan(y: UInt16 | bigint | number, message?: string) {
+    UInt16.from(y).assertLessThan(this, message);
+  }
+
+  /**
+   * Assert that this {@link UInt16} is greater than or equal to another {@link UInt16} value.
+   *
+   * **Important**: If an assertion fails, the code throws an error.
+   *
+   * @param y - the {@link UInt16} value to compare & assert with this {@link UInt16}.
+   * @param message? - a string error message to print if the assertion fails, optional.
+   */
+  assertGreaterThanOrEqual(y: UInt16 | bigint | number, message?: string) {
+    UInt16.from(y).assertLessThanOrEqual(this, message);
+  }
+
+  /**
+   * Assert that this {@link UInt16} is equal another {@link UInt16} value.
+   *
+   * **Important**: If an assertion fails, the code throws an error.
+   *
+   * @param y - the {@link UInt16} value to compare & assert with this {@link UInt16}.
+   * @param message? - a string error message to print if the assertion fails, optional.
+   */
+  assertEquals(y: UInt16 | bigint | number, message?: string) {
+    let y_ = UInt16.from(y);
+    this.value.assertEquals(y_.value, message);
+  }
+
+  /**
+   * Serialize the {@link UInt16} to a string, e.g. for printing.
+   *
+   * **Warning**: This operation is not provable.
+   */
+  toString() {
+    return this.value.toString();
+  }
+
+  /**
+   * Serialize the {@link UInt16} to a number.
+   *
+   * **Warning**: This operation is not provable.
+   */
+  toNumber() {
+    return Number(this.value.toBigInt());
+  }
+
+  /**
+   * Serialize the {@link UInt16} to a bigint.
+   *
+   * **Warning**: This operation is not provable.
+   */
+  toBigInt() {
+    return this.value.toBigInt();
+  }
+
+  /**
+   * {@link Provable.check} for {@link UInt16}.
+   * Proves that the input is in the [0, 65535] range.
+   */
+  static check(x: { value: Field } | Field) {
+    if (x instanceof Field) x = { value: x };
+    RangeCheck.rangeCheck16(x.value);
+  }
+
+  static toInput(x: { value: Field }): HashInput {
+    return { packed: [[x.value, 16]] };
+  }
+
+  /**
+   * Turns a {@link UInt16} into a {@link UInt32}.
+   */
+  toUInt32(): UInt32 {
+    return new UInt32(this.value);
+  }
+
+  /**
+   * Turns a {@link UInt16} into a {@link UInt64}.
+   */
+  toUInt64(): UInt64 {
+    return new UInt64(this.value);
+  }
+
+  /**
+   * Creates a {@link UInt16} with a value of 65535.
+   */
+  static MAXINT() {
+    return new UInt16((1n << BigInt(UInt16.NUM_BITS)) - 1n);
+  }
+
+  /**
+   * Creates a new {@link UInt16}.
+   */
+  static from(x: UInt16 | UInt8 | UInt64 | UInt32 | Field | number | bigint) {
+    if (x instanceof UInt16) return x;
+    if (x instanceof UInt8) return new UInt16(x.value.value);
+    if (x instanceof UInt64 || x instanceof UInt32 || x instanceof Field) {
+      // if the input could be larger than 16 bits, we have to prove that it is not
+      let xx = x instanceof Field ? { value: x } : x;
+      UInt16.check(xx);
+      return new UInt16(xx.value.value);
+    }
+    return new UInt16(x);
+  }
+
+  /**
+   * Reduces `x` modulo 2^16, where `x` is known to be smaller than 2^32.
+   */
+  private static mod16(x: Field) {
+    if (x.isConstant()) return UInt16.from(x.toBigInt() & 0xffffn);
+
+    let [quotient, remainder] = Provable.witness(
+      Provable.Array(Field, 2),
+      () => {
+        let x0 = x.toBigInt();
+        return [Field(x0 >> 16n), Field(x0 & 0xffffn)];
+      }
+    );
+    RangeCheck.rangeCheck16(quotient);
+    RangeCheck.rangeCheck16(remainder);
+    quotient
+      .mul(1 << 16)
+      .add(remainder)
+      .assertEquals(x);
+    return UInt16.Unsafe.fromField(remainder);
+  }
+
+  private static checkShift(bits: number) {
+    if (!Number.isInteger(bits) || bits < 0 || bits >= 16) {
+      throw Error(`UInt16: expected shift between 0 and 15, got ${bits}`);
+    }
+  }
+
+  private static checkConstant(x: Field) {
+    if (!x.isConstant()) return;
+    RangeCheck.rangeCheck16(x);
+  }
+}
@@ -0,0 +1,323 @@
+import { Bool, Field } from './core.js';
+import { UInt64, UInt8 } from './int.js';
+import { arrayGet, shiftLeft } from './gadgets/basic.js';
+import { assert, exists } from './gadgets/common.js';
+import * as RangeCheck from './gadgets/range-check.js';
+import { Provable } from './provable.js';
+import {
+  createDynamicBytes,
+  DynamicBytes,
+} from './provable-types/dynamic-bytes.js';
+
+// external API
+export { Json };
+
+// internal API
+export { scan };
+
+const QUOTE = '"'.charCodeAt(0);
+const BACKSLASH = '\\'.charCodeAt(0);
+const COLON = ':'.charCodeAt(0);
+const COMMA = ','.charCodeAt(0);
+const OPEN_BRACE = '{'.charCodeAt(0);
+const CLOSE_BRACE = '}'.charCodeAt(0);
+const OPEN_BRACKET = '['.charCodeAt(0);
+const CLOSE_BRACKET = ']'.charCodeAt(0);
+const WHITESPACE = [' ', '\t', '\n', '\r'].map((c) => c.charCodeAt(0));
+
+const Json = {
+  /**
+   * Extract the value at a key path from a JSON document, like `['product', 'recycledContent']` for the value of
+   * `"recycledContent"` in the object `"product"` of the document.
+   *
+   * Returns the raw JSON text of the value, of at most `maxValueLength` bytes, without surrounding whitespace.
+   * For example, a string value is returned with its quotes and with escape sequences as they appear in the document,
+   * and a nested object is returned as a whole.
+   *
+   * The document is scanned byte by byte, keeping track of strings, escape sequences and the nesting depth, so that
+   * keys inside string values or in other objects can't be confused with the ones on the key path.
+   * The document can be nested at most `maxDepth` levels deep, which is 8 by default.
+   *
+   * The document is assumed to be valid JSON, which is typically guaranteed by a signature of its issuer.
+   * Keys are matched against their canonical JSON encoding, i.e. `JSON.stringify(key)`,
+   * and if an object has duplicate keys, any of the values could be extracted.
+   *
+   * This costs `O(n * (maxDepth + path.length * log n))` constraints for a document of maximum length n.
+   *
+   * @throws if the key path is not found, or if the value is longer than `maxValueLength`.
+   *
+   * @example
+   * ```ts
+   * class Document extends DynamicBytes(1024) {}
+   *
+   * // in provable code
+   * let value = Json.extract(document, ['product', 'recycledContent'], { maxValueLength: 8 });
+   * Json.toUInt64(value).assertGreaterThanOrEqual(UInt64.from(30));
+   * ```
+   */
+  extract(
+    document: DynamicBytes,
+    path: string[],
+    {
+      maxValueLength,
+      maxDepth = 8,
+    }: { maxValueLength: number; maxDepth?: number }
+  ): DynamicBytes {
+    let d = path.length;
+    assert(d > 0, 'Json.extract(): expected a non-empty key path');
+    assert(
+      d <= maxDepth,
+      `Json.extract(): key path is longer than the maximum depth ${maxDepth}`
+    );
+    let { chars, inString, depth, isWhitespace, isSeparator } = scan(
+      document,
+      maxDepth
+    );
+    let keys = path.map((key) => [
+      ...new TextEncoder().encode(JSON.stringify(key)),
+    ]);
+    let message = `Json.extract(): key path ${path.join('.')} not found`;
+
+    // witness the positions of every key, the colon after it and the start of its value,
+    // as well as the end of the last value and the separator after it
+    let positions = exists(3 * d + 2, () =>
+      findPath(
+        chars.map((c) => Number(c.toBigInt())),
+        inString.map((b) => b.toBoolean()),
+        depth.map((x) => Number(x.toBigInt())),
+        keys
+      ).map(BigInt)
+    );
+    let inStringFields = inString.map((b) => b.toField());
+    let isWhitespaceFields = isWhitespace.map((b) => b.toField());
+    let length = document.length;
+
+    let valueStart = Field(0);
+    for (let i = 0; i < d; i++) {
+      let [keyStart, colon, start] = positions.slice(3 * i, 3 * i + 3);
+      let key = keys[i];
+      let level = i + 1;
+
+      // the key starts with a quote outside of strings, at the right depth
+      arrayGet(inStringFields, keyStart).assertEquals(0, message);
+      arrayGet(depth, keyStart).assertEquals(level, message);
+      let shifted = shiftLeft(chars, keyStart);
+      key.forEach((c, j) => shifted[j].assertEquals(c, message));
+
+      // key, whitespace, colon, whitespace, value
+      RangeCheck.rangeCheck32(colon.sub(keyStart).sub(key.length).seal());
+      RangeCheck.rangeCheck32(start.sub(colon).sub(1).seal());
+      RangeCheck.rangeCheck32(length.sub(start).sub(1).seal());
+      arrayGet(chars, colon).assertEquals(COLON, message);
+      assertAllInRange(keyStart.add(key.length), colon, isWhitespace, message);
+      assertAllInRange(colon.add(1), start, isWhitespace, message);
+      arrayGet(isWhitespaceFields, start).assertEquals(0, message);
+
+      // the key is a member of the object which is the value of the previous key
+      if (i > 0) {
+        arrayGet(chars, valueStart).assertEquals(OPEN_BRACE, message);
+        RangeCheck.rangeCheck32(keyStart.sub(valueStart).sub(1).seal());
+        assertAllInRange(
+          valueStart.add(1),
+          keyStart.add(1),
+          depth.map((x) => x.equals(level - 1).not()),
+          message
+        );
+      }
+      valueStart = start;
+    }
+
+    // the value ends before the first separator of its object, with trailing whitespace removed
+    let [valueEnd, separator] = positions.slice(3 * d);
+    RangeCheck.rangeCheck32(valueEnd.sub(valueStart).sub(1).seal());
+    RangeCheck.rangeCheck32(separator.sub(valueEnd).seal());
+    arrayGet(
+      isSeparator.map((b) => b.toField()),
+      separator
+    ).assertEquals(1, message);
+    arrayGet(depth, separator).assertEquals(d, message);
+    assertAllInRange(
+      valueStart,
+      separator,
+      depth.map((x, j) => isSeparator[j].and(x.equals(d)).not()),
+      message
+    );
+    assertAllInRange(valueEnd, separator, isWhitespace, message);
+    arrayGet(isWhitespaceFields, valueEnd.sub(1)).assertEquals(0, message);
+
+    let valueLength = valueEnd.sub(valueStart).seal();
+    RangeCheck.rangeCheck32(Field(maxValueLength).sub(valueLength).seal());
+    let Value = createDynamicBytes(maxValueLength);
+    let value = shiftLeft(chars, valueStart)
+      .slice(0, maxValueLength)
+      .map((c) => UInt8.Unsafe.fromField(c));
+    return new Value(new Value(value, valueLength).maskedBytes(), valueLength);
+  },
+
+  /**
+   * Parse a non-negative JSON integer, like a value returned by {@link Json.extract}, to a {@link UInt64}.
+   *
+   * The integer can have at most `maxDigits` digits, which is 19 by default, so that it fits in 64 bits.
+   *
+   * @throws if the value is not a non-negative integer of at most `maxDigits` digits.
+   */
+  toUInt64(value: DynamicBytes, { maxDigits = 19 } = {}): UInt64 {
+    assert(
+      maxDigits > 0 && maxDigits <= 19,
+      'Json.toUInt64(): maxDigits must be between 1 and 19'
+    );
+    // 1 <= length <= maxDigits
+    RangeCheck.rangeCheck32(value.length.sub(1).seal());
+    RangeCheck.rangeCheck32(Field(maxDigits).sub(value.length).seal());
+
+    let isLive = Bool(true);
+    let result = Field(0);
+    for (let i = 0; i < Math.min(maxDigits, value.bytes.length); i++) {
+      isLive = isLive.and(value.length.equals(i).not());
+      let digit = value.bytes[i].value
+        .sub('0'.charCodeAt(0))
+        .mul(isLive.toField())
+        .seal();
+      RangeCheck.rangeCheck8(digit);
+      RangeCheck.rangeCheck8(Field(9).sub(digit).seal());
+      result = Provable.if(isLive, result.mul(10).add(digit), result);
+    }
+    // the result is less than 10^19 < 2^64
+    return new UInt64(result.seal());
+  },
+};
+
+/**
+ * Scans a JSON document byte by byte, and returns for every byte
+ * - whether it is inside a string, where the opening quote counts as outside and the closing quote as inside
+ * - the nesting depth before the byte
+ * - whether it is whitespace or a separator `,` or `}` outside of strings
+ *
+ * Bytes after the end of the document are treated as whitespace.
+ */
+function scan(document: DynamicBytes, maxDepth: number) {
+  let chars: Field[] = [];
+  let inString: Bool[] = [];
+  let depth: Field[] = [];
+  let isWhitespace: Bool[] = [];
+  let isSeparator: Bool[] = [];
+
+  let isLive = Bool(true);
+  let inString_ = Bool(false);
+  let isEscaped = Bool(false);
+  let depth_ = Field(0);
+
+  for (let [i, byte] of document.bytes.entries()) {
+    isLive = isLive.and(document.length.equals(i).not());
+    let char = Provable.if(isLive, byte.value, Field(WHITESPACE[0]));
+    let isChar = (c: number) => char.equals(c);
+    let isOutside = inString_.not();
+
+    chars.push(char);
+    inString.push(inString_);
+    depth.push(depth_);
+    isWhitespace.push(
+      isOutside.and(WHITESPACE.map(isChar).reduce((a, b) => a.or(b)))
+    );
+    let isCloseBrace = isChar(CLOSE_BRACE);
+    isSeparator.push(isOutside.and(isChar(COMMA).or(isCloseBrace)));
+
+    // a quote toggles between strings and structure, unless it is escaped
+    let isQuote = isChar(QUOTE).and(isEscaped.not());
+    let isEscape = inString_.and(isEscaped.not()).and(isChar(BACKSLASH));
+    inString_ = Provable.if(isQuote, isOutside, inString_);
+    isEscaped = isEscape;
+
+    // objects and arrays change the depth
+    let isOpen = isOutside.and(isChar(OPEN_BRACE).or(isChar(OPEN_BRACKET)));
+    let isClose = isOutside.and(isCloseBrace.or(isChar(CLOSE_BRACKET)));
+    isOpen
+      .and(depth_.equals(maxDepth))
+      .assertFalse(`Json: document is nested deeper than ${maxDepth} levels`);
+    isClose
+      .and(depth_.equals(0))
+      .assertFalse('Json: unbalanced closing bracket');
+    depth_ = depth_.add(isOpen.toField()).sub(isClose.toField()).seal();
+  }
+  inString_.assertFalse('Json: unterminated string');
+  depth_.assertEquals(0, 'Json: unbalanced opening bracket');
+
+  return { chars, inString, depth, isWhitespace, isSeparator };
+}
+
+/**
+ * Asserts that `predicate` holds at all indices in [from, to), where `from <= to`.
+ */
+function assertAllInRange(
+  from: Field,
+  to: Field,
+  predicate: Bool[],
+  message: string
+) {
+  let hasStarted = Bool(false);
+  let hasEnded = Bool(false);
+  predicate.forEach((p, j) => {
+    hasStarted = hasStarted.or(from.equals(j));
+    hasEnded = hasEnded.or(to.equals(j));
+    hasStarted.and(hasEnded.not()).and(p.not()).assertFalse(message);
+  });
+}
+
+/**
+ * Out-of-circuit search for the key path, which returns the positions witnessed by {@link Json.extract},
+ * or zeros if the key path is not found.
+ */
+function findPath(
+  chars: number[],
+  inString: boolean[],
+  depth: number[],
+  keys: number[][]
+): number[] {
+  let n = chars.length;
+  let isWhitespace = (j: number) => WHITESPACE.includes(chars[j]);
+  let skipWhitespace = (j: number) => {
+    while (j < n && isWhitespace(j)) j++;
+    return j;
+  };
+  let notFound = Array<number>(3 * keys.length + 2).fill(0);
+
+  let positions: number[] = [];
+  let from = 0;
+  for (let [i, key] of keys.entries()) {
+    let level = i + 1;
+    let found = false;
+    for (let j = from; j < n; j++) {
+      // stop at the end of the parent object
+      if (i > 0 && depth[j] < level) break;
+      if (inString[j] || depth[j] !== level) continue;
+      if (!key.every((c, k) => chars[j + k] === c)) continue;
+      let colon = skipWhitespace(j + key.length);
+      if (chars[colon] !== COLON) continue;
+      let start = skipWhitespace(colon + 1);
+      positions.push(j, colon, start);
+      from = start + 1;
+      found = true;
+      break;
+    }
+    if (!found) return notFound;
+  }
+
+  let start = from - 1;
+  let d = keys.length;
+  let separator = start;
+  while (
+    separator < n &&
+    !(
+      !inString[separator] &&
+      depth[separator] === d &&
+      (chars[separator] === COMMA || chars[separator] === CLOSE_BRACE)
+    )
+  ) {
+    separator++;
+  }
+  if (separator === n) return notFound;
+  let end = separator;
+  while (end > start && isWhitespace(end - 1)) end--;
+  positions.push(end, separator);
+  return positions;
+}
@@ -0,0 +1,82 @@
+import { UInt64 } from './int.js';
+import { Json } from './json.js';
+import { Provable } from './provable.js';
+import { DynamicBytes } from './provable-types/provable-types.js';
+import { expect } from 'expect';
+
+class Document extends DynamicBytes(512) {}
+
+// a pretty-printed document, with decoys for the keys we extract
+let sheet = {
+  id: 'sheet-1',
+  note: 'contains "recycledContent": 99 and \\"escaped\\" quotes',
+  recycledContent: 5,
+  product: {
+    name: 'Chair {"recycledContent": 98}',
+    components: [{ recycledContent: 97 }],
+    recycledContent: 35,
+    materials: { wood: 'oak', recycledContent: 10 },
+    'weird "key"': [1, 2, 3],
+  },
+};
+let json = JSON.stringify(sheet, null, 2);
+
+function extract(path: string[], maxValueLength = 32) {
+  let value = Provable.witness(Document.provable, () =>
+    Document.fromString(json)
+  );
+  return Json.extract(value, path, { maxValueLength });
+}
+function toString(bytes: DynamicBytes) {
+  return new TextDecoder().decode(bytes.toBytes());
+}
+
+let cases: [string[], string][] = [
+  [['recycledContent'], '5'],
+  [['id'], '"sheet-1"'],
+  [['note'], JSON.stringify(sheet.note)],
+  [['product', 'recycledContent'], '35'],
+  [['product', 'name'], JSON.stringify(sheet.product.name)],
+  [['product', 'materials', 'recycledContent'], '10'],
+  [['product', 'materials'], nested(sheet.product.materials)],
+  [['product', 'weird "key"'], nested([1, 2, 3])],
+];
+
+// pretty-printed value at the second level
+function nested(value: unknown) {
+  return JSON.stringify(value, null, 2).replace(/\n/g, '\n    ');
+}
+
+Provable.runAndCheck(() => {
+  for (let [path, expected] of cases) {
+    let value = extract(path, 64);
+    Provable.asProver(() => {
+      expect(toString(value)).toEqual(expected);
+    });
+  }
+
+  // recycled content >= 30
+  let recycledContent = Json.toUInt64(extract(['product', 'recycledContent']));
+  recycledContent.assertGreaterThanOrEqual(UInt64.from(30));
+  Provable.asProver(() => {
+    expect(recycledContent.toBigInt()).toEqual(35n);
+  });
+});
+
+// keys at the wrong depth or inside strings are not found
+for (let path of [
+  ['name'],
+  ['materials', 'recycledContent'],
+  ['product', 'components', 'recycledContent'],
+  ['product', 'wood'],
+]) {
+  expect(() => Provable.runAndCheck(() => extract(path))).toThrow('not found');
+}
+
+// values that are too long are rejected
+expect(() => Provable.runAndCheck(() => extract(['note'], 16))).toThrow();
+
+// non-integers are rejected
+expect(() =>
+  Provable.runAndCheck(() => Json.toUInt64(extract(['id'])))
+).toThrow();
@@ -0,0 +1,415 @@
+import { ProvableBigInt } from './big-int.js';
+import { Bool, Field } from './core.js';
+import { FlexiblePoint, ForeignCurve } from './foreign-curve.js';
+import { EcdsaSignature, hashOutputToScalar } from './foreign-ecdsa.js';
+import { UInt64, UInt8 } from './int.js';
+import { arrayGet, mapRanges, Ranges, shiftLeft } from './gadgets/basic.js';
+import { assert, exists } from './gadgets/common.js';
+import * as RangeCheck from './gadgets/range-check.js';
+import { SHA256 } from './gadgets/sha256.js';
+import { scan } from './json.js';
+import { Provable } from './provable.js';
+import {
+  createDynamicBytes,
+  DynamicBytes,
+} from './provable-types/dynamic-bytes.js';
+import { Rsa } from './rsa.js';
+
+// external API
+export { Jwt };
+
+const DOT = '.'.charCodeAt(0);
+const QUOTE = '"'.charCodeAt(0);
+const BACKSLASH = '\\'.charCodeAt(0);
+const COMMA = ','.charCodeAt(0);
+const CLOSE_BRACE = '}'.charCodeAt(0);
+
+// https://www.rfc-editor.org/rfc/rfc4648#section-5
+const BASE64URL_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+// the base64url alphabet, as ranges of characters that map to ranges of sextets
+const BASE64URL_TO_SEXTETS: Ranges = [
+  ['A'.charCodeAt(0), 26, 0],
+  ['a'.charCodeAt(0), 26, 26],
+  ['0'.charCodeAt(0), 10, 52],
+  ['-'.charCodeAt(0), 1, 62],
+  ['_'.charCodeAt(0), 1, 63],
+];
+
+/**
+ * Provable verification of JSON Web Tokens (JWTs), as specified in [RFC 7519](https://www.rfc-editor.org/rfc/rfc7519),
+ * for example ID tokens issued by OAuth / OpenID Connect providers.
+ *
+ * A JWT `header.payload.signature` is split into the _signing input_ `header.payload`, which is passed to provable code as
+ * {@link DynamicBytes}, and the signature. See {@link Jwt.split}.
+ *
+ * @example
+ * ```ts
+ * class SigningInput extends DynamicBytes(1024) {}
+ * class Bigint2048 extends createProvableBigInt(2048) {}
+ *
+ * // in provable code
+ * Jwt.verifyRS256(signingInput, signature, modulus).assertTrue('JWT signature verifies');
+ *
+ * let { payload } = Jwt.decode(signingInput, { maxHeaderLength: 128, maxPayloadLength: 640 });
+ * let subject = Jwt.claim(payload, 'sub', { maxLength: 32 });
+ * let expiry = Jwt.numericClaim(payload, 'exp');
+ *
+ * // only reveal a hash of the subject
+ * let subjectHash = Poseidon.hash(subject.bytes.map((b) => b.value));
+ * ```
+ */
+const Jwt = {
+  /**
+   * Verify the signature of a JWT with algorithm RS256, i.e. RSASSA-PKCS1-v1_5 with SHA-256,
+   * see [RFC 7518](https://www.rfc-editor.org/rfc/rfc7518#section-3.3).
+   *
+   * The signature and modulus are {@link ProvableBigInt}s of the key size, like 2048.
+   *
+   * **Important:** This method returns a {@link Bool} which indicates whether the signature is valid.
+   * So, to actually prove validity of a token, you need to assert that the result is true.
+   */
+  verifyRS256(
+    signingInput: DynamicBytes,
+    signature: ProvableBigInt,
+    modulus: ProvableBigInt
+  ): Bool {
+    return Rsa.verifyPkcs1v15(signingInput, signature, modulus);
+  },
+
+  /**
+   * Verify the signature of a JWT with algorithm ES256, i.e. ECDSA over P-256 with SHA-256,
+   * see [RFC 7518](https://www.rfc-editor.org/rfc/rfc7518#section-3.4).
+   *
+   * The signature must be created with {@link createEcdsa} for the curve `Crypto.CurveParams.Secp256r1`.
+   * In a JWT, it is encoded as the 32-byte big-endian values of r and s.
+   *
+   * **Important:** This method returns a {@link Bool} which indicates whether the signature is valid.
+   * So, to actually prove validity of a token, you need to assert that the result is true.
+   */
+  verifyES256(
+    signingInput: DynamicBytes,
+    signature: EcdsaSignature,
+    publicKey: ForeignCurve | FlexiblePoint
+  ): Bool {
+    let Curve = signature.Constructor.Curve;
+    let hash = SHA256.hash(signingInput);
+    return signature.verifySignedHash(
+      hashOutputToScalar(hash, Curve),
+      publicKey
+    );
+  },
+
+  /**
+   * Split the signing input `header.payload` of a JWT at the dot, and base64url-decode both parts.
+   *
+   * Returns the decoded JSON header and payload as {@link DynamicBytes} of the given maximum lengths.
+   *
+   * @throws if the signing input doesn't contain a dot, or if one of the parts is not valid base64url or exceeds the maximum length.
+   */
+  decode(
+    signingInput: DynamicBytes,
+    {
+      maxHeaderLength,
+      maxPayloadLength,
+    }: { maxHeaderLength: number; maxPayloadLength: number }
+  ): { header: DynamicBytes; payload: DynamicBytes } {
+    let bytes = signingInput.bytes.map((b) => b.value);
+
+    // witness the position of the dot
+    let dotIndex = Provable.witness(Field, () => {
+      let index = signingInput.toBytes().indexOf(DOT);
+      return Field(Math.max(index, 0));
+    });
+    RangeCheck.rangeCheck32(signingInput.length.sub(dotIndex).sub(1).seal());
+    arrayGet(bytes, dotIndex).assertEquals(
+      DOT,
+      'Jwt.decode(): expected a dot between header and payload'
+    );
+
+    let header = decodeBase64Url(bytes, dotIndex, maxHeaderLength);
+    let payload = decodeBase64Url(
+      shiftLeft(bytes, dotIndex.add(1)),
+      signingInput.length.sub(dotIndex).sub(1).seal(),
+      maxPayloadLength
+    );
+    return { header, payload };
+  },
+
+  /**
+   * Extract the value of a string claim, like `"sub"` or `"iss"`, from a decoded JWT payload.
+   *
+   * Returns the raw bytes between the quotes, which are at most `maxLength` bytes.
+   *
+   * The payload must be compact JSON, without whitespace between keys and values, which is what JWT issuers produce in practice.
+   * To prove that the claim is a top-level key, the payload is scanned for strings and nested objects,
+   * so that a key inside a string value or a nested object is never matched. The payload can be nested at most 8 levels deep.
+   *
+   * Escape sequences are not decoded, and a value containing an escaped quote `\"` is rejected.
+   *
+   * @throws if the claim is not found, or if its value is not a string of at most `maxLength` bytes.
+   */
+  claim(
+    payload: DynamicBytes,
+    name: string,
+    { maxLength }: { maxLength: number }
+  ): DynamicBytes {
+    let { start, rest } = findKey(payload, `"${name}":"`);
+
+    // the value ends at the first quote, which has to be within the payload
+    let value = rest.slice(0, maxLength + 1);
+    let isLive = Bool(true);
+    let isEscaped = Bool(false);
+    let length = Field(0);
+    for (let byte of value) {
+      let isQuote = byte.equals(QUOTE);
+      // a quote preceded by an unescaped backslash doesn't end the value
+      isLive
+        .and(isQuote)
+        .and(isEscaped)
+        .assertFalse(
+          `Jwt.claim(): value of "${name}" contains an escaped quote`
+        );
+      isLive = isLive.and(isQuote.not());
+      length = length.add(isLive.toField());
+      isEscaped = byte.equals(BACKSLASH).and(isEscaped.not());
+    }
+    isLive.assertFalse(
+      `Jwt.claim(): value of "${name}" exceeds ${maxLength} bytes`
+    );
+    length = length.seal();
+    RangeCheck.rangeCheck32(
+      payload.length.sub(start).sub(length).sub(1).seal()
+    );
+
+    let Value = createDynamicBytes(maxLength);
+    let bytes = value.slice(0, maxLength).map((b) => UInt8.Unsafe.fromField(b));
+    return new Value(new Value(bytes, length).maskedBytes(), length);
+  },
+
+  /**
+   * Extract the value of a numeric claim, like `"exp"` or `"iat"`, from a decoded JWT payload.
+   *
+   * The value must be a non-negative integer of at most `maxDigits` digits, which is 10 by default (enough for timestamps until the year 2286).
+   * See {@link Jwt.claim} for the requirements on the payload.
+   *
+   * @throws if the claim is not found, or if its value is not an integer of at most `maxDigits` digits.
+   */
+  numericClaim(
+    payload: DynamicBytes,
+    name: string,
+    { maxDigits = 10 } = {}
+  ): UInt64 {
+    assert(
+      maxDigits > 0 && maxDigits <= 19,
+      'Jwt.numericClaim(): maxDigits must be between 1 and 19'
+    );
+    let { start, rest } = findKey(payload, `"${name}":`);
+    let value = Array.from(
+      { length: maxDigits + 1 },
+      (_, i) => rest[i] ?? Field(0)
+    );
+
+    // witness the number of digits
+    let [digits] = exists(1, () => {
+      let n = value.findIndex((b) => {
+        let c = Number(b.toBigInt());
+        return c < 0x30 || c > 0x39;
+      });
+      return [BigInt(n < 0 ? 0 : n)];
+    });
+    RangeCheck.rangeCheck8(digits.sub(1).seal());
+    RangeCheck.rangeCheck8(Field(maxDigits).sub(digits).seal());
+    RangeCheck.rangeCheck32(
+      payload.length.sub(start).sub(digits).sub(1).seal()
+    );
+
+    // all bytes before the end are digits, and the number ends with `,` or `}`
+    let isLive = Bool(true);
+    let result = Field(0);
+    for (let i = 0; i < maxDigits; i++) {
+      isLive = isLive.and(digits.equals(i).not());
+      let digit = value[i].sub(0x30).mul(isLive.toField()).seal();
+      RangeCheck.rangeCheck8(digit);
+      RangeCheck.rangeCheck8(Field(9).sub(digit).seal());
+      result = Provable.if(isLive, result.mul(10).add(digit), result);
+    }
+    let end = arrayGet(value, digits);
+    end
+      .sub(COMMA)
+      .mul(end.sub(CLOSE_BRACE))
+      .assertEquals(
+        0,
+        `Jwt.numericClaim(): value of "${name}" is not an integer of at most ${maxDigits} digits`
+      );
+
+    // the result is less than 10^19 < 2^64
+    return new UInt64(result.seal());
+  },
+
+  /**
+   * Split a JWT into the signing input `header.payload` and the base64url-decoded signature.
+   *
+   * **Warning**: This method is not provable.
+   */
+  split(token: string): { signingInput: Uint8Array; signature: Uint8Array } {
+    let parts = token.split('.');
+    assert(parts.length === 3, 'Jwt.split(): expected three parts');
+    let [header, payload, signature] = parts;
+    return {
+      signingInput: new TextEncoder().encode(`${header}.${payload}`),
+      signature: base64UrlToBytes(signature),
+    };
+  },
+};
+
+/**
+ * Decodes the first `length` base64url characters to {@link DynamicBytes} of at most `maxLength` bytes.
+ *
+ * The encoding has to be canonical, i.e. `length` is not of the form `4k + 1`, and the unused bits of the last character are zero.
+ */
+function decodeBase64Url(
+  chars: Field[],
+  length: Field,
+  maxLength: number
+): DynamicBytes {
+  // we need at most 4 characters for every 3 bytes
+  let maxChars = 4 * Math.ceil(maxLength / 3);
+  RangeCheck.rangeCheck32(Field(maxChars).sub(length).seal());
+
+  // characters at or after `length` are treated like 'A', which decodes to 0
+  let isLive = Bool(true);
+  let isEnd: Bool[] = [];
+  let sextets = Array.from({ length: maxChars }, (_, i) => {
+    isEnd.push(length.equals(i));
+    isLive = isLive.and(isEnd[i].not());
+    let char = Provable.if(
+      isLive,
+      chars[i] ?? Field(0),
+      Field('A'.charCodeAt(0))
+    );
+    return mapRanges(
+      char,
+      BASE64URL_TO_SEXTETS,
+      'Jwt.decode(): invalid base64url character'
+    );
+  });
+
+  let bytes: UInt8[] = [];
+  for (let i = 0; i < maxChars; i += 4) {
+    let groupBytes = fromSextets(sextets.slice(i, i + 4));
+
+    // if `length` ends in this group, after k characters, the last 3 - (k - 1) bytes only consist of unused bits
+    isEnd[i + 1].assertFalse('Jwt.decode(): invalid base64url length');
+    for (let k of [2, 3]) {
+      isEnd[i + k]
+        .toField()
+        .mul(groupBytes[k - 1].value)
+        .assertEquals(0, 'Jwt.decode(): non-canonical base64url encoding');
+    }
+    bytes.push(...groupBytes);
+  }
+
+  // length = 4q + r decodes to 3q + r - 1 bytes, where r is 0, 2 or 3
+  let [q, r] = exists(2, () => {
+    let n = length.toBigInt();
+    return [n / 4n, n % 4n];
+  });
+  RangeCheck.rangeCheck32(q);
+  r.mul(r.sub(2))
+    .mul(r.sub(3))
+    .assertEquals(0, 'Jwt.decode(): invalid base64url length');
+  q.mul(4).add(r).assertEquals(length);
+  let decodedLength = q.mul(3).add(r).sub(r.equals(0).not().toField()).seal();
+  RangeCheck.rangeCheck32(Field(maxLength).sub(decodedLength).seal());
+
+  let Decoded = createDynamicBytes(maxLength);
+  let decoded = new Decoded(bytes.slice(0, maxLength), decodedLength);
+  return new Decoded(decoded.maskedBytes(), decodedLength);
+}
+
+/**
+ * Combines 4 sextets to 3 bytes.
+ */
+function fromSextets(group: Field[]): UInt8[] {
+  let word = group.reduce(
+    (acc, s, i) => acc.add(s.mul(1 << (6 * (3 - i)))),
+    Field(0)
+  );
+  let bytes = Provable.witness(Provable.Array(UInt8, 3), () => {
+    let w = word.toBigInt();
+    return [16n, 8n, 0n].map((shift) => UInt8.from((w >> shift) & 0xffn));
+  });
+  let [b0, b1, b2] = bytes.map((b) => b.value);
+  b0.mul(1 << 16)
+    .add(b1.mul(1 << 8))
+    .add(b2)
+    .assertEquals(word);
+  return bytes;
+}
+
+/**
+ * Out-of-circuit base64url decoding, which only accepts canonical encodings like {@link decodeBase64Url}.
+ */
+function base64UrlToBytes(encoded: string): Uint8Array {
+  assert(encoded.length % 4 !== 1, 'Jwt.split(): invalid base64url length');
+  let bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (let c of encoded) {
+    let sextet = BASE64URL_ALPHABET.indexOf(c);
+    assert(sextet !== -1, `Jwt.split(): invalid base64url character ${c}`);
+    buffer = ((buffer << 6) | sextet) & 0xfff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  assert(
+    (buffer & ((1 << bits) - 1)) === 0,
+    'Jwt.split(): non-canonical base64url encoding'
+  );
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Finds a top-level key like `"name":` in a JSON payload.
+ *
+ * Returns the index after the key, and the payload bytes starting at that index.
+ */
+function findKey(
+  payload: DynamicBytes,
+  key: string
+): { start: Field; rest: Field[] } {
+  let { chars, inString, depth } = scan(payload, 8);
+  let needle = [...new TextEncoder().encode(key)];
+  let n = needle.length;
+
+  let index = Provable.witness(Field, () => {
+    let i = chars.findIndex(
+      (_, i) =>
+        !inString[i].toBoolean() &&
+        depth[i].toBigInt() === 1n &&
+        needle.every((y, j) => chars[i + j]?.toBigInt() === BigInt(y))
+    );
+    return Field(Math.max(i, 0));
+  });
+
+  // 0 <= index <= length - n, since length < 2^32
+  RangeCheck.rangeCheck32(payload.length.sub(index).sub(n).seal());
+
+  // the key starts outside of strings, in the top-level object
+  let message = `Jwt: key ${key} not found in payload`;
+  arrayGet(
+    inString.map((b) => b.toField()),
+    index
+  ).assertEquals(0, message);
+  arrayGet(depth, index).assertEquals(1, message);
+
+  let shifted = shiftLeft(chars, index);
+  for (let j = 0; j < n; j++) {
+    shifted[j].assertEquals(needle[j], message);
+  }
+  return { start: index.add(n).seal(), rest: shifted.slice(n) };
+}
@@ -0,0 +1,198 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { createProvableBigInt } from './big-int.js';
+import { Crypto } from './crypto.js';
+import { createForeignCurve } from './foreign-curve.js';
+import { createEcdsa } from './foreign-ecdsa.js';
+import { Rsa } from './gadgets/rsa.js';
+import { Jwt } from './jwt.js';
+import { Provable } from './provable.js';
+import { DynamicBytes } from './provable-types/provable-types.js';
+import { expect } from 'expect';
+
+class Bigint2048 extends createProvableBigInt(2048) {}
+class Secp256r1 extends createForeignCurve(Crypto.CurveParams.Secp256r1) {}
+class Ecdsa extends createEcdsa(Secp256r1) {}
+class SigningInput extends DynamicBytes(512) {}
+
+// the 2048-bit RSA key from the RSA unit tests
+let modulus = BigInt(
+  '0x' +
+    '998ef443b27ac49e0a56e2063ed512276d0b2b5344e8491420aebfecc8438feb373b8e8d9ecce21d47b98da732c1d957abe816e2476141bf5de772e2cff2b19f7fba8be754aeb740c0c53fcf8e251d5c225a0370f0cb3d7bbb5161ab4e4858d11d8063c8e72a5553f13c81a1e43ed866afe80ccd6ed38934cad0360e0c8d4067e05fbafc7b375a66d731c9c44fca97b1d1543e1bea4be2061ac71540389c09cb2b34edbfff811fc909f1dc9c003de3d24c1509a60a04322fcb8b5e6586f8f585bc8a2f7ebb96a29498a9194a6bf41fef49ed6ca91cd2183da0ab5adf132ce10af987fd5543a34cd17d87d17720c72e447e76eda37a021546a78703b808ca48bb'
+);
+let privateExponent = BigInt(
+  '0x' +
+    '7d6c4ce4ac2e8389d26cb259be6aaa54bbd9cf0bb6acb183ea928822ea0b575f8a1b38d6af25099437b5e296abfc497e34bfba7141330399d1b712f3f3aa2e0a7b3037ec3d37dc1f2554d290c04bcbbf4e7d44dffd16baecc0955f01139688997be1847abad588fc60592491e6abd2be68619a0116391191a6564119aad006ec1fd3475beee315f01f51e0d33abee0bc38c7558ad599838f44f0075f3b645368fad9640e1392fbb18591f9b920e6579f08997ab213bae8d80182b9785ab4650b46ad46fb6bed26863395cdfb728029d9e0df3dc56eed90a30fdbd17a3cbda2d35b14c524b5ba860c604419daaa611b1804d6113ec16f96c40a7a34efae834b1'
+);
+
+let payload = {
+  iss: 'https://accounts.example.com',
+  aud: 'my-app',
+  sub: '110169484474386276334',
+  email: 'alice@example.com',
+  iat: 1700000000,
+  exp: 1700003600,
+};
+let base64url = (s: string | Uint8Array) =>
+  Buffer.from(s).toString('base64url');
+
+function createToken(alg: 'RS256' | 'ES256') {
+  let header = base64url(JSON.stringify({ alg, typ: 'JWT' }));
+  let signingInput = `${header}.${base64url(JSON.stringify(payload))}`;
+  let message = new TextEncoder().encode(signingInput);
+
+  if (alg === 'RS256') {
+    let signature = Rsa.signPkcs1v15(
+      message,
+      { modulus, exponent: privateExponent },
+      2048
+    );
+    return `${signingInput}.${base64url(bigintToBytes(signature, 256))}`;
+  }
+  let hash = bytesToBigIntBE(sha256(message));
+  let { r, s } = Ecdsa.signHash(hash, ecPrivateKey).toBigInt();
+  let signature = [...bigintToBytes(r, 32), ...bigintToBytes(s, 32)];
+  return `${signingInput}.${base64url(Uint8Array.from(signature))}`;
+}
+
+let ecPrivateKey = Secp256r1.Scalar.random().toBigInt();
+let ecPublicKey = Secp256r1.generator.scale(ecPrivateKey);
+
+// RS256
+let rsToken = createToken('RS256');
+let { signingInput, signature } = Jwt.split(rsToken);
+expect(bytesToBigIntBE(signature)).toEqual(
+  Rsa.signPkcs1v15(signingInput, { modulus, exponent: privateExponent }, 2048)
+);
+
+Provable.runAndCheck(() => {
+  let input = Provable.witness(SigningInput.provable, () =>
+    SigningInput.from(signingInput)
+  );
+  let sig = Provable.witness(Bigint2048.provable, () =>
+    Bigint2048.from(bytesToBigIntBE(signature))
+  );
+  let n = Provable.witness(Bigint2048.provable, () => Bigint2048.from(modulus));
+  Jwt.verifyRS256(input, sig, n).assertTrue('RS256 signature verifies');
+
+  let { header, payload: payload_ } = Jwt.decode(input, {
+    maxHeaderLength: 64,
+    maxPayloadLength: 192,
+  });
+  let sub = Jwt.claim(payload_, 'sub', { maxLength: 32 });
+  let iss = Jwt.claim(payload_, 'iss', { maxLength: 64 });
+  let exp = Jwt.numericClaim(payload_, 'exp');
+
+  Provable.asProver(() => {
+    let decode = (bytes: DynamicBytes) =>
+      new TextDecoder().decode(bytes.toBytes());
+    expect(JSON.parse(decode(header))).toEqual({ alg: 'RS256', typ: 'JWT' });
+    expect(JSON.parse(decode(payload_))).toEqual(payload);
+    expect(decode(sub)).toEqual(payload.sub);
+    expect(decode(iss)).toEqual(payload.iss);
+    expect(exp.toBigInt()).toEqual(BigInt(payload.exp));
+
+    // bytes after the value are zero
+    expect(
+      sub.bytes.slice(payload.sub.length).every((b) => b.toNumber() === 0)
+    ).toEqual(true);
+  });
+});
+
+// ES256
+let esToken = createToken('ES256');
+({ signingInput, signature } = Jwt.split(esToken));
+
+Provable.runAndCheck(() => {
+  let input = Provable.witness(SigningInput.provable, () =>
+    SigningInput.from(signingInput)
+  );
+  let sig = Provable.witness(Ecdsa.provable, () =>
+    Ecdsa.from({
+      r: bytesToBigIntBE(signature.slice(0, 32)),
+      s: bytesToBigIntBE(signature.slice(32)),
+    })
+  );
+  let pk = Provable.witness(Secp256r1.provable, () => ecPublicKey);
+  Jwt.verifyES256(input, sig, pk).assertTrue('ES256 signature verifies');
+
+  // a different payload is rejected
+  let tampered = SigningInput.fromString(
+    rsToken.split('.').slice(0, 2).join('.')
+  );
+  Jwt.verifyES256(tampered, sig, pk).assertFalse();
+});
+
+// missing and oversized claims are rejected
+function extractClaim(name: string, maxLength: number) {
+  Provable.runAndCheck(() => {
+    let input = Provable.witness(SigningInput.provable, () =>
+      SigningInput.from(Jwt.split(rsToken).signingInput)
+    );
+    let { payload } = Jwt.decode(input, {
+      maxHeaderLength: 64,
+      maxPayloadLength: 192,
+    });
+    Jwt.claim(payload, name, { maxLength });
+  });
+}
+expect(() => extractClaim('nonce', 32)).toThrow('not found');
+expect(() => extractClaim('iss', 8)).toThrow('exceeds 8 bytes');
+
+// escape sequences are returned as is, but escaped quotes are rejected
+class Payload extends DynamicBytes(64) {}
+function claimOf(json: string, name: string) {
+  let value = '';
+  Provable.runAndCheck(() => {
+    let payload = Provable.witness(Payload.provable, () =>
+      Payload.fromString(json)
+    );
+    let claim = Jwt.claim(payload, name, { maxLength: 16 });
+    Provable.asProver(() => {
+      value = new TextDecoder().decode(claim.toBytes());
+    });
+  });
+  return value;
+}
+expect(claimOf(JSON.stringify({ role: 'a\\b', sub: 'x' }), 'role')).toEqual(
+  'a\\\\b'
+);
+expect(claimOf(JSON.stringify({ role: 'a\\', sub: 'x' }), 'role')).toEqual(
+  'a\\\\'
+);
+expect(() =>
+  claimOf(JSON.stringify({ role: 'admin"x', sub: 'x' }), 'role')
+).toThrow('escaped quote');
+
+// only top-level keys are matched, not keys in nested objects or string values
+expect(claimOf('{"a":{"sub":"x"},"sub":"y"}', 'sub')).toEqual('y');
+expect(claimOf(JSON.stringify({ a: '\\', sub: 'y' }), 'sub')).toEqual('y');
+expect(() => claimOf('{"a":{"sub":"x"}}', 'sub')).toThrow('not found');
+
+// the base64url encoding of header and payload has to be canonical
+function decodeHeader(header: string) {
+  Provable.runAndCheck(() => {
+    let input = Provable.witness(SigningInput.provable, () =>
+      SigningInput.fromString(`${header}.e30`)
+    );
+    Jwt.decode(input, { maxHeaderLength: 16, maxPayloadLength: 16 });
+  });
+}
+decodeHeader('Zg');
+decodeHeader('Zm8');
+decodeHeader('Zm9vYg');
+expect(() => decodeHeader('Zh')).toThrow('non-canonical');
+expect(() => decodeHeader('Zm9')).toThrow('non-canonical');
+expect(() => decodeHeader('Zm9vYh')).toThrow('non-canonical');
+expect(() => decodeHeader('Zm9vY')).toThrow('invalid base64url length');
+expect(() => decodeHeader('Zm9v+g')).toThrow('invalid base64url character');
+expect(() => Jwt.split('e30.e30.Zh')).toThrow('non-canonical');
+
+// helpers
+
+function bytesToBigIntBE(bytes: Uint8Array) {
+  return bytes.reduce((x, byte) => (x << 8n) | BigInt(byte), 0n);
+}
+
+function bigintToBytes(x: bigint, length: number) {
+  return Buffer.from(x.toString(16).padStart(2 * length, '0'), 'hex');
+}
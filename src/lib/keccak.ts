@@ -5,6 +5,10 @@ import { FlexibleBytes } from './provable-types/bytes.js';
 import { UInt8 } from './int.js';
 import { Bytes } from './provable-types/provable-types.js';
 import { bytesToWords, wordsToBytes } from './gadgets/bit-slices.js';
+import { quotientMask } from './gadgets/arithmetic.js';
+import { DynamicBytes } from './provable-types/dynamic-bytes.js';
+import { Provable } from './provable.js';
+import { Bool } from './bool.js';
 
 export { Keccak };
 
@@ -17,6 +21,7 @@ const Keccak = {
    *
    * The function accepts {@link Bytes} as the input message, which is a type that represents a static-length list of byte-sized field elements (range-checked using {@link Gadgets.rangeCheck8}).
    * Alternatively, you can pass plain `number[]` of `Uint8Array` to perform a hash outside provable code.
+   * To hash a message whose length is only known at runtime, pass {@link DynamicBytes}: only the bytes up to its `length` are hashed.
    *
    * Produces an output of {@link Bytes} that conforms to the chosen bit length.
    * Both input and output bytes are big-endian.
@@ -32,8 +37,8 @@ const Keccak = {
    * ```
    *
    */
-  nistSha3(len: 256 | 384 | 512, message: FlexibleBytes) {
-    return nistSha3(len, Bytes.from(message));
+  nistSha3(len: 256 | 384 | 512, message: FlexibleBytes | DynamicBytes) {
+    return nistSha3(len, fromFlexibleBytes(message));
   },
   /**
    * Ethereum-Compatible Keccak-256 Hash Function.
@@ -43,6 +48,7 @@ const Keccak = {
    *
    * The function accepts {@link Bytes} as the input message, which is a type that represents a static-length list of byte-sized field elements (range-checked using {@link Gadgets.rangeCheck8}).
    * Alternatively, you can pass plain `number[]` of `Uint8Array` to perform a hash outside provable code.
+   * To hash a message whose length is only known at runtime, pass {@link DynamicBytes}: only the bytes up to its `length` are hashed.
    *
    * Produces an output of {@link Bytes} of length 32. Both input and output bytes are big-endian.
    *
@@ -53,8 +59,8 @@ const Keccak = {
    * let digest = Keccak.ethereum(preimage);
    * ```
    */
-  ethereum(message: FlexibleBytes) {
-    return ethereum(Bytes.from(message));
+  ethereum(message: FlexibleBytes | DynamicBytes) {
+    return ethereum(fromFlexibleBytes(message));
   },
   /**
    * Implementation of [pre-NIST Keccak](https://keccak.team/keccak.html) hash function.
@@ -67,6 +73,7 @@ const Keccak = {
    *
    * {@link Keccak.preNist} accepts {@link Bytes} as the input message, which is a type that represents a static-length list of byte-sized field elements (range-checked using {@link Gadgets.rangeCheck8}).
    * Alternatively, you can pass plain `number[]` of `Uint8Array` to perform a hash outside provable code.
+   * To hash a message whose length is only known at runtime, pass {@link DynamicBytes}: only the bytes up to its `length` are hashed.
    *
    * Produces an output of {@link Bytes} that conforms to the chosen bit length.
    * Both input and output bytes are big-endian.
@@ -82,8 +89,8 @@ const Keccak = {
    * ```
    *
    */
-  preNist(len: 256 | 384 | 512, message: FlexibleBytes) {
-    return preNist(len, Bytes.from(message));
+  preNist(len: 256 | 384 | 512, message: FlexibleBytes | DynamicBytes) {
+    return preNist(len, fromFlexibleBytes(message));
   },
 };
 
@@ -185,6 +192,37 @@ function pad(message: UInt8[], rate: number, nist: boolean): UInt8[] {
   return [...message, ...pad];
 }
 
+// Pads a message of variable length like `pad()`, where the padding is computed in the circuit.
+// Returns the padded message of the maximum length, and a mask which marks the block that ends the padded message.
+function padDynamic(message: DynamicBytes, rate: number, nist: boolean) {
+  let maxLength = message.Constructor.maxLength;
+  let length = message.length;
+  let nBlocks = Math.floor(maxLength / rate) + 1;
+
+  // the padded message ends with the block of index floor(length / rate)
+  let isLastBlock = quotientMask(length, rate, nBlocks);
+
+  // 0x06 0x00 ... 0x00 0x80 or 0x86, starting at index `length` and ending the last block
+  const first = nist ? 0x06n : 0x01n;
+  const last = 0x80n;
+
+  let bytes = message.maskedBytes();
+  let padded: UInt8[] = [];
+
+  for (let i = 0; i < rate * nBlocks; i++) {
+    let byte = i < maxLength ? bytes[i].value : Field.from(0);
+    if (i <= maxLength) {
+      byte = byte.add(length.equals(i).toField().mul(first));
+    }
+    if (i % rate === rate - 1) {
+      let isLast = isLastBlock[Math.floor(i / rate)].toField();
+      byte = byte.add(isLast.mul(last));
+    }
+    padded.push(UInt8.Unsafe.fromField(byte.seal()));
+  }
+  return { padded, isLastBlock };
+}
+
 // ROUND TRANSFORMATION
 
 // First algorithm in the compression step of Keccak for 64-bit words.
@@ -335,24 +373,63 @@ function absorb(
 
   let state = State.zeros();
 
-  // array of capacity zero words
-  const zeros = Array(capacity).fill(Field.from(0));
-
   for (let idx = 0; idx < paddedMessage.length; idx += rate) {
     // split into blocks of rate words
     const block = paddedMessage.slice(idx, idx + rate);
-    // pad the block with 0s to up to KECCAK_STATE_LENGTH_WORDS words
-    const paddedBlock = block.concat(zeros);
-    // convert the padded block to a Keccak state
-    const blockState = State.fromWords(paddedBlock);
-    // xor the state with the padded block
-    const stateXor = State.xor(state, blockState);
-    // apply the permutation function to the xored state
-    state = permutation(stateXor, rc);
+    state = absorbBlock(state, block, capacity, rc);
   }
   return state;
 }
 
+// Absorb padded message of variable length, and return the state after the block where `isLastBlock` is true
+function absorbDynamic(
+  paddedMessage: Field[],
+  isLastBlock: Bool[],
+  capacity: number,
+  rate: number,
+  rc: bigint[]
+): State {
+  assert(
+    paddedMessage.length === rate * isLastBlock.length,
+    'invalid padded message length (should be rate times number of blocks)'
+  );
+
+  let state = State.zeros();
+  let states: Field[][] = [];
+
+  for (let idx = 0; idx < paddedMessage.length; idx += rate) {
+    const block = paddedMessage.slice(idx, idx + rate);
+    state = absorbBlock(state, block, capacity, rc);
+    states.push(State.toWords(state));
+  }
+
+  let words = Provable.switch(
+    isLastBlock,
+    Provable.Array(Field, KECCAK_STATE_LENGTH_WORDS),
+    states
+  );
+  return State.fromWords(words);
+}
+
+// Absorb a single block of rate words into a keccak state
+function absorbBlock(
+  state: State,
+  block: Field[],
+  capacity: number,
+  rc: bigint[]
+): State {
+  // array of capacity zero words
+  const zeros = Array(capacity).fill(Field.from(0));
+  // pad the block with 0s to up to KECCAK_STATE_LENGTH_WORDS words
+  const paddedBlock = block.concat(zeros);
+  // convert the padded block to a Keccak state
+  const blockState = State.fromWords(paddedBlock);
+  // xor the state with the padded block
+  const stateXor = State.xor(state, blockState);
+  // apply the permutation function to the xored state
+  return permutation(stateXor, rc);
+}
+
 // Squeeze state until it has a desired length in words
 function squeeze(state: State, length: number, rate: number): Field[] {
   // number of squeezes
@@ -389,7 +466,7 @@ function sponge(
 // - the 10*1 pad will take place after the message, until reaching the bit length rate.
 // - then, {0} pad will take place to finish the 200 bytes of the state.
 function hash(
-  message: Bytes,
+  message: Bytes | DynamicBytes,
   length: number,
   capacity: number,
   nistVersion: boolean
@@ -410,31 +487,51 @@ function hash(
 
   const rate = KECCAK_STATE_LENGTH_WORDS - capacity;
 
-  // apply padding, convert to words, and hash
-  const paddedBytes = pad(message.bytes, rate * BYTES_PER_WORD, nistVersion);
-  const padded = bytesToWords(paddedBytes);
+  let hash: Field[];
+
+  if (message instanceof DynamicBytes) {
+    // apply padding in the circuit, convert to words, and hash up to the last block
+    const { padded: paddedBytes, isLastBlock } = padDynamic(
+      message,
+      rate * BYTES_PER_WORD,
+      nistVersion
+    );
+    const padded = bytesToWords(paddedBytes);
+    const state = absorbDynamic(
+      padded,
+      isLastBlock,
+      capacity,
+      rate,
+      ROUND_CONSTANTS
+    );
+    hash = squeeze(state, length, rate);
+  } else {
+    // apply padding, convert to words, and hash
+    const paddedBytes = pad(message.bytes, rate * BYTES_PER_WORD, nistVersion);
+    const padded = bytesToWords(paddedBytes);
+    hash = sponge(padded, length, capacity, rate);
+  }
 
-  const hash = sponge(padded, length, capacity, rate);
   const hashBytes = wordsToBytes(hash);
 
   return hashBytes;
 }
 
 // Gadget for NIST SHA-3 function for output lengths 256/384/512.
-function nistSha3(len: 256 | 384 | 512, message: Bytes): Bytes {
+function nistSha3(len: 256 | 384 | 512, message: Bytes | DynamicBytes): Bytes {
   let bytes = hash(message, len / 8, len / 4, true);
   return BytesOfBitlength[len].from(bytes);
 }
 
 // Gadget for pre-NIST SHA-3 function for output lengths 256/384/512.
 // Note that when calling with output length 256 this is equivalent to the ethereum function
-function preNist(len: 256 | 384 | 512, message: Bytes): Bytes {
+function preNist(len: 256 | 384 | 512, message: Bytes | DynamicBytes): Bytes {
   let bytes = hash(message, len / 8, len / 4, false);
   return BytesOfBitlength[len].from(bytes);
 }
 
 // Gadget for Keccak hash function for the parameters used in Ethereum.
-function ethereum(message: Bytes): Bytes {
+function ethereum(message: Bytes | DynamicBytes): Bytes {
   return preNist(256, message);
 }
 
@@ -497,6 +594,10 @@ const State = {
 
 // AUXILIARY TYPES
 
+function fromFlexibleBytes(message: FlexibleBytes | DynamicBytes) {
+  return message instanceof DynamicBytes ? message : Bytes.from(message);
+}
+
 class Bytes32 extends Bytes(32) {}
 class Bytes48 extends Bytes(48) {}
 class Bytes64 extends Bytes(64) {}
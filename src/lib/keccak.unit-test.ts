@@ -15,7 +15,8 @@ import {
   sha3_384,
   sha3_512,
 } from '@noble/hashes/sha3';
-import { Bytes } from './provable-types/provable-types.js';
+import { Bytes, DynamicBytes } from './provable-types/provable-types.js';
+import { Provable } from './provable.js';
 import { bytes } from './gadgets/test-utils.js';
 import { UInt8 } from './int.js';
 import { test, Random, sample } from './testing/property.js';
@@ -71,6 +72,28 @@ for (let length of lengths) {
   );
 }
 
+// variable-length messages, around the block boundaries of the padding (the rate of SHA3-256 is 136 bytes)
+
+class Bytes140 extends DynamicBytes(140) {}
+
+for (let preimageLength of [0, 1, 135, 136, 140]) {
+  let message = Random.bytes(preimageLength).create()();
+  let bytes = Uint8Array.from(message);
+
+  Provable.runAndCheck(() => {
+    let preimage = Provable.witness(Bytes140.provable, () =>
+      Bytes140.from(message)
+    );
+    let sha3 = Keccak.nistSha3(256, preimage);
+    let keccak = Keccak.ethereum(preimage);
+
+    Provable.asProver(() => {
+      expect(sha3.toHex()).toEqual(Bytes.from(sha3_256(bytes)).toHex());
+      expect(keccak.toHex()).toEqual(Bytes.from(keccak_256(bytes)).toHex());
+    });
+  });
+}
+
 // EQUIVALENCE TESTS AGAINST TEST VECTORS (at the bottom)
 
 for (let { nist, length, message, expected } of testVectors()) {
@@ -1,24 +1,537 @@
 import { GroupAffine } from 'src/bindings/crypto/elliptic-curve.js';
+import { Poseidon as PoseidonBigint } from '../bindings/crypto/poseidon.js';
+import { prefixToField } from '../bindings/lib/binable.js';
+import { Field as Fp } from '../provable/field-bigint.js';
 import { Crypto } from './crypto.js';
+import { Bool, Group, Scalar } from './core.js';
+import { Struct } from './circuit-value.js';
+import { assert } from './gadgets/common.js';
+
+export {
+  commit,
+  verifyCommitment,
+  addCommitments,
+  subCommitments,
+  scaleCommitment,
+  deriveGenerator,
+  verifyGenerator,
+  encodePoint,
+  decodePoint,
+  PedersenCommitment,
+};
+export type { PedersenGenerators };
+
+// internal API
+export { G, H, hexToAffine };
 
 const Pallas = Crypto.createCurve(Crypto.CurveParams.Pallas);
+
+// domain separation strings for the hash-to-curve derivation of generators
+const blindingGeneratorDomain = 'PedersenBlindingGenerator';
+const vectorGeneratorDomain = 'PedersenVectorGenerator';
+
+/**
+ * Derive a "nothing-up-my-sleeve" generator of the Pallas curve from a domain separation string and an index.
+ *
+ * The point is computed as `Poseidon.hashToGroup([prefixToField(domain), index])`, where of the two
+ * possible y coordinates, the even one is chosen. Since the point is the output of a hash function,
+ * nobody knows its discrete logarithm with respect to any other generator.
+ *
+ * The domain must be at most 31 characters long.
+ *
+ * @example
+ * ```ts
+ * let H = deriveGenerator('PedersenBlindingGenerator');
+ * let G1 = deriveGenerator('PedersenVectorGenerator', 1);
+ * ```
+ */
+function deriveGenerator(
+  domain: string,
+  index: number | bigint = 0
+): { x: bigint; y: bigint } {
+  assert(
+    domain.length < 32,
+    `domain "${domain}" is too long, must be at most 31 characters`
+  );
+  assert(index >= 0, 'generator index must be a natural number');
+  let point = PoseidonBigint.hashToGroup([
+    prefixToField(Fp, domain),
+    BigInt(index),
+  ]);
+  assert(point !== undefined, 'hashToGroup works on all inputs');
+  return { x: point.x, y: point.y.x0 };
+}
+
+/**
+ * Check that a point was derived with {@link deriveGenerator} from the given domain separation string and index.
+ *
+ * Accepts the output of `Group.toJSON()`.
+ */
+function verifyGenerator(
+  point: { x: bigint | string; y: bigint | string },
+  domain: string,
+  index: number | bigint = 0
+) {
+  let { x, y } = deriveGenerator(domain, index);
+  return BigInt(point.x) === x && BigInt(point.y) === y;
+}
+
+/**
+ * The generator set used by a Pedersen commitment. The two sets differ only in the blinding generator `H`:
+ * - `'legacy'` (default): the hard-coded `H` used by earlier versions, so existing commitments keep verifying
+ * - `'hash-to-curve'`: `H = deriveGenerator('PedersenBlindingGenerator')`, which can be checked with {@link verifyGenerator}
+ *
+ * Commitments created with one set can only be opened with the same set.
+ */
+type PedersenGenerators = 'legacy' | 'hash-to-curve';
+
 const G = Pallas.from(Crypto.CurveParams.Pallas.generator);
-const H = Pallas.from({
-  x: 0x221b959dacd2052aae26193fca36b53279866a4fbbab0d5a2f828b5fd7778201n,
-  y: 0x058c8f1105cae57f4891eadc9b85c8954e5067190e155e61d66855ace69c16c0n,
-});
+const H: Record<PedersenGenerators, GroupAffine> = {
+  legacy: Pallas.from({
+    x: 0x221b959dacd2052aae26193fca36b53279866a4fbbab0d5a2f828b5fd7778201n,
+    y: 0x058c8f1105cae57f4891eadc9b85c8954e5067190e155e61d66855ace69c16c0n,
+  }),
+  'hash-to-curve': Pallas.from(deriveGenerator(blindingGeneratorDomain)),
+};
+
+let vectorGenerators: GroupAffine[] = [];
+
+function vectorGenerator(i: number): GroupAffine {
+  assert(
+    Number.isInteger(i) && i >= 0,
+    'generator index must be a natural number'
+  );
+  for (let j = vectorGenerators.length; j <= i; j++) {
+    vectorGenerators.push(
+      Pallas.from(deriveGenerator(vectorGeneratorDomain, j))
+    );
+  }
+  return vectorGenerators[i];
+}
+
+/**
+ * Serialize a Pallas point to a hex string, using the SEC1 format:
+ * - compressed: `02 || x` or `03 || x`, depending on whether y is even or odd
+ * - uncompressed: `04 || x || y`
+ * - the zero point: `00`
+ *
+ * Coordinates are encoded as 32 bytes, big-endian. Accepts the output of `Group.toJSON()`.
+ *
+ * Note: The legacy bigint encoding returned by {@link commit} is the uncompressed encoding without the leading zero.
+ */
+function encodePoint(
+  point: { x: bigint | string; y: bigint | string },
+  { compressed = true } = {}
+) {
+  let x = BigInt(point.x);
+  let y = BigInt(point.y);
+  if (x === 0n && y === 0n) return '00';
+  let xHex = x.toString(16).padStart(64, '0');
+  if (!compressed) return `04${xHex}${y.toString(16).padStart(64, '0')}`;
+  return `${y & 1n ? '03' : '02'}${xHex}`;
+}
+
+/**
+ * Deserialize a Pallas point from a hex string produced by {@link encodePoint}.
+ *
+ * The result can be passed to `Group.fromJSON()`.
+ *
+ * @throws if the input is not a valid encoding of a point on the curve.
+ */
+function decodePoint(hex: string): { x: bigint; y: bigint } {
+  if (hex.startsWith('0x')) hex = hex.slice(2);
+  let prefix = hex.slice(0, 2);
+  if (prefix === '00' && hex.length === 2) return { x: 0n, y: 0n };
+
+  if (prefix === '04' && hex.length === 130) {
+    let x = BigInt('0x' + hex.slice(2, 66));
+    let y = BigInt('0x' + hex.slice(66));
+    assert(x < Fp.modulus, 'decodePoint: x coordinate is not a field element');
+    assert(y < Fp.modulus, 'decodePoint: y coordinate is not a field element');
+    assert(
+      Pallas.isOnCurve(Pallas.from({ x, y })),
+      'decodePoint: point is not on the curve'
+    );
+    return { x, y };
+  }
+
+  if ((prefix === '02' || prefix === '03') && hex.length === 66) {
+    let x = BigInt('0x' + hex.slice(2));
+    assert(x < Fp.modulus, 'decodePoint: x coordinate is not a field element');
+    let y = Fp.sqrt(Fp.add(Fp.power(x, 3n), Pallas.b));
+    assert(y !== undefined, 'decodePoint: point is not on the curve');
+    let isOdd = prefix === '03';
+    if ((y & 1n) !== BigInt(isOdd)) y = Fp.negate(y);
+    return { x, y };
+  }
+
+  throw Error(`decodePoint: invalid point encoding ${hex}`);
+}
 
 function affineToHex(affine: GroupAffine) {
   const x = affine.x.toString(16).padStart(64, '0');
   const y = affine.y.toString(16).padStart(64, '0');
   return `0x4${x}${y}`;
 }
-export function commit(x: bigint, r: bigint) {
-  const affinePoint = Pallas.add(Pallas.scale(G, x), Pallas.scale(H, r));
+
+function hexToAffine(commitment: bigint): GroupAffine {
+  let hex = commitment.toString(16);
+  if (hex.length !== 129 || hex[0] !== '4') {
+    throw Error(
+      `PedersenCommitment: expected a 0x4-prefixed uncompressed point, got 0x${hex}`
+    );
+  }
+  return Pallas.from({
+    x: BigInt('0x' + hex.slice(1, 65)),
+    y: BigInt('0x' + hex.slice(65)),
+  });
+}
+
+/**
+ * Commit to a value `x` with blinding factor `r`, computing `x*G + r*H`.
+ *
+ * If `x` is an array `[x_0, ..., x_(n-1)]`, this creates a vector commitment
+ * `x_0*G_0 + ... + x_(n-1)*G_(n-1) + r*H`, where the generators `G_i` are derived
+ * deterministically by hashing their index to the curve.
+ *
+ * By default, the legacy generator set is used. Pass `{ generators: 'hash-to-curve' }` to use
+ * a blinding generator `H` with a verifiable derivation, see {@link PedersenGenerators}.
+ *
+ * Returns the commitment point encoded as a bigint.
+ */
+function commit(
+  x: bigint | bigint[],
+  r: bigint,
+  { generators = 'legacy' }: { generators?: PedersenGenerators } = {}
+) {
+  const affinePoint = Pallas.add(
+    commitValue(x),
+    Pallas.scale(H[generators], r)
+  );
   return BigInt(affineToHex(affinePoint));
 }
 
-export function verifyCommitment(x: bigint, r: bigint, commitment: bigint) {
-  const otherCommitment = commit(x, r);
+function commitValue(x: bigint | bigint[]) {
+  if (typeof x === 'bigint') return Pallas.scale(G, x);
+  return x.reduce(
+    (sum, xi, i) => Pallas.add(sum, Pallas.scale(vectorGenerator(i), xi)),
+    Pallas.zero
+  );
+}
+
+function verifyCommitment(
+  x: bigint | bigint[],
+  r: bigint,
+  commitment: bigint,
+  options?: { generators?: PedersenGenerators }
+) {
+  const otherCommitment = commit(x, r, options);
   return commitment == otherCommitment;
 }
+
+/**
+ * Add two commitments. The result is a commitment to `x1 + x2` with blinding factor `r1 + r2`.
+ */
+function addCommitments(c1: bigint, c2: bigint) {
+  let sum = Pallas.add(hexToAffine(c1), hexToAffine(c2));
+  return BigInt(affineToHex(sum));
+}
+
+/**
+ * Subtract two commitments. The result is a commitment to `x1 - x2` with blinding factor `r1 - r2`.
+ */
+function subCommitments(c1: bigint, c2: bigint) {
+  let difference = Pallas.sub(hexToAffine(c1), hexToAffine(c2));
+  return BigInt(affineToHex(difference));
+}
+
+/**
+ * Scale a commitment by a constant `k`. The result is a commitment to `k*x` with blinding factor `k*r`.
+ */
+function scaleCommitment(c: bigint, k: bigint) {
+  let scaled = Pallas.scale(hexToAffine(c), k);
+  return BigInt(affineToHex(scaled));
+}
+
+/**
+ * A Pedersen commitment `C = x*G + r*H` to a value `x` with blinding factor `r`,
+ * represented as a {@link Group} element so that it can be used in provable code.
+ *
+ * The generators `G` and `H` are the same as the ones used by {@link commit}, so commitments
+ * created outside the circuit can be imported with {@link PedersenCommitment.fromBigInt}.
+ *
+ * @example
+ * ```ts
+ * // outside provable code
+ * let c = commit(1234n, r);
+ *
+ * // in provable code
+ * let commitment = Provable.witness(PedersenCommitment, () =>
+ *   PedersenCommitment.fromBigInt(c)
+ * );
+ * commitment.assertOpens(value, randomness);
+ * ```
+ */
+class PedersenCommitment extends Struct({ commitment: Group }) {
+  /**
+   * The generator `G` that the committed value is multiplied with.
+   *
+   * This is the standard generator of the Pallas curve, {@link Group.generator}.
+   */
+  static get G() {
+    return new Group({ x: G.x, y: G.y });
+  }
+
+  /**
+   * The generator `H` that the blinding factor is multiplied with, from the legacy generator set.
+   *
+   * See {@link PedersenCommitment.blindingGenerator} for the hash-to-curve alternative.
+   */
+  static get H() {
+    return PedersenCommitment.blindingGenerator('legacy');
+  }
+
+  /**
+   * The generator `H` that the blinding factor is multiplied with, from the given generator set.
+   *
+   * With `'hash-to-curve'`, `H` is derived with `deriveGenerator('PedersenBlindingGenerator')`, so that
+   * nobody knows its discrete logarithm with respect to `G`. Use {@link verifyGenerator} to check this.
+   */
+  static blindingGenerator(generators: PedersenGenerators = 'legacy') {
+    let { x, y } = H[generators];
+    return new Group({ x, y });
+  }
+
+  /**
+   * Commit to a value `x` with blinding factor `r`, computing `x*G + r*H`.
+   *
+   * This method is provable if `x` or `r` are variables.
+   * The generator set defaults to `'legacy'`, see {@link PedersenGenerators}.
+   */
+  static create(
+    x: Scalar | bigint | number,
+    r: Scalar | bigint | number,
+    { generators = 'legacy' }: { generators?: PedersenGenerators } = {}
+  ): PedersenCommitment {
+    let xG = PedersenCommitment.G.scale(x);
+    let rH = PedersenCommitment.blindingGenerator(generators).scale(r);
+    return new PedersenCommitment({ commitment: xG.add(rH) });
+  }
+
+  /**
+   * The `i`th generator `G_i` used for vector commitments, see {@link PedersenCommitment.createVector}.
+   *
+   * `G_i` is derived with `deriveGenerator('PedersenVectorGenerator', i)`.
+   */
+  static vectorGenerator(i: number) {
+    let { x, y } = vectorGenerator(i);
+    return new Group({ x, y });
+  }
+
+  /**
+   * Commit to a vector of values `[x_0, ..., x_(n-1)]` with blinding factor `r`,
+   * computing `x_0*G_0 + ... + x_(n-1)*G_(n-1) + r*H`.
+   *
+   * This is compatible with calling {@link commit} on an array of values.
+   */
+  static createVector(
+    xs: (Scalar | bigint | number)[],
+    r: Scalar | bigint | number,
+    { generators = 'legacy' }: { generators?: PedersenGenerators } = {}
+  ): PedersenCommitment {
+    let commitment = PedersenCommitment.blindingGenerator(generators).scale(r);
+    xs.forEach((x, i) => {
+      commitment = commitment.add(
+        PedersenCommitment.vectorGenerator(i).scale(x)
+      );
+    });
+    return new PedersenCommitment({ commitment });
+  }
+
+  /**
+   * Sum a list of commitments. The result is a commitment to the sum of the values,
+   * with the sum of the blinding factors.
+   */
+  static sum(commitments: PedersenCommitment[]): PedersenCommitment {
+    let commitment = Group.zero;
+    for (let c of commitments) commitment = commitment.add(c.commitment);
+    return new PedersenCommitment({ commitment });
+  }
+
+  /**
+   * Import a commitment created with {@link commit}.
+   *
+   * This operation does NOT affect the circuit and can't be used to prove anything about the representation of the commitment.
+   */
+  static fromBigInt(commitment: bigint): PedersenCommitment {
+    let { x, y } = hexToAffine(commitment);
+    return new PedersenCommitment({ commitment: new Group({ x, y }) });
+  }
+
+  /**
+   * Export this commitment in the format used by {@link commit}.
+   *
+   * This operation does NOT affect the circuit and can't be used to prove anything about the representation of the commitment.
+   */
+  toBigInt() {
+    let { x, y } = this.commitment;
+    return BigInt(
+      affineToHex({ x: x.toBigInt(), y: y.toBigInt(), infinity: false })
+    );
+  }
+
+  /**
+   * Serialize this commitment to a hex string, see {@link encodePoint}.
+   *
+   * This operation does NOT affect the circuit and can't be used to prove anything about the representation of the commitment.
+   */
+  toHex({ compressed = true } = {}) {
+    return encodePoint(this.commitment.toJSON(), { compressed });
+  }
+
+  /**
+   * Deserialize a commitment from a hex string, see {@link decodePoint}.
+   *
+   * This operation does NOT affect the circuit and can't be used to prove anything about the representation of the commitment.
+   */
+  static fromHex(hex: string): PedersenCommitment {
+    return new PedersenCommitment({
+      commitment: Group.fromJSON(decodePoint(hex)),
+    });
+  }
+
+  /**
+   * Check whether `(x, r)` is an opening of this commitment.
+   *
+   * @returns a {@link Bool} which is true if `x*G + r*H` equals the commitment.
+   */
+  opens(
+    x: Scalar | bigint | number,
+    r: Scalar | bigint | number,
+    options?: { generators?: PedersenGenerators }
+  ): Bool {
+    return PedersenCommitment.create(x, r, options).commitment.equals(
+      this.commitment
+    );
+  }
+
+  /**
+   * Assert that `(x, r)` is an opening of this commitment.
+   *
+   * @throws if `x*G + r*H` does not equal the commitment.
+   */
+  assertOpens(
+    x: Scalar | bigint | number,
+    r: Scalar | bigint | number,
+    message?: string,
+    options?: { generators?: PedersenGenerators }
+  ) {
+    PedersenCommitment.create(x, r, options).commitment.assertEquals(
+      this.commitment,
+      message ?? 'PedersenCommitment: invalid opening'
+    );
+  }
+
+  /**
+   * Check whether `(xs, r)` is an opening of this vector commitment.
+   */
+  opensVector(
+    xs: (Scalar | bigint | number)[],
+    r: Scalar | bigint | number,
+    options?: { generators?: PedersenGenerators }
+  ) {
+    return PedersenCommitment.createVector(xs, r, options).equals(this);
+  }
+
+  /**
+   * Assert that `(xs, r)` is an opening of this vector commitment.
+   *
+   * @throws if the vector commitment to `xs` with blinding factor `r` does not equal this commitment.
+   */
+  assertOpensVector(
+    xs: (Scalar | bigint | number)[],
+    r: Scalar | bigint | number,
+    message?: string,
+    options?: { generators?: PedersenGenerators }
+  ) {
+    PedersenCommitment.createVector(xs, r, options).assertEquals(
+      this,
+      message ?? 'PedersenCommitment: invalid opening'
+    );
+  }
+
+  /**
+   * Add two commitments. The result is a commitment to `x1 + x2` with blinding factor `r1 + r2`.
+   */
+  add(other: PedersenCommitment): PedersenCommitment {
+    return new PedersenCommitment({
+      commitment: this.commitment.add(other.commitment),
+    });
+  }
+
+  /**
+   * Subtract two commitments. The result is a commitment to `x1 - x2` with blinding factor `r1 - r2`.
+   */
+  sub(other: PedersenCommitment): PedersenCommitment {
+    return new PedersenCommitment({
+      commitment: this.commitment.sub(other.commitment),
+    });
+  }
+
+  /**
+   * Negate this commitment. The result is a commitment to `-x` with blinding factor `-r`.
+   */
+  neg(): PedersenCommitment {
+    return new PedersenCommitment({ commitment: this.commitment.neg() });
+  }
+
+  /**
+   * Scale this commitment by `k`. The result is a commitment to `k*x` with blinding factor `k*r`.
+   */
+  scale(k: Scalar | bigint | number): PedersenCommitment {
+    return new PedersenCommitment({ commitment: this.commitment.scale(k) });
+  }
+
+  /**
+   * Assert that this commitment and `other` commit to the same value, given the difference
+   * of their blinding factors `r1 - r2`.
+   *
+   * This proves `C1 - C2 = (r1 - r2)*H` without revealing the committed value. For example, to show that
+   * the sum of several committed values equals a committed total:
+   *
+   * ```ts
+   * PedersenCommitment.sum(components).assertSameValue(total, rSum.sub(rTotal));
+   * ```
+   *
+   * @throws if the commitments don't differ by exactly `blindingDifference*H`.
+   */
+  assertSameValue(
+    other: PedersenCommitment,
+    blindingDifference: Scalar | bigint | number,
+    message?: string,
+    { generators = 'legacy' }: { generators?: PedersenGenerators } = {}
+  ) {
+    this.commitment
+      .sub(other.commitment)
+      .assertEquals(
+        PedersenCommitment.blindingGenerator(generators).scale(
+          blindingDifference
+        ),
+        message ?? 'PedersenCommitment: committed values are not equal'
+      );
+  }
+
+  /**
+   * Check whether two commitments are equal.
+   */
+  equals(other: PedersenCommitment): Bool {
+    return this.commitment.equals(other.commitment);
+  }
+
+  /**
+   * Assert that two commitments are equal.
+   */
+  assertEquals(other: PedersenCommitment, message?: string) {
+    this.commitment.assertEquals(other.commitment, message);
+  }
+}
@@ -0,0 +1,200 @@
+import { Fp, Fq } from '../bindings/crypto/finite-field.js';
+import { Group, Scalar } from './core.js';
+import {
+  addCommitments,
+  commit,
+  decodePoint,
+  encodePoint,
+  PedersenCommitment,
+  scaleCommitment,
+  subCommitments,
+  verifyCommitment,
+  verifyGenerator,
+} from './pedersen.js';
+import { Provable } from './provable.js';
+import { test, Random } from './testing/property.js';
+import { expect } from 'expect';
+
+console.log('pedersen commitment tests');
+
+// in-circuit commitments are consistent with the bigint implementation
+test(Random.scalar, Random.scalar, (x, r, assert) => {
+  let c = commit(x, r);
+  let commitment = PedersenCommitment.fromBigInt(c);
+
+  assert(commitment.toBigInt() === c, 'round-trips bigint encoding');
+  assert(
+    PedersenCommitment.create(x, r).equals(commitment).toBoolean(),
+    'constant commitment matches'
+  );
+
+  Provable.runAndCheck(() => {
+    let xVar = Provable.witness(Scalar, () => Scalar.from(x));
+    let rVar = Provable.witness(Scalar, () => Scalar.from(r));
+    let cVar = Provable.witness(PedersenCommitment, () => commitment);
+
+    cVar.assertOpens(xVar, rVar);
+    PedersenCommitment.create(xVar, rVar).assertEquals(cVar);
+  });
+});
+
+// commitments are additively homomorphic
+test(
+  Random.scalar,
+  Random.scalar,
+  Random.scalar,
+  Random.scalar,
+  (x1, r1, x2, r2, assert) => {
+    let c1 = PedersenCommitment.create(x1, r1);
+    let c2 = PedersenCommitment.create(x2, r2);
+    let x = Scalar.from(x1).add(Scalar.from(x2));
+    let r = Scalar.from(r1).add(Scalar.from(r2));
+
+    assert(c1.add(c2).opens(x, r).toBoolean(), 'sum opens to sum');
+  }
+);
+
+// homomorphic operations on the bigint encoding
+test(
+  Random.scalar,
+  Random.scalar,
+  Random.scalar,
+  Random.scalar,
+  Random.scalar,
+  (x1, r1, x2, r2, k, assert) => {
+    let c1 = commit(x1, r1);
+    let c2 = commit(x2, r2);
+    let { add, sub, mul } = Fq;
+
+    assert(addCommitments(c1, c2) === commit(add(x1, x2), add(r1, r2)), 'add');
+    assert(subCommitments(c1, c2) === commit(sub(x1, x2), sub(r1, r2)), 'sub');
+    assert(scaleCommitment(c1, k) === commit(mul(k, x1), mul(k, r1)), 'scale');
+    assert(
+      PedersenCommitment.fromBigInt(c1)
+        .sub(PedersenCommitment.fromBigInt(c2))
+        .toBigInt() === subCommitments(c1, c2),
+      'provable sub matches'
+    );
+  }
+);
+
+// vector commitments are consistent in and out of circuit
+test(
+  Random.array(Random.scalar, Random.nat(5)),
+  Random.scalar,
+  (xs, r, assert) => {
+    let c = commit(xs, r);
+    assert(verifyCommitment(xs, r, c), 'vector commitment verifies');
+
+    Provable.runAndCheck(() => {
+      let xsVar = xs.map((x) => Provable.witness(Scalar, () => Scalar.from(x)));
+      let rVar = Provable.witness(Scalar, () => Scalar.from(r));
+      let cVar = Provable.witness(PedersenCommitment, () =>
+        PedersenCommitment.fromBigInt(c)
+      );
+      cVar.assertOpensVector(xsVar, rVar);
+    });
+  }
+);
+
+// the sum of committed components equals a committed total
+{
+  let masses = [120n, 30n, 50n];
+  let blindings = masses.map(() => Scalar.random());
+  let total = PedersenCommitment.create(200n, 99n);
+  let components = masses.map((m, i) =>
+    PedersenCommitment.create(m, blindings[i])
+  );
+  let rSum = blindings.reduce((a, b) => a.add(b));
+
+  Provable.runAndCheck(() => {
+    let cs = components.map((c) =>
+      Provable.witness(PedersenCommitment, () => c)
+    );
+    let t = Provable.witness(PedersenCommitment, () => total);
+    let rDiff = Provable.witness(Scalar, () => rSum.sub(Scalar.from(99n)));
+    PedersenCommitment.sum(cs).assertSameValue(t, rDiff);
+  });
+}
+
+// generators are reproducible from their domain separation strings
+let derivedH = PedersenCommitment.blindingGenerator('hash-to-curve');
+expect(verifyGenerator(derivedH.toJSON(), 'PedersenBlindingGenerator')).toBe(
+  true
+);
+expect(
+  verifyGenerator(
+    PedersenCommitment.vectorGenerator(3).toJSON(),
+    'PedersenVectorGenerator',
+    3
+  )
+).toBe(true);
+expect(verifyGenerator(derivedH.toJSON(), 'other domain')).toBe(false);
+
+// the legacy H stays the default, the derived H is opt-in
+expect(PedersenCommitment.H.equals(derivedH).toBoolean()).toBe(false);
+expect(
+  PedersenCommitment.blindingGenerator()
+    .equals(PedersenCommitment.H)
+    .toBoolean()
+).toBe(true);
+
+test(Random.scalar, Random.scalar, (x, r, assert) => {
+  let options = { generators: 'hash-to-curve' } as const;
+  let c = commit(x, r, options);
+  assert(c !== commit(x, r), 'generator sets differ');
+  assert(verifyCommitment(x, r, c, options), 'verifies with the derived H');
+  assert(!verifyCommitment(x, r, c), 'does not verify with the legacy H');
+
+  let commitment = PedersenCommitment.create(x, r, options);
+  assert(commitment.toBigInt() === c, 'consistent with commit()');
+  assert(commitment.opens(x, r, options).toBoolean(), 'opens');
+  assert(!commitment.opens(x, r).toBoolean(), 'legacy H does not open');
+});
+
+// point encodings round-trip and are compatible with Group.toJSON
+test(Random.scalar, Random.scalar, (x, r, assert) => {
+  let commitment = PedersenCommitment.create(x, r);
+
+  for (let compressed of [true, false]) {
+    let hex = commitment.toHex({ compressed });
+    assert(hex.length === (compressed ? 66 : 130), 'encoding length');
+    assert(
+      PedersenCommitment.fromHex(hex).equals(commitment).toBoolean(),
+      'round-trips'
+    );
+    let point = Group.fromJSON(decodePoint(hex));
+    assert(point.equals(commitment.commitment).toBoolean(), 'decodes');
+  }
+
+  // the legacy bigint encoding is the uncompressed encoding without the leading zero
+  assert(
+    '0' + commitment.toBigInt().toString(16) ===
+      encodePoint(commitment.commitment.toJSON(), { compressed: false }),
+    'legacy encoding'
+  );
+});
+expect(encodePoint(Group.zero.toJSON())).toEqual('00');
+expect(() => decodePoint('02' + 'ff'.repeat(32))).toThrow();
+
+// uncompressed coordinates must be reduced modulo p
+let { x: hx, y: hy } = PedersenCommitment.H.toJSON();
+let hex32 = (x: bigint) => x.toString(16).padStart(64, '0');
+expect(() =>
+  decodePoint('04' + hex32(BigInt(hx) + Fp.modulus) + hex32(BigInt(hy)))
+).toThrow('x coordinate is not a field element');
+expect(() =>
+  decodePoint('04' + hex32(BigInt(hx)) + hex32(BigInt(hy) + Fp.modulus))
+).toThrow('y coordinate is not a field element');
+
+// a wrong opening fails in provable code
+let c = PedersenCommitment.create(5n, 1234n);
+
+expect(() =>
+  Provable.runAndCheck(() => {
+    let cVar = Provable.witness(PedersenCommitment, () => c);
+    let x = Provable.witness(Scalar, () => Scalar.from(6n));
+    let r = Provable.witness(Scalar, () => Scalar.from(1234n));
+    cVar.assertOpens(x, r);
+  })
+).toThrow('invalid opening');
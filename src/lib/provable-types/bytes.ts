@@ -1,6 +1,8 @@
 import { provableFromClass } from '../../bindings/lib/provable-snarky.js';
 import type { ProvablePureExtended } from '../circuit-value.js';
+import { Base64 } from '../gadgets/base64.js';
 import { assert } from '../gadgets/common.js';
+import { Hex } from '../gadgets/hex.js';
 import { chunkString } from '../util/arrays.js';
 import { Provable } from '../provable.js';
 import { UInt8 } from '../int.js';
@@ -96,6 +98,64 @@ class Bytes {
       .join('');
   }
 
+  /**
+   * Base64-encode the bytes, with `=` padding.
+   *
+   * With `url: true`, this uses the URL-safe alphabet of base64url and omits the padding, as in JWTs.
+   *
+   * This method is provable.
+   */
+  base64Encode({ url = false } = {}): Bytes {
+    let chars = Base64.encode(this.bytes, { url });
+    return new (createBytes(chars.length))(chars);
+  }
+
+  /**
+   * Decode base64-encoded bytes to {@link Bytes} of the given length.
+   *
+   * The input must be the canonical encoding of `byteLength` bytes: with `=` padding by default,
+   * and without padding with `url: true`, which also switches to the URL-safe alphabet of base64url.
+   *
+   * This method is provable.
+   *
+   * @throws if the input is not the encoding of `byteLength` bytes.
+   */
+  base64Decode(byteLength: number, { url = false } = {}): Bytes {
+    let dataLength = Math.ceil((4 * byteLength) / 3);
+    let encodedLength = url ? dataLength : 4 * Math.ceil(byteLength / 3);
+    assert(
+      this.length === encodedLength,
+      `Expected ${encodedLength} characters to decode ${byteLength} bytes, got ${this.length}`
+    );
+    this.bytes
+      .slice(dataLength)
+      .forEach((c) => c.assertEquals('='.charCodeAt(0), 'Expected padding'));
+    let bytes = Base64.decode(this.bytes.slice(0, dataLength), { url });
+    return new (createBytes(byteLength))(bytes);
+  }
+
+  /**
+   * Hex-encode the bytes, with lowercase characters.
+   *
+   * This method is provable, in contrast to {@link Bytes.toHex}.
+   */
+  hexEncode(): Bytes {
+    let chars = Hex.encode(this.bytes);
+    return new (createBytes(chars.length))(chars);
+  }
+
+  /**
+   * Decode hex-encoded bytes, which can use both lowercase and uppercase characters.
+   *
+   * This method is provable, in contrast to {@link Bytes.fromHex}.
+   *
+   * @throws if the number of characters is odd, or if one of them is not a hex digit.
+   */
+  hexDecode(): Bytes {
+    let bytes = Hex.decode(this.bytes);
+    return new (createBytes(bytes.length))(bytes);
+  }
+
   // dynamic subclassing infra
   static _size?: number;
   static _provable?: ProvablePureExtended<
@@ -0,0 +1,86 @@
+import { Bytes } from './provable-types.js';
+import { Provable } from '../provable.js';
+import { expect } from 'expect';
+
+let inputs = [
+  '',
+  'f',
+  'fo',
+  'foo',
+  'foob',
+  'fooba',
+  'foobar',
+  '\xff\xfe\xfd?>',
+];
+
+for (let input of inputs) {
+  let data = Buffer.from(input, 'latin1');
+  let n = data.length;
+  class Data extends Bytes(n) {}
+
+  let encodings = [
+    { url: false, encoded: data.toString('base64') },
+    { url: true, encoded: data.toString('base64url') },
+  ];
+
+  // constant
+  let bytes = Data.from(data);
+  for (let { url, encoded } of encodings) {
+    expect(toString(bytes.base64Encode({ url }))).toEqual(encoded);
+    let decoded = Bytes.fromString(encoded).base64Decode(n, { url });
+    expect(decoded.toHex()).toEqual(data.toString('hex'));
+  }
+  expect(toString(bytes.hexEncode())).toEqual(data.toString('hex'));
+  expect(
+    Bytes.fromString(data.toString('hex').toUpperCase()).hexDecode().toHex()
+  ).toEqual(data.toString('hex'));
+
+  // provable
+  Provable.runAndCheck(() => {
+    let bytes = Provable.witness(Data.provable, () => Data.from(data));
+
+    for (let { url, encoded } of encodings) {
+      let chars = bytes.base64Encode({ url });
+      let decoded = chars.base64Decode(n, { url });
+      Provable.asProver(() => {
+        expect(toString(chars)).toEqual(encoded);
+        expect(decoded.toHex()).toEqual(data.toString('hex'));
+      });
+    }
+
+    let hex = bytes.hexEncode();
+    let decoded = hex.hexDecode();
+    Provable.asProver(() => {
+      expect(toString(hex)).toEqual(data.toString('hex'));
+      expect(decoded.toHex()).toEqual(data.toString('hex'));
+    });
+  });
+}
+
+// invalid encodings are rejected
+function decode(encoded: string, decode: (bytes: Bytes) => Bytes) {
+  Provable.runAndCheck(() => {
+    class Encoded extends Bytes(encoded.length) {}
+    let bytes = Provable.witness(Encoded.provable, () =>
+      Encoded.fromString(encoded)
+    );
+    decode(bytes);
+  });
+}
+expect(() => decode('Zm*=', (b) => b.base64Decode(2))).toThrow(
+  'invalid character'
+);
+expect(() => decode('Zm9v', (b) => b.base64Decode(2))).toThrow(
+  'Expected padding'
+);
+expect(() => decode('Zh==', (b) => b.base64Decode(1))).toThrow(
+  'non-canonical encoding'
+);
+expect(() => decode('Zm_v', (b) => b.base64Decode(3))).toThrow(
+  'invalid character'
+);
+expect(() => decode('0g', (b) => b.hexDecode())).toThrow('invalid character');
+
+function toString(bytes: Bytes) {
+  return String.fromCharCode(...bytes.toBytes());
+}
@@ -0,0 +1,360 @@
+import { provableFromClass } from '../../bindings/lib/provable-snarky.js';
+import { Bool, Field } from '../core.js';
+import { HashInput } from '../circuit-value.js';
+import { assert } from '../gadgets/common.js';
+import * as RangeCheck from '../gadgets/range-check.js';
+import { Poseidon, ProvableHashable } from '../hash.js';
+import { Provable } from '../provable.js';
+
+// external API
+export { DynamicArray };
+
+// internal API
+export { createDynamicArray };
+
+/**
+ * Dynamic-length array with a fixed maximum length.
+ *
+ * The array is represented by `maxLength` elements plus a provable `length`.
+ * Elements at indices `length` and beyond are padding: they are ignored by all methods,
+ * and are replaced by the empty value of the element type wherever this class writes them.
+ *
+ * A dynamic array is generic over its element type, so before using it you must create a subclass:
+ *
+ * ```ts
+ * class Entries extends DynamicArray(Entry, { maxLength: 32 }) {}
+ *
+ * let entries = Entries.from([entry0, entry1]);
+ * entries.push(entry2);
+ *
+ * let first = entries.get(Field(0));
+ * ```
+ *
+ * Note: Accessing an element at a variable index costs `O(maxLength)` constraints,
+ * and `slice()` and `concat()` cost `O(maxLength^2)` constraints.
+ */
+class DynamicArray<T> {
+  array: T[];
+  length: Field;
+
+  constructor({ array, length }: { array: T[]; length: Field }) {
+    this.array = array;
+    this.length = length;
+  }
+
+  get maxLength() {
+    return this.Constructor.maxLength;
+  }
+
+  /**
+   * Returns the element at index `i`.
+   *
+   * This proves that `i` is less than the length of the array, and fails otherwise.
+   */
+  get(i: Field): T {
+    let mask = this.indexMask(i, 'get');
+    return Provable.switch(mask, this.innerProvable, this.array);
+  }
+
+  /**
+   * Replaces the element at index `i` by `value`.
+   *
+   * This proves that `i` is less than the length of the array, and fails otherwise.
+   */
+  set(i: Field, value: T) {
+    let mask = this.indexMask(i, 'set');
+    let type = this.innerProvable;
+    this.array = this.array.map((x, j) => Provable.if(mask[j], type, value, x));
+  }
+
+  /**
+   * Appends an element to the end of the array.
+   *
+   * This proves that the array is not full, and fails otherwise.
+   */
+  push(value: T) {
+    let type = this.innerProvable;
+    let mask = this.array.map((_, j) => this.length.equals(j));
+    mask
+      .reduce((a, b) => a.or(b), Bool(false))
+      .assertTrue('DynamicArray.push(): array is full');
+    this.array = this.array.map((x, j) => Provable.if(mask[j], type, value, x));
+    this.length = this.length.add(1);
+  }
+
+  /**
+   * Removes the last element from the array and returns it.
+   *
+   * This proves that the array is not empty, and fails otherwise.
+   */
+  pop(): T {
+    this.length.equals(0).assertFalse('DynamicArray.pop(): array is empty');
+    let type = this.innerProvable;
+    let last = this.length.sub(1);
+    let mask = this.array.map((_, j) => last.equals(j));
+    let value = Provable.switch(mask, type, this.array);
+    this.array = this.array.map((x, j) =>
+      Provable.if(mask[j], type, type.empty(), x)
+    );
+    this.length = last;
+    return value;
+  }
+
+  /**
+   * Calls `callback` on every slot of the array, in order.
+   *
+   * Since the loop runs over all `maxLength` slots, the callback also receives a `isDummy` flag,
+   * which is true for the padding elements. Any constraints the callback adds must be conditional on `isDummy`.
+   *
+   * ```ts
+   * let total = Field(0);
+   * entries.forEach((entry, isDummy) => {
+   *   total = total.add(Provable.if(isDummy, Field(0), entry.amount));
+   * });
+   * ```
+   */
+  forEach(callback: (element: T, isDummy: Bool, i: number) => void) {
+    let isLive = this.liveMask();
+    this.array.forEach((x, i) => callback(x, isLive[i].not(), i));
+  }
+
+  /**
+   * Applies `f` to every element and returns a dynamic array of the results,
+   * with the same length and maximum length.
+   *
+   * `f` is also evaluated on padding elements, but these results are replaced by empty values.
+   */
+  map<S>(type: ProvableHashable<S>, f: (element: T, i: number) => S) {
+    let DynamicArray_ = createDynamicArray(type, this.maxLength);
+    let isLive = this.liveMask();
+    let array = this.array.map((x, i) =>
+      Provable.if(isLive[i], type, f(x, i), type.empty())
+    );
+    return new DynamicArray_({ array, length: this.length });
+  }
+
+  /**
+   * Returns the elements from index `start` (inclusive) to `end` (exclusive),
+   * as a dynamic array with the same maximum length.
+   *
+   * This proves that `0 <= start <= end <= length`, and fails otherwise.
+   */
+  slice(start: Field, end: Field): DynamicArray<T> {
+    // since length <= maxLength < 2^32, this implies 0 <= start <= end <= length
+    RangeCheck.rangeCheck32(start);
+    RangeCheck.rangeCheck32(end.sub(start).seal());
+    RangeCheck.rangeCheck32(this.length.sub(end).seal());
+
+    let type = this.innerProvable;
+    let length = end.sub(start).seal();
+    let array = this.array.map((_, i) => {
+      let source = start.add(i).seal();
+      let mask = this.array.map((_, j) => source.equals(j));
+      return Provable.switch(mask, type, this.array);
+    });
+    let slice = new this.Constructor({ array, length });
+    slice.clearPadding();
+    return slice;
+  }
+
+  /**
+   * Returns a dynamic array which contains the elements of this array followed by the elements of `other`.
+   *
+   * The maximum length of the result is the sum of both maximum lengths.
+   */
+  concat(other: DynamicArray<T>): DynamicArray<T> {
+    let type = this.innerProvable;
+    let DynamicArray_ = createDynamicArray(
+      type,
+      this.maxLength + other.maxLength
+    );
+    let isLive = this.liveMask();
+    let isLiveOther = other.liveMask();
+
+    // for every index, at most one element of this and the other array can be selected
+    let array = Array.from({ length: DynamicArray_.maxLength }, (_, i) => {
+      let offset = Field(i).sub(this.length).seal();
+      let mask = other.array.map((_, j) =>
+        offset.equals(j).and(isLiveOther[j])
+      );
+      let values = other.array;
+      if (i < this.maxLength) {
+        mask = [isLive[i], ...mask];
+        values = [this.array[i], ...values];
+      }
+      return Provable.switch(mask, type, values);
+    });
+    let result = new DynamicArray_({
+      array,
+      length: this.length.add(other.length),
+    });
+    result.clearPadding();
+    return result;
+  }
+
+  /**
+   * Hashes the array with Poseidon.
+   *
+   * The hash only depends on the length and the live elements, not on the padding.
+   */
+  hash() {
+    return Poseidon.hashPacked(this.Constructor.provable, this);
+  }
+
+  /**
+   * Returns the live elements as a JS array.
+   *
+   * **Warning**: This operation is not provable.
+   */
+  toArray(): T[] {
+    return this.array.slice(0, Number(this.length.toBigInt()));
+  }
+
+  /**
+   * Returns, for every slot, whether it contains a live element, i.e. whether its index is less than `length`.
+   */
+  liveMask(): Bool[] {
+    // length is in [0, maxLength], so index i is live iff length is not one of 0, ..., i
+    let isLive: Bool[] = [];
+    let live = Bool(true);
+    for (let i = 0; i < this.maxLength; i++) {
+      live = live.and(this.length.equals(i).not());
+      isLive.push(live);
+    }
+    return isLive;
+  }
+
+  /**
+   * Returns the one-hot mask of index `i`, and proves that `i` is less than `length`.
+   */
+  private indexMask(i: Field, method: string) {
+    let isLive = this.liveMask();
+    let mask = this.array.map((_, j) => i.equals(j).and(isLive[j]));
+    mask
+      .reduce((a, b) => a.or(b), Bool(false))
+      .assertTrue(`DynamicArray.${method}(): index out of bounds`);
+    return mask;
+  }
+
+  /**
+   * Replaces all padding elements by the empty value.
+   */
+  private clearPadding() {
+    let type = this.innerProvable;
+    let isLive = this.liveMask();
+    this.array = this.array.map((x, i) =>
+      Provable.if(isLive[i], type, x, type.empty())
+    );
+  }
+
+  // dynamic subclassing infra
+  static _maxLength?: number;
+  static _provable?: ProvableHashable<DynamicArray<any>>;
+  static _innerProvable?: ProvableHashable<any>;
+
+  get Constructor() {
+    return this.constructor as typeof DynamicArray;
+  }
+
+  get innerProvable(): ProvableHashable<T> {
+    return this.Constructor.innerProvable;
+  }
+
+  static get maxLength() {
+    assert(this._maxLength !== undefined, 'DynamicArray not initialized');
+    return this._maxLength;
+  }
+
+  static get innerProvable() {
+    assert(this._innerProvable !== undefined, 'DynamicArray not initialized');
+    return this._innerProvable;
+  }
+
+  /**
+   * `Provable<DynamicArray<T>>`
+   */
+  static get provable() {
+    assert(this._provable !== undefined, 'DynamicArray not initialized');
+    return this._provable;
+  }
+}
+
+function createDynamicArray<T>(
+  type: ProvableHashable<T>,
+  maxLength: number
+): typeof DynamicArray<T> & {
+  // override static methods with strict types
+  from: (array: T[]) => DynamicArray<T>;
+  empty: () => DynamicArray<T>;
+  provable: ProvableHashable<DynamicArray<T>>;
+} {
+  assert(
+    Number.isInteger(maxLength) && maxLength >= 0 && maxLength < 2 ** 32,
+    `Expected maxLength to be an integer in [0, 2^32), got ${maxLength}`
+  );
+
+  class DynamicArray_ extends DynamicArray<T> {
+    static _maxLength = maxLength;
+    static _innerProvable = type;
+
+    /**
+     * Create a dynamic array from a JS array of at most `maxLength` elements.
+     */
+    static from(array: T[]): DynamicArray<T> {
+      assert(
+        array.length <= maxLength,
+        `Expected at most ${maxLength} elements, got ${array.length}`
+      );
+      let padding = Array.from({ length: maxLength - array.length }, () =>
+        type.empty()
+      );
+      return new this({
+        array: [...array, ...padding],
+        length: Field(array.length),
+      });
+    }
+
+    /**
+     * Create an empty dynamic array.
+     */
+    static empty(): DynamicArray<T> {
+      return this.from([]);
+    }
+
+    static get provable(): ProvableHashable<DynamicArray<T>> {
+      return super.provable;
+    }
+  }
+  let provable = provableFromClass(DynamicArray_, {
+    array: Provable.Array(type, maxLength),
+    length: Field,
+  });
+  DynamicArray_._provable = {
+    ...provable,
+
+    check(x) {
+      provable.check(x);
+      // length is in [0, maxLength]
+      RangeCheck.rangeCheck32(x.length);
+      RangeCheck.rangeCheck32(Field(maxLength).sub(x.length).seal());
+    },
+
+    // the padding doesn't contribute to the hash
+    toInput(x) {
+      let isLive = x.liveMask();
+      return x.array.reduce(
+        (input, element, i) =>
+          HashInput.append(
+            input,
+            type.toInput(Provable.if(isLive[i], type, element, type.empty()))
+          ),
+        { fields: [x.length] } as HashInput
+      );
+    },
+
+    empty() {
+      return DynamicArray_.empty();
+    },
+  };
+  return DynamicArray_;
+}
@@ -0,0 +1,123 @@
+import { DynamicArray } from './provable-types.js';
+import { Field } from '../core.js';
+import { Provable } from '../provable.js';
+import { Poseidon } from '../hash.js';
+import { test, Random } from '../testing/property.js';
+import { expect } from 'expect';
+
+console.log('dynamic array tests');
+
+const maxLength = 8;
+
+class Fields extends DynamicArray(Field, { maxLength }) {}
+
+let array = Random.array(Random.field, Random.nat(maxLength));
+let index = Random.nat(maxLength);
+
+let toBigints = (xs: Field[]) => xs.map((x) => x.toBigInt());
+
+// provable operations match operations on JS arrays
+test(array, array, index, index, (xs, ys, i, j) => {
+  let [start, end] = i <= j ? [i, j] : [j, i];
+
+  Provable.runAndCheck(() => {
+    let a = Provable.witness(Fields.provable, () =>
+      Fields.from(xs.map((x) => Field(x)))
+    );
+    let b = Provable.witness(Fields.provable, () =>
+      Fields.from(ys.map((x) => Field(x)))
+    );
+    a.length.assertEquals(xs.length);
+
+    if (i < xs.length) {
+      a.get(Field(i)).assertEquals(xs[i]);
+
+      let c = Fields.from(xs.map((x) => Field(x)));
+      c.set(Field(i), Field(42));
+      Provable.asProver(() => {
+        let expected = [...xs];
+        expected[i] = 42n;
+        expect(toBigints(c.toArray())).toEqual(expected);
+      });
+    }
+
+    let sum = Field(0);
+    a.forEach((x, isDummy) => {
+      sum = sum.add(Provable.if(isDummy, Field(0), x));
+    });
+    sum.assertEquals(xs.reduce((s, x) => Field(s).add(x), Field(0)));
+
+    let doubled = a.map(Field, (x) => x.mul(2));
+    doubled.length.assertEquals(xs.length);
+
+    let concatenated = a.concat(b);
+    concatenated.length.assertEquals(xs.length + ys.length);
+
+    if (end <= xs.length) {
+      let sliced = a.slice(Field(start), Field(end));
+      Provable.asProver(() => {
+        expect(toBigints(sliced.toArray())).toEqual(xs.slice(start, end));
+      });
+    }
+
+    Provable.asProver(() => {
+      expect(toBigints(doubled.toArray())).toEqual(
+        xs.map((x) => Field(x).mul(2).toBigInt())
+      );
+      expect(toBigints(concatenated.toArray())).toEqual([...xs, ...ys]);
+    });
+
+    // the hash doesn't depend on the padding or on the maximum length
+    let expectedHash = Poseidon.hash([
+      Field(xs.length),
+      ...xs.map((x) => Field(x)),
+    ]);
+    a.hash().assertEquals(expectedHash);
+    let padded = a.concat(Fields.empty());
+    padded.hash().assertEquals(expectedHash);
+  });
+});
+
+// push and pop
+Provable.runAndCheck(() => {
+  let a = Provable.witness(Fields.provable, () =>
+    Fields.from([1n, 2n].map((x) => Field(x)))
+  );
+  a.push(Field(3));
+  a.length.assertEquals(3);
+  a.get(Field(2)).assertEquals(3);
+  a.pop().assertEquals(3);
+  a.pop().assertEquals(2);
+  a.length.assertEquals(1);
+  a.hash().assertEquals(Poseidon.hash([Field(1), Field(1)]));
+});
+
+// out of bounds access fails in provable code
+let failsInCircuit = (f: (a: Fields) => void) =>
+  expect(() =>
+    Provable.runAndCheck(() => {
+      f(Provable.witness(Fields.provable, () => Fields.from([Field(1)])));
+    })
+  ).toThrow();
+
+failsInCircuit((a) => a.get(Field(1)));
+failsInCircuit((a) => a.get(Field(-1)));
+failsInCircuit((a) => a.set(Field(1), Field(0)));
+failsInCircuit((a) => (a.pop(), a.pop()));
+failsInCircuit((a) => a.slice(Field(0), Field(2)));
+failsInCircuit((a) => a.slice(Field(1), Field(0)));
+failsInCircuit((a) => {
+  for (let i = 0; i < maxLength; i++) a.push(Field(i));
+});
+
+// the length is range-checked when witnessing
+expect(() =>
+  Provable.runAndCheck(() => {
+    Provable.witness(Fields.provable, () => {
+      let a = Fields.empty();
+      a.length = Field(maxLength + 1);
+      return a;
+    });
+  })
+).toThrow();
+expect(() => Fields.from(Array(maxLength + 1).fill(Field(0)))).toThrow();
@@ -0,0 +1,157 @@
+import { provableFromClass } from '../../bindings/lib/provable-snarky.js';
+import type { ProvablePureExtended } from '../circuit-value.js';
+import { Bool, Field } from '../core.js';
+import { assert } from '../gadgets/common.js';
+import * as RangeCheck from '../gadgets/range-check.js';
+import { chunkString } from '../util/arrays.js';
+import { Provable } from '../provable.js';
+import { UInt8 } from '../int.js';
+import { Bytes } from './bytes.js';
+
+// external API
+export { DynamicBytes };
+
+// internal API
+export { createDynamicBytes };
+
+/**
+ * A provable type representing an array of bytes of variable length, up to a fixed maximum length.
+ *
+ * The bytes are stored as `maxLength` {@link UInt8}s plus a provable `length`.
+ * Bytes at indices `length` and beyond are padding, and are ignored by the hash functions which accept {@link DynamicBytes}.
+ */
+class DynamicBytes {
+  bytes: UInt8[];
+  length: Field;
+
+  constructor(bytes: UInt8[], length: Field) {
+    let maxLength = this.Constructor.maxLength;
+
+    assert(
+      bytes.length <= maxLength,
+      `Expected at most ${maxLength} bytes, got ${bytes.length}`
+    );
+
+    // pad the data with zeros
+    let padding = Array.from(
+      { length: maxLength - bytes.length },
+      () => new UInt8(0)
+    );
+    this.bytes = bytes.concat(padding);
+    this.length = length;
+  }
+
+  /**
+   * Coerce the input to {@link DynamicBytes}, with a length equal to the input length.
+   */
+  static from(
+    data: (UInt8 | bigint | number)[] | Uint8Array | Bytes | DynamicBytes
+  ): DynamicBytes {
+    if (data instanceof DynamicBytes) return data;
+    if (data instanceof Bytes) data = data.bytes;
+    if (this._maxLength === undefined) {
+      let DynamicBytes_ = createDynamicBytes(data.length);
+      return DynamicBytes_.from(data);
+    }
+    return new this([...data].map(UInt8.from), Field(data.length));
+  }
+
+  /**
+   * Create {@link DynamicBytes} from a string.
+   */
+  static fromString(s: string) {
+    let bytes = new TextEncoder().encode(s);
+    return this.from(bytes);
+  }
+
+  /**
+   * Create {@link DynamicBytes} from a hex string.
+   */
+  static fromHex(xs: string): DynamicBytes {
+    let bytes = chunkString(xs, 2).map((s) => parseInt(s, 16));
+    return this.from(bytes);
+  }
+
+  /**
+   * Returns the bytes up to `length`.
+   *
+   * **Warning**: This operation is not provable.
+   */
+  toBytes(): Uint8Array {
+    let length = Number(this.length.toBigInt());
+    return Uint8Array.from(
+      this.bytes.slice(0, length).map((x) => x.toNumber())
+    );
+  }
+
+  /**
+   * Convert the bytes up to `length` to a hex string.
+   *
+   * **Warning**: This operation is not provable.
+   */
+  toHex(): string {
+    return [...this.toBytes()]
+      .map((x) => x.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  /**
+   * Returns the bytes, with every byte at or after `length` replaced by zero.
+   */
+  maskedBytes(): UInt8[] {
+    // length is in [0, maxLength], so index i is live iff length is not one of 0, ..., i
+    let isLive = Bool(true);
+    return this.bytes.map((byte, i) => {
+      isLive = isLive.and(this.length.equals(i).not());
+      return UInt8.Unsafe.fromField(byte.value.mul(isLive.toField()).seal());
+    });
+  }
+
+  get Constructor() {
+    return this.constructor as typeof DynamicBytes;
+  }
+
+  // dynamic subclassing infra
+  static _maxLength?: number;
+  static _provable?: ProvablePureExtended<
+    DynamicBytes,
+    { bytes: { value: string }[]; length: string }
+  >;
+
+  /**
+   * The maximum length of the {@link DynamicBytes}.
+   */
+  static get maxLength() {
+    assert(this._maxLength !== undefined, 'DynamicBytes not initialized');
+    return this._maxLength;
+  }
+
+  /**
+   * `Provable<DynamicBytes>`
+   */
+  static get provable() {
+    assert(this._provable !== undefined, 'DynamicBytes not initialized');
+    return this._provable;
+  }
+}
+
+function createDynamicBytes(maxLength: number): typeof DynamicBytes {
+  assert(
+    Number.isInteger(maxLength) && maxLength >= 0 && maxLength < 2 ** 32,
+    `Expected maxLength to be an integer in [0, 2^32), got ${maxLength}`
+  );
+  return class DynamicBytes_ extends DynamicBytes {
+    static _maxLength = maxLength;
+    static _provable = provableFromClass(DynamicBytes_, {
+      bytes: Provable.Array(UInt8, maxLength),
+      length: Field,
+    });
+
+    static check(x: { bytes: UInt8[]; length: Field }) {
+      x.bytes.forEach((byte) => UInt8.check(byte));
+      // length is in [0, maxLength]
+      RangeCheck.rangeCheck32(x.length);
+      RangeCheck.rangeCheck32(Field(maxLength).sub(x.length).seal());
+    }
+  };
+}
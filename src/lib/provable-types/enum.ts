@@ -0,0 +1,219 @@
+import { Bool, Field } from '../core.js';
+import type { FlexibleProvablePure } from '../circuit-value.js';
+import type { InferProvable } from '../../bindings/lib/provable-snarky.js';
+import { assert } from '../gadgets/common.js';
+import { Provable } from '../provable.js';
+
+export { Enum };
+
+type Variants = Record<string, FlexibleProvablePure<any>>;
+
+/**
+ * A value of a provable enum, i.e. one of several variant types, tagged by the variant index.
+ */
+type Enum<V extends Variants> = {
+  tag: Field;
+  data: Field[];
+
+  /**
+   * Checks whether the value is of the given variant.
+   */
+  is(variant: keyof V & string): Bool;
+
+  /**
+   * Asserts that the value is of the given variant, and returns the variant value.
+   */
+  assertIs<K extends keyof V & string>(
+    variant: K,
+    message?: string
+  ): InferProvable<V[K]>;
+
+  /**
+   * Runs the branch for every variant, and returns the result of the branch which matches the value.
+   *
+   * Since all branches are executed, the branches of inactive variants are called with the empty value of their variant.
+   */
+  match<R>(
+    resultType: Provable<R>,
+    branches: { [K in keyof V & string]: (value: InferProvable<V[K]>) => R }
+  ): R;
+};
+
+/**
+ * Create a provable tagged union of the given variant types.
+ *
+ * A value is represented by a `tag`, which is the index of its variant, and the fields of the variant value,
+ * padded with zeros to the size of the largest variant. So, all values have the same size.
+ *
+ * ```ts
+ * class Action extends Enum({ Transfer: TransferAction, Mint: MintAction }) {}
+ *
+ * let action = Action.from('Mint', new MintAction({ ... }));
+ *
+ * let amount = action.match(UInt64, {
+ *   Transfer: (transfer) => transfer.amount,
+ *   Mint: (mint) => mint.amount,
+ * });
+ * ```
+ *
+ * Since the variants are pure provable types, an enum can be used as the `actionType` of a reducer.
+ */
+function Enum<V extends Variants>(
+  variants: V
+): Provable<Enum<V>> &
+  (new (value: { tag: Field; data: Field[] }) => Enum<V>) & {
+    /**
+     * The variant names, in the order of their tags.
+     */
+    variants: (keyof V & string)[];
+
+    /**
+     * Create an enum value of the given variant.
+     */
+    from<K extends keyof V & string>(
+      variant: K,
+      value: InferProvable<V[K]>
+    ): Enum<V>;
+
+    /**
+     * Returns the tag of a variant.
+     */
+    tagOf(variant: keyof V & string): number;
+
+    toInput(value: Enum<V>): { fields?: Field[] };
+    toJSON(value: Enum<V>): { tag: string; data: string[] };
+    fromJSON(json: { tag: string; data: string[] }): Enum<V>;
+    empty(): Enum<V>;
+  } {
+  let names = Object.keys(variants) as (keyof V & string)[];
+  assert(names.length > 0, 'Enum: expected at least one variant');
+  let types = names.map((name) => variants[name] as Provable<any>);
+  let sizes = types.map((type) => type.sizeInFields());
+  let size = Math.max(...sizes);
+
+  function tagOf(variant: keyof V & string) {
+    let tag = names.indexOf(variant);
+    assert(tag !== -1, `Enum: unknown variant ${variant}`);
+    return tag;
+  }
+
+  function decode(tag: number, data: Field[]) {
+    let type = types[tag];
+    return type.fromFields(data.slice(0, sizes[tag]), type.toAuxiliary());
+  }
+
+  function dummy(tag: number) {
+    let type = types[tag];
+    if ('empty' in type && typeof type.empty === 'function') {
+      return type.empty();
+    }
+    return decode(tag, Array(size).fill(Field(0)));
+  }
+
+  // the value of variant `tag` if `isActive`, and the dummy value otherwise
+  function decodeIf(isActive: Bool, tag: number, data: Field[]) {
+    return Provable.if(isActive, types[tag], decode(tag, data), dummy(tag));
+  }
+
+  // not a `Struct`, to avoid importing circuit-value.ts into provable.ts
+  return class Enum_ {
+    tag: Field;
+    data: Field[];
+
+    constructor({ tag, data }: { tag: Field; data: Field[] }) {
+      this.tag = tag;
+      this.data = data;
+    }
+
+    static variants = names;
+
+    static from<K extends keyof V & string>(
+      variant: K,
+      value: InferProvable<V[K]>
+    ): Enum_ {
+      let tag = tagOf(variant);
+      let fields = types[tag].toFields(value);
+      let padding = Array(size - fields.length).fill(Field(0));
+      return new Enum_({ tag: Field(tag), data: [...fields, ...padding] });
+    }
+
+    static tagOf(variant: keyof V & string) {
+      return tagOf(variant);
+    }
+
+    static empty(): Enum_ {
+      return Enum_.from(names[0], dummy(0));
+    }
+
+    static check(value: { tag: Field; data: Field[] }) {
+      let mask = names.map((_, i) => value.tag.equals(i));
+      mask
+        .reduce((a, b) => a.or(b), Bool(false))
+        .assertTrue('Enum: invalid tag');
+
+      // the active variant is valid
+      types.forEach((type, i) => type.check(decodeIf(mask[i], i, value.data)));
+
+      // the padding is zero, so that every value has a unique representation
+      for (let j = 0; j < size; j++) {
+        let isPadding = mask
+          .filter((_, i) => sizes[i] <= j)
+          .reduce((a, b) => a.or(b), Bool(false));
+        value.data[j].mul(isPadding.toField()).assertEquals(0);
+      }
+    }
+
+    static sizeInFields() {
+      return 1 + size;
+    }
+    static toFields(value: { tag: Field; data: Field[] }) {
+      return [value.tag, ...value.data];
+    }
+    static toAuxiliary(): [] {
+      return [];
+    }
+    static fromFields([tag, ...data]: Field[]) {
+      return new Enum_({ tag, data });
+    }
+    static toInput(value: { tag: Field; data: Field[] }) {
+      return { fields: Enum_.toFields(value) };
+    }
+    static toJSON(value: { tag: Field; data: Field[] }) {
+      return {
+        tag: value.tag.toString(),
+        data: value.data.map((x) => x.toString()),
+      };
+    }
+    static fromJSON(json: { tag: string; data: string[] }) {
+      return new Enum_({
+        tag: Field(json.tag),
+        data: json.data.map((x) => Field(x)),
+      });
+    }
+
+    is(variant: keyof V & string) {
+      return this.tag.equals(tagOf(variant));
+    }
+
+    assertIs<K extends keyof V & string>(
+      variant: K,
+      message?: string
+    ): InferProvable<V[K]> {
+      this.is(variant).assertTrue(
+        message ?? `Enum: expected variant ${variant}`
+      );
+      return decode(tagOf(variant), this.data);
+    }
+
+    match<R>(
+      resultType: Provable<R>,
+      branches: { [K in keyof V & string]: (value: InferProvable<V[K]>) => R }
+    ): R {
+      let mask = names.map((_, i) => this.tag.equals(i));
+      let results = names.map((name, i) =>
+        branches[name](decodeIf(mask[i], i, this.data))
+      );
+      return Provable.switch(mask, resultType, results);
+    }
+  };
+}
@@ -0,0 +1,81 @@
+import { Bool, Field } from '../core.js';
+import { Struct } from '../circuit-value.js';
+import { UInt64 } from '../int.js';
+import { PublicKey } from '../signature.js';
+import { Provable } from '../provable.js';
+import { Enum } from './enum.js';
+import { expect } from 'expect';
+
+console.log('enum tests');
+
+class Transfer extends Struct({
+  to: PublicKey,
+  amount: UInt64,
+}) {}
+class Mint extends Struct({ amount: UInt64 }) {}
+
+class Action extends Enum({ Transfer, Mint, Burn: UInt64 }) {}
+
+let to = PublicKey.empty();
+
+// layout is sized to the largest variant
+expect(Action.sizeInFields()).toEqual(1 + Transfer.sizeInFields());
+expect(Action.variants).toEqual(['Transfer', 'Mint', 'Burn']);
+expect(Action.tagOf('Burn')).toEqual(2);
+
+Provable.runAndCheck(() => {
+  let transfer = Provable.witness(Action, () =>
+    Action.from('Transfer', new Transfer({ to, amount: UInt64.from(5) }))
+  );
+  let mint = Provable.witness(Action, () =>
+    Action.from('Mint', new Mint({ amount: UInt64.from(7) }))
+  );
+
+  transfer.is('Transfer').assertTrue();
+  transfer.is('Mint').assertFalse();
+  mint.is('Mint').assertTrue();
+  mint.assertIs('Mint').amount.assertEquals(UInt64.from(7));
+
+  // match runs every branch and selects the active one
+  let amountOf = (action: Action) =>
+    action.match(Field, {
+      Transfer: (t) => t.amount.value,
+      Mint: (m) => m.amount.value.neg(),
+      Burn: (b) => b.value.mul(2),
+    });
+  amountOf(transfer).assertEquals(5);
+  amountOf(mint).assertEquals(-7);
+  amountOf(Action.from('Burn', UInt64.from(3))).assertEquals(6);
+
+  // inactive branches receive the empty value
+  mint
+    .match(Bool, {
+      Transfer: (t) => t.amount.equals(UInt64.zero),
+      Mint: () => Bool(true),
+      Burn: (b) => b.equals(UInt64.zero),
+    })
+    .assertTrue();
+});
+
+// invalid tags, invalid variant values and non-zero padding are rejected
+let witnessFails = (tag: number, data: Field[]) =>
+  expect(() =>
+    Provable.runAndCheck(() => {
+      Provable.witness(Action, () => new Action({ tag: Field(tag), data }));
+    })
+  ).toThrow();
+
+let size = Action.sizeInFields() - 1;
+let zeros = (n: number) => Array<Field>(n).fill(Field(0));
+
+witnessFails(3, zeros(size));
+witnessFails(2, [Field(-1), ...zeros(size - 1)]);
+witnessFails(2, [Field(1), Field(1), ...zeros(size - 2)]);
+
+expect(() => Action.tagOf('Stake' as any)).toThrow('unknown variant');
+
+// json round-trips
+let burn = Action.from('Burn', UInt64.from(3));
+expect(Action.fromJSON(Action.toJSON(burn)).is('Burn').toBoolean()).toEqual(
+  true
+);
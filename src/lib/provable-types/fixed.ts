@@ -0,0 +1,577 @@
+import { provableFromClass } from '../../bindings/lib/provable-snarky.js';
+import type { ProvablePureExtended } from '../circuit-value.js';
+import { Bool, Field } from '../core.js';
+import { assert } from '../gadgets/common.js';
+import * as RangeCheck from '../gadgets/range-check.js';
+import { Int64, Sign, UInt64 } from '../int.js';
+import { Provable } from '../provable.js';
+
+// external API
+export { UFixed, Fixed, RoundingMode };
+
+// internal API
+export { createUFixed, createFixed };
+
+/**
+ * How to round the result of a multiplication or division to the number of decimals of a fixed-point type.
+ *
+ * - `'floor'`: towards negative infinity
+ * - `'ceil'`: towards positive infinity
+ * - `'trunc'`: towards zero
+ * - `'round'`: to the nearest value, with ties rounded away from zero
+ */
+type RoundingMode = 'floor' | 'ceil' | 'trunc' | 'round';
+
+// 10^18 < 2^64, so that the scale fits into a UInt64
+const MAX_DECIMALS = 18;
+
+/**
+ * A provable unsigned fixed-point decimal number with a fixed number of decimals.
+ *
+ * The value is stored as a {@link UInt64} which holds the number multiplied by `10^decimals`.
+ *
+ * ```ts
+ * class Share extends UFixed(6) {}
+ *
+ * let share = Share.from('0.35');
+ * let mass = Share.from(120);
+ * mass.mul(share, 'round').toString(); // '42.000000'
+ * ```
+ */
+class UFixed {
+  value: UInt64;
+
+  /**
+   * Create a fixed-point number from its scaled representation, i.e. the number multiplied by `10^decimals`.
+   */
+  constructor(value: UInt64) {
+    this.value = value;
+  }
+
+  /**
+   * Coerce the input to a fixed-point number.
+   *
+   * Strings can contain up to `decimals` digits after the decimal point, like `'12.345'`.
+   */
+  static from<T extends typeof UFixed>(
+    this: T,
+    x: UFixed | string | number | bigint
+  ): InstanceType<T> {
+    if (x instanceof UFixed) {
+      assert(
+        x.Constructor.decimals === this.decimals,
+        `Expected ${this.decimals} decimals, got ${x.Constructor.decimals}`
+      );
+      return new this(x.value) as InstanceType<T>;
+    }
+    let scaled = parseDecimal(x, this.decimals);
+    assert(scaled >= 0n, `Expected a non-negative number, got ${x}`);
+    return new this(UInt64.from(scaled)) as InstanceType<T>;
+  }
+
+  /**
+   * Addition with overflow checking.
+   */
+  add(y: this | string | number | bigint) {
+    return this.create(this.value.add(this.Constructor.from(y).value));
+  }
+
+  /**
+   * Subtraction with underflow checking.
+   */
+  sub(y: this | string | number | bigint) {
+    return this.create(this.value.sub(this.Constructor.from(y).value));
+  }
+
+  /**
+   * Multiplication, where the result is rounded to `decimals` digits with the given rounding mode.
+   *
+   * Fails if the result doesn't fit.
+   */
+  mul(y: this | string | number | bigint, rounding: RoundingMode = 'floor') {
+    let y_ = this.Constructor.from(y);
+    let product = this.value.value.mul(y_.value.value);
+    let scale = Field(this.Constructor.scale);
+    return this.create(divideRounded(product, scale, rounding, Bool(false)));
+  }
+
+  /**
+   * Division, where the result is rounded to `decimals` digits with the given rounding mode.
+   *
+   * Fails on division by zero, or if the result doesn't fit.
+   */
+  div(y: this | string | number | bigint, rounding: RoundingMode = 'floor') {
+    let y_ = this.Constructor.from(y);
+    let numerator = this.value.value.mul(this.Constructor.scale);
+    return this.create(
+      divideRounded(numerator, y_.value.value, rounding, Bool(false))
+    );
+  }
+
+  /**
+   * Checks if two values are equal.
+   */
+  equals(y: this | string | number | bigint) {
+    return this.value.value.equals(this.Constructor.from(y).value.value);
+  }
+  /**
+   * Asserts that two values are equal.
+   */
+  assertEquals(y: this | string | number | bigint, message?: string) {
+    this.value.value.assertEquals(
+      this.Constructor.from(y).value.value,
+      message
+    );
+  }
+  /**
+   * Checks if this value is less than another one.
+   */
+  lessThan(y: this | string | number | bigint) {
+    return this.value.lessThan(this.Constructor.from(y).value);
+  }
+  /**
+   * Checks if this value is less than or equal to another one.
+   */
+  lessThanOrEqual(y: this | string | number | bigint) {
+    return this.value.lessThanOrEqual(this.Constructor.from(y).value);
+  }
+  /**
+   * Checks if this value is greater than another one.
+   */
+  greaterThan(y: this | string | number | bigint) {
+    return this.value.greaterThan(this.Constructor.from(y).value);
+  }
+  /**
+   * Checks if this value is greater than or equal to another one.
+   */
+  greaterThanOrEqual(y: this | string | number | bigint) {
+    return this.value.greaterThanOrEqual(this.Constructor.from(y).value);
+  }
+  /**
+   * Asserts that this value is less than another one.
+   */
+  assertLessThan(y: this | string | number | bigint, message?: string) {
+    this.value.assertLessThan(this.Constructor.from(y).value, message);
+  }
+  /**
+   * Asserts that this value is less than or equal to another one.
+   */
+  assertLessThanOrEqual(y: this | string | number | bigint, message?: string) {
+    this.value.assertLessThanOrEqual(this.Constructor.from(y).value, message);
+  }
+  /**
+   * Asserts that this value is greater than another one.
+   */
+  assertGreaterThan(y: this | string | number | bigint, message?: string) {
+    this.value.assertGreaterThan(this.Constructor.from(y).value, message);
+  }
+  /**
+   * Asserts that this value is greater than or equal to another one.
+   */
+  assertGreaterThanOrEqual(
+    y: this | string | number | bigint,
+    message?: string
+  ) {
+    this.value.assertGreaterThanOrEqual(
+      this.Constructor.from(y).value,
+      message
+    );
+  }
+
+  /**
+   * Returns the number as a decimal string with exactly `decimals` digits after the decimal point.
+   *
+   * **Warning**: This operation is not provable.
+   */
+  toString() {
+    return formatDecimal(this.value.toBigInt(), this.Constructor.decimals);
+  }
+
+  private create(value: UInt64) {
+    return new this.Constructor(value) as this;
+  }
+
+  get Constructor() {
+    return this.constructor as typeof UFixed;
+  }
+
+  // dynamic subclassing infra
+  static _decimals?: number;
+  static _provable?: ProvablePureExtended<UFixed, { value: string }>;
+
+  /**
+   * The number of decimals.
+   */
+  static get decimals() {
+    assert(this._decimals !== undefined, 'UFixed not initialized');
+    return this._decimals;
+  }
+
+  /**
+   * The scaling factor `10^decimals`.
+   */
+  static get scale() {
+    return 10n ** BigInt(this.decimals);
+  }
+
+  /**
+   * `Provable<UFixed>`
+   */
+  static get provable() {
+    assert(this._provable !== undefined, 'UFixed not initialized');
+    return this._provable;
+  }
+}
+
+/**
+ * A provable signed fixed-point decimal number with a fixed number of decimals.
+ *
+ * The value is stored as an {@link Int64} which holds the number multiplied by `10^decimals`.
+ *
+ * ```ts
+ * class Price extends Fixed(2) {}
+ *
+ * let delta = Price.from('-3.50').mul('1.5', 'floor');
+ * delta.toString(); // '-5.25'
+ * ```
+ */
+class Fixed {
+  value: Int64;
+
+  /**
+   * Create a fixed-point number from its scaled representation, i.e. the number multiplied by `10^decimals`.
+   */
+  constructor(value: Int64) {
+    this.value = value;
+  }
+
+  /**
+   * Coerce the input to a fixed-point number.
+   *
+   * Strings can contain up to `decimals` digits after the decimal point, like `'-12.345'`.
+   */
+  static from<T extends typeof Fixed>(
+    this: T,
+    x: Fixed | string | number | bigint
+  ): InstanceType<T> {
+    if (x instanceof Fixed) {
+      assert(
+        x.Constructor.decimals === this.decimals,
+        `Expected ${this.decimals} decimals, got ${x.Constructor.decimals}`
+      );
+      return new this(x.value) as InstanceType<T>;
+    }
+    let scaled = parseDecimal(x, this.decimals);
+    return new this(Int64.from(scaled)) as InstanceType<T>;
+  }
+
+  /**
+   * Addition with overflow checking.
+   */
+  add(y: this | string | number | bigint) {
+    return this.create(this.value.add(this.Constructor.from(y).value));
+  }
+
+  /**
+   * Subtraction with overflow checking.
+   */
+  sub(y: this | string | number | bigint) {
+    return this.create(this.value.sub(this.Constructor.from(y).value));
+  }
+
+  /**
+   * Negation.
+   */
+  neg() {
+    return this.create(this.value.neg());
+  }
+
+  /**
+   * Multiplication, where the result is rounded to `decimals` digits with the given rounding mode.
+   *
+   * Fails if the result doesn't fit.
+   */
+  mul(y: this | string | number | bigint, rounding: RoundingMode = 'floor') {
+    let y_ = this.Constructor.from(y);
+    let product = this.value.magnitude.value.mul(y_.value.magnitude.value);
+    let scale = Field(this.Constructor.scale);
+    return this.fromMagnitude(product, scale, y_.value.sgn, rounding);
+  }
+
+  /**
+   * Division, where the result is rounded to `decimals` digits with the given rounding mode.
+   *
+   * Fails on division by zero, or if the result doesn't fit.
+   */
+  div(y: this | string | number | bigint, rounding: RoundingMode = 'floor') {
+    let y_ = this.Constructor.from(y);
+    let numerator = this.value.magnitude.value.mul(this.Constructor.scale);
+    return this.fromMagnitude(
+      numerator,
+      y_.value.magnitude.value,
+      y_.value.sgn,
+      rounding
+    );
+  }
+
+  /**
+   * Checks if two values are equal.
+   */
+  equals(y: this | string | number | bigint) {
+    return this.value.equals(this.Constructor.from(y).value);
+  }
+  /**
+   * Asserts that two values are equal.
+   */
+  assertEquals(y: this | string | number | bigint, message?: string) {
+    this.value.assertEquals(this.Constructor.from(y).value, message);
+  }
+  /**
+   * Checks if this value is less than another one.
+   */
+  lessThan(y: this | string | number | bigint) {
+    return this.value.lessThan(this.Constructor.from(y).value);
+  }
+  /**
+   * Checks if this value is less than or equal to another one.
+   */
+  lessThanOrEqual(y: this | string | number | bigint) {
+    return this.value.lessThanOrEqual(this.Constructor.from(y).value);
+  }
+  /**
+   * Checks if this value is greater than another one.
+   */
+  greaterThan(y: this | string | number | bigint) {
+    return this.value.greaterThan(this.Constructor.from(y).value);
+  }
+  /**
+   * Checks if this value is greater than or equal to another one.
+   */
+  greaterThanOrEqual(y: this | string | number | bigint) {
+    return this.value.greaterThanOrEqual(this.Constructor.from(y).value);
+  }
+  /**
+   * Asserts that this value is less than another one.
+   */
+  assertLessThan(y: this | string | number | bigint, message?: string) {
+    this.value.assertLessThan(this.Constructor.from(y).value, message);
+  }
+  /**
+   * Asserts that this value is less than or equal to another one.
+   */
+  assertLessThanOrEqual(y: this | string | number | bigint, message?: string) {
+    this.value.assertLessThanOrEqual(this.Constructor.from(y).value, message);
+  }
+  /**
+   * Asserts that this value is greater than another one.
+   */
+  assertGreaterThan(y: this | string | number | bigint, message?: string) {
+    this.value.assertGreaterThan(this.Constructor.from(y).value, message);
+  }
+  /**
+   * Asserts that this value is greater than or equal to another one.
+   */
+  assertGreaterThanOrEqual(
+    y: this | string | number | bigint,
+    message?: string
+  ) {
+    this.value.assertGreaterThanOrEqual(
+      this.Constructor.from(y).value,
+      message
+    );
+  }
+
+  /**
+   * Returns the number as a decimal string with exactly `decimals` digits after the decimal point.
+   *
+   * **Warning**: This operation is not provable.
+   */
+  toString() {
+    let magnitude = this.value.magnitude.toBigInt();
+    let sign =
+      this.value.isPositive().toBoolean() || magnitude === 0n ? '' : '-';
+    return sign + formatDecimal(magnitude, this.Constructor.decimals);
+  }
+
+  /**
+   * Computes the product of signs with `otherSign`, and the magnitude of the result
+   * by dividing `numerator / denominator`, rounded in the given mode.
+   */
+  private fromMagnitude(
+    numerator: Field,
+    denominator: Field,
+    otherSign: Sign,
+    rounding: RoundingMode
+  ) {
+    let sign = this.value.sgn.mul(otherSign);
+    let isNegative = sign.isPositive().not();
+    let magnitude = divideRounded(numerator, denominator, rounding, isNegative);
+    return this.create(new Int64(magnitude, sign));
+  }
+
+  private create(value: Int64) {
+    return new this.Constructor(value) as this;
+  }
+
+  get Constructor() {
+    return this.constructor as typeof Fixed;
+  }
+
+  // dynamic subclassing infra
+  static _decimals?: number;
+  static _provable?: ProvablePureExtended<
+    Fixed,
+    { value: { magnitude: string; sgn: string } }
+  >;
+
+  /**
+   * The number of decimals.
+   */
+  static get decimals() {
+    assert(this._decimals !== undefined, 'Fixed not initialized');
+    return this._decimals;
+  }
+
+  /**
+   * The scaling factor `10^decimals`.
+   */
+  static get scale() {
+    return 10n ** BigInt(this.decimals);
+  }
+
+  /**
+   * `Provable<Fixed>`
+   */
+  static get provable() {
+    assert(this._provable !== undefined, 'Fixed not initialized');
+    return this._provable;
+  }
+}
+
+function createUFixed(decimals: number): typeof UFixed {
+  checkDecimals(decimals);
+  return class UFixed_ extends UFixed {
+    static _decimals = decimals;
+    static _provable = provableFromClass(UFixed_, { value: UInt64 });
+  };
+}
+
+function createFixed(decimals: number): typeof Fixed {
+  checkDecimals(decimals);
+  return class Fixed_ extends Fixed {
+    static _decimals = decimals;
+    static _provable = provableFromClass(Fixed_, { value: Int64 });
+  };
+}
+
+// helpers
+
+/**
+ * Computes the magnitude `numerator / denominator`, rounded according to `rounding`, as a {@link UInt64}.
+ *
+ * `isNegative` is the sign of the final result, which determines the rounding direction for `'floor'` and `'ceil'`.
+ *
+ * Assumes that `numerator` < 2^128 and `denominator` < 2^64.
+ */
+function divideRounded(
+  numerator: Field,
+  denominator: Field,
+  rounding: RoundingMode,
+  isNegative: Bool
+) {
+  if (numerator.isConstant() && denominator.isConstant()) {
+    let [n, d] = [numerator.toBigInt(), denominator.toBigInt()];
+    assert(d !== 0n, 'Division by zero');
+    let [q, r] = [n / d, n % d];
+    let roundUp = isRoundingUp(
+      rounding,
+      isNegative.toBoolean(),
+      r !== 0n,
+      2n * r >= d
+    );
+    return UInt64.from(roundUp ? q + 1n : q);
+  }
+
+  // numerator = q * denominator + r, where 0 <= r < denominator
+  let [q, r] = Provable.witness(Provable.Array(Field, 2), () => {
+    let [n, d] = [numerator.toBigInt(), denominator.toBigInt()];
+    if (d === 0n) return [Field(0), Field(n)];
+    return [Field(n / d), Field(n % d)];
+  });
+  RangeCheck.rangeCheck64(q);
+  RangeCheck.rangeCheck64(r);
+  RangeCheck.rangeCheckN(
+    64,
+    denominator.sub(r).sub(1).seal(),
+    'Division by zero'
+  );
+  q.mul(denominator).add(r).assertEquals(numerator);
+
+  // 2r >= d  <=>  2r - d in [0, 2^65)
+  let isNonZero = r.equals(0).not();
+  let isHalfOrMore = RangeCheck.isInRangeN(80, r.mul(2).sub(denominator));
+  let roundUp: Bool;
+  switch (rounding) {
+    case 'trunc':
+      roundUp = Bool(false);
+      break;
+    case 'round':
+      roundUp = isHalfOrMore;
+      break;
+    case 'floor':
+      roundUp = isNegative.and(isNonZero);
+      break;
+    case 'ceil':
+      roundUp = isNegative.not().and(isNonZero);
+      break;
+  }
+  let result = q.add(roundUp.toField()).seal();
+  RangeCheck.rangeCheck64(result);
+  return new UInt64(result);
+}
+
+function isRoundingUp(
+  rounding: RoundingMode,
+  isNegative: boolean,
+  isNonZero: boolean,
+  isHalfOrMore: boolean
+) {
+  switch (rounding) {
+    case 'trunc':
+      return false;
+    case 'round':
+      return isHalfOrMore;
+    case 'floor':
+      return isNegative && isNonZero;
+    case 'ceil':
+      return !isNegative && isNonZero;
+  }
+}
+
+function parseDecimal(x: string | number | bigint, decimals: number) {
+  if (typeof x === 'bigint') return x * 10n ** BigInt(decimals);
+  let s = String(x).trim();
+  let match = s.match(/^(-?)(\d+)(?:\.(\d*))?$/);
+  assert(match !== null, `Invalid decimal number: ${s}`);
+  let [, sign, integer, fraction = ''] = match;
+  fraction = fraction.replace(/0+$/, '');
+  assert(
+    fraction.length <= decimals,
+    `Expected at most ${decimals} decimals, got ${s}`
+  );
+  let scaled = BigInt(integer + fraction.padEnd(decimals, '0'));
+  return sign === '-' ? -scaled : scaled;
+}
+
+function formatDecimal(x: bigint, decimals: number) {
+  if (decimals === 0) return x.toString();
+  let s = x.toString().padStart(decimals + 1, '0');
+  return s.slice(0, -decimals) + '.' + s.slice(-decimals);
+}
+
+function checkDecimals(decimals: number) {
+  assert(
+    Number.isInteger(decimals) && decimals >= 0 && decimals <= MAX_DECIMALS,
+    `Expected between 0 and ${MAX_DECIMALS} decimals, got ${decimals}`
+  );
+}
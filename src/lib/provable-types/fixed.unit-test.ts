@@ -0,0 +1,136 @@
+import { UFixed, Fixed } from './provable-types.js';
+import type { RoundingMode } from './fixed.js';
+import { Provable } from '../provable.js';
+import { Int64, UInt64 } from '../int.js';
+import { test, Random } from '../testing/property.js';
+import { expect } from 'expect';
+
+console.log('fixed-point tests');
+
+const roundingModes: RoundingMode[] = ['floor', 'ceil', 'trunc', 'round'];
+
+// reference implementation of rounded division on bigints
+function divide(n: bigint, d: bigint, rounding: RoundingMode) {
+  let negative = n < 0n !== d < 0n;
+  let [nAbs, dAbs] = [n < 0n ? -n : n, d < 0n ? -d : d];
+  let [q, r] = [nAbs / dAbs, nAbs % dAbs];
+  let roundUp =
+    rounding === 'round'
+      ? 2n * r >= dAbs
+      : rounding === 'floor'
+      ? negative && r !== 0n
+      : rounding === 'ceil'
+      ? !negative && r !== 0n
+      : false;
+  let magnitude = roundUp ? q + 1n : q;
+  return negative ? -magnitude : magnitude;
+}
+
+// parsing and formatting
+
+class UFixed6 extends UFixed(6) {}
+class Fixed2 extends Fixed(2) {}
+
+expect(UFixed6.from('12.5').toString()).toEqual('12.500000');
+expect(UFixed6.from(3).toString()).toEqual('3.000000');
+expect(UFixed6.from('0.000001').value.toBigInt()).toEqual(1n);
+expect(Fixed2.from('-0.5').toString()).toEqual('-0.50');
+expect(Fixed2.from(-7n).toString()).toEqual('-7.00');
+expect(() => UFixed6.from('0.0000001')).toThrow('at most 6 decimals');
+expect(() => UFixed6.from('-1')).toThrow('non-negative');
+expect(() => UFixed6.from('1e3')).toThrow('Invalid decimal');
+expect(() => UFixed(19)).toThrow('between 0 and 18');
+
+// examples from the doc comments
+expect(UFixed6.from(120).mul('0.35', 'round').toString()).toEqual('42.000000');
+expect(UFixed6.from('1.5').div('3', 'round').toString()).toEqual('0.500000');
+expect(Fixed2.from('-1').div('3', 'floor').toString()).toEqual('-0.34');
+expect(Fixed2.from('-3.50').mul('1.5', 'floor').toString()).toEqual('-5.25');
+
+// provable operations match bigint arithmetic on scaled values
+
+let scale = UFixed6.scale;
+let ufixed = Random.biguint(40);
+let fixed = Random.map(Random.biguint(41), (x) => BigInt.asIntN(41, x));
+
+test(ufixed, ufixed, (x, y) => {
+  Provable.runAndCheck(() => {
+    let xVar = Provable.witness(
+      UFixed6.provable,
+      () => new UFixed6(UInt64.from(x))
+    );
+    let yVar = Provable.witness(
+      UFixed6.provable,
+      () => new UFixed6(UInt64.from(y))
+    );
+
+    if (x >= y) xVar.sub(yVar).value.value.assertEquals(x - y);
+    xVar.add(yVar).value.value.assertEquals(x + y);
+
+    for (let rounding of roundingModes) {
+      xVar
+        .mul(yVar, rounding)
+        .value.value.assertEquals(divide(x * y, scale, rounding));
+      if (y !== 0n) {
+        xVar
+          .div(yVar, rounding)
+          .value.value.assertEquals(divide(x * scale, y, rounding));
+      }
+    }
+
+    xVar.lessThan(yVar).assertEquals(x < y);
+    xVar.lessThanOrEqual(yVar).assertEquals(x <= y);
+    xVar.greaterThan(yVar).assertEquals(x > y);
+    xVar.greaterThanOrEqual(yVar).assertEquals(x >= y);
+    xVar.equals(yVar).assertEquals(x === y);
+  });
+});
+
+let scale2 = Fixed2.scale;
+
+test(fixed, fixed, (x, y) => {
+  Provable.runAndCheck(() => {
+    let xVar = Provable.witness(
+      Fixed2.provable,
+      () => new Fixed2(Int64.from(x))
+    );
+    let yVar = Provable.witness(
+      Fixed2.provable,
+      () => new Fixed2(Int64.from(y))
+    );
+
+    xVar.add(yVar).value.assertEquals(x + y);
+    xVar.sub(yVar).value.assertEquals(x - y);
+    xVar.neg().value.assertEquals(-x);
+
+    for (let rounding of roundingModes) {
+      xVar
+        .mul(yVar, rounding)
+        .value.assertEquals(divide(x * y, scale2, rounding));
+      if (y !== 0n) {
+        xVar
+          .div(yVar, rounding)
+          .value.assertEquals(divide(x * scale2, y, rounding));
+      }
+    }
+
+    xVar.lessThan(yVar).assertEquals(x < y);
+    xVar.lessThanOrEqual(yVar).assertEquals(x <= y);
+    xVar.greaterThan(yVar).assertEquals(x > y);
+    xVar.greaterThanOrEqual(yVar).assertEquals(x >= y);
+  });
+});
+
+// overflow and division by zero fail in provable code
+
+let failsInCircuit = (f: (x: UFixed6) => void) =>
+  expect(() =>
+    Provable.runAndCheck(() => {
+      f(Provable.witness(UFixed6.provable, () => UFixed6.from('1000000')));
+    })
+  ).toThrow();
+
+failsInCircuit((x) => x.mul(x.mul(x)));
+failsInCircuit((x) => x.div('0'));
+failsInCircuit((x) => x.sub('1000000.000001'));
+failsInCircuit((x) => x.assertLessThan('1'));
@@ -0,0 +1,108 @@
+import { Bool } from '../core.js';
+import { ProvableExtended, Struct } from '../circuit-value.js';
+import { Provable } from '../provable.js';
+
+export { Option };
+
+/**
+ * A provable optional value, represented as `{ isSome: Bool, value: T }`.
+ *
+ * If `isSome` is false, `value` is a dummy which should be ignored.
+ * This is the same shape as the `OrIgnore` and `SetOrKeep` types used in account updates,
+ * so an option can be passed wherever those are expected.
+ */
+type Option<T> = { isSome: Bool; value: T } & {
+  /**
+   * Asserts that the option is some value, and returns the value.
+   */
+  assertSome(message?: string): T;
+
+  /**
+   * Returns the value if the option is some value, and `defaultValue` otherwise.
+   */
+  orElse(defaultValue: T): T;
+
+  /**
+   * Returns this option if it is some value, and `other` otherwise.
+   */
+  or(other: Option<T>): Option<T>;
+
+  /**
+   * Applies `f` to the value, and returns an option of the result which is some value if this option is some value.
+   *
+   * `f` is also evaluated on the dummy value of a none option, so any constraints it adds must hold for the dummy value.
+   */
+  map<S>(type: ProvableExtended<S>, f: (value: T) => S): Option<S>;
+};
+
+/**
+ * Create a provable option type for values of the given type.
+ *
+ * Options have a fixed size: a none option contains the empty value of the type,
+ * so hashing or serializing an option always uses the same number of field elements.
+ *
+ * ```ts
+ * class OptionalAmount extends Option(UInt64) {}
+ *
+ * let amount = OptionalAmount.from(UInt64.from(10));
+ * let none = OptionalAmount.none();
+ *
+ * amount.or(none).assertSome().assertEquals(UInt64.from(10));
+ * none.orElse(UInt64.zero); // UInt64(0)
+ *
+ * // options can be merged with `Provable.if()`
+ * let merged = Provable.if(condition, OptionalAmount, amount, none);
+ * ```
+ */
+function Option<T>(type: ProvableExtended<T>): ProvableExtended<Option<T>> &
+  (new (option: { isSome: Bool; value: T }) => Option<T>) & {
+    /**
+     * Create an option from a value, or a none option if the value is undefined.
+     */
+    from(value?: T): Option<T>;
+    /**
+     * Create an option which contains the given value.
+     */
+    some(value: T): Option<T>;
+    /**
+     * Create an option which contains no value.
+     */
+    none(): Option<T>;
+  } {
+  const Super: Struct<{ isSome: Bool; value: T }> = Struct({
+    isSome: Bool,
+    value: type,
+  });
+
+  return class Option_ extends Super {
+    assertSome(message?: string): T {
+      this.isSome.assertTrue(message);
+      return this.value;
+    }
+
+    orElse(defaultValue: T): T {
+      return Provable.if(this.isSome, type, this.value, defaultValue);
+    }
+
+    or(other: Option<T>): Option<T> {
+      return Provable.if(this.isSome, Option_, this, new Option_(other));
+    }
+
+    map<S>(type: ProvableExtended<S>, f: (value: T) => S): Option<S> {
+      let value = Provable.if(this.isSome, type, f(this.value), type.empty());
+      return new (Option(type))({ isSome: this.isSome, value });
+    }
+
+    static from(value?: T) {
+      return value === undefined ? Option_.none() : Option_.some(value);
+    }
+
+    static some(value: T) {
+      return new Option_({ isSome: Bool(true), value });
+    }
+
+    static none() {
+      return new Option_({ isSome: Bool(false), value: type.empty() });
+    }
+  };
+}
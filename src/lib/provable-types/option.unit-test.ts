@@ -0,0 +1,72 @@
+import { Option } from './option.js';
+import { Bool, Field } from '../core.js';
+import { UInt64 } from '../int.js';
+import { Provable } from '../provable.js';
+import { Poseidon } from '../hash.js';
+import { expect } from 'expect';
+
+console.log('option tests');
+
+class OptionalAmount extends Option(UInt64) {}
+
+Provable.runAndCheck(() => {
+  let some = Provable.witness(OptionalAmount, () =>
+    OptionalAmount.from(UInt64.from(10))
+  );
+  let none = Provable.witness(OptionalAmount, () => OptionalAmount.none());
+
+  some.isSome.assertTrue();
+  none.isSome.assertFalse();
+  none.value.assertEquals(UInt64.zero);
+
+  some.assertSome().assertEquals(UInt64.from(10));
+  some.orElse(UInt64.one).assertEquals(UInt64.from(10));
+  none.orElse(UInt64.one).assertEquals(UInt64.one);
+
+  some.or(none).assertSome().assertEquals(UInt64.from(10));
+  none.or(some).assertSome().assertEquals(UInt64.from(10));
+  none.or(none).isSome.assertFalse();
+
+  // map keeps the none option canonical
+  let doubled = some.map(Field, (x) => x.value.mul(2));
+  doubled.assertSome().assertEquals(20);
+  let mappedNone = none.map(Field, (x) => x.value.add(1));
+  mappedNone.isSome.assertFalse();
+  mappedNone.value.assertEquals(0);
+
+  // merging with Provable.if
+  let merged = Provable.if(Bool(false), OptionalAmount, some, none);
+  merged.isSome.assertFalse();
+  merged.orElse(UInt64.one).assertEquals(UInt64.one);
+
+  // options have a fixed size, and the hash of none doesn't depend on a witness
+  expect(OptionalAmount.sizeInFields()).toEqual(2);
+  Poseidon.hashPacked(OptionalAmount, none).assertEquals(
+    Poseidon.hashPacked(OptionalAmount, OptionalAmount.none())
+  );
+});
+
+// assertSome fails on none
+expect(() =>
+  Provable.runAndCheck(() => {
+    let none = Provable.witness(OptionalAmount, () => OptionalAmount.none());
+    none.assertSome('expected a value');
+  })
+).toThrow('expected a value');
+
+// the value of an option is checked like the underlying type
+expect(() =>
+  Provable.runAndCheck(() => {
+    Provable.witness(
+      OptionalAmount,
+      () => new OptionalAmount({ isSome: Bool(true), value: new UInt64(-1) })
+    );
+  })
+).toThrow();
+
+// serialization round-trips
+let json = OptionalAmount.toJSON(OptionalAmount.from(UInt64.from(5)));
+expect(json).toEqual({ isSome: true, value: '5' });
+expect(OptionalAmount.fromJSON(json).orElse(UInt64.zero).toString()).toEqual(
+  '5'
+);
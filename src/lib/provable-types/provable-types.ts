@@ -1,8 +1,27 @@
 import { Bytes as InternalBytes, createBytes } from './bytes.js';
+import {
+  DynamicBytes as InternalDynamicBytes,
+  createDynamicBytes,
+} from './dynamic-bytes.js';
+import {
+  UFixed as InternalUFixed,
+  Fixed as InternalFixed,
+  createUFixed,
+  createFixed,
+} from './fixed.js';
+import {
+  DynamicArray as InternalDynamicArray,
+  createDynamicArray,
+} from './dynamic-array.js';
+import type { ProvableHashable } from '../hash.js';
 
-export { Bytes };
+export { Bytes, DynamicBytes, UFixed, Fixed, DynamicArray };
 
 type Bytes = InternalBytes;
+type DynamicBytes = InternalDynamicBytes;
+type UFixed = InternalUFixed;
+type Fixed = InternalFixed;
+type DynamicArray<T> = InternalDynamicArray<T>;
 
 /**
  * A provable type representing an array of bytes.
@@ -19,3 +38,69 @@ function Bytes(size: number) {
 Bytes.from = InternalBytes.from;
 Bytes.fromHex = InternalBytes.fromHex;
 Bytes.fromString = InternalBytes.fromString;
+
+/**
+ * A provable type representing an array of bytes with a variable length, up to `maxLength`.
+ *
+ * ```ts
+ * class Payload extends DynamicBytes(1024) {}
+ *
+ * let payload = Payload.fromString('{"sub":"1234567890"}');
+ * payload.length; // Field(20)
+ *
+ * // only the first 20 bytes are hashed
+ * let digest = Hash.SHA2_256.hash(payload);
+ * ```
+ */
+function DynamicBytes(maxLength: number) {
+  return createDynamicBytes(maxLength);
+}
+DynamicBytes.from = InternalDynamicBytes.from;
+DynamicBytes.fromHex = InternalDynamicBytes.fromHex;
+DynamicBytes.fromString = InternalDynamicBytes.fromString;
+
+/**
+ * A provable unsigned fixed-point decimal number with the given number of decimals, between 0 and 18.
+ *
+ * ```ts
+ * class UFixed6 extends UFixed(6) {}
+ *
+ * let x = UFixed6.from('1.5').div('3', 'round');
+ * x.toString(); // '0.500000'
+ * ```
+ */
+function UFixed(decimals: number) {
+  return createUFixed(decimals);
+}
+
+/**
+ * A provable signed fixed-point decimal number with the given number of decimals, between 0 and 18.
+ *
+ * ```ts
+ * class Fixed2 extends Fixed(2) {}
+ *
+ * let x = Fixed2.from('-1').div('3', 'floor');
+ * x.toString(); // '-0.34'
+ * ```
+ */
+function Fixed(decimals: number) {
+  return createFixed(decimals);
+}
+
+/**
+ * A provable dynamic-length array with a fixed maximum length.
+ *
+ * ```ts
+ * class Entries extends DynamicArray(Field, { maxLength: 8 }) {}
+ *
+ * let entries = Entries.from([Field(1), Field(2)]);
+ * entries.push(Field(3));
+ * entries.length; // Field(3)
+ * ```
+ */
+function DynamicArray<T>(
+  type: ProvableHashable<T>,
+  { maxLength }: { maxLength: number }
+) {
+  return createDynamicArray(type, maxLength);
+}
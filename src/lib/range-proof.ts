@@ -0,0 +1,547 @@
+/**
+ * Bulletproofs range proofs for Pedersen commitments on the Pallas curve.
+ *
+ * Paper: https://eprint.iacr.org/2017/1066.pdf
+ *
+ * This is an implementation on JS bigints, which is not provable. It lets anyone who holds a commitment
+ * created by {@link commit} check that the committed value lies in the range [0, 2^n), without compiling a circuit.
+ */
+import {
+  GroupAffine,
+  GroupProjective,
+  Pallas,
+} from '../bindings/crypto/elliptic-curve.js';
+import { Fq } from '../bindings/crypto/finite-field.js';
+import { Poseidon as PoseidonBigint } from '../bindings/crypto/poseidon.js';
+import { prefixToField } from '../bindings/lib/binable.js';
+import { Field as Fp } from '../provable/field-bigint.js';
+import { assert } from './gadgets/common.js';
+import {
+  G as G_,
+  H as H_,
+  PedersenGenerators,
+  commit,
+  decodePoint,
+  deriveGenerator,
+  encodePoint,
+  hexToAffine,
+} from './pedersen.js';
+
+export { RangeProof };
+
+/**
+ * A (possibly aggregated) range proof, which shows that each of `m` Pedersen commitments
+ * commits to a value in the range [0, 2^n).
+ *
+ * The proof size is logarithmic in `n*m`: it consists of `2*log2(n*m) + 4` curve points and 5 scalars.
+ */
+type RangeProof = {
+  A: GroupAffine;
+  S: GroupAffine;
+  T1: GroupAffine;
+  T2: GroupAffine;
+  taux: bigint;
+  mu: bigint;
+  tHat: bigint;
+  L: GroupAffine[];
+  R: GroupAffine[];
+  a: bigint;
+  b: bigint;
+};
+
+const RangeProof = {
+  prove,
+  verify,
+  toJSON,
+  fromJSON,
+};
+
+namespace RangeProof {
+  export type Json = {
+    A: string;
+    S: string;
+    T1: string;
+    T2: string;
+    taux: string;
+    mu: string;
+    tHat: string;
+    L: string[];
+    R: string[];
+    a: string;
+    b: string;
+  };
+}
+
+const supportedBitLengths = [8, 16, 32, 64];
+
+/**
+ * Create a range proof that the values `values[j]`, committed to with blinding factors `blindings[j]`,
+ * all lie in the range [0, 2^bits).
+ *
+ * Returns the proof together with the commitments `commit(values[j], blindings[j])`.
+ *
+ * The number of values must be a power of 2, and `bits` must be one of 8, 16, 32 or 64.
+ * The Pedersen generator set defaults to `'legacy'`, see {@link PedersenGenerators}.
+ *
+ * @example
+ * ```ts
+ * let r = Scalar.random().toBigInt();
+ * let { proof, commitments } = RangeProof.prove([recycledMass], [r], 64);
+ *
+ * // another party, who only holds the commitment
+ * let ok = RangeProof.verify(commitments, proof, 64);
+ * ```
+ */
+function prove(
+  values: bigint[],
+  blindings: bigint[],
+  bits = 64,
+  {
+    generators: generatorSet = 'legacy',
+  }: { generators?: PedersenGenerators } = {}
+): { proof: RangeProof; commitments: bigint[] } {
+  let m = values.length;
+  assert(
+    blindings.length === m,
+    'RangeProof: need one blinding factor per value'
+  );
+  checkParameters(bits, m);
+  for (let v of values) {
+    assert(
+      v >= 0n && v < 1n << BigInt(bits),
+      `RangeProof: value ${v} is not in the range [0, 2^${bits})`
+    );
+  }
+  let n = bits;
+  let N = n * m;
+  let { G, H, gs, hs, u } = generators(N, generatorSet);
+
+  let commitments = values.map((v, j) =>
+    commit(v, blindings[j], { generators: generatorSet })
+  );
+  let transcript = new Transcript(n, commitments);
+
+  // bit decomposition: <aL, 2^n> = v, aR = aL - 1
+  let aL = values.flatMap((v) =>
+    Array.from({ length: n }, (_, i) => (v >> BigInt(i)) & 1n)
+  );
+  let aR = aL.map((a) => Fq.sub(a, 1n));
+  let alpha = Fq.random();
+  let A = msm([H, ...gs, ...hs], [alpha, ...aL, ...aR]);
+
+  let sL = aL.map(() => Fq.random());
+  let sR = aR.map(() => Fq.random());
+  let rho = Fq.random();
+  let S = msm([H, ...gs, ...hs], [rho, ...sL, ...sR]);
+
+  transcript.appendPoints(A, S);
+  let y = transcript.challenge();
+  let z = transcript.challenge();
+
+  let yPowers = powers(y, N);
+  let { zPowers, twoPowers } = offsets(z, n, m);
+
+  // l(X) = l0 + l1*X, r(X) = r0 + r1*X
+  let l0 = aL.map((a) => Fq.sub(a, z));
+  let l1 = sL;
+  let r0 = aR.map((a, i) =>
+    Fq.add(
+      Fq.mul(yPowers[i], Fq.add(a, z)),
+      Fq.mul(zPowers[Math.floor(i / n)], twoPowers[i % n])
+    )
+  );
+  let r1 = sR.map((s, i) => Fq.mul(yPowers[i], s));
+
+  // t(X) = <l(X), r(X)> = t0 + t1*X + t2*X^2
+  let t1 = Fq.add(innerProduct(l0, r1), innerProduct(l1, r0));
+  let t2 = innerProduct(l1, r1);
+  let tau1 = Fq.random();
+  let tau2 = Fq.random();
+  let T1 = msm([G, H], [t1, tau1]);
+  let T2 = msm([G, H], [t2, tau2]);
+
+  transcript.appendPoints(T1, T2);
+  let x = transcript.challenge();
+
+  let l = l0.map((l0i, i) => Fq.add(l0i, Fq.mul(l1[i], x)));
+  let r = r0.map((r0i, i) => Fq.add(r0i, Fq.mul(r1[i], x)));
+  let tHat = innerProduct(l, r);
+
+  let taux = Fq.add(Fq.mul(tau2, Fq.mul(x, x)), Fq.mul(tau1, x));
+  blindings.forEach((gamma, j) => {
+    taux = Fq.add(taux, Fq.mul(zPowers[j], gamma));
+  });
+  let mu = Fq.add(alpha, Fq.mul(rho, x));
+
+  transcript.appendScalars(taux, mu, tHat);
+  let w = transcript.challenge();
+
+  // inner product argument for <l, r> = tHat, with generators gs, hs' = y^(-i)*hs, u' = w*u
+  let yInv = inverse(y);
+  let hsPrime = hs.map((h, i) => Pallas.scale(h, Fq.power(yInv, BigInt(i))));
+  let uPrime = Pallas.scale(u, w);
+
+  let { L, R, a, b } = innerProductProve(transcript, gs, hsPrime, uPrime, l, r);
+
+  let proof: RangeProof = {
+    A: toAffine(A),
+    S: toAffine(S),
+    T1: toAffine(T1),
+    T2: toAffine(T2),
+    taux,
+    mu,
+    tHat,
+    L: L.map(toAffine),
+    R: R.map(toAffine),
+    a,
+    b,
+  };
+  return { proof, commitments };
+}
+
+/**
+ * Verify a range proof, which shows that each of the `commitments` commits to a value in the range [0, 2^bits).
+ *
+ * The commitments are expected in the format returned by {@link commit}, or {@link PedersenCommitment.toBigInt},
+ * and must have been created with the same generator set as the proof.
+ *
+ * @returns true if the proof is valid, false otherwise. Malformed commitments and proof points that are not
+ * on the curve make the proof invalid.
+ */
+function verify(
+  commitments: bigint[],
+  proof: RangeProof,
+  bits = 64,
+  {
+    generators: generatorSet = 'legacy',
+  }: { generators?: PedersenGenerators } = {}
+) {
+  let m = commitments.length;
+  checkParameters(bits, m);
+  let n = bits;
+  let N = n * m;
+  let logN = Math.log2(N);
+  if (proof.L.length !== logN || proof.R.length !== logN) return false;
+
+  let V: GroupProjective[];
+  try {
+    V = commitments.map((c) => Pallas.fromAffine(hexToAffine(c)));
+  } catch {
+    return false;
+  }
+  let proofPoints = [
+    proof.A,
+    proof.S,
+    proof.T1,
+    proof.T2,
+    ...proof.L,
+    ...proof.R,
+  ];
+  if (!V.every((p) => Pallas.isOnCurve(p))) return false;
+  if (!proofPoints.every((p) => Pallas.isOnCurve(Pallas.fromAffine(p))))
+    return false;
+
+  let { G, H, gs, hs, u } = generators(N, generatorSet);
+  let A = Pallas.fromAffine(proof.A);
+  let S = Pallas.fromAffine(proof.S);
+  let T1 = Pallas.fromAffine(proof.T1);
+  let T2 = Pallas.fromAffine(proof.T2);
+  let { taux, mu, tHat } = proof;
+
+  let transcript = new Transcript(n, commitments);
+  transcript.appendPoints(A, S);
+  let y = transcript.challenge();
+  let z = transcript.challenge();
+  transcript.appendPoints(T1, T2);
+  let x = transcript.challenge();
+  transcript.appendScalars(taux, mu, tHat);
+  let w = transcript.challenge();
+
+  let yPowers = powers(y, N);
+  let { zPowers, twoPowers } = offsets(z, n, m);
+
+  // check that tHat = t(x) = t0 + t1*x + t2*x^2:
+  // tHat*G + taux*H = sum_j z^(2+j)*V_j + delta(y,z)*G + x*T1 + x^2*T2
+  let z2 = Fq.mul(z, z);
+  let sumY = yPowers.reduce(Fq.add, 0n);
+  let sumTwo = Fq.sub(Fq.power(2n, BigInt(n)), 1n);
+  let delta = Fq.mul(Fq.sub(z, z2), sumY);
+  for (let zj of zPowers) {
+    delta = Fq.sub(delta, Fq.mul(Fq.mul(zj, z), sumTwo));
+  }
+  let lhs = msm([G, H], [tHat, taux]);
+  let rhs = msm([...V, G, T1, T2], [...zPowers, delta, x, Fq.mul(x, x)]);
+  if (!equal(lhs, rhs)) return false;
+
+  // check the inner product argument for
+  // P = A + x*S - z*sum(gs) + sum_i (z*y^i + z^(2+j)*2^k)*hs'_i - mu*H + tHat*u'
+  // where hs'_i = y^(-i)*hs_i, so the coefficient of hs_i is z + z^(2+j)*2^k*y^(-i)
+  let challenges: bigint[] = [];
+  for (let i = 0; i < logN; i++) {
+    transcript.appendPoints(
+      Pallas.fromAffine(proof.L[i]),
+      Pallas.fromAffine(proof.R[i])
+    );
+    let c = transcript.challenge();
+    if (c === 0n) return false;
+    challenges.push(c);
+  }
+  let challengesInv = challenges.map(inverse);
+
+  // the final generators are sum_i s_i*gs_i and sum_i s_i^(-1)*hs'_i
+  let s = Array.from({ length: N }, (_, i) => {
+    let si = 1n;
+    for (let j = 0; j < logN; j++) {
+      let bit = (i >> (logN - 1 - j)) & 1;
+      si = Fq.mul(si, bit ? challenges[j] : challengesInv[j]);
+    }
+    return si;
+  });
+
+  // we check that P + sum_j (x_j^2*L_j + x_j^(-2)*R_j) - a*sum(s*gs) - b*sum(s^(-1)*hs') - ab*u' = 0
+  let yInv = inverse(y);
+  let yInvPowers = powers(yInv, N);
+  let { a, b } = proof;
+  let points: GroupProjective[] = [A, S, H, u, ...gs, ...hs];
+  let scalars: bigint[] = [
+    1n,
+    x,
+    Fq.negate(mu),
+    Fq.mul(w, Fq.sub(tHat, Fq.mul(a, b))),
+    ...s.map((si) => Fq.sub(Fq.negate(z), Fq.mul(a, si))),
+    ...s.map((si, i) => {
+      let hCoeff = Fq.add(
+        z,
+        Fq.mul(
+          Fq.mul(zPowers[Math.floor(i / n)], twoPowers[i % n]),
+          yInvPowers[i]
+        )
+      );
+      let bCoeff = Fq.mul(Fq.mul(b, inverse(si)), yInvPowers[i]);
+      return Fq.sub(hCoeff, bCoeff);
+    }),
+  ];
+  for (let j = 0; j < logN; j++) {
+    points.push(Pallas.fromAffine(proof.L[j]), Pallas.fromAffine(proof.R[j]));
+    scalars.push(
+      Fq.mul(challenges[j], challenges[j]),
+      Fq.mul(challengesInv[j], challengesInv[j])
+    );
+  }
+  return equal(msm(points, scalars), Pallas.zero);
+}
+
+/**
+ * Serialize a range proof to JSON, with points in compressed hex encoding (see {@link encodePoint}).
+ */
+function toJSON(proof: RangeProof): RangeProof.Json {
+  let point = (p: GroupAffine) => encodePoint(p);
+  let scalar = (x: bigint) => x.toString();
+  return {
+    A: point(proof.A),
+    S: point(proof.S),
+    T1: point(proof.T1),
+    T2: point(proof.T2),
+    taux: scalar(proof.taux),
+    mu: scalar(proof.mu),
+    tHat: scalar(proof.tHat),
+    L: proof.L.map(point),
+    R: proof.R.map(point),
+    a: scalar(proof.a),
+    b: scalar(proof.b),
+  };
+}
+
+/**
+ * Deserialize a range proof from JSON.
+ *
+ * @throws if one of the points is not on the curve or one of the scalars is out of range.
+ */
+function fromJSON(json: RangeProof.Json): RangeProof {
+  let point = (p: string): GroupAffine => {
+    let { x, y } = decodePoint(p);
+    return { x, y, infinity: x === 0n && y === 0n };
+  };
+  let scalar = (x: string) => {
+    let s = BigInt(x);
+    assert(s >= 0n && s < Fq.modulus, 'RangeProof: invalid scalar');
+    return s;
+  };
+  return {
+    A: point(json.A),
+    S: point(json.S),
+    T1: point(json.T1),
+    T2: point(json.T2),
+    taux: scalar(json.taux),
+    mu: scalar(json.mu),
+    tHat: scalar(json.tHat),
+    L: json.L.map(point),
+    R: json.R.map(point),
+    a: scalar(json.a),
+    b: scalar(json.b),
+  };
+}
+
+// inner product argument
+
+function innerProductProve(
+  transcript: Transcript,
+  gs: GroupProjective[],
+  hs: GroupProjective[],
+  u: GroupProjective,
+  a: bigint[],
+  b: bigint[]
+) {
+  let L: GroupProjective[] = [];
+  let R: GroupProjective[] = [];
+
+  while (a.length > 1) {
+    let k = a.length / 2;
+    let [aL, aR] = [a.slice(0, k), a.slice(k)];
+    let [bL, bR] = [b.slice(0, k), b.slice(k)];
+    let [gL, gR] = [gs.slice(0, k), gs.slice(k)];
+    let [hL, hR] = [hs.slice(0, k), hs.slice(k)];
+
+    let cL = innerProduct(aL, bR);
+    let cR = innerProduct(aR, bL);
+    let Li = msm([...gR, ...hL, u], [...aL, ...bR, cL]);
+    let Ri = msm([...gL, ...hR, u], [...aR, ...bL, cR]);
+    L.push(Li);
+    R.push(Ri);
+
+    transcript.appendPoints(Li, Ri);
+    let x = transcript.challenge();
+    let xInv = inverse(x);
+
+    gs = gL.map((g, i) => msm([g, gR[i]], [xInv, x]));
+    hs = hL.map((h, i) => msm([h, hR[i]], [x, xInv]));
+    a = aL.map((ai, i) => Fq.add(Fq.mul(ai, x), Fq.mul(aR[i], xInv)));
+    b = bL.map((bi, i) => Fq.add(Fq.mul(bi, xInv), Fq.mul(bR[i], x)));
+  }
+  return { L, R, a: a[0], b: b[0] };
+}
+
+// Fiat-Shamir transcript
+
+class Transcript {
+  state: bigint;
+
+  constructor(bits: number, commitments: bigint[]) {
+    this.state = PoseidonBigint.hash([
+      prefixToField(Fp, 'BulletproofsRangeProof'),
+      BigInt(bits),
+      BigInt(commitments.length),
+    ]);
+    this.appendPoints(
+      ...commitments.map((c) => Pallas.fromAffine(hexToAffine(c)))
+    );
+  }
+
+  appendPoints(...points: GroupProjective[]) {
+    let fields = points.flatMap((p) => {
+      let { x, y } = Pallas.toAffine(p);
+      return [x, y];
+    });
+    this.state = PoseidonBigint.hash([this.state, ...fields]);
+  }
+
+  appendScalars(...scalars: bigint[]) {
+    // scalars are elements of Fq, which is larger than Fp, so we split them into two limbs
+    let fields = scalars.flatMap((s) => [s >> 128n, s & ((1n << 128n) - 1n)]);
+    this.state = PoseidonBigint.hash([this.state, ...fields]);
+  }
+
+  /**
+   * Returns a challenge in Fp, which is a subset of Fq
+   */
+  challenge() {
+    this.state = PoseidonBigint.hash([this.state]);
+    return this.state;
+  }
+}
+
+// helpers
+
+let generatorCache: { gs: GroupProjective[]; hs: GroupProjective[] } = {
+  gs: [],
+  hs: [],
+};
+
+function generators(N: number, generatorSet: PedersenGenerators) {
+  let { gs, hs } = generatorCache;
+  for (let i = gs.length; i < N; i++) {
+    gs.push(
+      Pallas.fromAffine(toGroupAffine(deriveGenerator('BulletproofsG', i)))
+    );
+    hs.push(
+      Pallas.fromAffine(toGroupAffine(deriveGenerator('BulletproofsH', i)))
+    );
+  }
+  return {
+    G: Pallas.fromAffine(G_),
+    H: Pallas.fromAffine(H_[generatorSet]),
+    gs: gs.slice(0, N),
+    hs: hs.slice(0, N),
+    u: Pallas.fromAffine(toGroupAffine(deriveGenerator('BulletproofsU'))),
+  };
+}
+
+function checkParameters(bits: number, m: number) {
+  assert(
+    supportedBitLengths.includes(bits),
+    `RangeProof: bit length must be one of ${supportedBitLengths.join(', ')}`
+  );
+  assert(
+    m > 0 && Number.isInteger(Math.log2(m)),
+    'RangeProof: number of values must be a power of 2'
+  );
+}
+
+/**
+ * powers z^(2+j) for j = 0, ..., m-1 and 2^k for k = 0, ..., n-1,
+ * which offset the value bits in the aggregated proof
+ */
+function offsets(z: bigint, n: number, m: number) {
+  let zPowers = powers(z, m).map((zj) => Fq.mul(zj, Fq.mul(z, z)));
+  let twoPowers = powers(2n, n);
+  return { zPowers, twoPowers };
+}
+
+function powers(x: bigint, n: number) {
+  let result = [1n];
+  for (let i = 1; i < n; i++) result.push(Fq.mul(result[i - 1], x));
+  return result.slice(0, n);
+}
+
+function innerProduct(a: bigint[], b: bigint[]) {
+  return a.reduce((sum, ai, i) => Fq.add(sum, Fq.mul(ai, b[i])), 0n);
+}
+
+function inverse(x: bigint) {
+  let xInv = Fq.inverse(x);
+  assert(xInv !== undefined, 'RangeProof: challenge is zero');
+  return xInv;
+}
+
+function msm(points: GroupProjective[], scalars: bigint[]) {
+  let sum = Pallas.zero;
+  points.forEach((p, i) => {
+    if (scalars[i] !== 0n) sum = Pallas.add(sum, Pallas.scale(p, scalars[i]));
+  });
+  return sum;
+}
+
+function equal(p: GroupProjective, q: GroupProjective) {
+  let p_ = Pallas.toAffine(p);
+  let q_ = Pallas.toAffine(q);
+  if (p_.infinity || q_.infinity) return p_.infinity === q_.infinity;
+  return p_.x === q_.x && p_.y === q_.y;
+}
+
+function toAffine(p: GroupProjective) {
+  return Pallas.toAffine(p);
+}
+
+function toGroupAffine({ x, y }: { x: bigint; y: bigint }): GroupAffine {
+  return { x, y, infinity: false };
+}
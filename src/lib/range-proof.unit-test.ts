@@ -0,0 +1,70 @@
+import { Fq } from '../bindings/crypto/finite-field.js';
+import { commit } from './pedersen.js';
+import { RangeProof } from './range-proof.js';
+import { expect } from 'expect';
+
+console.log('range proof tests');
+
+// single 64-bit value
+{
+  let v = (1n << 64n) - 1n;
+  let r = Fq.random();
+  let { proof, commitments } = RangeProof.prove([v], [r], 64);
+
+  expect(commitments).toEqual([commit(v, r)]);
+  expect(RangeProof.verify(commitments, proof, 64)).toBe(true);
+
+  // serialization round-trip
+  let json = JSON.parse(JSON.stringify(RangeProof.toJSON(proof)));
+  expect(RangeProof.verify(commitments, RangeProof.fromJSON(json), 64)).toBe(
+    true
+  );
+
+  // wrong commitment, wrong bit length, tampered proof
+  expect(RangeProof.verify([commit(v - 1n, r)], proof, 64)).toBe(false);
+  expect(RangeProof.verify(commitments, proof, 32)).toBe(false);
+  expect(
+    RangeProof.verify(commitments, { ...proof, tHat: Fq.add(proof.tHat, 1n) })
+  ).toBe(false);
+  expect(
+    RangeProof.verify(commitments, { ...proof, a: Fq.add(proof.a, 1n) })
+  ).toBe(false);
+
+  // malformed commitments and off-curve points are rejected without throwing
+  expect(RangeProof.verify([123n], proof, 64)).toBe(false);
+  let offCurve = { ...proof.A, y: Fq.add(proof.A.y, 1n) };
+  expect(RangeProof.verify(commitments, { ...proof, A: offCurve }, 64)).toBe(
+    false
+  );
+  let L = [offCurve, ...proof.L.slice(1)];
+  expect(RangeProof.verify(commitments, { ...proof, L }, 64)).toBe(false);
+
+  // the generator set has to match the one used for proving
+  let options = { generators: 'hash-to-curve' } as const;
+  let derived = RangeProof.prove([v], [r], 64, options);
+  expect(derived.commitments).toEqual([commit(v, r, options)]);
+  expect(
+    RangeProof.verify(derived.commitments, derived.proof, 64, options)
+  ).toBe(true);
+  expect(RangeProof.verify(derived.commitments, derived.proof, 64)).toBe(false);
+}
+
+// aggregated proof for 4 values of 16 bits
+{
+  let values = [0n, 1n, 30000n, (1n << 16n) - 1n];
+  let blindings = values.map(() => Fq.random());
+  let { proof, commitments } = RangeProof.prove(values, blindings, 16);
+
+  expect(proof.L.length).toEqual(6);
+  expect(RangeProof.verify(commitments, proof, 16)).toBe(true);
+  expect(RangeProof.verify([...commitments].reverse(), proof, 16)).toBe(false);
+}
+
+// values out of range can't be proven
+expect(() => RangeProof.prove([1n << 32n], [1n], 32)).toThrow(
+  'is not in the range'
+);
+expect(() => RangeProof.prove([-1n], [1n], 32)).toThrow('is not in the range');
+expect(() => RangeProof.prove([1n, 2n, 3n], [1n, 2n, 3n], 8)).toThrow(
+  'power of 2'
+);
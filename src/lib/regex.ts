@@ -0,0 +1,840 @@
+import { Bool, Field } from './core.js';
+import { UInt8 } from './int.js';
+import { assertBoolean, rangeOneHot, shiftLeft } from './gadgets/basic.js';
+import { assert, exists } from './gadgets/common.js';
+import * as RangeCheck from './gadgets/range-check.js';
+import { Provable } from './provable.js';
+import { Bytes } from './provable-types/bytes.js';
+import {
+  createDynamicBytes,
+  DynamicBytes,
+} from './provable-types/dynamic-bytes.js';
+
+// external API
+export { Regex };
+
+// internal API
+export { parse, compile, Dfa };
+
+/**
+ * The position of a capture group in the input, where `start` is inclusive and `end` is exclusive.
+ */
+type Capture = { start: Field; end: Field };
+
+/**
+ * A regular expression which is compiled to a deterministic finite automaton (DFA),
+ * to prove that {@link Bytes} or {@link DynamicBytes} match it.
+ *
+ * Patterns always match the whole input, so use `.*` to match a substring.
+ * The supported syntax is a subset of JavaScript regular expressions, which operates on bytes:
+ * - literals and escaped characters like `\.`, `\n` and `\x41`, where non-ASCII characters match their UTF-8 bytes
+ * - `.`, which matches any byte except `\n`
+ * - character classes like `[a-z0-9_]`, `[^,]`, `\d`, `\w` and `\s`, and their complements `\D`, `\W` and `\S`
+ * - alternation `a|b` and the quantifiers `*`, `+`, `?`, `{m}`, `{m,}` and `{m,n}`
+ * - capture groups `(...)` and non-capturing groups `(?:...)`
+ *
+ * Capture groups can't be repeated or be part of an alternation, so that every capture group matches exactly once.
+ *
+ * @example
+ * ```ts
+ * const email = Regex.compile('[a-z0-9._%+-]+@([a-z0-9.-]+\\.[a-z]{2,})');
+ *
+ * // in provable code
+ * email.match(address).assertTrue();
+ * let [domain] = email.captures(address);
+ * ```
+ */
+class Regex {
+  /**
+   * The pattern this regular expression was compiled from.
+   */
+  readonly pattern: string;
+  /**
+   * The number of capture groups.
+   */
+  readonly groups: number;
+
+  private dfa: Dfa;
+  private markedDfa: Dfa;
+
+  private constructor(pattern: string) {
+    this.pattern = pattern;
+    let ast = parse(pattern);
+    this.groups = countGroups(ast);
+    this.dfa = compile(ast);
+    this.markedDfa =
+      this.groups > 0 ? compile(ast, { markers: true }) : this.dfa;
+  }
+
+  /**
+   * Compile a pattern to a {@link Regex}.
+   *
+   * @throws if the pattern uses unsupported syntax.
+   */
+  static compile(pattern: string) {
+    return new Regex(pattern);
+  }
+
+  /**
+   * The number of states of the compiled DFA, which determines the cost of {@link Regex.match} per input byte.
+   */
+  get states() {
+    return this.dfa.accepting.length;
+  }
+
+  /**
+   * Check whether the input matches.
+   *
+   * **Warning**: This method is not provable.
+   */
+  test(input: string | Uint8Array): boolean {
+    let bytes =
+      typeof input === 'string' ? new TextEncoder().encode(input) : input;
+    let state = 0;
+    for (let byte of bytes) {
+      state = this.dfa.transitions[state][symbolOf(this.dfa, byte)];
+    }
+    return this.dfa.accepting[state];
+  }
+
+  /**
+   * Check whether the input matches, by walking the DFA over the input bytes.
+   *
+   * For {@link DynamicBytes}, only the bytes up to its length are matched.
+   *
+   * This costs `O(n * (states + ranges))` constraints for an input of n bytes,
+   * where ranges is the number of byte ranges that the DFA distinguishes.
+   */
+  match(input: Bytes | DynamicBytes): Bool {
+    let { bytes, length } = toInput(input);
+    let run = runDfa(this.dfa, bytes, length);
+    return run.isMatch;
+  }
+
+  /**
+   * Assert that the input matches, and return the positions of the capture groups.
+   *
+   * The positions are witnessed, and we prove that the input matches the pattern with the capture groups at these positions.
+   * If there are several ways to match the input, any of them could be returned.
+   *
+   * This costs `O(n * groups * states)` constraints on top of {@link Regex.match}.
+   *
+   * @throws if the input doesn't match.
+   */
+  captures(input: Bytes | DynamicBytes): Capture[] {
+    let G = this.groups;
+    if (G === 0) {
+      this.match(input).assertTrue(
+        `Regex: input does not match ${this.pattern}`
+      );
+      return [];
+    }
+    let { bytes, length } = toInput(input);
+    let dfa = this.markedDfa;
+
+    let positions = exists(2 * G, () => {
+      let length_ = Number((length ?? Field(bytes.length)).toBigInt());
+      let bytes_ = bytes.slice(0, length_).map((b) => Number(b.toBigInt()));
+      let captures =
+        findCaptures(dfa, G, bytes_) ?? Array<[number, number]>(G).fill([0, 0]);
+      return captures.flat().map(BigInt);
+    });
+    let captures = Array.from({ length: G }, (_, k) => ({
+      start: positions[2 * k],
+      end: positions[2 * k + 1],
+    }));
+
+    // captures are within the input
+    let inputLength = length ?? Field(bytes.length);
+    for (let { start, end } of captures) {
+      RangeCheck.rangeCheck32(inputLength.sub(start).seal());
+      RangeCheck.rangeCheck32(inputLength.sub(end).seal());
+    }
+
+    let run = runDfa(dfa, bytes, length, captures);
+    run.isMatch.assertTrue(`Regex: input does not match ${this.pattern}`);
+    return captures;
+  }
+
+  /**
+   * Returns the bytes of a capture group as {@link DynamicBytes} of at most `maxLength` bytes.
+   *
+   * @throws if the capture is longer than `maxLength`.
+   */
+  static substring(
+    input: Bytes | DynamicBytes,
+    { start, end }: Capture,
+    { maxLength }: { maxLength: number }
+  ): DynamicBytes {
+    let length = end.sub(start).seal();
+    // 0 <= length <= maxLength, where the first check prevents end < start from wrapping around
+    RangeCheck.rangeCheck32(length);
+    RangeCheck.rangeCheck32(Field(maxLength).sub(length).seal());
+    let bytes = shiftLeft(
+      input.bytes.map((b) => b.value),
+      start
+    )
+      .slice(0, maxLength)
+      .map((b) => UInt8.Unsafe.fromField(b));
+    let Substring = createDynamicBytes(maxLength);
+    return new Substring(new Substring(bytes, length).maskedBytes(), length);
+  }
+}
+
+function toInput(input: Bytes | DynamicBytes) {
+  let bytes = input.bytes.map((b) => b.value);
+  let length = input instanceof DynamicBytes ? input.length : undefined;
+  return { bytes, length };
+}
+
+// provable DFA
+
+/**
+ * Walks the DFA over the bytes, where the state is represented by its index and a one-hot vector.
+ *
+ * If captures are given, we apply the transitions of their markers at their positions, in the same order as {@link findCaptures}.
+ */
+function runDfa(
+  dfa: Dfa,
+  bytes: Field[],
+  length?: Field,
+  captures: Capture[] = []
+) {
+  let n = bytes.length;
+  let G = captures.length;
+  let states = dfa.accepting.length;
+  let state = Field(0);
+  let mask = oneHot(state, states);
+  let isEmpty = captures.map(({ start, end }) => start.equals(end));
+
+  let applyMarker = (marker: number, condition: Bool) => {
+    let next = Provable.switch(
+      mask,
+      Field,
+      dfa.markerTransitions[marker].map((q) => Field(q))
+    );
+    state = Provable.if(condition, next, state);
+    mask = oneHot(state, states);
+  };
+
+  let isLive = Bool(true);
+  for (let j = 0; j <= n; j++) {
+    // close non-empty groups, open groups, close empty groups
+    let isEnd = captures.map(({ end }) => end.equals(j));
+    for (let k = G - 1; k >= 0; k--) {
+      applyMarker(2 * k + 1, isEnd[k].and(isEmpty[k].not()));
+    }
+    for (let k = 0; k < G; k++) {
+      applyMarker(2 * k, captures[k].start.equals(j));
+    }
+    for (let k = G - 1; k >= 0; k--) {
+      applyMarker(2 * k + 1, isEnd[k].and(isEmpty[k]));
+    }
+    if (j === n) break;
+
+    // next state = transitions[state][symbol(byte)], which is linear in the one-hot vector of the byte range
+    let isInRange = rangeOneHot(bytes[j], dfa.ranges, 'Regex: invalid byte');
+    let nextStates = dfa.transitions.map((row) =>
+      isInRange.reduce(
+        (sum, b, r) => sum.add(b.mul(row[dfa.ranges[r][2]])),
+        Field(0)
+      )
+    );
+    let next = Provable.switch(mask, Field, nextStates);
+    if (length !== undefined) {
+      isLive = isLive.and(length.equals(j).not());
+      next = Provable.if(isLive, next, state);
+    }
+    state = next.seal();
+    mask = oneHot(state, states);
+  }
+
+  // at most one of the accepting states is active
+  let isMatch = mask
+    .filter((_, q) => dfa.accepting[q])
+    .reduce((sum, b) => sum.add(b.toField()), Field(0));
+  return { state, isMatch: Bool.Unsafe.ofField(isMatch) };
+}
+
+/**
+ * Returns the one-hot vector of length n which is true at `index`, proving that `index` is in [0, n).
+ */
+function oneHot(index: Field, n: number): Bool[] {
+  if (index.isConstant()) {
+    let i = Number(index.toBigInt());
+    assert(i < n, 'oneHot(): index out of bounds');
+    return Array.from({ length: n }, (_, j) => Bool(i === j));
+  }
+  let bits = exists(n, () => {
+    let i = Number(index.toBigInt());
+    return Array.from({ length: n }, (_, j) => (i === j ? 1n : 0n));
+  });
+  bits.forEach((b) => assertBoolean(b));
+  bits.reduce((sum, b) => sum.add(b), Field(0)).assertEquals(1);
+  bits.reduce((sum, b, j) => sum.add(b.mul(j)), Field(0)).assertEquals(index);
+  return bits.map((b) => Bool.Unsafe.ofField(b));
+}
+
+/**
+ * Out-of-circuit search for capture positions that make the input match,
+ * applying markers in the same order as {@link runDfa}.
+ */
+function findCaptures(
+  dfa: Dfa,
+  G: number,
+  bytes: number[]
+): [number, number][] | undefined {
+  const NONE = 0,
+    OPEN = 1,
+    OPENED_HERE = 2,
+    CLOSED = 3;
+  type Config = {
+    state: number;
+    status: number[];
+    captures: [number, number][];
+  };
+  let canAccept = acceptingReachable(dfa);
+
+  let configs: Config[] = [
+    {
+      state: 0,
+      status: Array(G).fill(NONE),
+      captures: Array<[number, number]>(G).fill([0, 0]),
+    },
+  ];
+  let branch = (
+    k: number,
+    from: number,
+    to: number,
+    marker: number,
+    j: number
+  ) => {
+    configs = configs.flatMap((c) => {
+      if (c.status[k] !== from) return [c];
+      let status = [...c.status];
+      status[k] = to;
+      let captures = [...c.captures];
+      captures[k] = marker % 2 === 0 ? [j, j] : [c.captures[k][0], j];
+      let state = dfa.markerTransitions[marker][c.state];
+      return [c, { state, status, captures }];
+    });
+  };
+
+  for (let j = 0; j <= bytes.length; j++) {
+    for (let k = G - 1; k >= 0; k--) branch(k, OPEN, CLOSED, 2 * k + 1, j);
+    for (let k = 0; k < G; k++) branch(k, NONE, OPENED_HERE, 2 * k, j);
+    for (let k = G - 1; k >= 0; k--)
+      branch(k, OPENED_HERE, CLOSED, 2 * k + 1, j);
+
+    // remove duplicates and configurations that can't lead to a match
+    let seen = new Set<string>();
+    configs = configs.filter((c) => {
+      let key = `${c.state}:${c.status}`;
+      if (!canAccept[c.state] || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    if (j === bytes.length) break;
+
+    let symbol = symbolOf(dfa, bytes[j]);
+    configs = configs.map((c) => ({
+      state: dfa.transitions[c.state][symbol],
+      status: c.status.map((s) => (s === OPENED_HERE ? OPEN : s)),
+      captures: c.captures,
+    }));
+  }
+  let match = configs.find(
+    (c) => dfa.accepting[c.state] && c.status.every((s) => s === CLOSED)
+  );
+  return match?.captures;
+}
+
+function acceptingReachable(dfa: Dfa) {
+  let canAccept = [...dfa.accepting];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    dfa.accepting.forEach((_, q) => {
+      if (canAccept[q]) return;
+      let next = [
+        ...dfa.transitions[q],
+        ...dfa.markerTransitions.map((t) => t[q]),
+      ];
+      if (next.some((p) => canAccept[p])) {
+        canAccept[q] = true;
+        changed = true;
+      }
+    });
+  }
+  return canAccept;
+}
+
+// compiler
+
+/**
+ * Deterministic finite automaton with start state 0.
+ *
+ * Bytes are mapped to symbols by ranges `[first, length, symbol]`, which cover all bytes,
+ * and `transitions[state][symbol]` is the next state.
+ * `markerTransitions[marker][state]` is the next state after a capture group marker,
+ * where marker 2k opens and marker 2k + 1 closes the k-th capture group.
+ */
+type Dfa = {
+  ranges: [first: number, length: number, symbol: number][];
+  transitions: number[][];
+  markerTransitions: number[][];
+  accepting: boolean[];
+};
+
+type Node =
+  | { type: 'chars'; chars: boolean[] }
+  | { type: 'concat'; nodes: Node[] }
+  | { type: 'alternation'; nodes: Node[] }
+  | { type: 'repeat'; node: Node; min: number; max: number }
+  | { type: 'group'; index: number; node: Node };
+
+/**
+ * Parses a pattern into a syntax tree.
+ */
+function parse(pattern: string): Node {
+  let i = 0;
+  let groups = 0;
+  let error = (message: string): never => {
+    throw Error(`Regex: ${message} at position ${i} of ${pattern}`);
+  };
+  let peek = () => pattern[i];
+  let eat = (c: string) => {
+    if (pattern[i] !== c) error(`expected ${c}`);
+    i++;
+  };
+
+  function alternation(): Node {
+    let nodes = [concat()];
+    while (peek() === '|') {
+      i++;
+      nodes.push(concat());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'alternation', nodes };
+  }
+
+  function concat(): Node {
+    let nodes: Node[] = [];
+    while (i < pattern.length && peek() !== '|' && peek() !== ')') {
+      nodes.push(quantified());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'concat', nodes };
+  }
+
+  function quantified(): Node {
+    let node = atom();
+    while (i < pattern.length) {
+      let c = peek();
+      if (c === '*') node = { type: 'repeat', node, min: 0, max: Infinity };
+      else if (c === '+')
+        node = { type: 'repeat', node, min: 1, max: Infinity };
+      else if (c === '?') node = { type: 'repeat', node, min: 0, max: 1 };
+      else if (c === '{') {
+        let match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(i));
+        if (match === null) error('invalid quantifier');
+        let [all, min, comma, max] = match!;
+        let min_ = Number(min);
+        let max_ =
+          comma === undefined ? min_ : max === '' ? Infinity : Number(max);
+        if (max_ < min_) error('invalid quantifier');
+        node = { type: 'repeat', node, min: min_, max: max_ };
+        i += all.length - 1;
+      } else break;
+      i++;
+    }
+    return node;
+  }
+
+  function atom(): Node {
+    let c = peek();
+    if (c === '(') {
+      i++;
+      let capture = !pattern.startsWith('?:', i);
+      if (!capture) i += 2;
+      let index = capture ? groups++ : -1;
+      let node = alternation();
+      eat(')');
+      return capture ? { type: 'group', index, node } : node;
+    }
+    if (c === '[') return { type: 'chars', chars: charClass() };
+    if (c === '.') {
+      i++;
+      return { type: 'chars', chars: range(0, 255, (b) => b !== 0x0a) };
+    }
+    if (c === '\\') {
+      i++;
+      return { type: 'chars', chars: escape() };
+    }
+    if (c === '^' || c === '$')
+      error('anchors are not supported, patterns always match the whole input');
+    if ('()[{|*+?'.includes(c)) error(`unexpected ${c}`);
+
+    // literal, which could be several bytes in UTF-8
+    let codePoint = pattern.codePointAt(i)!;
+    let literal = String.fromCodePoint(codePoint);
+    i += literal.length;
+    let nodes: Node[] = [...new TextEncoder().encode(literal)].map((b) => ({
+      type: 'chars',
+      chars: range(0, 255, (x) => x === b),
+    }));
+    return nodes.length === 1 ? nodes[0] : { type: 'concat', nodes };
+  }
+
+  function charClass(): boolean[] {
+    eat('[');
+    let negate = peek() === '^';
+    if (negate) i++;
+    let chars = range(0, 255, () => false);
+    let first = true;
+    while (peek() !== ']' || first) {
+      if (i >= pattern.length) error('unterminated character class');
+      first = false;
+      let from = classAtom();
+      if (
+        peek() === '-' &&
+        pattern[i + 1] !== ']' &&
+        i + 1 < pattern.length &&
+        !Array.isArray(from)
+      ) {
+        i++;
+        let to = classAtom();
+        if (Array.isArray(to) || to < from) error('invalid range');
+        for (let b = from; b <= (to as number); b++) chars[b] = true;
+      } else if (Array.isArray(from)) {
+        from.forEach((x, b) => (chars[b] ||= x));
+      } else {
+        chars[from] = true;
+      }
+    }
+    eat(']');
+    return negate ? chars.map((x) => !x) : chars;
+  }
+
+  // a single byte, or a set of bytes for escapes like \d
+  function classAtom(): number | boolean[] {
+    let c = peek();
+    if (c === '\\') {
+      i++;
+      let chars = escape();
+      let bytes = chars.flatMap((x, b) => (x ? [b] : []));
+      return bytes.length === 1 ? bytes[0] : chars;
+    }
+    let code = c.charCodeAt(0);
+    if (code > 0x7f) error('non-ASCII characters are not supported in classes');
+    i++;
+    return code;
+  }
+
+  function escape(): boolean[] {
+    let c = peek();
+    if (c === undefined) error('unterminated escape');
+    i++;
+    let single = (b: number) => range(0, 255, (x) => x === b);
+    let classes: Record<string, (b: number) => boolean> = {
+      d: isDigit,
+      w: isWord,
+      s: isSpace,
+      D: (b) => !isDigit(b),
+      W: (b) => !isWord(b),
+      S: (b) => !isSpace(b),
+    };
+    if (c in classes) return range(0, 255, classes[c]);
+    let controls: Record<string, number> = {
+      n: 0x0a,
+      r: 0x0d,
+      t: 0x09,
+      f: 0x0c,
+      v: 0x0b,
+      '0': 0x00,
+    };
+    if (c in controls) return single(controls[c]);
+    if (c === 'x') {
+      let hex = pattern.slice(i, i + 2);
+      if (!/^[0-9a-fA-F]{2}$/.test(hex)) error('invalid \\x escape');
+      i += 2;
+      return single(parseInt(hex, 16));
+    }
+    // other ASCII punctuation is escaped literally
+    if (/^[\x21-\x2f\x3a-\x40\x5b-\x60\x7b-\x7e]$/.test(c))
+      return single(c.charCodeAt(0));
+    return error(`unsupported escape \\${c}`);
+  }
+
+  let node = alternation();
+  if (i < pattern.length) error(`unexpected ${peek()}`);
+  checkGroups(node, false);
+  return node;
+}
+
+/**
+ * Checks that capture groups are not repeated or part of an alternation.
+ */
+function checkGroups(node: Node, isOptional: boolean): void {
+  switch (node.type) {
+    case 'chars':
+      return;
+    case 'concat':
+      return node.nodes.forEach((n) => checkGroups(n, isOptional));
+    case 'alternation':
+      return node.nodes.forEach((n) => checkGroups(n, true));
+    case 'repeat':
+      return checkGroups(
+        node.node,
+        isOptional || node.max !== 1 || node.min !== 1
+      );
+    case 'group':
+      if (isOptional)
+        throw Error(
+          'Regex: capture groups can not be repeated or be part of an alternation, use (?:...) instead'
+        );
+      return checkGroups(node.node, isOptional);
+  }
+}
+
+function countGroups(node: Node): number {
+  switch (node.type) {
+    case 'chars':
+      return 0;
+    case 'concat':
+    case 'alternation':
+      return node.nodes.reduce((sum, n) => sum + countGroups(n), 0);
+    case 'repeat':
+      return countGroups(node.node);
+    case 'group':
+      return 1 + countGroups(node.node);
+  }
+}
+
+/**
+ * NFA with epsilon transitions, as constructed by Thompson's algorithm.
+ */
+type Nfa = {
+  edges: { chars?: boolean[]; marker?: number; to: number }[][];
+  accept: number;
+};
+
+function toNfa(root: Node): Nfa {
+  let edges: Nfa['edges'] = [];
+  let state = () => edges.push([]) - 1;
+  let epsilon = (from: number, to: number) => edges[from].push({ to });
+
+  // returns the end state of a fragment which starts at `start`
+  function build(node: Node, start: number): number {
+    switch (node.type) {
+      case 'chars': {
+        let end = state();
+        edges[start].push({ chars: node.chars, to: end });
+        return end;
+      }
+      case 'concat':
+        return node.nodes.reduce((s, n) => build(n, s), start);
+      case 'alternation': {
+        let end = state();
+        for (let n of node.nodes) {
+          let s = state();
+          epsilon(start, s);
+          epsilon(build(n, s), end);
+        }
+        return end;
+      }
+      case 'repeat': {
+        let { min, max } = node;
+        let current = start;
+        for (let k = 0; k < min; k++) current = build(node.node, current);
+        if (max === Infinity) {
+          // loop back to the start of the fragment
+          let s = state();
+          epsilon(current, s);
+          epsilon(build(node.node, s), s);
+          return s;
+        }
+        let end = state();
+        epsilon(current, end);
+        for (let k = min; k < max; k++) {
+          current = build(node.node, current);
+          epsilon(current, end);
+        }
+        return end;
+      }
+      case 'group': {
+        let s = state();
+        edges[start].push({ marker: 2 * node.index, to: s });
+        let end = state();
+        edges[build(node.node, s)].push({
+          marker: 2 * node.index + 1,
+          to: end,
+        });
+        return end;
+      }
+    }
+  }
+  let start = state();
+  let accept = build(root, start);
+  return { edges, accept };
+}
+
+/**
+ * Compiles a syntax tree to a minimal DFA, by subset construction followed by minimization.
+ *
+ * With `markers: true`, capture group markers are kept as symbols of the DFA. Otherwise, they are treated as epsilon transitions.
+ */
+function compile(node: Node, { markers = false } = {}): Dfa {
+  let nfa = toNfa(node);
+  let markerCount = 2 * countGroups(node);
+
+  // group bytes which behave the same on every edge of the NFA
+  let charSets = nfa.edges.flat().flatMap((e) => (e.chars ? [e.chars] : []));
+  let { symbolOf: classOf, representatives } = byteClasses((b) =>
+    charSets.map((chars) => (chars[b] ? '1' : '0')).join('')
+  );
+
+  let closure = (states: number[]) => {
+    let result = new Set(states);
+    let stack = [...states];
+    while (stack.length > 0) {
+      let q = stack.pop()!;
+      for (let { chars, marker, to } of nfa.edges[q]) {
+        let isEpsilon =
+          chars === undefined && (marker === undefined || !markers);
+        if (isEpsilon && !result.has(to)) {
+          result.add(to);
+          stack.push(to);
+        }
+      }
+    }
+    return [...result].sort((a, b) => a - b);
+  };
+  let move = (
+    states: number[],
+    accepts: (e: Nfa['edges'][number][number]) => boolean
+  ) =>
+    closure(
+      states.flatMap((q) => nfa.edges[q].filter(accepts).map((e) => e.to))
+    );
+
+  // subset construction, over byte classes followed by markers
+  let subsets = [closure([0])];
+  let index = new Map([[subsets[0].join(), 0]]);
+  let transitions: number[][] = [];
+  for (let q = 0; q < subsets.length; q++) {
+    let targets = [
+      ...representatives.map((b) =>
+        move(subsets[q], (e) => e.chars?.[b] === true)
+      ),
+      ...Array.from({ length: markers ? markerCount : 0 }, (_, m) =>
+        move(subsets[q], (e) => e.marker === m)
+      ),
+    ];
+    transitions.push(
+      targets.map((target) => {
+        let key = target.join();
+        if (!index.has(key)) {
+          index.set(key, subsets.length);
+          subsets.push(target);
+        }
+        return index.get(key)!;
+      })
+    );
+  }
+  let accepting = subsets.map((s) => s.includes(nfa.accept));
+
+  // minimize, by refining the partition into accepting and rejecting states
+  let block = minimize(transitions, accepting);
+  let blocks = Math.max(...block) + 1;
+  let representative = Array.from({ length: blocks }, (_, b) =>
+    block.indexOf(b)
+  );
+  let minimized = representative.map((q) =>
+    transitions[q].map((p) => block[p])
+  );
+  let symbols = representatives.length;
+
+  // bytes with the same column in the minimized DFA can share a symbol
+  let byteSymbols = byteClasses((b) =>
+    minimized.map((row) => row[classOf[b]]).join()
+  );
+  let ranges: Dfa['ranges'] = [];
+  for (let b = 0; b < 256; b++) {
+    let symbol = byteSymbols.symbolOf[b];
+    let last = ranges[ranges.length - 1];
+    if (last !== undefined && last[2] === symbol && last[0] + last[1] === b)
+      last[1]++;
+    else ranges.push([b, 1, symbol]);
+  }
+
+  return {
+    ranges,
+    transitions: minimized.map((row) =>
+      byteSymbols.representatives.map((b) => row[classOf[b]])
+    ),
+    markerTransitions: Array.from(
+      { length: markers ? markerCount : 0 },
+      (_, m) => minimized.map((row) => row[symbols + m])
+    ),
+    accepting: representative.map((q) => accepting[q]),
+  };
+}
+
+/**
+ * Partitions bytes into classes with the same signature.
+ */
+function byteClasses(signature: (b: number) => string) {
+  let classes = new Map<string, number>();
+  let symbolOf: number[] = [];
+  let representatives: number[] = [];
+  for (let b = 0; b < 256; b++) {
+    let key = signature(b);
+    if (!classes.has(key)) {
+      classes.set(key, representatives.length);
+      representatives.push(b);
+    }
+    symbolOf.push(classes.get(key)!);
+  }
+  return { symbolOf, representatives };
+}
+
+/**
+ * Moore's algorithm: returns the block of every state in the coarsest partition that respects transitions,
+ * numbered in order of first appearance so that the start state is in block 0.
+ */
+function minimize(transitions: number[][], accepting: boolean[]): number[] {
+  let block: number[] = accepting.map((a) => (a ? 1 : 0));
+  let count = 0;
+  while (true) {
+    let signatures = new Map<string, number>();
+    let next = transitions.map((row, q) => {
+      let key = [block[q], ...row.map((p) => block[p])].join();
+      if (!signatures.has(key)) signatures.set(key, signatures.size);
+      return signatures.get(key)!;
+    });
+    if (signatures.size === count) return next;
+    count = signatures.size;
+    block = next;
+  }
+}
+
+function symbolOf(dfa: Dfa, byte: number) {
+  return dfa.ranges.find(([first, n]) => byte >= first && byte < first + n)![2];
+}
+
+function range(from: number, to: number, f: (b: number) => boolean) {
+  return Array.from({ length: 256 }, (_, b) => b >= from && b <= to && f(b));
+}
+function isDigit(b: number) {
+  return b >= 0x30 && b <= 0x39;
+}
+function isWord(b: number) {
+  return (
+    isDigit(b) ||
+    (b >= 0x41 && b <= 0x5a) ||
+    (b >= 0x61 && b <= 0x7a) ||
+    b === 0x5f
+  );
+}
+function isSpace(b: number) {
+  return [0x20, 0x09, 0x0a, 0x0b, 0x0c, 0x0d].includes(b);
+}
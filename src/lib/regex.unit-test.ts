@@ -0,0 +1,124 @@
+import { Regex } from './regex.js';
+import { Field } from './core.js';
+import { Provable } from './provable.js';
+import { Bytes, DynamicBytes } from './provable-types/provable-types.js';
+import { expect } from 'expect';
+
+class Input extends DynamicBytes(48) {}
+
+// the compiled DFA agrees with JS regular expressions
+let cases: [string, string[]][] = [
+  ['abc', ['abc', 'ab', 'abcd', '']],
+  ['a*b+', ['b', 'aab', 'aabb', 'a', 'ba', '']],
+  ['(?:ab|cd)*', ['', 'ab', 'abcd', 'abc', 'cdab']],
+  ['a{2,3}', ['a', 'aa', 'aaa', 'aaaa']],
+  ['\\d{3}-\\d{4}', ['555-1234', '55-1234', '5555-1234']],
+  ['[^,]*,.*', ['abc,def', ',', 'abc']],
+  ['\\w+\\s\\S?', ['ab c', 'ab ', 'ab', 'a  b']],
+  ['.*foo.*', ['xxfooyy', 'fo', 'foo', '\nfoo']],
+  ['é+', ['é', 'éé', 'e']],
+  ['\\x41\\.\\-', ['A.-', 'A.x']],
+];
+
+for (let [pattern, inputs] of cases) {
+  let regex = Regex.compile(pattern);
+  let re = new RegExp(`^(?:${pattern})$`);
+  for (let input of inputs) {
+    expect(regex.test(input)).toEqual(re.test(input));
+  }
+}
+
+// provable matching
+let email = Regex.compile('[a-z0-9._%+-]+@([a-z0-9.-]+\\.[a-z]{2,})');
+expect(email.groups).toEqual(1);
+
+Provable.runAndCheck(() => {
+  for (let address of [
+    'alice@example.com',
+    'x+y@mail.co.uk',
+    '@a.com',
+    'a@b.c',
+  ]) {
+    let input = Provable.witness(Input.provable, () =>
+      Input.fromString(address)
+    );
+    let isMatch = email.match(input);
+    Provable.asProver(() => {
+      expect(isMatch.toBoolean()).toEqual(email.test(address));
+    });
+  }
+
+  // fixed-length input
+  let Phone = Bytes(8);
+  let phone = Regex.compile('\\d{3}-\\d{4}');
+  for (let number of ['555-1234', '555-12a4']) {
+    let input = Provable.witness(Phone.provable, () =>
+      Phone.fromString(number)
+    );
+    let isMatch = phone.match(input);
+    Provable.asProver(() => {
+      expect(isMatch.toBoolean()).toEqual(phone.test(number));
+    });
+  }
+});
+
+// capture groups
+let captureCases: [string, string][] = [
+  ['[a-z0-9._%+-]+@([a-z0-9.-]+\\.[a-z]{2,})', 'alice@example.com'],
+  ['From: (.*) <(\\w+@\\w+\\.com)>', 'From: Bob Smith <bob@mail.com>'],
+  ['((a)(b+))c', 'abbc'],
+  ['(a*)(a*)b', 'aab'],
+  ['x()y', 'xy'],
+];
+
+Provable.runAndCheck(() => {
+  for (let [pattern, string] of captureCases) {
+    let regex = Regex.compile(pattern);
+    let expected = new RegExp(`^(?:${pattern})$`).exec(string)!.slice(1);
+
+    let input = Provable.witness(Input.provable, () =>
+      Input.fromString(string)
+    );
+    let captures = regex.captures(input);
+    expect(captures.length).toEqual(expected.length);
+
+    captures.forEach((capture, k) => {
+      let substring = Regex.substring(input, capture, { maxLength: 32 });
+      Provable.asProver(() => {
+        expect(toString(substring)).toEqual(expected[k]);
+      });
+    });
+  }
+});
+
+// inputs that don't match are rejected
+expect(() =>
+  Provable.runAndCheck(() => {
+    let input = Provable.witness(Input.provable, () =>
+      Input.fromString('alice@example')
+    );
+    email.captures(input);
+  })
+).toThrow('does not match');
+
+// a capture which ends before it starts is rejected
+expect(() =>
+  Provable.runAndCheck(() => {
+    let input = Provable.witness(Input.provable, () =>
+      Input.fromString('hello')
+    );
+    let [start, end] = [3, 1].map((x) =>
+      Provable.witness(Field, () => Field(x))
+    );
+    Regex.substring(input, { start, end }, { maxLength: 8 });
+  })
+).toThrow();
+
+// unsupported syntax is rejected
+for (let pattern of ['(a)*', 'a|(b)', '^a', 'a{3,2}', '(a', '[a', '\\q']) {
+  expect(() => Regex.compile(pattern)).toThrow();
+}
+
+function toString(bytes: DynamicBytes) {
+  return new TextDecoder().decode(bytes.toBytes());
+}
@@ -0,0 +1,88 @@
+import { ProvableBigInt } from './big-int.js';
+import { Bool } from './bool.js';
+import { assert } from './gadgets/common.js';
+import { Rsa as RsaGadgets } from './gadgets/rsa.js';
+import { SHA256 } from './gadgets/sha256.js';
+import { Bytes } from './provable-types/bytes.js';
+import { DynamicBytes } from './provable-types/dynamic-bytes.js';
+
+// external API
+export { Rsa };
+
+const Rsa = {
+  /**
+   * Verify an RSA signature with PKCS#1 v1.5 padding and SHA-256 (RSASSA-PKCS1-v1_5, as in RS256 JWTs and most X.509 certificates),
+   * as specified in [RFC 8017](https://www.rfc-editor.org/rfc/rfc8017#section-8.2).
+   *
+   * The signature and modulus are {@link ProvableBigInt}s of the key size, which must be a multiple of 8, like 2048 or 4096.
+   * The public exponent is 65537 by default.
+   *
+   * **Important:** This method returns a {@link Bool} which indicates whether the signature is valid.
+   * So, to actually prove validity of a signature, you need to assert that the result is true.
+   *
+   * @throws if the signature is not less than the modulus.
+   *
+   * @example
+   * ```ts
+   * class Bigint2048 extends createProvableBigInt(2048) {}
+   *
+   * // in provable code
+   * let isValid = Rsa.verifyPkcs1v15(message, signature, modulus);
+   * isValid.assertTrue('signature verifies');
+   * ```
+   */
+  verifyPkcs1v15(
+    message: Bytes | DynamicBytes,
+    signature: ProvableBigInt,
+    modulus: ProvableBigInt,
+    { exponent = 65537n } = {}
+  ): Bool {
+    let hash = SHA256.hash(message);
+    return RsaGadgets.verifyPkcs1v15(
+      hash.bytes,
+      signature.value,
+      toPublicKey(signature, modulus, exponent),
+      signature.Constructor.bits
+    );
+  },
+
+  /**
+   * Verify an RSA signature with PSS padding and SHA-256 (RSASSA-PSS, as in PS256 JWTs and e-passports),
+   * using MGF1 with SHA-256 as mask generation function, as specified in [RFC 8017](https://www.rfc-editor.org/rfc/rfc8017#section-8.1).
+   *
+   * The signature and modulus are {@link ProvableBigInt}s of the key size, which must be a multiple of 8, like 2048 or 4096.
+   * The public exponent is 65537 and the salt length is 32 bytes by default.
+   *
+   * **Important:** This method returns a {@link Bool} which indicates whether the signature is valid.
+   * So, to actually prove validity of a signature, you need to assert that the result is true.
+   *
+   * @throws if the signature is not less than the modulus.
+   */
+  verifyPss(
+    message: Bytes | DynamicBytes,
+    signature: ProvableBigInt,
+    modulus: ProvableBigInt,
+    { exponent = 65537n, saltLength = 32 } = {}
+  ): Bool {
+    let hash = SHA256.hash(message);
+    return RsaGadgets.verifyPss(
+      hash.bytes,
+      signature.value,
+      toPublicKey(signature, modulus, exponent),
+      signature.Constructor.bits,
+      saltLength
+    );
+  },
+};
+
+function toPublicKey(
+  signature: ProvableBigInt,
+  modulus: ProvableBigInt,
+  exponent: bigint
+) {
+  assert(
+    signature.Constructor.bits === modulus.Constructor.bits,
+    'RSA signature and modulus must have the same bit length'
+  );
+  return { modulus: modulus.value, exponent };
+}
@@ -0,0 +1,348 @@
+/**
+ * Non-interactive Sigma protocols on the Pallas curve.
+ *
+ * All proofs are made non-interactive with the Fiat-Shamir transform: the challenge is the Poseidon hash
+ * of a domain separation string, all public inputs, the prover's announcements and an optional `context`,
+ * which can be used to bind a proof to a specific message or session.
+ *
+ * Proofs are created outside provable code, from bigint secrets.
+ * They can be verified both outside provable code and inside a `ZkProgram` or `SmartContract` method.
+ *
+ * Reference: https://crypto.stanford.edu/cs355/19sp/lec5.pdf
+ */
+import { Fq } from '../bindings/crypto/finite-field.js';
+import { prefixToField } from '../bindings/lib/binable.js';
+import { Field as Fp } from '../provable/field-bigint.js';
+import { Struct } from './circuit-value.js';
+import { Field, Group, Scalar } from './core.js';
+import { assert } from './gadgets/common.js';
+import { Poseidon } from './hash.js';
+import { PedersenCommitment, PedersenGenerators } from './pedersen.js';
+import { Provable } from './provable.js';
+import { scaleShifted } from './signature.js';
+
+export { SchnorrProof, PedersenOpeningProof, CommitmentEqualityProof, OrProof };
+
+/**
+ * A Schnorr proof of knowledge of a discrete logarithm: proves knowledge of `w` such that `P = w*B`,
+ * for a public point `P` and base `B`.
+ *
+ * @example
+ * ```ts
+ * // outside provable code
+ * let w = Scalar.random().toBigInt();
+ * let P = Group.generator.scale(w);
+ * let proof = SchnorrProof.create(w);
+ *
+ * // inside or outside provable code
+ * proof.verify(P).assertTrue();
+ * ```
+ */
+class SchnorrProof extends Struct({ announcement: Group, response: Scalar }) {
+  /**
+   * Create a proof of knowledge of `secret` such that `P = secret*base`.
+   *
+   * Note: This method is not provable, and only takes JS bigints as input.
+   */
+  static create(
+    secret: bigint,
+    base = Group.generator,
+    context: Field[] = []
+  ): SchnorrProof {
+    assertNotProvable('SchnorrProof.create');
+    let publicKey = base.scale(secret);
+    let k = Fq.random();
+    let announcement = base.scale(k);
+    let c = challenge(
+      'SigmaSchnorr',
+      [base, publicKey, announcement],
+      context
+    ).toBigInt();
+    let response = Scalar.from(Fq.add(k, Fq.mul(c, secret)));
+    return new SchnorrProof({ announcement, response });
+  }
+
+  /**
+   * Verify the proof against the public point `publicKey = w*base`.
+   *
+   * **Important:** This method returns a {@link Bool} which indicates whether the proof is valid.
+   * So, to actually prove validity, you need to assert that the result is true.
+   */
+  verify(publicKey: Group, base = Group.generator, context: Field[] = []) {
+    let c = challenge(
+      'SigmaSchnorr',
+      [base, publicKey, this.announcement],
+      context
+    );
+    // s*B = A + c*P
+    return base
+      .scale(this.response)
+      .equals(this.announcement.add(scaleByChallenge(publicKey, c)));
+  }
+}
+
+/**
+ * A proof of knowledge of an opening `(x, r)` of a Pedersen commitment `C = x*G + r*H`.
+ */
+class PedersenOpeningProof extends Struct({
+  announcement: Group,
+  responseValue: Scalar,
+  responseBlinding: Scalar,
+}) {
+  /**
+   * Create a proof of knowledge of the opening `(x, r)` of the commitment `x*G + r*H`.
+   *
+   * The generator set defaults to `'legacy'`, and has to match the one passed to {@link PedersenOpeningProof.verify}.
+   *
+   * Note: This method is not provable, and only takes JS bigints as input.
+   */
+  static create(
+    x: bigint,
+    r: bigint,
+    context: Field[] = [],
+    options?: { generators?: PedersenGenerators }
+  ): PedersenOpeningProof {
+    assertNotProvable('PedersenOpeningProof.create');
+    let commitment = PedersenCommitment.create(x, r, options);
+    let [kx, kr] = [Fq.random(), Fq.random()];
+    let announcement = PedersenCommitment.create(kx, kr, options).commitment;
+    let c = challenge(
+      'SigmaPedersenOpening',
+      [commitment.commitment, announcement],
+      context
+    ).toBigInt();
+    return new PedersenOpeningProof({
+      announcement,
+      responseValue: Scalar.from(Fq.add(kx, Fq.mul(c, x))),
+      responseBlinding: Scalar.from(Fq.add(kr, Fq.mul(c, r))),
+    });
+  }
+
+  /**
+   * Verify the proof against a commitment.
+   *
+   * **Important:** This method returns a {@link Bool} which indicates whether the proof is valid.
+   * So, to actually prove validity, you need to assert that the result is true.
+   */
+  verify(
+    commitment: PedersenCommitment,
+    context: Field[] = [],
+    options?: { generators?: PedersenGenerators }
+  ) {
+    let c = challenge(
+      'SigmaPedersenOpening',
+      [commitment.commitment, this.announcement],
+      context
+    );
+    // s_x*G + s_r*H = A + c*C
+    return PedersenCommitment.create(
+      this.responseValue,
+      this.responseBlinding,
+      options
+    ).commitment.equals(
+      this.announcement.add(scaleByChallenge(commitment.commitment, c))
+    );
+  }
+}
+
+/**
+ * A proof that two Pedersen commitments `C1 = x*G + r1*H` and `C2 = x*G + r2*H` commit to the same value `x`,
+ * which also proves knowledge of the openings. The value `x` is not revealed.
+ */
+class CommitmentEqualityProof extends Struct({
+  announcement1: Group,
+  announcement2: Group,
+  responseValue: Scalar,
+  responseBlinding1: Scalar,
+  responseBlinding2: Scalar,
+}) {
+  /**
+   * Create a proof that `x*G + r1*H` and `x*G + r2*H` commit to the same value.
+   *
+   * Note: This method is not provable, and only takes JS bigints as input.
+   */
+  static create(
+    x: bigint,
+    r1: bigint,
+    r2: bigint,
+    context: Field[] = [],
+    options?: { generators?: PedersenGenerators }
+  ): CommitmentEqualityProof {
+    assertNotProvable('CommitmentEqualityProof.create');
+    let c1 = PedersenCommitment.create(x, r1, options).commitment;
+    let c2 = PedersenCommitment.create(x, r2, options).commitment;
+    let [kx, kr1, kr2] = [Fq.random(), Fq.random(), Fq.random()];
+    // the same nonce kx is used for the value in both announcements
+    let announcement1 = PedersenCommitment.create(kx, kr1, options).commitment;
+    let announcement2 = PedersenCommitment.create(kx, kr2, options).commitment;
+    let c = challenge(
+      'SigmaCommitmentEquality',
+      [c1, c2, announcement1, announcement2],
+      context
+    ).toBigInt();
+    return new CommitmentEqualityProof({
+      announcement1,
+      announcement2,
+      responseValue: Scalar.from(Fq.add(kx, Fq.mul(c, x))),
+      responseBlinding1: Scalar.from(Fq.add(kr1, Fq.mul(c, r1))),
+      responseBlinding2: Scalar.from(Fq.add(kr2, Fq.mul(c, r2))),
+    });
+  }
+
+  /**
+   * Verify that the two commitments commit to the same value.
+   *
+   * **Important:** This method returns a {@link Bool} which indicates whether the proof is valid.
+   * So, to actually prove validity, you need to assert that the result is true.
+   */
+  verify(
+    commitment1: PedersenCommitment,
+    commitment2: PedersenCommitment,
+    context: Field[] = [],
+    options?: { generators?: PedersenGenerators }
+  ) {
+    let { commitment: c1 } = commitment1;
+    let { commitment: c2 } = commitment2;
+    let c = challenge(
+      'SigmaCommitmentEquality',
+      [c1, c2, this.announcement1, this.announcement2],
+      context
+    );
+    // s_x*G + s_r1*H = A1 + c*C1 and s_x*G + s_r2*H = A2 + c*C2
+    let ok1 = PedersenCommitment.create(
+      this.responseValue,
+      this.responseBlinding1,
+      options
+    ).commitment.equals(this.announcement1.add(scaleByChallenge(c1, c)));
+    let ok2 = PedersenCommitment.create(
+      this.responseValue,
+      this.responseBlinding2,
+      options
+    ).commitment.equals(this.announcement2.add(scaleByChallenge(c2, c)));
+    return ok1.and(ok2);
+  }
+}
+
+/**
+ * A 1-out-of-2 OR-proof (Cramer-Damgård-Schoenmakers): proves knowledge of `w` such that
+ * `P0 = w*B` or `P1 = w*B`, without revealing which one.
+ *
+ * For example, with `B = H`, `P0 = C` and `P1 = C - G`, this proves that a Pedersen commitment `C` commits to a bit.
+ *
+ * Reference: https://www.win.tue.nl/~berry/papers/crypto94.pdf
+ */
+class OrProof extends Struct({
+  announcements: Provable.Array(Group, 2),
+  challenges: Provable.Array(Field, 2),
+  responses: Provable.Array(Scalar, 2),
+}) {
+  /**
+   * Create a proof of knowledge of `secret` such that `publicKeys[index] = secret*base`.
+   *
+   * Note: This method is not provable, and only takes JS bigints as input.
+   */
+  static create(
+    secret: bigint,
+    index: 0 | 1,
+    publicKeys: [Group, Group],
+    base = Group.generator,
+    context: Field[] = []
+  ): OrProof {
+    assertNotProvable('OrProof.create');
+    let other = 1 - index;
+    assert(
+      base.scale(secret).equals(publicKeys[index]).toBoolean(),
+      'OrProof: secret does not match the public key'
+    );
+
+    // simulate a transcript for the statement we don't know the secret of
+    let announcements: Group[] = [];
+    let challenges: bigint[] = [];
+    let responses: bigint[] = [];
+    challenges[other] = Fp.random();
+    responses[other] = Fq.random();
+    announcements[other] = base
+      .scale(responses[other])
+      .sub(publicKeys[other].scale(challenges[other]));
+
+    // honest transcript for the statement we know the secret of
+    let k = Fq.random();
+    announcements[index] = base.scale(k);
+    let c = challenge(
+      'SigmaOr',
+      [base, ...publicKeys, ...announcements],
+      context
+    ).toBigInt();
+    challenges[index] = Fp.sub(c, challenges[other]);
+    responses[index] = Fq.add(k, Fq.mul(challenges[index], secret));
+
+    return new OrProof({
+      announcements: [announcements[0], announcements[1]],
+      challenges: [Field(challenges[0]), Field(challenges[1])],
+      responses: [Scalar.from(responses[0]), Scalar.from(responses[1])],
+    });
+  }
+
+  /**
+   * Verify the proof against the two public points.
+   *
+   * **Important:** This method returns a {@link Bool} which indicates whether the proof is valid.
+   * So, to actually prove validity, you need to assert that the result is true.
+   */
+  verify(
+    publicKeys: [Group, Group],
+    base = Group.generator,
+    context: Field[] = []
+  ) {
+    let { announcements, challenges, responses } = this;
+    let c = challenge(
+      'SigmaOr',
+      [base, ...publicKeys, ...announcements],
+      context
+    );
+    // c = c0 + c1 and s_i*B = A_i + c_i*P_i
+    let ok = challenges[0].add(challenges[1]).equals(c);
+    for (let i of [0, 1]) {
+      let lhs = base.scale(responses[i]);
+      let rhs = announcements[i].add(
+        scaleByChallenge(publicKeys[i], challenges[i])
+      );
+      ok = ok.and(lhs.equals(rhs));
+    }
+    return ok;
+  }
+}
+
+// helpers
+
+/**
+ * Fiat-Shamir challenge, computed with the Poseidon sponge so that it works both in and out of provable code.
+ */
+function challenge(domain: string, points: Group[], context: Field[]) {
+  let sponge = new Poseidon.Sponge();
+  sponge.absorb(Field(prefixToField(Fp, domain)));
+  for (let { x, y } of points) {
+    sponge.absorb(x);
+    sponge.absorb(y);
+  }
+  for (let x of context) sponge.absorb(x);
+  return sponge.squeeze();
+}
+
+/**
+ * Computes `c*P` for a challenge `c` in the native field.
+ *
+ * This is correct for any `c` because the base field is smaller than the scalar field.
+ */
+function scaleByChallenge(point: Group, c: Field) {
+  // see Nullifier.verify: Scalar.fromBits interprets the bits as a shifted scalar
+  return scaleShifted(point, Scalar.fromBits(c.toBits()));
+}
+
+function assertNotProvable(method: string) {
+  if (Provable.inCheckedComputation()) {
+    throw Error(
+      `${method}() cannot be run within provable code, because it needs the secret as a bigint.`
+    );
+  }
+}
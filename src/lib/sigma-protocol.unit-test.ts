@@ -0,0 +1,114 @@
+import { Field, Group, Scalar } from './core.js';
+import { PedersenCommitment } from './pedersen.js';
+import { Provable } from './provable.js';
+import {
+  CommitmentEqualityProof,
+  OrProof,
+  PedersenOpeningProof,
+  SchnorrProof,
+} from './sigma-protocol.js';
+import { expect } from 'expect';
+
+console.log('sigma protocol tests');
+
+let context = [Field(1), Field(2)];
+
+// Schnorr proof of knowledge of a discrete logarithm
+{
+  let w = Scalar.random().toBigInt();
+  let P = Group.generator.scale(w);
+  let proof = SchnorrProof.create(w, Group.generator, context);
+
+  expect(proof.verify(P, Group.generator, context).toBoolean()).toBe(true);
+  expect(proof.verify(P, Group.generator, [Field(3)]).toBoolean()).toBe(false);
+  expect(proof.verify(P.add(Group.generator)).toBoolean()).toBe(false);
+
+  Provable.runAndCheck(() => {
+    let proofVar = Provable.witness(SchnorrProof, () => proof);
+    let PVar = Provable.witness(Group, () => P);
+    proofVar.verify(PVar, Group.generator, context).assertTrue();
+  });
+
+  // non-default base
+  let H = PedersenCommitment.H;
+  let proofH = SchnorrProof.create(w, H);
+  expect(proofH.verify(H.scale(w), H).toBoolean()).toBe(true);
+}
+
+// proof of knowledge of a Pedersen opening
+{
+  let x = 1234n;
+  let r = Scalar.random().toBigInt();
+  let commitment = PedersenCommitment.create(x, r);
+  let proof = PedersenOpeningProof.create(x, r, context);
+
+  expect(proof.verify(commitment, context).toBoolean()).toBe(true);
+  expect(
+    proof.verify(PedersenCommitment.create(x + 1n, r), context).toBoolean()
+  ).toBe(false);
+
+  Provable.runAndCheck(() => {
+    let proofVar = Provable.witness(PedersenOpeningProof, () => proof);
+    let commitmentVar = Provable.witness(PedersenCommitment, () => commitment);
+    proofVar.verify(commitmentVar, context).assertTrue();
+  });
+}
+
+// with the hash-to-curve generator set, which has to be used consistently
+{
+  let options = { generators: 'hash-to-curve' } as const;
+  let x = 1234n;
+  let r = Scalar.random().toBigInt();
+  let commitment = PedersenCommitment.create(x, r, options);
+  let proof = PedersenOpeningProof.create(x, r, context, options);
+
+  expect(proof.verify(commitment, context, options).toBoolean()).toBe(true);
+  expect(proof.verify(commitment, context).toBoolean()).toBe(false);
+}
+
+// equality of committed values
+{
+  let x = 42n;
+  let [r1, r2] = [Scalar.random().toBigInt(), Scalar.random().toBigInt()];
+  let c1 = PedersenCommitment.create(x, r1);
+  let c2 = PedersenCommitment.create(x, r2);
+  let proof = CommitmentEqualityProof.create(x, r1, r2);
+
+  expect(proof.verify(c1, c2).toBoolean()).toBe(true);
+  expect(proof.verify(c1, PedersenCommitment.create(43n, r2)).toBoolean()).toBe(
+    false
+  );
+
+  Provable.runAndCheck(() => {
+    let proofVar = Provable.witness(CommitmentEqualityProof, () => proof);
+    let [c1Var, c2Var] = [c1, c2].map((c) =>
+      Provable.witness(PedersenCommitment, () => c)
+    );
+    proofVar.verify(c1Var, c2Var).assertTrue();
+  });
+}
+
+// OR-proof that a commitment is to a bit
+for (let bit of [0n, 1n]) {
+  let r = Scalar.random().toBigInt();
+  let { G, H } = PedersenCommitment;
+  let C = PedersenCommitment.create(bit, r).commitment;
+  let publicKeys: [Group, Group] = [C, C.sub(G)];
+  let proof = OrProof.create(r, Number(bit) as 0 | 1, publicKeys, H);
+
+  expect(proof.verify(publicKeys, H).toBoolean()).toBe(true);
+  expect(proof.verify([C.add(G), C], H).toBoolean()).toBe(false);
+
+  Provable.runAndCheck(() => {
+    let proofVar = Provable.witness(OrProof, () => proof);
+    let CVar = Provable.witness(Group, () => C);
+    proofVar.verify([CVar, CVar.sub(G)], H).assertTrue();
+  });
+}
+
+// a commitment to 2 is not a bit
+expect(() => {
+  let { G, H } = PedersenCommitment;
+  let C = PedersenCommitment.create(2n, 5n).commitment;
+  OrProof.create(5n, 0, [C, C.sub(G)], H);
+}).toThrow('secret does not match');
@@ -0,0 +1,560 @@
+/**
+ * Fixed-width signed integers with two's complement semantics: {@link Int8}, {@link Int16} and {@link Int32}.
+ *
+ * A value is stored as its n-bit two's complement bit pattern, i.e. as a field element in [0, 2^n).
+ * This gives the same results as fixed-width integer types in C, Rust or Solidity, which makes it easy to port
+ * parsing and checksum logic from their specifications.
+ */
+import { Field, Bool } from './core.js';
+import { Struct } from './circuit-value.js';
+import { Provable } from './provable.js';
+import { HashInput } from './hash.js';
+import * as RangeCheck from './gadgets/range-check.js';
+import { assert } from './gadgets/common.js';
+
+// external API
+export { Int8, Int16, Int32 };
+
+// internal API
+export { SignedInt, rangeCheck };
+
+/**
+ * Base class for fixed-width two's complement integers.
+ *
+ * Arithmetic comes in two flavors:
+ * - `add()`, `sub()`, `mul()`, `div()` etc fail on overflow.
+ * - `addWrapping()`, `subWrapping()` and `mulWrapping()` wrap around modulo 2^n.
+ */
+class SignedInt extends Struct({ value: Field }) {
+  static NUM_BITS = 0;
+
+  get Constructor() {
+    return this.constructor as typeof SignedInt;
+  }
+  get bits() {
+    return this.Constructor.NUM_BITS;
+  }
+
+  /**
+   * The smallest representable value, `-2^(n-1)`.
+   */
+  static get MIN() {
+    return -(1n << BigInt(this.NUM_BITS - 1));
+  }
+  /**
+   * The largest representable value, `2^(n-1) - 1`.
+   */
+  static get MAX() {
+    return (1n << BigInt(this.NUM_BITS - 1)) - 1n;
+  }
+
+  /**
+   * Creates a new value from a bigint, number, string, or a signed integer of another width.
+   *
+   * Throws if the value is out of range. When converting from a wider signed integer in provable code,
+   * this adds constraints which assert that the value fits.
+   */
+  static from<T extends typeof SignedInt>(
+    this: T,
+    x: SignedInt | bigint | number | string
+  ): InstanceType<T> {
+    if (x instanceof SignedInt) {
+      if (x.bits === this.NUM_BITS) return new this({ value: x.value }) as any;
+      return this.fromField(x.toField());
+    }
+    let x_ = BigInt(x);
+    if (x_ < this.MIN || x_ > this.MAX) {
+      throw Error(
+        `${this.name}: Expected number between ${this.MIN} and ${this.MAX}, got ${x_}`
+      );
+    }
+    return new this({ value: Field(BigInt.asUintN(this.NUM_BITS, x_)) }) as any;
+  }
+
+  /**
+   * Creates a new value from a {@link Field}, interpreted as a signed integer, i.e. negative numbers are
+   * represented as `-x`.
+   *
+   * Asserts that the value is in range.
+   */
+  static fromField<T extends typeof SignedInt>(
+    this: T,
+    x: Field,
+    message?: string
+  ): InstanceType<T> {
+    let n = this.NUM_BITS;
+    if (x.isConstant()) {
+      let x0 = toSigned(x.toBigInt());
+      if (x0 < this.MIN || x0 > this.MAX) {
+        throw Error(
+          message ??
+            `${this.name}: Expected number between ${this.MIN} and ${this.MAX}, got ${x0}`
+        );
+      }
+      return this.from(x0);
+    }
+    // x + 2^(n-1) = msb * 2^(n-1) + low is in [0, 2^n), and has the same bits as x, except for a flipped msb
+    let { msb, low } = decompose(n, x.add(1n << BigInt(n - 1)), message);
+    let value = low.add(
+      msb
+        .not()
+        .toField()
+        .mul(1n << BigInt(n - 1))
+    );
+    return new this({ value: value.seal() }) as any;
+  }
+
+  /**
+   * Returns the value as a {@link Field}, interpreted as a signed integer,
+   * i.e. negative numbers are represented as `-x`.
+   */
+  toField() {
+    let n = this.bits;
+    if (this.value.isConstant()) return Field(toSigned(this.toBigInt(), n));
+    let { msb, low } = decompose(n, this.value);
+    return low.sub(msb.toField().mul(1n << BigInt(n - 1))).seal();
+  }
+
+  /**
+   * Checks if the value is negative.
+   */
+  isNegative() {
+    if (this.value.isConstant()) return Bool(this.toBigInt() < 0n);
+    return decompose(this.bits, this.value).msb;
+  }
+
+  // checked arithmetic
+
+  /**
+   * Addition which fails on overflow.
+   */
+  add(y: this | bigint | number) {
+    let y_ = this.Constructor.from(y);
+    return this.fromField(this.toField().add(y_.toField()), 'add');
+  }
+  /**
+   * Subtraction which fails on overflow.
+   */
+  sub(y: this | bigint | number) {
+    let y_ = this.Constructor.from(y);
+    return this.fromField(this.toField().sub(y_.toField()), 'sub');
+  }
+  /**
+   * Multiplication which fails on overflow.
+   */
+  mul(y: this | bigint | number) {
+    let y_ = this.Constructor.from(y);
+    return this.fromField(this.toField().mul(y_.toField()), 'mul');
+  }
+  /**
+   * Negation which fails on overflow, i.e. if the value is {@link SignedInt.MIN}.
+   */
+  neg() {
+    return this.fromField(this.toField().neg(), 'neg');
+  }
+  /**
+   * Absolute value, which fails on overflow, i.e. if the value is {@link SignedInt.MIN}.
+   */
+  abs() {
+    let x = this.toField();
+    return this.fromField(Provable.if(this.isNegative(), x.neg(), x), 'abs');
+  }
+
+  /**
+   * Integer division which rounds towards zero, together with the remainder, which has the sign of the dividend.
+   *
+   * This matches `/` and `%` in C, Rust, Solidity and on JS bigints.
+   *
+   * Fails on division by zero and on overflow, i.e. when dividing {@link SignedInt.MIN} by `-1`.
+   */
+  divMod(y: this | bigint | number) {
+    let n = this.bits;
+    let name = this.Constructor.name;
+    let y_ = this.Constructor.from(y);
+
+    if (this.value.isConstant() && y_.value.isConstant()) {
+      let [x0, y0] = [this.toBigInt(), y_.toBigInt()];
+      assert(y0 !== 0n, `${name}.divMod: division by zero`);
+      return {
+        quotient: this.fromField(Field(x0 / y0), 'div'),
+        remainder: this.fromField(Field(x0 % y0), 'mod'),
+      };
+    }
+
+    let x = signAndMagnitude(n, this.value);
+    let d = signAndMagnitude(n, y_.value);
+
+    // |x| = q * |y| + r, where 0 <= r < |y|
+    let [q, r] = Provable.witness(Provable.Array(Field, 2), () => {
+      let [x0, y0] = [x.magnitude.toBigInt(), d.magnitude.toBigInt()];
+      if (y0 === 0n) return [Field(0), Field(x0)];
+      return [Field(x0 / y0), Field(x0 % y0)];
+    });
+    rangeCheck(n, q);
+    rangeCheck(n, r);
+    q.mul(d.magnitude).add(r).assertEquals(x.magnitude);
+    rangeCheck(
+      n,
+      d.magnitude.sub(r).sub(1).seal(),
+      `${name}.divMod: division by zero`
+    );
+
+    let signsDiffer = x.negative.equals(d.negative).not();
+    return {
+      quotient: this.fromField(Provable.if(signsDiffer, q.neg(), q), 'div'),
+      remainder: this.fromField(Provable.if(x.negative, r.neg(), r), 'mod'),
+    };
+  }
+
+  /**
+   * Integer division which rounds towards zero, see {@link SignedInt.divMod}.
+   */
+  div(y: this | bigint | number) {
+    return this.divMod(y).quotient;
+  }
+  /**
+   * Integer remainder, which has the sign of the dividend, see {@link SignedInt.divMod}.
+   */
+  mod(y: this | bigint | number) {
+    return this.divMod(y).remainder;
+  }
+
+  // wrapping arithmetic
+
+  /**
+   * Addition modulo 2^n, which wraps around on overflow.
+   *
+   * @example
+   * ```ts
+   * Int8.from(127).addWrapping(1).assertEquals(-128);
+   * ```
+   */
+  addWrapping(y: this | bigint | number) {
+    let y_ = this.Constructor.from(y);
+    return this.create(modPow2(this.bits, this.value.add(y_.value)));
+  }
+  /**
+   * Subtraction modulo 2^n, which wraps around on overflow.
+   */
+  subWrapping(y: this | bigint | number) {
+    let y_ = this.Constructor.from(y);
+    let z = this.value.sub(y_.value).add(1n << BigInt(this.bits));
+    return this.create(modPow2(this.bits, z));
+  }
+  /**
+   * Multiplication modulo 2^n, which wraps around on overflow.
+   */
+  mulWrapping(y: this | bigint | number) {
+    let y_ = this.Constructor.from(y);
+    return this.create(modPow2(this.bits, this.value.mul(y_.value)));
+  }
+
+  // shifts
+
+  /**
+   * Shifts the bits to the left by a constant number of bits, discarding bits which are shifted out.
+   *
+   * Like `<<` in C, this can change the sign.
+   */
+  leftShift(bits: number) {
+    this.checkShift(bits);
+    return this.create(modPow2(this.bits, this.value.mul(1n << BigInt(bits))));
+  }
+
+  /**
+   * Arithmetic right shift by a constant number of bits, which fills in copies of the sign bit from the left.
+   *
+   * This is division by 2^bits, rounding towards negative infinity.
+   *
+   * @example
+   * ```ts
+   * Int8.from(-5).rightShift(1).assertEquals(-3);
+   * ```
+   */
+  rightShift(bits: number) {
+    this.checkShift(bits);
+    if (this.value.isConstant()) {
+      return this.Constructor.from(this.toBigInt() >> BigInt(bits)) as this;
+    }
+    let x = this.toField();
+
+    // x = q * 2^bits + r, where 0 <= r < 2^bits
+    let [q, r] = Provable.witness(Provable.Array(Field, 2), () => {
+      let x0 = toSigned(x.toBigInt());
+      let q0 = x0 >> BigInt(bits);
+      return [Field(q0), Field(x0 - (q0 << BigInt(bits)))];
+    });
+    let quotient = this.fromField(q, 'rightShift');
+    rangeCheck(bits, r);
+    q.mul(1n << BigInt(bits))
+      .add(r)
+      .assertEquals(x);
+    return quotient;
+  }
+
+  // comparisons
+
+  /**
+   * Checks if two values are equal.
+   */
+  equals(y: this | bigint | number) {
+    return this.value.equals(this.Constructor.from(y).value);
+  }
+  /**
+   * Asserts that two values are equal.
+   */
+  assertEquals(y: this | bigint | number, message?: string) {
+    this.value.assertEquals(this.Constructor.from(y).value, message);
+  }
+
+  /**
+   * Checks if this value is less than or equal to another one.
+   */
+  lessThanOrEqual(y: this | bigint | number) {
+    let y_ = this.Constructor.from(y);
+    // y - x is in (-2^n, 2^n), so it fits in n bits if and only if it is non-negative
+    let yMinusX = y_.toField().sub(this.toField());
+    return RangeCheck.isInRangeN(comparisonBits(this.bits), yMinusX);
+  }
+  /**
+   * Asserts that this value is less than or equal to another one.
+   */
+  assertLessThanOrEqual(y: this | bigint | number, message?: string) {
+    let y_ = this.Constructor.from(y);
+    if (this.value.isConstant() && y_.value.isConstant()) {
+      let [x0, y0] = [this.toBigInt(), y_.toBigInt()];
+      if (x0 > y0) {
+        if (message !== undefined) throw Error(message);
+        throw Error(
+          `${this.Constructor.name}.assertLessThanOrEqual: expected ${x0} <= ${y0}`
+        );
+      }
+      return;
+    }
+    let yMinusX = y_.toField().sub(this.toField()).seal();
+    RangeCheck.rangeCheckN(comparisonBits(this.bits), yMinusX, message);
+  }
+  /**
+   * Checks if this value is less than another one.
+   */
+  lessThan(y: this | bigint | number) {
+    let y_ = this.Constructor.from(y);
+    let yMinusXMinus1 = y_.toField().sub(this.toField()).sub(1);
+    return RangeCheck.isInRangeN(comparisonBits(this.bits), yMinusXMinus1);
+  }
+  /**
+   * Asserts that this value is less than another one.
+   */
+  assertLessThan(y: this | bigint | number, message?: string) {
+    let y_ = this.Constructor.from(y);
+    if (this.value.isConstant() && y_.value.isConstant()) {
+      let [x0, y0] = [this.toBigInt(), y_.toBigInt()];
+      if (x0 >= y0) {
+        if (message !== undefined) throw Error(message);
+        throw Error(
+          `${this.Constructor.name}.assertLessThan: expected ${x0} < ${y0}`
+        );
+      }
+      return;
+    }
+    let yMinusXMinus1 = y_.toField().sub(this.toField()).sub(1).seal();
+    RangeCheck.rangeCheckN(comparisonBits(this.bits), yMinusXMinus1, message);
+  }
+  /**
+   * Checks if this value is greater than another one.
+   */
+  greaterThan(y: this | bigint | number) {
+    return this.Constructor.from(y).lessThan(this);
+  }
+  /**
+   * Asserts that this value is greater than another one.
+   */
+  assertGreaterThan(y: this | bigint | number, message?: string) {
+    this.Constructor.from(y).assertLessThan(this, message);
+  }
+  /**
+   * Checks if this value is greater than or equal to another one.
+   */
+  greaterThanOrEqual(y: this | bigint | number) {
+    return this.Constructor.from(y).lessThanOrEqual(this);
+  }
+  /**
+   * Asserts that this value is greater than or equal to another one.
+   */
+  assertGreaterThanOrEqual(y: this | bigint | number, message?: string) {
+    this.Constructor.from(y).assertLessThanOrEqual(this, message);
+  }
+
+  /**
+   * Serialize to a bigint.
+   *
+   * **Warning**: This operation is not provable.
+   */
+  toBigInt() {
+    return toSigned(this.value.toBigInt(), this.bits);
+  }
+  /**
+   * Serialize to a number.
+   *
+   * **Warning**: This operation is not provable.
+   */
+  toNumber() {
+    return Number(this.toBigInt());
+  }
+  /**
+   * Serialize to a string, e.g. for printing.
+   *
+   * **Warning**: This operation is not provable.
+   */
+  toString() {
+    return this.toBigInt().toString();
+  }
+
+  /**
+   * {@link Provable.check} for signed integers.
+   * Proves that the bit pattern is in the [0, 2^n) range.
+   */
+  static check(x: { value: Field }) {
+    rangeCheck(this.NUM_BITS, x.value);
+  }
+
+  static toInput(x: { value: Field }): HashInput {
+    return { packed: [[x.value, this.NUM_BITS]] };
+  }
+
+  private fromField(x: Field, operation: string) {
+    let name = this.Constructor.name;
+    return this.Constructor.fromField(
+      x,
+      `${name}.${operation}: overflow`
+    ) as this;
+  }
+
+  private create(value: Field) {
+    return new this.Constructor({ value }) as this;
+  }
+
+  private checkShift(bits: number) {
+    assert(
+      Number.isInteger(bits) && bits >= 0 && bits < this.bits,
+      `${this.Constructor.name}: expected shift between 0 and ${
+        this.bits - 1
+      }, got ${bits}`
+    );
+  }
+}
+
+/**
+ * An 8 bit signed integer with values ranging from -128 to 127.
+ */
+class Int8 extends SignedInt {
+  static NUM_BITS = 8;
+}
+
+/**
+ * A 16 bit signed integer with values ranging from -32768 to 32767.
+ */
+class Int16 extends SignedInt {
+  static NUM_BITS = 16;
+}
+
+/**
+ * A 32 bit signed integer with values ranging from -2147483648 to 2147483647.
+ */
+class Int32 extends SignedInt {
+  static NUM_BITS = 32;
+}
+
+// helpers
+
+/**
+ * Asserts that `x` is in [0, 2^n), for n <= 32.
+ */
+function rangeCheck(n: number, x: Field, message?: string) {
+  if (x.isConstant()) {
+    assert(x.toBigInt() < 1n << BigInt(n), message);
+    return;
+  }
+  switch (n) {
+    case 8:
+      return RangeCheck.rangeCheck8(x);
+    case 16:
+      return RangeCheck.rangeCheck16(x);
+    case 32:
+      return RangeCheck.rangeCheckN(32, x, message);
+    default: {
+      assert(
+        n >= 0 && n < 32,
+        `rangeCheck: expected at most 32 bits, got ${n}`
+      );
+      // first check x < 2^m, so that scaling by 2^(m-n) can't wrap around the field
+      let m = n < 8 ? 8 : n < 16 ? 16 : 32;
+      rangeCheck(m, x, message);
+      // x < 2^n  <=>  x * 2^(m-n) < 2^m
+      return rangeCheck(m, x.mul(1n << BigInt(m - n)).seal(), message);
+    }
+  }
+}
+
+/**
+ * Splits `x` in [0, 2^n) into its most significant bit and the remaining n - 1 bits.
+ *
+ * This also proves that `x` is in [0, 2^n).
+ */
+function decompose(n: number, x: Field, message?: string) {
+  let [msb, low] = Provable.witness(Provable.Array(Field, 2), () => {
+    let x0 = x.toBigInt();
+    return [Field(x0 >> BigInt(n - 1)), Field(BigInt.asUintN(n - 1, x0))];
+  });
+  let msbBool = Bool.Unsafe.ofField(msb);
+  Bool.check(msbBool);
+  rangeCheck(n - 1, low, message);
+  msb
+    .mul(1n << BigInt(n - 1))
+    .add(low)
+    .assertEquals(x, message);
+  return { msb: msbBool, low };
+}
+
+/**
+ * Converts a two's complement bit pattern to the sign and absolute value.
+ */
+function signAndMagnitude(n: number, value: Field) {
+  let { msb, low } = decompose(n, value);
+  let half = Field(1n << BigInt(n - 1));
+  return { negative: msb, magnitude: Provable.if(msb, half.sub(low), low) };
+}
+
+/**
+ * Reduces `x` modulo 2^n, where `x` is known to be smaller than 2^(2n).
+ */
+function modPow2(n: number, x: Field) {
+  if (x.isConstant()) return Field(BigInt.asUintN(n, x.toBigInt()));
+
+  let [quotient, remainder] = Provable.witness(Provable.Array(Field, 2), () => {
+    let x0 = x.toBigInt();
+    return [Field(x0 >> BigInt(n)), Field(BigInt.asUintN(n, x0))];
+  });
+  rangeCheck(n, quotient);
+  rangeCheck(n, remainder);
+  quotient
+    .mul(1n << BigInt(n))
+    .add(remainder)
+    .assertEquals(x);
+  return remainder;
+}
+
+/**
+ * Interprets a bigint as signed, either as a field element or as an n-bit two's complement pattern.
+ */
+function toSigned(x: bigint, n?: number) {
+  if (n !== undefined) return BigInt.asIntN(n, x);
+  return x > Field.ORDER / 2n ? x - Field.ORDER : x;
+}
+
+/**
+ * Number of bits for range checks that detect a negative difference of two n-bit signed integers.
+ */
+function comparisonBits(n: number) {
+  return Math.ceil(n / 16) * 16;
+}
@@ -0,0 +1,101 @@
+import { Int8, Int16, Int32, SignedInt, rangeCheck } from './signed-int.js';
+import { Field } from './core.js';
+import { Provable } from './provable.js';
+import { test, Random } from './testing/property.js';
+import { expect } from 'expect';
+import { Fp } from '../bindings/crypto/finite-field.js';
+
+console.log('signed integer tests');
+
+for (let Int of [Int8, Int16, Int32]) {
+  let n = Int.NUM_BITS;
+  let int = Random.map(Random.biguint(n), (x) => BigInt.asIntN(n, x));
+  let inRange = (x: bigint) => x >= Int.MIN && x <= Int.MAX;
+
+  // provable operations match bigint arithmetic on fixed-width integers
+  test(int, int, Random.nat(n - 1), (x, y, bits, assert) => {
+    assert(Int.from(x).toBigInt() === x, 'round-trips');
+
+    Provable.runAndCheck(() => {
+      let xVar = Provable.witness(Int, () => Int.from(x));
+      let yVar = Provable.witness(Int, () => Int.from(y));
+
+      xVar.addWrapping(yVar).assertEquals(BigInt.asIntN(n, x + y));
+      xVar.subWrapping(yVar).assertEquals(BigInt.asIntN(n, x - y));
+      xVar.mulWrapping(yVar).assertEquals(BigInt.asIntN(n, x * y));
+      xVar.leftShift(bits).assertEquals(BigInt.asIntN(n, x << BigInt(bits)));
+      xVar.rightShift(bits).assertEquals(x >> BigInt(bits));
+
+      if (inRange(x + y)) xVar.add(yVar).assertEquals(x + y);
+      if (inRange(x - y)) xVar.sub(yVar).assertEquals(x - y);
+      if (inRange(x * y)) xVar.mul(yVar).assertEquals(x * y);
+      if (y !== 0n && inRange(x / y)) {
+        let { quotient, remainder } = xVar.divMod(yVar);
+        quotient.assertEquals(x / y);
+        remainder.assertEquals(x % y);
+      }
+
+      xVar.lessThan(yVar).assertEquals(x < y);
+      xVar.lessThanOrEqual(yVar).assertEquals(x <= y);
+      xVar.greaterThan(yVar).assertEquals(x > y);
+      xVar.greaterThanOrEqual(yVar).assertEquals(x >= y);
+      xVar.isNegative().assertEquals(x < 0n);
+      xVar.toField().assertEquals(x);
+    });
+  });
+
+  // overflow fails in provable code
+  let failsInCircuit = (f: (x: SignedInt) => void) =>
+    expect(() =>
+      Provable.runAndCheck(() => {
+        f(Provable.witness(Int, () => Int.from(Int.MIN)));
+      })
+    ).toThrow();
+
+  failsInCircuit((min) => min.neg());
+  failsInCircuit((min) => min.abs());
+  failsInCircuit((min) => min.sub(1n));
+  failsInCircuit((min) => min.div(-1n));
+  failsInCircuit((min) => min.div(0n));
+  failsInCircuit((min) => min.add(Int.MIN));
+  failsInCircuit((min) => min.assertGreaterThan(Int.MAX));
+
+  // and outside
+  expect(() => Int.from(Int.MAX).add(1)).toThrow('overflow');
+  expect(() => Int.from(Int.MAX + 1n)).toThrow('Expected number between');
+  expect(Int.from(Int.MAX).addWrapping(1).toBigInt()).toEqual(Int.MIN);
+}
+
+// conversion between widths
+expect(Int32.from(Int8.from(-100)).toBigInt()).toEqual(-100n);
+expect(() => Int8.from(Int16.from(200))).toThrow();
+Provable.runAndCheck(() => {
+  let x = Provable.witness(Int16, () => Int16.from(-100));
+  Int8.from(x).assertEquals(-100);
+  Int32.from(x).assertEquals(-100);
+});
+expect(() =>
+  Provable.runAndCheck(() => {
+    let x = Provable.witness(Int16, () => Int16.from(-200));
+    Int8.from(x);
+  })
+).toThrow();
+
+// range checks on n - 1 bits, which fromField() and rightShift() use on their limbs, are sound
+function checkInRange(bits: number, x: bigint) {
+  Provable.runAndCheck(() => {
+    rangeCheck(
+      bits,
+      Provable.witness(Field, () => Field(x))
+    );
+  });
+}
+
+// (p + 1)/2 would pass a range check on its double, which wraps around to 1
+let half = (Fp.modulus + 1n) / 2n;
+
+for (let n of [7, 15, 31]) {
+  checkInRange(n, (1n << BigInt(n)) - 1n);
+  expect(() => checkInRange(n, 1n << BigInt(n))).toThrow();
+  expect(() => checkInRange(n, half)).toThrow();
+}
@@ -0,0 +1,221 @@
+import { Bool, Field } from './core.js';
+import { UInt8 } from './int.js';
+import { FlexiblePoint, ForeignCurve } from './foreign-curve.js';
+import { EcdsaSignature, hashOutputToScalar } from './foreign-ecdsa.js';
+import { arrayGet } from './gadgets/basic.js';
+import { and } from './gadgets/bitwise.js';
+import { assert, exists } from './gadgets/common.js';
+import * as RangeCheck from './gadgets/range-check.js';
+import { SHA256 } from './gadgets/sha256.js';
+import { Provable } from './provable.js';
+import { Bytes } from './provable-types/bytes.js';
+import { DynamicBytes } from './provable-types/dynamic-bytes.js';
+
+// external API
+export { WebAuthn };
+
+// authenticator data flags, https://www.w3.org/TR/webauthn-2/#flags
+const USER_PRESENT = 0x01;
+const USER_VERIFIED = 0x04;
+
+// https://www.rfc-editor.org/rfc/rfc4648#section-5
+const BASE64URL_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+const WebAuthn = {
+  /**
+   * Verify a WebAuthn assertion, which is created when a user authenticates with a passkey,
+   * as specified in https://www.w3.org/TR/webauthn-2/#sctn-verifying-assertion.
+   *
+   * The signature is an ECDSA signature over the P-256 curve, see `Crypto.CurveParams.Secp256r1`,
+   * which signs `authenticatorData || SHA256(clientDataJSON)` with SHA-256.
+   *
+   * This method proves that
+   * - `clientDataJSON` contains `"type":"webauthn.get"` and `"challenge":"<base64url(challenge)>"`
+   * - the user present flag is set in `authenticatorData`, and the user verified flag if `userVerification` is true
+   * - the first 32 bytes of `authenticatorData` equal `rpIdHash`, if it is provided
+   *
+   * and it fails if any of these conditions doesn't hold.
+   *
+   * **Important:** This method returns a {@link Bool} which indicates whether the signature is valid.
+   * So, to actually prove validity of an assertion, you need to assert that the result is true.
+   *
+   * Note: The origin in `clientDataJSON` is not checked. To bind the assertion to your relying party, pass the `rpIdHash`.
+   *
+   * @example
+   * ```ts
+   * class Secp256r1 extends createForeignCurve(Crypto.CurveParams.Secp256r1) {}
+   * class Ecdsa extends createEcdsa(Secp256r1) {}
+   * class ClientDataJSON extends DynamicBytes(256) {}
+   *
+   * // in provable code
+   * let isValid = WebAuthn.verifyAssertion({
+   *   authenticatorData, // Bytes(37)
+   *   clientDataJSON, // ClientDataJSON
+   *   signature, // Ecdsa
+   *   publicKey, // Secp256r1
+   *   challenge, // Bytes(32)
+   * });
+   * isValid.assertTrue('passkey signature verifies');
+   * ```
+   */
+  verifyAssertion({
+    authenticatorData,
+    clientDataJSON,
+    signature,
+    publicKey,
+    challenge,
+    rpIdHash,
+    userVerification = false,
+  }: {
+    authenticatorData: Bytes;
+    clientDataJSON: DynamicBytes;
+    signature: EcdsaSignature;
+    publicKey: ForeignCurve | FlexiblePoint;
+    challenge: Bytes;
+    rpIdHash?: Bytes;
+    userVerification?: boolean;
+  }): Bool {
+    // authenticator data: rpIdHash (32 bytes) || flags (1 byte) || signCount (4 bytes) || extensions
+    let authData = authenticatorData.bytes;
+    assert(
+      authData.length >= 37,
+      `WebAuthn: expected authenticator data of at least 37 bytes, got ${authData.length}`
+    );
+    if (rpIdHash !== undefined) {
+      assert(rpIdHash.length === 32, 'WebAuthn: rpIdHash must be 32 bytes');
+      Provable.assertEqual(
+        Provable.Array(UInt8, 32),
+        authData.slice(0, 32),
+        rpIdHash.bytes
+      );
+    }
+    let flags = userVerification ? USER_PRESENT | USER_VERIFIED : USER_PRESENT;
+    and(authData[32].value, Field(flags), 8).assertEquals(
+      flags,
+      'WebAuthn: authenticator data flags not set'
+    );
+
+    // client data
+    assertContains(
+      clientDataJSON,
+      stringToBytes('"type":"webauthn.get"'),
+      'WebAuthn: client data type is not webauthn.get'
+    );
+    assertContains(
+      clientDataJSON,
+      [
+        ...stringToBytes('"challenge":"'),
+        ...base64UrlEncode(challenge.bytes),
+        ...stringToBytes('"'),
+      ],
+      'WebAuthn: client data does not contain the challenge'
+    );
+
+    // signature
+    let Curve = signature.Constructor.Curve;
+    let clientDataHash = SHA256.hash(clientDataJSON);
+    let msgHash = SHA256.hash(
+      Bytes.from([...authData, ...clientDataHash.bytes])
+    );
+    return signature.verifySignedHash(
+      hashOutputToScalar(msgHash, Curve),
+      publicKey
+    );
+  },
+};
+
+/**
+ * Proves that `haystack` contains the bytes of `needle` at some position, which is witnessed.
+ *
+ * This costs `O(needle.length * haystack.maxLength)` constraints.
+ */
+function assertContains(
+  haystack: DynamicBytes,
+  needle: UInt8[],
+  message: string
+) {
+  let n = needle.length;
+  let bytes = haystack.bytes.map((x) => x.value);
+
+  let index = Provable.witness(Field, () => {
+    let haystack_ = [...haystack.toBytes()];
+    let needle_ = needle.map((x) => x.toNumber());
+    let i = haystack_.findIndex((_, i) =>
+      needle_.every((x, j) => haystack_[i + j] === x)
+    );
+    return Field(Math.max(i, 0));
+  });
+
+  // 0 <= index <= length - n, since length < 2^32
+  RangeCheck.rangeCheck32(index);
+  RangeCheck.rangeCheck32(haystack.length.sub(index).sub(n).seal());
+
+  for (let j = 0; j < n; j++) {
+    arrayGet(bytes, index.add(j)).assertEquals(needle[j].value, message);
+  }
+}
+
+function stringToBytes(s: string) {
+  return [...new TextEncoder().encode(s)].map((x) => UInt8.from(x));
+}
+
+/**
+ * Provable base64url encoding without padding, which is how the challenge appears in `clientDataJSON`.
+ */
+function base64UrlEncode(bytes: UInt8[]): UInt8[] {
+  let alphabet = [...BASE64URL_ALPHABET].map((c) => Field(c.charCodeAt(0)));
+  let chars: UInt8[] = [];
+
+  // every group of 3 bytes is encoded as 4 characters, a partial group of k bytes as k + 1 characters
+  for (let i = 0; i < bytes.length; i += 3) {
+    let group = bytes.slice(i, i + 3);
+    for (let s of toSextets(group).slice(0, group.length + 1)) {
+      if (s.isConstant()) {
+        chars.push(UInt8.from(alphabet[Number(s.toBigInt())].toBigInt()));
+      } else {
+        chars.push(UInt8.Unsafe.fromField(arrayGet(alphabet, s)));
+      }
+    }
+  }
+  return chars;
+}
+
+/**
+ * Splits up to 3 bytes into 4 sextets, where missing bytes are treated as zero.
+ */
+function toSextets(group: UInt8[]): Field[] {
+  let word = group.reduce(
+    (acc, byte, i) => acc.add(byte.value.mul(1 << (8 * (2 - i)))),
+    Field(0)
+  );
+
+  // constant case
+  if (word.isConstant()) {
+    let w = word.toBigInt();
+    return [18n, 12n, 6n, 0n].map((shift) => Field((w >> shift) & 0x3fn));
+  }
+
+  let sextets = exists(4, () => {
+    let w = word.toBigInt();
+    return [
+      (w >> 18n) & 0x3fn,
+      (w >> 12n) & 0x3fn,
+      (w >> 6n) & 0x3fn,
+      w & 0x3fn,
+    ];
+  });
+
+  // prove that every sextet is less than 2^6
+  for (let s of sextets) {
+    RangeCheck.rangeCheck8(s);
+    RangeCheck.rangeCheck8(s.mul(1 << 2).seal());
+  }
+  let [s0, s1, s2, s3] = sextets;
+  s0.mul(1 << 18)
+    .add(s1.mul(1 << 12))
+    .add(s2.mul(1 << 6))
+    .add(s3)
+    .assertEquals(word);
+  return sextets;
+}
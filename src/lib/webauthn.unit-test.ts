@@ -0,0 +1,98 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { bigIntToBytes } from '../bindings/crypto/bigint-helpers.js';
+import { Crypto } from './crypto.js';
+import { createForeignCurve } from './foreign-curve.js';
+import { createEcdsa } from './foreign-ecdsa.js';
+import { Provable } from './provable.js';
+import { Bytes, DynamicBytes } from './provable-types/provable-types.js';
+import { WebAuthn } from './webauthn.js';
+import { expect } from 'expect';
+
+class Secp256r1 extends createForeignCurve(Crypto.CurveParams.Secp256r1) {}
+class Ecdsa extends createEcdsa(Secp256r1) {}
+class ClientDataJSON extends DynamicBytes(256) {}
+class AuthenticatorData extends Bytes(37) {}
+class Challenge extends Bytes(32) {}
+
+// simulate a passkey assertion
+let privateKey = Secp256r1.Scalar.random().toBigInt();
+let publicKey = Secp256r1.generator.scale(privateKey);
+
+let rpIdHash = sha256(new TextEncoder().encode('example.com'));
+let challenge = sha256(new TextEncoder().encode('login challenge'));
+
+// flags = user present | user verified, sign count = 1
+let authenticatorData = Uint8Array.from([...rpIdHash, 0x05, 0, 0, 0, 1]);
+let clientDataJSON = JSON.stringify({
+  type: 'webauthn.get',
+  challenge: Buffer.from(challenge).toString('base64url'),
+  origin: 'https://example.com',
+  crossOrigin: false,
+});
+let clientDataBytes = new TextEncoder().encode(clientDataJSON);
+
+let msgHash = sha256(
+  Uint8Array.from([...authenticatorData, ...sha256(clientDataBytes)])
+);
+let signature = Ecdsa.signHash(bytesToBigIntBE(msgHash), privateKey);
+
+// DER encoding, as returned by authenticators
+let der = toDER(signature.toBigInt());
+expect(Ecdsa.fromDER(der).toBigInt()).toEqual(signature.toBigInt());
+expect(() => Ecdsa.fromDER(der.slice(0, -1))).toThrow('invalid encoding');
+
+function verify({
+  challenge: challenge_ = challenge,
+  userVerification = false,
+} = {}) {
+  let authData = Provable.witness(AuthenticatorData.provable, () =>
+    AuthenticatorData.from(authenticatorData)
+  );
+  let clientData = Provable.witness(ClientDataJSON.provable, () =>
+    ClientDataJSON.fromString(clientDataJSON)
+  );
+  let sig = Provable.witness(Ecdsa.provable, () => Ecdsa.fromDER(der));
+  let pk = Provable.witness(Secp256r1.provable, () => publicKey);
+  let challengeBytes = Provable.witness(Challenge.provable, () =>
+    Challenge.from(challenge_)
+  );
+
+  return WebAuthn.verifyAssertion({
+    authenticatorData: authData,
+    clientDataJSON: clientData,
+    signature: sig,
+    publicKey: pk,
+    challenge: challengeBytes,
+    rpIdHash: Bytes.from(rpIdHash),
+    userVerification,
+  });
+}
+
+Provable.runAndCheck(() => {
+  verify().assertTrue('assertion verifies');
+  verify({ userVerification: true }).assertTrue('assertion verifies');
+});
+
+// a different challenge is rejected
+expect(() =>
+  Provable.runAndCheck(() => {
+    verify({ challenge: sha256(new TextEncoder().encode('other')) });
+  })
+).toThrow('does not contain the challenge');
+
+// helpers
+
+function bytesToBigIntBE(bytes: Uint8Array) {
+  return bytes.reduce((x, byte) => (x << 8n) | BigInt(byte), 0n);
+}
+
+function toDER({ r, s }: { r: bigint; s: bigint }) {
+  let integer = (x: bigint) => {
+    let bytes = bigIntToBytes(x, 32).reverse();
+    while (bytes.length > 1 && bytes[0] === 0 && bytes[1] < 0x80) bytes.shift();
+    if (bytes[0] >= 0x80) bytes.unshift(0);
+    return [0x02, bytes.length, ...bytes];
+  };
+  let body = [...integer(r), ...integer(s)];
+  return Uint8Array.from([0x30, body.length, ...body]);
+}
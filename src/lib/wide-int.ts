@@ -0,0 +1,627 @@
+import { Field, Bool } from './core.js';
+import { AnyConstructor, CircuitValue, arrayProp } from './circuit-value.js';
+import { HashInput } from './hash.js';
+import { Provable } from './provable.js';
+import { UInt8, UInt32, UInt64 } from './int.js';
+import * as RangeCheck from './gadgets/range-check.js';
+import * as Bitwise from './gadgets/bitwise.js';
+import { bytesToWords, wordsToBytes } from './gadgets/bit-slices.js';
+import { assert, exists, existsOne } from './gadgets/common.js';
+
+// external API
+export { UInt128, UInt256 };
+
+// internal API
+export { WideUInt };
+
+// limbs are 64 bits, so that products of two limbs plus carries fit comfortably in the native field
+const limbBits = 64n;
+const limbSize = 1n << limbBits;
+const limbMask = limbSize - 1n;
+
+/**
+ * Base class for unsigned integers which are wider than the native field.
+ *
+ * Values are stored as little-endian 64-bit limbs, each of which is range-checked to 64 bits.
+ * All arithmetic is checked: operations which would overflow or underflow fail.
+ */
+class WideUInt extends CircuitValue {
+  limbs: Field[];
+  static NUM_BITS = 0;
+
+  /**
+   * Create a new value from its little-endian 64-bit limbs.
+   *
+   * **Warning**: This does not range-check the limbs. Use {@link WideUInt.from} to create a value from a bigint.
+   */
+  constructor(limbs: Field[]) {
+    super(limbs);
+  }
+
+  get Constructor() {
+    return this.constructor as typeof WideUInt;
+  }
+
+  static get numLimbs() {
+    return this.NUM_BITS / Number(limbBits);
+  }
+
+  /**
+   * Create a new value from a bigint, number, string, or an unsigned integer of equal or smaller width.
+   *
+   * When converting from a wider integer, this asserts that the value fits.
+   */
+  static from<T extends typeof WideUInt>(
+    this: T,
+    x: WideUInt | UInt64 | UInt32 | bigint | number | string
+  ): InstanceType<T> {
+    let n = this.numLimbs;
+    if (x instanceof UInt64 || x instanceof UInt32) {
+      return new this(padLimbs([x.value], n)) as InstanceType<T>;
+    }
+    if (x instanceof WideUInt) {
+      let high = x.limbs.slice(n);
+      high.forEach((limb) =>
+        limb.assertEquals(0, `${this.name}.from: value doesn't fit`)
+      );
+      return new this(padLimbs(x.limbs.slice(0, n), n)) as InstanceType<T>;
+    }
+    let x_ = BigInt(x);
+    if (x_ < 0n || x_ >= 1n << BigInt(this.NUM_BITS)) {
+      throw Error(
+        `${this.name}: Expected number between 0 and 2^${this.NUM_BITS} - 1, got ${x_}`
+      );
+    }
+    return new this(split(x_, n).map(Field)) as InstanceType<T>;
+  }
+
+  /**
+   * Creates the maximum value, `2^NUM_BITS - 1`.
+   */
+  static MAXINT<T extends typeof WideUInt>(this: T): InstanceType<T> {
+    return this.from((1n << BigInt(this.NUM_BITS)) - 1n);
+  }
+
+  static check(x: WideUInt) {
+    x.limbs.forEach(RangeCheck.rangeCheck64);
+  }
+
+  static toInput(x: WideUInt): HashInput {
+    return { packed: x.limbs.map((limb) => [limb, Number(limbBits)]) };
+  }
+
+  /**
+   * Encodes this structure into a JSON-like object.
+   */
+  static toJSON(x: WideUInt) {
+    return x.toString();
+  }
+
+  /**
+   * Decodes a JSON-like object into this structure.
+   */
+  static fromJSON<T extends AnyConstructor>(x: string): InstanceType<T> {
+    return this.from(x) as any;
+  }
+
+  /**
+   * Turns the value into a {@link BigInt}.
+   */
+  toBigInt() {
+    return combine(this.limbs.map((limb) => limb.toBigInt()));
+  }
+  /**
+   * Turns the value into a string.
+   */
+  toString() {
+    return this.toBigInt().toString();
+  }
+
+  isConstant() {
+    return this.limbs.every((limb) => limb.isConstant());
+  }
+
+  // arithmetic
+
+  /**
+   * Addition with overflow checking.
+   */
+  add(y: this | bigint | number | string) {
+    let y_ = this.Constructor.from(y);
+    if (this.isConstant() && y_.isConstant()) {
+      return this.Constructor.from(this.toBigInt() + y_.toBigInt()) as this;
+    }
+    return this.create(addLimbs(this.limbs, y_.limbs));
+  }
+
+  /**
+   * Subtraction with underflow checking.
+   */
+  sub(y: this | bigint | number | string) {
+    let y_ = this.Constructor.from(y);
+    if (this.isConstant() && y_.isConstant()) {
+      return this.Constructor.from(this.toBigInt() - y_.toBigInt()) as this;
+    }
+    let { limbs, borrow } = subLimbs(this.limbs, y_.limbs);
+    borrow.assertEquals(0, `${this.Constructor.name}.sub: underflow`);
+    return this.create(limbs);
+  }
+
+  /**
+   * Multiplication with overflow checking.
+   */
+  mul(y: this | bigint | number | string) {
+    let y_ = this.Constructor.from(y);
+    if (this.isConstant() && y_.isConstant()) {
+      return this.Constructor.from(this.toBigInt() * y_.toBigInt()) as this;
+    }
+    let mask = (1n << BigInt(this.Constructor.NUM_BITS)) - 1n;
+    let z = Provable.witness(this.Constructor, () =>
+      this.Constructor.from((this.toBigInt() * y_.toBigInt()) & mask)
+    );
+    let zero = this.Constructor.from(0n);
+    assertMulAdd(
+      this.limbs,
+      y_.limbs,
+      zero.limbs,
+      z.limbs,
+      `${this.Constructor.name}.mul: overflow`
+    );
+    return z as this;
+  }
+
+  /**
+   * Integer division with remainder.
+   *
+   * `x.divMod(y)` returns the quotient and the remainder.
+   */
+  divMod(y: this | bigint | number | string) {
+    let y_ = this.Constructor.from(y);
+    if (this.isConstant() && y_.isConstant()) {
+      let x0 = this.toBigInt();
+      let y0 = y_.toBigInt();
+      assert(y0 !== 0n, `${this.Constructor.name}.divMod: division by zero`);
+      return {
+        quotient: this.Constructor.from(x0 / y0) as this,
+        rest: this.Constructor.from(x0 % y0) as this,
+      };
+    }
+    let q = Provable.witness(this.Constructor, () => {
+      let y0 = y_.toBigInt();
+      return this.Constructor.from(y0 === 0n ? 0n : this.toBigInt() / y0);
+    });
+    let r = Provable.witness(this.Constructor, () => {
+      let y0 = y_.toBigInt();
+      let x0 = this.toBigInt();
+      return this.Constructor.from(y0 === 0n ? x0 : x0 % y0);
+    });
+    // x = q*y + r, where r < y
+    assertMulAdd(q.limbs, y_.limbs, r.limbs, this.limbs);
+    r.assertLessThan(y_, `${this.Constructor.name}.divMod: division by zero`);
+    return { quotient: q as this, rest: r as this };
+  }
+
+  /**
+   * Integer division.
+   *
+   * `x.div(y)` returns the floor of `x / y`, that is, the greatest
+   * `z` such that `z * y <= x`.
+   */
+  div(y: this | bigint | number | string) {
+    return this.divMod(y).quotient;
+  }
+
+  /**
+   * Integer remainder.
+   *
+   * `x.mod(y)` returns the value `z` such that `0 <= z < y` and
+   * `x - z` is divisible by `y`.
+   */
+  mod(y: this | bigint | number | string) {
+    return this.divMod(y).rest;
+  }
+
+  // bitwise operations
+
+  /**
+   * Bitwise AND, computed limb by limb with {@link Gadgets.and}.
+   */
+  and(y: this | bigint | number | string) {
+    let y_ = this.Constructor.from(y);
+    return this.create(
+      this.limbs.map((x, i) => Bitwise.and(x, y_.limbs[i], Number(limbBits)))
+    );
+  }
+
+  /**
+   * Bitwise OR, computed limb by limb as `(x XOR y) + (x AND y)`.
+   */
+  or(y: this | bigint | number | string) {
+    let y_ = this.Constructor.from(y);
+    return this.create(
+      this.limbs.map((x, i) => {
+        let xor = Bitwise.xor(x, y_.limbs[i], Number(limbBits));
+        let and = Bitwise.and(x, y_.limbs[i], Number(limbBits));
+        return xor.add(and).seal();
+      })
+    );
+  }
+
+  /**
+   * Bitwise XOR, computed limb by limb with {@link Gadgets.xor}.
+   */
+  xor(y: this | bigint | number | string) {
+    let y_ = this.Constructor.from(y);
+    return this.create(
+      this.limbs.map((x, i) => Bitwise.xor(x, y_.limbs[i], Number(limbBits)))
+    );
+  }
+
+  /**
+   * Bitwise NOT, which flips all `NUM_BITS` bits.
+   */
+  not() {
+    return this.create(
+      this.limbs.map((x) => Bitwise.not(x, Number(limbBits), false))
+    );
+  }
+
+  /**
+   * Left shift by a constant number of bits. Bits shifted out of the top are discarded.
+   *
+   * ```ts
+   * UInt128.from(1).leftShift(127).toBigInt(); // 2n ** 127n
+   * ```
+   */
+  leftShift(bits: number) {
+    let n = this.limbs.length;
+    checkShift(bits, this.Constructor.NUM_BITS);
+    let [q, r] = [Math.floor(bits / 64), bits % 64];
+    let limbs = Array.from({ length: n }, (_, i) => {
+      let j = i - q;
+      if (j < 0) return Field(0);
+      let low = Bitwise.leftShift64(this.limbs[j], r);
+      if (r === 0 || j === 0) return low;
+      return low.add(Bitwise.rightShift64(this.limbs[j - 1], 64 - r)).seal();
+    });
+    return this.create(limbs);
+  }
+
+  /**
+   * Right shift by a constant number of bits.
+   *
+   * ```ts
+   * UInt128.from(2n ** 127n).rightShift(127).toBigInt(); // 1n
+   * ```
+   */
+  rightShift(bits: number) {
+    let n = this.limbs.length;
+    checkShift(bits, this.Constructor.NUM_BITS);
+    let [q, r] = [Math.floor(bits / 64), bits % 64];
+    let limbs = Array.from({ length: n }, (_, i) => {
+      let j = i + q;
+      if (j >= n) return Field(0);
+      let high = Bitwise.rightShift64(this.limbs[j], r);
+      if (r === 0 || j === n - 1) return high;
+      return high.add(Bitwise.leftShift64(this.limbs[j + 1], 64 - r)).seal();
+    });
+    return this.create(limbs);
+  }
+
+  // comparisons
+
+  /**
+   * Checks if two values are equal.
+   */
+  equals(y: this | bigint | number | string) {
+    let y_ = this.Constructor.from(y);
+    return this.limbs
+      .map((x, i) => x.equals(y_.limbs[i]))
+      .reduce((a, b) => a.and(b));
+  }
+  /**
+   * Asserts that two values are equal.
+   */
+  assertEquals(y: this | bigint | number | string, message?: string) {
+    let y_ = this.Constructor.from(y);
+    this.limbs.forEach((x, i) => x.assertEquals(y_.limbs[i], message));
+  }
+
+  /**
+   * Checks if this value is less than another one.
+   */
+  lessThan(y: this | bigint | number | string) {
+    let y_ = this.Constructor.from(y);
+    if (this.isConstant() && y_.isConstant()) {
+      return Bool(this.toBigInt() < y_.toBigInt());
+    }
+    // x < y iff x - y underflows
+    let { borrow } = subLimbs(this.limbs, y_.limbs);
+    return Bool.Unsafe.ofField(borrow);
+  }
+  /**
+   * Asserts that this value is less than another one.
+   */
+  assertLessThan(y: this | bigint | number | string, message?: string) {
+    let y_ = this.Constructor.from(y);
+    if (this.isConstant() && y_.isConstant()) {
+      let [x0, y0] = [this.toBigInt(), y_.toBigInt()];
+      if (x0 >= y0) {
+        if (message !== undefined) throw Error(message);
+        throw Error(
+          `${this.Constructor.name}.assertLessThan: expected ${x0} < ${y0}`
+        );
+      }
+      return;
+    }
+    let { borrow } = subLimbs(this.limbs, y_.limbs);
+    borrow.assertEquals(1, message);
+  }
+  /**
+   * Checks if this value is less than or equal to another one.
+   */
+  lessThanOrEqual(y: this | bigint | number | string) {
+    return this.Constructor.from(y).lessThan(this).not();
+  }
+  /**
+   * Asserts that this value is less than or equal to another one.
+   */
+  assertLessThanOrEqual(y: this | bigint | number | string, message?: string) {
+    let y_ = this.Constructor.from(y);
+    if (this.isConstant() && y_.isConstant()) {
+      let [x0, y0] = [this.toBigInt(), y_.toBigInt()];
+      if (x0 > y0) {
+        if (message !== undefined) throw Error(message);
+        throw Error(
+          `${this.Constructor.name}.assertLessThanOrEqual: expected ${x0} <= ${y0}`
+        );
+      }
+      return;
+    }
+    // x <= y iff y - x doesn't underflow
+    let { borrow } = subLimbs(y_.limbs, this.limbs);
+    borrow.assertEquals(0, message);
+  }
+  /**
+   * Checks if this value is greater than another one.
+   */
+  greaterThan(y: this | bigint | number | string) {
+    return this.Constructor.from(y).lessThan(this);
+  }
+  /**
+   * Asserts that this value is greater than another one.
+   */
+  assertGreaterThan(y: this | bigint | number | string, message?: string) {
+    this.Constructor.from(y).assertLessThan(this, message);
+  }
+  /**
+   * Checks if this value is greater than or equal to another one.
+   */
+  greaterThanOrEqual(y: this | bigint | number | string) {
+    return this.lessThan(y).not();
+  }
+  /**
+   * Asserts that this value is greater than or equal to another one.
+   */
+  assertGreaterThanOrEqual(
+    y: this | bigint | number | string,
+    message?: string
+  ) {
+    this.Constructor.from(y).assertLessThanOrEqual(this, message);
+  }
+
+  // conversion to and from bytes
+
+  /**
+   * Splits the value into `NUM_BITS / 8` bytes, in little-endian order.
+   */
+  toBytes(): UInt8[] {
+    return wordsToBytes(this.limbs);
+  }
+  /**
+   * Splits the value into `NUM_BITS / 8` bytes, in big-endian order.
+   */
+  toBytesBE(): UInt8[] {
+    return this.toBytes().reverse();
+  }
+
+  /**
+   * Creates a value from `NUM_BITS / 8` bytes, in little-endian order.
+   */
+  static fromBytes<T extends typeof WideUInt>(
+    this: T,
+    bytes: UInt8[]
+  ): InstanceType<T> {
+    let nBytes = this.NUM_BITS / 8;
+    assert(
+      bytes.length === nBytes,
+      `${this.name}.fromBytes: expected ${nBytes} bytes, got ${bytes.length}`
+    );
+    // the limbs are 64 bits because the bytes are range-checked
+    return new this(bytesToWords(bytes)) as InstanceType<T>;
+  }
+  /**
+   * Creates a value from `NUM_BITS / 8` bytes, in big-endian order.
+   */
+  static fromBytesBE<T extends typeof WideUInt>(
+    this: T,
+    bytes: UInt8[]
+  ): InstanceType<T> {
+    return this.fromBytes([...bytes].reverse());
+  }
+
+  private create(limbs: Field[]) {
+    return new this.Constructor(limbs) as this;
+  }
+}
+
+/**
+ * A 128 bit unsigned integer with values ranging from 0 to 2^128 - 1.
+ *
+ * Represented as two 64-bit limbs.
+ */
+class UInt128 extends WideUInt {
+  @arrayProp(Field, 2) limbs: Field[];
+  static NUM_BITS = 128;
+
+  /**
+   * Static method to create a {@link UInt128} with value `0`.
+   */
+  static get zero() {
+    return UInt128.from(0n);
+  }
+  /**
+   * Static method to create a {@link UInt128} with value `1`.
+   */
+  static get one() {
+    return UInt128.from(1n);
+  }
+}
+
+/**
+ * A 256 bit unsigned integer with values ranging from 0 to 2^256 - 1.
+ *
+ * Represented as four 64-bit limbs.
+ *
+ * @example
+ * ```ts
+ * // parse a big-endian Ethereum uint256, for example from a Keccak hash
+ * let hash = Keccak.ethereum(message);
+ * let x = UInt256.fromBytesBE(hash.bytes);
+ * ```
+ */
+class UInt256 extends WideUInt {
+  @arrayProp(Field, 4) limbs: Field[];
+  static NUM_BITS = 256;
+
+  /**
+   * Static method to create a {@link UInt256} with value `0`.
+   */
+  static get zero() {
+    return UInt256.from(0n);
+  }
+  /**
+   * Static method to create a {@link UInt256} with value `1`.
+   */
+  static get one() {
+    return UInt256.from(1n);
+  }
+}
+
+// limb gadgets
+
+/**
+ * Adds two limb vectors, asserting that the result doesn't overflow.
+ */
+function addLimbs(x: Field[], y: Field[]) {
+  let n = x.length;
+  let z: Field[] = [];
+  let carry = Field(0);
+  for (let i = 0; i < n - 1; i++) {
+    let sum = x[i].add(y[i]).add(carry).seal();
+    let [c, zi] = exists(2, () => {
+      let s = sum.toBigInt();
+      return [s >> limbBits, s & limbMask];
+    });
+    Bool.check(Bool.Unsafe.ofField(c));
+    RangeCheck.rangeCheck64(zi);
+    zi.add(c.mul(limbSize)).assertEquals(sum);
+    z.push(zi);
+    carry = c;
+  }
+  // there is no carry out of the top limb, so its sum has to fit in 64 bits
+  let top = x[n - 1]
+    .add(y[n - 1])
+    .add(carry)
+    .seal();
+  RangeCheck.rangeCheck64(top);
+  z.push(top);
+  return z;
+}
+
+/**
+ * Subtracts two limb vectors, and returns the result modulo 2^(64*n) together with the final borrow,
+ * which is 1 if `x < y` and 0 otherwise.
+ */
+function subLimbs(x: Field[], y: Field[]) {
+  let limbs: Field[] = [];
+  let borrow = Field(0);
+  for (let i = 0; i < x.length; i++) {
+    let borrowIn = borrow;
+    let diff = x[i].sub(y[i]).sub(borrowIn).seal();
+    let [b, zi] = exists(2, () => {
+      let d = x[i].toBigInt() - y[i].toBigInt() - borrowIn.toBigInt();
+      return d < 0n ? [1n, d + limbSize] : [0n, d];
+    });
+    Bool.check(Bool.Unsafe.ofField(b));
+    RangeCheck.rangeCheck64(zi);
+    zi.sub(b.mul(limbSize)).assertEquals(diff);
+    limbs.push(zi);
+    borrow = b;
+  }
+  return { limbs, borrow };
+}
+
+/**
+ * Asserts that `a*b + c = d` over the integers, where all inputs are limb vectors of the same length
+ * with range-checked 64-bit limbs.
+ *
+ * The product is computed column by column, with a witnessed carry between columns.
+ * All intermediate values are smaller than 2^140, so there is no wrap-around in the native field.
+ */
+function assertMulAdd(
+  a: Field[],
+  b: Field[],
+  c: Field[],
+  d: Field[],
+  message?: string
+) {
+  let n = a.length;
+  let carry = Field(0);
+  for (let k = 0; k < 2 * n - 1; k++) {
+    let column = carry;
+    for (let i = Math.max(0, k - n + 1); i <= Math.min(k, n - 1); i++) {
+      column = column.add(a[i].mul(b[k - i]));
+    }
+    if (k < n) column = column.add(c[k]).sub(d[k]);
+    column = column.seal();
+
+    // the top column has no carry out, so it has to be zero
+    if (k === 2 * n - 2) {
+      column.assertEquals(0, message);
+      break;
+    }
+    let column_ = column;
+    carry = existsOne(() => column_.toBigInt() >> limbBits);
+    // carries are smaller than n*2^64 + 1 < 2^80
+    RangeCheck.rangeCheckN(80, carry);
+    carry.mul(limbSize).assertEquals(column, message);
+  }
+}
+
+// helpers
+
+function split(x: bigint, n: number) {
+  return Array.from(
+    { length: n },
+    (_, i) => (x >> (limbBits * BigInt(i))) & limbMask
+  );
+}
+
+function combine(limbs: bigint[]) {
+  return limbs.reduce(
+    (acc, limb, i) => acc + (limb << (limbBits * BigInt(i))),
+    0n
+  );
+}
+
+function padLimbs(limbs: Field[], n: number) {
+  return limbs.concat(Array.from({ length: n - limbs.length }, () => Field(0)));
+}
+
+function checkShift(bits: number, numBits: number) {
+  assert(
+    Number.isInteger(bits) && bits >= 0 && bits < numBits,
+    `shift: expected bits to be between 0 and ${numBits - 1}, got ${bits}`
+  );
+}
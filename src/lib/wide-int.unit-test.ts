@@ -0,0 +1,111 @@
+import { UInt256, UInt128 } from './wide-int.js';
+import { UInt8, UInt64 } from './int.js';
+import { Provable } from './provable.js';
+import { test, Random } from './testing/property.js';
+import { expect } from 'expect';
+
+console.log('wide integer tests');
+
+const MAX128 = (1n << 128n) - 1n;
+const MAX256 = (1n << 256n) - 1n;
+
+// arithmetic in and out of provable code matches bigint arithmetic
+test(Random.biguint(256), Random.biguint(256), (x, y, assert) => {
+  let [small, large] = x < y ? [x, y] : [y, x];
+  let divisor = small === 0n ? 1n : small;
+
+  Provable.runAndCheck(() => {
+    let xVar = Provable.witness(UInt256, () => UInt256.from(x));
+    let yVar = Provable.witness(UInt256, () => UInt256.from(y));
+    let smallVar = Provable.witness(UInt256, () => UInt256.from(small));
+    let largeVar = Provable.witness(UInt256, () => UInt256.from(large));
+
+    largeVar.sub(smallVar).assertEquals(large - small);
+    if (x + y <= MAX256) xVar.add(yVar).assertEquals(x + y);
+
+    let { quotient, rest } = largeVar.divMod(divisor);
+    quotient.assertEquals(large / divisor);
+    rest.assertEquals(large % divisor);
+
+    xVar.and(yVar).assertEquals(x & y);
+    xVar.or(yVar).assertEquals(x | y);
+    xVar.xor(yVar).assertEquals(x ^ y);
+    xVar.not().assertEquals(MAX256 ^ x);
+
+    xVar.lessThan(yVar).assertEquals(x < y);
+    xVar.lessThanOrEqual(yVar).assertEquals(x <= y);
+    xVar.greaterThan(yVar).assertEquals(x > y);
+    xVar.equals(yVar).assertEquals(x === y);
+  });
+
+  assert(UInt256.from(x).toBigInt() === x, 'round-trips');
+});
+
+test(Random.biguint(128), Random.biguint(128), (x, y) => {
+  Provable.runAndCheck(() => {
+    let xVar = Provable.witness(UInt256, () => UInt256.from(x));
+    let yVar = Provable.witness(UInt256, () => UInt256.from(y));
+    xVar.mul(yVar).assertEquals(x * y);
+
+    let xVar128 = Provable.witness(UInt128, () => UInt128.from(x));
+    UInt128.from(xVar).assertEquals(xVar128);
+    UInt256.from(xVar128).assertEquals(x);
+  });
+});
+
+// shifts
+test(Random.biguint(256), Random.nat(255), (x, bits) => {
+  Provable.runAndCheck(() => {
+    let xVar = Provable.witness(UInt256, () => UInt256.from(x));
+    xVar.leftShift(bits).assertEquals((x << BigInt(bits)) & MAX256);
+    xVar.rightShift(bits).assertEquals(x >> BigInt(bits));
+  });
+});
+
+// byte conversion
+test(Random.biguint(256), (x, assert) => {
+  let bytes = UInt256.from(x).toBytesBE();
+  let hex = bytes.map((b) => b.toBigInt().toString(16).padStart(2, '0'));
+  assert(BigInt('0x' + hex.join('')) === x, 'big-endian bytes');
+
+  Provable.runAndCheck(() => {
+    let xVar = Provable.witness(UInt256, () => UInt256.from(x));
+    UInt256.fromBytesBE(xVar.toBytesBE()).assertEquals(xVar);
+    UInt256.fromBytes(xVar.toBytes()).assertEquals(xVar);
+  });
+});
+expect(
+  UInt128.fromBytes(
+    Array.from({ length: 16 }, () => UInt8.from(0xff))
+  ).toBigInt()
+).toEqual(MAX128);
+
+// overflow and underflow fail
+expect(() => UInt128.MAXINT().add(1)).toThrow();
+expect(() => UInt128.zero.sub(1)).toThrow();
+expect(() => UInt128.from(1n << 128n)).toThrow('Expected number between');
+
+expect(() =>
+  Provable.runAndCheck(() => {
+    let x = Provable.witness(UInt256, () => UInt256.MAXINT());
+    x.add(UInt256.one);
+  })
+).toThrow();
+expect(() =>
+  Provable.runAndCheck(() => {
+    let x = Provable.witness(UInt256, () => UInt256.from(1n << 128n));
+    x.mul(x);
+  })
+).toThrow('overflow');
+expect(() =>
+  Provable.runAndCheck(() => {
+    let x = Provable.witness(UInt128, () => UInt128.from(5));
+    x.sub(UInt128.from(UInt64.from(6)));
+  })
+).toThrow('underflow');
+expect(() =>
+  Provable.runAndCheck(() => {
+    let x = Provable.witness(UInt128, () => UInt128.from(5));
+    x.div(0);
+  })
+).toThrow('division by zero');